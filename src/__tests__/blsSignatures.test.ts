@@ -113,6 +113,17 @@ describe('BLS Signatures (BLS12-381)', () => {
       expect(aggregatedSig).not.toBe(sig3);
     });
 
+    it('should verify an aggregated signature against all signer public keys', () => {
+      const message = 'Block attestation';
+      const validators = [generateBLSKeyPair(), generateBLSKeyPair()];
+      const signatures = validators.map(v => generateBLSSignature(message, v.privateKey));
+      const aggregatedSig = aggregateBLSSignatures(signatures);
+
+      expect(verifyBLSSignature(message, aggregatedSig, validators.map(v => v.publicKey))).toBe(true);
+      // Missing a signer's public key must fail
+      expect(verifyBLSSignature(message, aggregatedSig, [validators[0].publicKey])).toBe(false);
+    });
+
     it('should handle single signature aggregation', () => {
       const keyPair = generateBLSKeyPair();
       const message = 'Single signature';
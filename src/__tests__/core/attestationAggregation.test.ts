@@ -0,0 +1,102 @@
+/**
+ * Unit tests for AttestationAggregation
+ * Tests BLS signing of attestations, aggregation with committee bitfields,
+ * verification of aggregates and expansion back into per-validator votes
+ */
+
+import { AttestationAggregation } from '../../core/consensus/attestationAggregation';
+import { BeaconState, Validator } from '../../core/consensus/beaconState';
+import { RANDAO } from '../../core/consensus/randao';
+import { Attestation } from '../../types/types';
+import { generateBLSKeyPair } from '../../utils/cryptoUtils';
+
+describe('AttestationAggregation', () => {
+  let beaconState: BeaconState;
+  const keys = [generateBLSKeyPair(), generateBLSKeyPair(), generateBLSKeyPair()];
+  const SLOT = 5;
+
+  /**
+   * Helper to create a signed attestation from validator i for blockHash in SLOT
+   */
+  function createSignedAttestation(i: number, blockHash: string): Attestation {
+    return AttestationAggregation.signAttestation({
+      validatorAddress: `validator${i}`,
+      blockHash,
+      timestamp: Date.now(),
+      slot: SLOT,
+      ffgSource: { epoch: 0, root: 'block0' },
+      ffgTarget: { epoch: 1, root: 'block4' }
+    }, keys[i].privateKey);
+  }
+
+  beforeEach(() => {
+    const validators: Validator[] = keys.map((key, i) => ({
+      nodeAddress: `validator${i}`,
+      stakedEth: 32,
+      blsPublicKey: key.publicKey
+    }));
+    beaconState = new BeaconState(Math.floor(Date.now() / 1000), validators);
+
+    // All three validators share the committee of SLOT
+    beaconState.attestationCommittees.set(1, new Map([
+      [4, []],
+      [SLOT, ['validator0', 'validator1', 'validator2']],
+      [6, []],
+      [7, []]
+    ]));
+  });
+
+  it('should verify a single signed attestation and reject a tampered one', () => {
+    const attestation = createSignedAttestation(0, 'block5');
+
+    expect(AttestationAggregation.verifyAttestation(beaconState, attestation)).toBe(true);
+    expect(AttestationAggregation.verifyAttestation(beaconState, { ...attestation, blockHash: 'other' })).toBe(false);
+  });
+
+  it('should aggregate identical votes into one signature with a committee bitfield', () => {
+    // Given: validator0 and validator2 vote for block5, validator1 votes for another head
+    const attestations = [
+      createSignedAttestation(0, 'block5'),
+      createSignedAttestation(2, 'block5'),
+      createSignedAttestation(1, 'block5b'),
+    ];
+
+    // When: The proposer aggregates them
+    const aggregates = AttestationAggregation.aggregate(beaconState, attestations);
+
+    // Then: One aggregate per distinct vote, with the participants' bits set
+    expect(aggregates).toHaveLength(2);
+    expect(aggregates[0].blockHash).toBe('block5');
+    expect(aggregates[0].aggregationBits).toEqual([true, false, true]);
+    expect(aggregates[1].aggregationBits).toEqual([false, true, false]);
+
+    // And: The aggregate verifies and expands back to the individual votes
+    expect(AttestationAggregation.verifyAggregatedAttestation(beaconState, aggregates[0]).valid).toBe(true);
+    const votes = AttestationAggregation.getIndividualAttestations(beaconState, [aggregates[0]]);
+    expect(votes.map(vote => vote.validatorAddress)).toEqual(['validator0', 'validator2']);
+  });
+
+  it('should reject an aggregate whose bitfield claims a validator that did not sign', () => {
+    const [aggregate] = AttestationAggregation.aggregate(beaconState, [createSignedAttestation(0, 'block5')]);
+
+    const forged = { ...aggregate, aggregationBits: [true, true, false] };
+
+    expect(AttestationAggregation.verifyAggregatedAttestation(beaconState, forged).valid).toBe(false);
+    expect(AttestationAggregation.verifyAggregatedAttestation(beaconState, { ...aggregate, aggregationBits: [true] }).valid).toBe(false);
+  });
+
+  it('should read bitfields against committees recomputed after a late block of the previous epoch', () => {
+    // Given: An aggregate built against the committee the node had for SLOT
+    const [aggregate] = AttestationAggregation.aggregate(beaconState, [createSignedAttestation(0, 'block5')]);
+    expect(aggregate.aggregationBits).toEqual([true, false, false]);
+
+    // When: A late epoch 0 block is applied, changing the RANDAO seed of epoch 1
+    RANDAO.updateRandaoMix(beaconState, 0, 'abcdef1234567890');
+    beaconState.clearDutiesAfter(0);
+
+    // Then: The committee comes from the new seed, and the old bitfield no longer fits it
+    const committee = RANDAO.getAttestationCommittees(beaconState, 1)[SLOT - 4];
+    expect(AttestationAggregation.getParticipants(beaconState, { ...aggregate, aggregationBits: committee.map(() => true) })).toEqual(committee);
+    expect(AttestationAggregation.verifyAggregatedAttestation(beaconState, aggregate).valid).toBe(false);
+  });
+});
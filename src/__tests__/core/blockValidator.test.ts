@@ -0,0 +1,100 @@
+/**
+ * Unit tests for block proposer validation
+ * Tests that blocks must name and be signed by the scheduled proposer,
+ * pay the coinbase to that proposer and carry a valid RANDAO reveal
+ */
+
+import { validateBlock, calculateBlockBodyRoot, calculateBlockSigningRoot, calculateTransactionHash } from '../../core/validation/blockValidator';
+import { createCoinbaseTransaction } from '../../core/blockchain/transaction';
+import { WorldState } from '../../core/blockchain/worldState';
+import { BeaconState, Validator } from '../../core/consensus/beaconState';
+import { RANDAO } from '../../core/consensus/randao';
+import { Node } from '../../core/node';
+import { Block, BlockHeader } from '../../types/types';
+import { generateBLSKeyPair, generateBLSSignature } from '../../utils/cryptoUtils';
+
+describe('validateBlock proposer checks', () => {
+  let beaconState: BeaconState;
+  const keys = [generateBLSKeyPair(), generateBLSKeyPair()];
+  const SLOT = 3;
+  const PARENT_HASH = 'parent';
+
+  /**
+   * Helper to create a block for SLOT signed by validator i
+   * The header may be overridden before signing, the block after signing
+   */
+  function createSignedBlock(i: number, headerOverrides: Partial<BlockHeader> = {}, randaoEpoch: number = 0): Block {
+    const transactions = [createCoinbaseTransaction(`validator${i}`)];
+    const node = { getPrivateKey: () => keys[i].privateKey } as unknown as Node;
+    const body = { attestations: [], randaoReveal: RANDAO.calculateRandaoReveal(randaoEpoch, node) };
+    const header: BlockHeader = {
+      transactionHash: calculateTransactionHash(transactions),
+      bodyRoot: calculateBlockBodyRoot(body),
+      timestamp: Date.now(),
+      previousHeaderHash: PARENT_HASH,
+      height: 1,
+      slot: SLOT,
+      proposerAddress: `validator${i}`,
+      gasUsed: 0,
+      baseFeePerGas: 1,
+      ...headerOverrides
+    };
+    header.proposerSignature = generateBLSSignature(calculateBlockSigningRoot(header), keys[i].privateKey);
+
+    return { header, transactions, ...body };
+  }
+
+  beforeEach(() => {
+    const validators: Validator[] = keys.map((key, i) => ({
+      nodeAddress: `validator${i}`,
+      stakedEth: 32,
+      blsPublicKey: key.publicKey
+    }));
+    beaconState = new BeaconState(Math.floor(Date.now() / 1000), validators);
+
+    // validator0 is scheduled for every slot of epoch 0
+    beaconState.proposerSchedules.set(0, new Map([[0, 'validator0'], [1, 'validator0'], [2, 'validator0'], [SLOT, 'validator0']]));
+  });
+
+  it('should accept a block signed by the scheduled proposer', async () => {
+    const result = await validateBlock(createSignedBlock(0), new WorldState(), PARENT_HASH, beaconState);
+
+    expect(result).toEqual({ valid: true });
+  });
+
+  it('should reject a correctly signed block from a validator that is not scheduled', async () => {
+    const result = await validateBlock(createSignedBlock(1), new WorldState(), PARENT_HASH, beaconState);
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('not the scheduled proposer');
+  });
+
+  it('should reject a block claiming the scheduled proposer but signed by another validator', async () => {
+    // Given: validator1 signs a header naming validator0
+    const block = createSignedBlock(1, { proposerAddress: 'validator0' });
+
+    // When: It is validated
+    const result = await validateBlock(block, new WorldState(), PARENT_HASH, beaconState);
+
+    // Then: The proposer signature does not verify
+    expect(result.error).toContain('Invalid proposer signature');
+  });
+
+  it('should reject a signed block whose body was changed after signing', async () => {
+    // Given: A relay adds slashing evidence to a block signed by the scheduled proposer
+    const block = createSignedBlock(0);
+    const tampered = { ...block, proposerSlashings: [{ proposerAddress: 'validator1', header1: block.header, header2: block.header }] };
+
+    // When: It is validated
+    const result = await validateBlock(tampered, new WorldState(), PARENT_HASH, beaconState);
+
+    // Then: The body no longer matches the root the proposer signed
+    expect(result.error).toContain('Body root mismatch');
+  });
+
+  it('should reject a block whose RANDAO reveal is for another epoch', async () => {
+    const result = await validateBlock(createSignedBlock(0, {}, 1), new WorldState(), PARENT_HASH, beaconState);
+
+    expect(result.error).toContain('Invalid RANDAO reveal');
+  });
+});
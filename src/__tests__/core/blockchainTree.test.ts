@@ -17,10 +17,13 @@ describe('BlockchainTree', () => {
       hash,
       header: {
         transactionHash: '',
+        bodyRoot: '',
         timestamp: Date.now(),
         previousHeaderHash: parentHash,
         height,
         slot,
+        gasUsed: 0,
+        baseFeePerGas: 1,
       },
       transactions: [],
       attestations: [],
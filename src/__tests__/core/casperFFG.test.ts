@@ -17,10 +17,13 @@ describe('CasperFFG', () => {
       hash,
       header: {
         transactionHash: '',
+        bodyRoot: '',
         timestamp: Date.now(),
         previousHeaderHash: '',
         height,
         slot,
+        gasUsed: 0,
+        baseFeePerGas: 1,
       },
       transactions: [],
       attestations: [],
@@ -4,6 +4,8 @@
  */
 
 import { CasperFFG } from '../../core/consensus/casperFFG';
+import { BeaconState } from '../../core/consensus/beaconState';
+import { SimulatorConfig } from '../../config/config';
 
 describe('CasperFFG Finality Tracking', () => {
   
@@ -247,6 +249,24 @@ describe('CasperFFG Finality Tracking', () => {
       expect(beaconState.justifiedCheckpoint.epoch).toBe(2);
     });
     
+    it('should weight votes by stake', () => {
+      // Given: 4 validators, two of them drained to 8 ETH (total stake 80)
+      const beaconState = createMockBeaconState(4);
+      beaconState.validators[2].stakedEth = 8;
+      beaconState.validators[3].stakedEth = 8;
+      
+      // When: Only the two full-stake validators attest (64/80 > 2/3)
+      const attestations = [
+        createAttestation('validator0', 'block1', -1, null, 0, 'block1'),
+        createAttestation('validator1', 'block1', -1, null, 0, 'block1')
+      ];
+      
+      CasperFFG.applyAttestationsToBeaconState(beaconState, attestations);
+      
+      // Then: Epoch 0 justified even though only half the validators voted
+      expect(beaconState.justifiedCheckpoint.epoch).toBe(0);
+    });
+    
     it('should handle 3 validators with threshold of 2', () => {
       // Given: 3 validators, threshold = 2 (ceil(2*3/3))
       const beaconState = createMockBeaconState(3);
@@ -263,4 +283,39 @@ describe('CasperFFG Finality Tracking', () => {
       expect(beaconState.justifiedCheckpoint.epoch).toBe(0);
     });
   });
+  
+  describe('reorg', () => {
+    
+    it('should roll back justification when a snapshot from before it is restored', () => {
+      // Given: A beacon state snapshot taken before epoch 0 was justified
+      const beaconState = new BeaconState(0, createMockBeaconState(4).validators);
+      const snapshot = beaconState.createSnapshot();
+      
+      const genesisRoot = SimulatorConfig.GENESIS_PREV_HASH;
+      CasperFFG.applyAttestationsToBeaconState(beaconState, [
+        createAttestation('validator0', 'forkBlock', -1, genesisRoot, 0, 'forkBlock'),
+        createAttestation('validator1', 'forkBlock', -1, genesisRoot, 0, 'forkBlock'),
+        createAttestation('validator2', 'forkBlock', -1, genesisRoot, 0, 'forkBlock')
+      ]);
+      expect(beaconState.justifiedCheckpoint).toEqual({ epoch: 0, root: 'forkBlock' });
+      
+      // When: A reorg rewinds to the snapshot (the fork that justified epoch 0 is abandoned)
+      beaconState.restoreSnapshot(snapshot);
+      
+      // Then: The justified checkpoint and the fork's FFG votes are gone
+      expect(beaconState.justifiedCheckpoint).toEqual({ epoch: -1, root: genesisRoot });
+      expect(beaconState.previousJustifiedCheckpoint).toBeNull();
+      expect(beaconState.finalizedCheckpoint).toBeNull();
+      expect(beaconState.ffgVoteCounts).toEqual({});
+      expect(beaconState.latestAttestationByValidator).toEqual({});
+      
+      // And: The canonical chain's votes can justify epoch 0 again
+      CasperFFG.applyAttestationsToBeaconState(beaconState, [
+        createAttestation('validator0', 'canonicalBlock', -1, genesisRoot, 0, 'canonicalBlock'),
+        createAttestation('validator1', 'canonicalBlock', -1, genesisRoot, 0, 'canonicalBlock'),
+        createAttestation('validator2', 'canonicalBlock', -1, genesisRoot, 0, 'canonicalBlock')
+      ]);
+      expect(beaconState.justifiedCheckpoint).toEqual({ epoch: 0, root: 'canonicalBlock' });
+    });
+  });
 });
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for consensus strategies
+ * Tests the decisions each Byzantine behaviour changes, and how honest nodes react to them
+ */
+
+import {
+  createConsensusStrategy,
+  NODE_BEHAVIOURS,
+  CensorStrategy,
+  StaleAttestationStrategy
+} from '../../core/consensus/consensusStrategy';
+import { Blockchain } from '../../core/blockchain/blockchain';
+import { NetworkManager } from '../../network/networkManager';
+import { SimulatorConfig } from '../../config/config';
+import { Attestation, EthereumTransaction } from '../../types/types';
+
+describe('ConsensusStrategy', () => {
+  /**
+   * Helper to create a blockchain stand-in whose tree is the chain genesis <- a <- b <- c
+   */
+  function createChain(): Blockchain {
+    const genesis = { hash: 'genesis', parent: null };
+    const a = { hash: 'a', parent: genesis };
+    const b = { hash: 'b', parent: a };
+    const c = { hash: 'c', parent: b };
+    const nodes: Record<string, unknown> = { genesis, a, b, c };
+    return { getTree: () => ({ getNode: (hash: string) => nodes[hash] }) } as unknown as Blockchain;
+  }
+
+  it('should create every behaviour and reject unknown ones', () => {
+    NODE_BEHAVIOURS.forEach(behaviour => expect(createConsensusStrategy(behaviour).behaviour).toBe(behaviour));
+    expect(() => createConsensusStrategy('lazy')).toThrow('Unknown node behaviour "lazy"');
+  });
+
+  it('should leave censored senders out of blocks', () => {
+    const censor = new CensorStrategy(['0xred']);
+    const transactions = [{ from: '0xred', txid: '1' }, { from: '0xblue', txid: '2' }] as EthereumTransaction[];
+    const attestations = [{ validatorAddress: '0xred' }, { validatorAddress: '0xgreen' }] as Attestation[];
+
+    expect(censor.filterTransactions(transactions).map(tx => tx.txid)).toEqual(['2']);
+    expect(censor.filterAttestations(attestations).map(a => a.validatorAddress)).toEqual(['0xgreen']);
+    expect(createConsensusStrategy('honest').filterTransactions(transactions)).toHaveLength(2);
+  });
+
+  it('should vote for an ancestor of the head, stopping at genesis', () => {
+    const blockchain = createChain();
+
+    expect(new StaleAttestationStrategy(2).chooseAttestationHead('c', blockchain)).toBe('a');
+    expect(new StaleAttestationStrategy(10).chooseAttestationHead('c', blockchain)).toBe('genesis');
+    expect(createConsensusStrategy('honest').chooseAttestationHead('c', blockchain)).toBe('c');
+  });
+
+  describe('in a network', () => {
+    let networkManager: NetworkManager;
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      networkManager = new NetworkManager(1_700_000_000_000);
+      networkManager.createFullyConnectedNetwork(4);
+    });
+
+    afterEach(() => {
+      networkManager.stopAllNodes();
+      jest.restoreAllMocks();
+    });
+
+    it('should keep withheld and invalid blocks out of honest chains', async () => {
+      // Given: Blue withholds its blocks and Red spams invalid blocks
+      networkManager.setNodeBehaviour('Blue', 'withhold-blocks');
+      networkManager.setNodeBehaviour('Red', 'invalid-blocks');
+      networkManager.startSlotProcessing();
+
+      // When: One epoch of virtual time is run
+      await networkManager.getScheduler().runFor(SimulatorConfig.SLOTS_PER_EPOCH * SimulatorConfig.SECONDS_PER_SLOT * 1000);
+
+      // Then: Honest nodes agree on a chain with no block proposed by Blue and no invalid block
+      const blueAddress = networkManager.getNode('Blue')!.getNodeAddress();
+      const greenChain = networkManager.getNode('Green')!.getState().blockchain;
+      const yellowChain = networkManager.getNode('Yellow')!.getState().blockchain;
+      expect(yellowChain.map((block: any) => block.hash)).toEqual(greenChain.map((block: any) => block.hash));
+      expect(greenChain.length).toBeGreaterThan(1);
+      expect(greenChain.some((block: any) => block.header.proposerAddress === blueAddress)).toBe(false);
+      expect(greenChain.every((block: any) => block.transactions.length > 0)).toBe(true);
+
+      // And: Red's invalid blocks were dropped on arrival - no honest node stored them
+      for (const nodeId of ['Green', 'Yellow']) {
+        const tree = networkManager.getNode(nodeId)!.getState().blockchainTree;
+        expect(tree.getAllBlocks().every((block: any) => block.transactions.length > 0)).toBe(true);
+      }
+
+      // And: Blue did propose - it kept its blocks to itself
+      const blueChain = networkManager.getNode('Blue')!.getState().blockchain;
+      expect(blueChain.some((block: any) => block.header.proposerAddress === blueAddress)).toBe(true);
+      expect(networkManager.getNetworkState().Red.behaviour).toBe('invalid-blocks');
+    }, 120000);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for EventScheduler and SimulationClock
+ * Tests event ordering, cancellation, repeating events and running in virtual time
+ */
+
+import { EventScheduler } from '../../core/simulation/eventScheduler';
+import { SimulationClock } from '../../core/simulation/simulationClock';
+
+describe('EventScheduler', () => {
+  let clock: SimulationClock;
+  let scheduler: EventScheduler;
+
+  beforeEach(() => {
+    clock = new SimulationClock(1000);
+    scheduler = new EventScheduler(clock);
+  });
+
+  it('should run events in time order, then in scheduling order', async () => {
+    // Given: Events scheduled out of order, two of them at the same time
+    const log: string[] = [];
+    scheduler.schedule(30, () => { log.push('c'); });
+    scheduler.schedule(10, () => { log.push('a'); });
+    scheduler.schedule(30, () => { log.push('d'); });
+    scheduler.schedule(20, () => { log.push('b'); });
+
+    // When: The scheduler runs as fast as possible
+    const count = await scheduler.runFor(100);
+
+    // Then: Events ran by time, ties in the order they were scheduled
+    expect(count).toBe(4);
+    expect(log).toEqual(['a', 'b', 'c', 'd']);
+    expect(clock.now()).toBe(1100);
+  });
+
+  it('should advance the clock to each event and await async callbacks', async () => {
+    const log: string[] = [];
+    scheduler.schedule(50, async () => {
+      await Promise.resolve();
+      log.push(`first@${clock.now()}`);
+      scheduler.schedule(5, () => { log.push(`follow-up@${clock.now()}`); });
+    });
+    scheduler.schedule(55, () => { log.push(`second@${clock.now()}`); });
+
+    // Step one event at a time
+    expect(await scheduler.step()).toBe(true);
+    expect(log).toEqual(['first@1050']);
+
+    await scheduler.runUntil(2000);
+
+    // The follow-up scheduled for 1055 runs after the event already queued for 1055
+    expect(log).toEqual(['first@1050', 'second@1055', 'follow-up@1055']);
+    expect(await scheduler.step()).toBe(false);
+  });
+
+  it('should repeat events until cancelled', async () => {
+    const times: number[] = [];
+    const id = scheduler.scheduleRepeating(100, () => {
+      times.push(clock.now());
+      if (times.length === 3) scheduler.cancel(id);
+    }, 'tick', 1050);
+
+    await scheduler.runFor(1000);
+
+    expect(times).toEqual([1050, 1150, 1250]);
+    expect(scheduler.getPendingEventCount()).toBe(0);
+  });
+
+  it('should skip cancelled events and keep running after a failing event', async () => {
+    const log: string[] = [];
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const cancelled = scheduler.schedule(10, () => { log.push('cancelled'); });
+    scheduler.schedule(20, () => { throw new Error('boom'); }, 'failing');
+    scheduler.schedule(30, () => { log.push('after failure'); });
+    scheduler.cancel(cancelled);
+
+    await scheduler.runFor(100);
+
+    expect(log).toEqual(['after failure']);
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it('should not move the clock backwards', () => {
+    expect(() => clock.advanceTo(999)).toThrow();
+  });
+});
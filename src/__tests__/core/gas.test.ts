@@ -0,0 +1,149 @@
+/**
+ * Unit tests for gas accounting
+ * Tests fees, refunds, burning and receipts when a block is applied, base fee adjustment
+ * and how proposers fill blocks
+ */
+
+import { WorldState } from '../../core/blockchain/worldState';
+import { BlockCreator } from '../../core/blockchain/blockCreator';
+import { calculateGasFee, calculateIntrinsicGas, calculateNextBaseFee, estimateGasLimit, getGasTarget } from '../../core/blockchain/gas';
+import { SimulatorConfig } from '../../config/config';
+import { Block, EthereumTransaction } from '../../types/types';
+
+describe('Gas accounting', () => {
+  const PROPOSER = '0xproposer';
+  const PAINT_CONTRACT = '0xEPM_PAINT_CONTRACT';
+  const BASE_FEE = 4;
+
+  /**
+   * Helper to create an unsigned transaction from alice
+   */
+  function createTransaction(txid: string, to: string, value: number, overrides: Partial<EthereumTransaction> = {}): EthereumTransaction {
+    return {
+      from: '0xalice',
+      to,
+      value,
+      nonce: 0,
+      gasLimit: estimateGasLimit(to),
+      maxFeePerGas: 10,
+      maxPriorityFeePerGas: 2,
+      signature: '',
+      timestamp: 0,
+      txid,
+      ...overrides
+    };
+  }
+
+  /**
+   * Helper to create a block proposed by PROPOSER with a base fee of BASE_FEE
+   */
+  function createBlock(transactions: EthereumTransaction[]): Block {
+    return {
+      header: { transactionHash: '', bodyRoot: '', timestamp: 0, previousHeaderHash: '', height: 1, slot: 0, proposerAddress: PROPOSER, gasUsed: 0, baseFeePerGas: BASE_FEE },
+      transactions,
+      attestations: [],
+      hash: 'block1'
+    };
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should charge senders for the gas used, refund the rest, burn the base fee and tip the proposer', () => {
+    // Given: Alice sends a transfer with a generous gas limit and a paint call with no gas for execution
+    const worldState = new WorldState({ '0xalice': { address: '0xalice', balance: 10, nonce: 0 } });
+    const data = JSON.stringify({ color: 'blue' });
+    const transfer = createTransaction('transfer', '0xbob', 1, { gasLimit: 50000 });
+    const paint = createTransaction('paint', PAINT_CONTRACT, 2, { data, nonce: 1, gasLimit: calculateIntrinsicGas({ to: PAINT_CONTRACT, data }) });
+
+    // When: Both are applied in one block
+    const blockGasUsed = worldState.applyBlock(createBlock([transfer, paint]));
+
+    // Then: The transfer used 21000 gas (29000 refunded) and the paint call ran out of gas, using its whole limit
+    const receipts = worldState.receipts['block1'];
+    const totalGas = 21000 + paint.gasLimit;
+    expect(receipts['transfer']).toMatchObject({ status: 1, gasUsed: 21000, cumulativeGasUsed: 21000, effectiveGasPrice: BASE_FEE + 2 });
+    expect(receipts['paint']).toMatchObject({ status: 0, gasUsed: paint.gasLimit, cumulativeGasUsed: totalGas });
+    expect(receipts['paint'].revertReason).toContain('Out of gas');
+    expect(blockGasUsed).toBe(totalGas);
+
+    // And: Alice paid the transfer value plus base fee and tip (not the paint value), but only the tip went to the proposer
+    const fees = calculateGasFee(totalGas, BASE_FEE + 2);
+    expect(worldState.accounts['0xalice'].balance).toBeCloseTo(10 - 1 - fees, 12);
+    expect(worldState.accounts['0xalice'].nonce).toBe(2);
+    expect(worldState.accounts[PROPOSER].balance).toBeCloseTo(calculateGasFee(totalGas, 2), 12);
+  });
+
+  it('should charge contract calls for their data and refund the execution gas when they revert', () => {
+    // Given: A deposit contract call with data the contract does not understand
+    const worldState = new WorldState({ '0xalice': { address: '0xalice', balance: 10, nonce: 0 } });
+    const depositContract = SimulatorConfig.DEPOSIT_CONTRACT_ADDRESS;
+    const data = 'not a deposit';
+    const call = createTransaction('call', depositContract, 1, { data, gasLimit: estimateGasLimit(depositContract, data) });
+
+    // When: It is applied
+    worldState.applyBlock(createBlock([call]));
+
+    // Then: It reverted after the intrinsic gas, so the execution gas was refunded
+    const receipt = worldState.receipts['block1']['call'];
+    expect(receipt.status).toBe(0);
+    expect(receipt.gasUsed).toBe(21000 + data.length * SimulatorConfig.CALLDATA_GAS_PER_BYTE);
+    expect(call.gasLimit - receipt.gasUsed).toBe(SimulatorConfig.CONTRACT_CALL_GAS);
+    expect(worldState.accounts['0xalice'].balance).toBeCloseTo(10 - calculateGasFee(receipt.gasUsed, BASE_FEE + 2), 12);
+  });
+
+  it('should cap the tip at the max fee and reject transactions below the base fee', () => {
+    // Given: One transfer whose max fee leaves room for half its tip, and one below the base fee
+    const worldState = new WorldState({ '0xalice': { address: '0xalice', balance: 10, nonce: 0 } });
+    const capped = createTransaction('capped', '0xbob', 1, { maxFeePerGas: BASE_FEE + 1 });
+    const tooCheap = createTransaction('tooCheap', '0xbob', 1, { nonce: 1, maxFeePerGas: BASE_FEE - 1, maxPriorityFeePerGas: 0 });
+
+    // When: Both are applied
+    worldState.applyBlock(createBlock([capped, tooCheap]));
+
+    // Then: The first paid its max fee and the second was not executed
+    expect(worldState.receipts['block1']['capped'].effectiveGasPrice).toBe(BASE_FEE + 1);
+    expect(worldState.receipts['block1']['tooCheap']).toBeUndefined();
+    expect(worldState.accounts[PROPOSER].balance).toBeCloseTo(calculateGasFee(21000, 1), 12);
+  });
+
+  it('should move the base fee towards the gas target by at most 12.5%', () => {
+    const target = getGasTarget();
+    const limit = SimulatorConfig.BLOCK_GAS_LIMIT;
+
+    expect(calculateNextBaseFee({ gasUsed: limit, baseFeePerGas: 8 })).toBe(9);
+    expect(calculateNextBaseFee({ gasUsed: target, baseFeePerGas: 8 })).toBe(8);
+    expect(calculateNextBaseFee({ gasUsed: 0, baseFeePerGas: 8 })).toBe(7);
+    expect(calculateNextBaseFee({ gasUsed: 0, baseFeePerGas: SimulatorConfig.MIN_BASE_FEE_GWEI })).toBe(SimulatorConfig.MIN_BASE_FEE_GWEI);
+  });
+
+  it('should fill blocks up to the gas budget', () => {
+    const transactions = [
+      createTransaction('a', '0xbob', 1, { gasLimit: 60000 }),
+      createTransaction('b', '0xbob', 1, { gasLimit: 50000 }),
+      createTransaction('c', '0xbob', 1, { gasLimit: 40000 })
+    ];
+
+    expect(BlockCreator.selectTransactions(transactions, 100000, BASE_FEE).map(tx => tx.txid)).toEqual(['a']);
+    expect(BlockCreator.selectTransactions(transactions, 0, BASE_FEE)).toEqual([]);
+  });
+
+  it('should take the highest tips first, keeping each sender in nonce order', () => {
+    // Given: Bob tips more than Alice, Carol's max fee is below the base fee
+    const transactions = [
+      createTransaction('alice0', '0xbob', 1, { maxPriorityFeePerGas: 1 }),
+      createTransaction('alice1', '0xbob', 1, { nonce: 1, maxPriorityFeePerGas: 5 }),
+      createTransaction('bob0', '0xalice', 1, { from: '0xbob', maxPriorityFeePerGas: 3 }),
+      createTransaction('carol0', '0xalice', 1, { from: '0xcarol', maxFeePerGas: BASE_FEE - 1, maxPriorityFeePerGas: 0 })
+    ];
+
+    // Then: Bob goes first; Alice's big tip waits for her first transaction; Carol waits for a lower base fee
+    expect(BlockCreator.selectTransactions(transactions, 1_000_000, BASE_FEE).map(tx => tx.txid)).toEqual(['bob0', 'alice0', 'alice1']);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for InactivityLeak
+ * Tests leak activation, inactivity scores and recovery of finality
+ * after a long period with less than 2/3 of the stake online
+ */
+
+import { InactivityLeak } from '../../core/consensus/inactivityLeak';
+import { Rewards } from '../../core/consensus/rewards';
+import { CasperFFG } from '../../core/consensus/casperFFG';
+import { BeaconState, Validator } from '../../core/consensus/beaconState';
+import { SimulatorConfig } from '../../config/config';
+
+describe('InactivityLeak', () => {
+  let beaconState: BeaconState;
+
+  /**
+   * Helper to mark validators as having voted correctly for an epoch
+   */
+  function participate(epoch: number, addresses: string[]) {
+    beaconState.epochParticipation[epoch] = {};
+    for (const address of addresses) {
+      beaconState.epochParticipation[epoch][address] = { source: true, target: true, head: true };
+    }
+  }
+
+  beforeEach(() => {
+    const validators: Validator[] = [
+      { nodeAddress: 'validator1', stakedEth: 32 },
+      { nodeAddress: 'validator2', stakedEth: 32 },
+      { nodeAddress: 'validator3', stakedEth: 32 },
+      { nodeAddress: 'validator4', stakedEth: 32 },
+    ];
+    beaconState = new BeaconState(Math.floor(Date.now() / 1000), validators);
+  });
+
+  describe('isInLeak', () => {
+    it('should start leaking only after MIN_EPOCHS_TO_INACTIVITY_PENALTY epochs without finality', () => {
+      // Given: Epoch 2 is finalized
+      beaconState.finalizedCheckpoint = { epoch: 2, root: 'block2' };
+      const lastSafeEpoch = 2 + SimulatorConfig.MIN_EPOCHS_TO_INACTIVITY_PENALTY;
+
+      expect(InactivityLeak.isInLeak(beaconState, lastSafeEpoch)).toBe(false);
+      expect(InactivityLeak.isInLeak(beaconState, lastSafeEpoch + 1)).toBe(true);
+    });
+  });
+
+  describe('processEpoch', () => {
+    it('should not penalize anyone while the chain is finalizing', () => {
+      // Given: Recent finality and a validator that missed its vote
+      beaconState.finalizedCheckpoint = { epoch: 0, root: 'block0' };
+
+      const penalties = InactivityLeak.processEpoch(beaconState, 1, {});
+
+      // Then: Scores recover immediately, no inactivity penalty
+      expect(penalties).toEqual({});
+      expect(beaconState.inactivityScores['validator1']).toBe(0);
+    });
+
+    it('should grow scores and penalties of inactive validators during a leak', () => {
+      // Given: No finality for a long time, validator1 and validator2 online
+      const firstLeakEpoch = SimulatorConfig.MIN_EPOCHS_TO_INACTIVITY_PENALTY;
+      const online = { validator1: { source: true, target: true, head: true }, validator2: { source: true, target: true, head: true } };
+
+      // When: Two leaking epochs are processed
+      const first = InactivityLeak.processEpoch(beaconState, firstLeakEpoch, online);
+      const second = InactivityLeak.processEpoch(beaconState, firstLeakEpoch + 1, online);
+
+      // Then: Only offline validators are penalized, and the penalty grows
+      expect(beaconState.inactivityScores['validator1']).toBe(0);
+      expect(beaconState.inactivityScores['validator3']).toBe(2 * SimulatorConfig.INACTIVITY_SCORE_BIAS);
+      expect(first['validator1']).toBeUndefined();
+      expect(second['validator3']).toBeGreaterThan(first['validator3']);
+    });
+  });
+
+  describe('finality recovery', () => {
+    it('should drain offline validators until the online half can justify again', () => {
+      // Given: Only validator1 and validator2 are online (50% of stake - below 2/3)
+      const online = ['validator1', 'validator2'];
+      let epoch = 0;
+      const canJustify = () => {
+        const onlineStake = online.reduce((sum, address) => sum + beaconState.getEffectiveBalance(address), 0);
+        return onlineStake * 3 >= CasperFFG.getTotalActiveStake(beaconState, epoch) * 2;
+      };
+      expect(canJustify()).toBe(false);
+
+      // When: Epochs pass without finality
+      while (!canJustify() && epoch < 100) {
+        participate(epoch, online);
+        Rewards.processEpoch(beaconState, epoch);
+        epoch++;
+      }
+
+      // Then: The leak restored a 2/3 online majority, online validators kept their stake
+      expect(canJustify()).toBe(true);
+      expect(beaconState.lastEpochRewards?.inactivityLeak).toBe(true);
+      expect(beaconState.getValidatorStake('validator1')).toBeGreaterThanOrEqual(32);
+      expect(beaconState.getValidatorStake('validator3')).toBeLessThan(16.5);
+    });
+  });
+});
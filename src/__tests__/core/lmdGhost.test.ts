@@ -7,6 +7,7 @@ import { LmdGhost } from '../../core/consensus/lmdGhost';
 import { BlockchainTree, BlockTreeNode } from '../../core/blockchain/blockchainTree';
 import { Block } from '../../types/types';
 import { BeaconState, Validator } from '../../core/consensus/beaconState';
+import { SimulatorConfig } from '../../config/config';
 
 describe('LmdGhost', () => {
   let tree: BlockchainTree;
@@ -24,10 +25,13 @@ describe('LmdGhost', () => {
       hash,
       header: {
         transactionHash: '',
+        bodyRoot: '',
         timestamp: Date.now(),
         previousHeaderHash: parentHash,
         height,
         slot,
+        gasUsed: 0,
+        baseFeePerGas: 1,
       },
       transactions: [],
       attestations: [],
@@ -247,6 +251,104 @@ describe('LmdGhost', () => {
     });
   });
 
+  describe('stake weighting', () => {
+    it('should weight votes by effective balance capped at MAX_EFFECTIVE_BALANCE', () => {
+      // Given: validator1 has 16 ETH, validator2 has 100 ETH (above the cap)
+      beaconState.validators[0] = { nodeAddress: 'validator1', stakedEth: 16 };
+      beaconState.validators[1] = { nodeAddress: 'validator2', stakedEth: 100 };
+      
+      // When: Both attest to different forks
+      LmdGhost.onNewAttestations(beaconState, tree, [
+        createAttestation('validator1', 'blockB', 1000),
+        createAttestation('validator2', 'blockC', 1000),
+      ]);
+      
+      // Then: Weights are 16 and MAX_EFFECTIVE_BALANCE, and the heavier fork wins
+      const nodeB = tree.getNode('blockB')!;
+      const nodeC = tree.getNode('blockC')!;
+      
+      expect(nodeB.metadata.attestedEth).toBe(16);
+      expect(nodeC.metadata.attestedEth).toBe(SimulatorConfig.MAX_EFFECTIVE_BALANCE);
+      expect(LmdGhost.computeGhostHead(tree)).toBe('blockC');
+    });
+
+    it('should re-weight existing votes when a balance changes', () => {
+      // Given: validator1 attests to blockB with 32 ETH
+      LmdGhost.onNewAttestations(beaconState, tree, [createAttestation('validator1', 'blockB', 1000)]);
+      
+      // When: validator1 loses 8 ETH and balances are re-applied
+      beaconState.validators[0] = { nodeAddress: 'validator1', stakedEth: 24 };
+      LmdGhost.onValidatorBalancesChanged(beaconState, tree);
+      
+      // Then: blockB and its ancestors carry the new weight
+      expect(tree.getNode('blockB')!.metadata.attestedEth).toBe(24);
+      expect(tree.getNode('blockA')!.metadata.attestedEth).toBe(24);
+      
+      // And: Moving the vote removes exactly the new weight
+      LmdGhost.onNewAttestations(beaconState, tree, [createAttestation('validator1', 'blockC', 2000)]);
+      expect(tree.getNode('blockB')!.metadata.attestedEth).toBe(0);
+      expect(tree.getNode('blockC')!.metadata.attestedEth).toBe(24);
+      expect(tree.getNode('blockA')!.metadata.attestedEth).toBe(24);
+    });
+
+    it('should drop the weight of slashed validators', () => {
+      // Given: Two validators attest to blockB
+      LmdGhost.onNewAttestations(beaconState, tree, [
+        createAttestation('validator1', 'blockB', 1000),
+        createAttestation('validator2', 'blockB', 1000),
+      ]);
+      
+      // When: validator1 is slashed
+      beaconState.validators[0] = { ...beaconState.validators[0], slashed: true };
+      LmdGhost.onValidatorBalancesChanged(beaconState, tree);
+      
+      // Then: Only validator2's vote counts
+      expect(tree.getNode('blockB')!.metadata.attestedEth).toBe(32);
+    });
+  });
+
+  describe('proposer boost', () => {
+    it('should let a timely block outweigh a competing block with fewer votes', () => {
+      // Given: Late blockB has one 6 ETH vote, timely blockC in slot 2 has none
+      beaconState.validators[0] = { nodeAddress: 'validator1', stakedEth: 6 };
+      blockC.header.slot = 2;
+      LmdGhost.onNewAttestations(beaconState, tree, [createAttestation('validator1', 'blockB', 1000)]);
+      expect(LmdGhost.computeGhostHead(tree)).toBe('blockB');
+      
+      // When: blockC is boosted (70 ETH active / 4 slots x 40% = 7 ETH)
+      LmdGhost.applyProposerBoost(beaconState, tree, blockC);
+      
+      // Then: blockC becomes head and is decorated with the boost
+      const expectedBoost = 70 / SimulatorConfig.SLOTS_PER_EPOCH * SimulatorConfig.PROPOSER_SCORE_BOOST / 100;
+      expect(beaconState.proposerBoost).toEqual({ blockHash: 'blockC', slot: 2, weight: expectedBoost });
+      expect(tree.getNode('blockC')!.metadata.proposerBoost).toBe(expectedBoost);
+      expect(LmdGhost.computeGhostHead(tree)).toBe('blockC');
+    });
+
+    it('should only boost the first timely block of a slot and clear the boost in the next slot', () => {
+      // Given: blockB and blockC are both in slot 2, blockB arrives first
+      blockB.header.slot = 2;
+      blockC.header.slot = 2;
+      LmdGhost.applyProposerBoost(beaconState, tree, blockB);
+      LmdGhost.applyProposerBoost(beaconState, tree, blockC);
+      const weight = beaconState.proposerBoost!.weight;
+      
+      // Then: Only blockB carries the boost
+      expect(tree.getNode('blockB')!.metadata.attestedEth).toBe(weight);
+      expect(tree.getNode('blockC')!.metadata.attestedEth ?? 0).toBe(0);
+      
+      // When: The boost is cleared during slot 2, then in slot 3
+      expect(LmdGhost.clearProposerBoost(beaconState, tree, 2)).toBe(false);
+      expect(LmdGhost.clearProposerBoost(beaconState, tree, 3)).toBe(true);
+      
+      // Then: All boost weight is removed from the tree
+      expect(beaconState.proposerBoost).toBeNull();
+      expect(tree.getNode('blockB')!.metadata.proposerBoost).toBeUndefined();
+      expect(tree.getNode('blockB')!.metadata.attestedEth).toBe(0);
+      expect(tree.getNode('blockA')!.metadata.attestedEth).toBe(0);
+    });
+  });
+
   describe('markNodeInvalid', () => {
     it('should mark node invalid and decrement parent attestedEth', () => {
       // Given: blockB has 32 ETH from attestation
@@ -6,6 +6,9 @@
 import { RANDAO } from '../../core/consensus/randao';
 import { BeaconState, Validator } from '../../core/consensus/beaconState';
 import { Node } from '../../core/node';
+import { AttestationAggregation } from '../../core/consensus/attestationAggregation';
+import { SimulatorConfig } from '../../config/config';
+import { generateBLSKeyPair } from '../../utils/cryptoUtils';
 
 describe('RANDAO', () => {
   let beaconState: BeaconState;
@@ -59,6 +62,85 @@ describe('RANDAO', () => {
     });
   });
 
+  describe('getAttestationCommittees', () => {
+    it('should assign every active validator to exactly one slot per epoch', () => {
+      const committees = RANDAO.getAttestationCommittees(beaconState, 1);
+      const assigned = committees.flat();
+
+      expect(committees).toHaveLength(SimulatorConfig.SLOTS_PER_EPOCH);
+      expect(assigned).toHaveLength(validators.length);
+      expect([...assigned].sort()).toEqual(validators.map(v => v.nodeAddress).sort());
+    });
+
+    it('should be deterministic for same beacon state and epoch', () => {
+      expect(RANDAO.getAttestationCommittees(beaconState, 2)).toEqual(RANDAO.getAttestationCommittees(beaconState, 2));
+    });
+
+    it('should leave out pending and exited validators', () => {
+      // Given: address1 has exited and address2 is still in the activation queue
+      beaconState.validators[0] = { ...beaconState.validators[0], exitEpoch: 1 };
+      beaconState.validators[1] = { ...beaconState.validators[1], activationEpoch: Infinity };
+
+      const assigned = RANDAO.getAttestationCommittees(beaconState, 1).flat();
+
+      expect([...assigned].sort()).toEqual(['address3', 'address4']);
+    });
+
+    it('should reject pool attestations from validators outside the slot committee', async () => {
+      // Given: Committees stored for epoch 1
+      const committees = RANDAO.getAttestationCommittees(beaconState, 1);
+      const firstSlot = SimulatorConfig.SLOTS_PER_EPOCH;
+      beaconState.attestationCommittees.set(1, new Map(committees.map((committee, i) => [firstSlot + i, committee])));
+      const member = committees[0][0];
+      const outsider = validators.map(v => v.nodeAddress).find(address => !committees[0].includes(address))!;
+      const memberKeys = generateBLSKeyPair();
+      beaconState.validators.find(v => v.nodeAddress === member)!.blsPublicKey = memberKeys.publicKey;
+      const checkpoint = { epoch: 0, root: 'block0' };
+      const vote = (validatorAddress: string) => AttestationAggregation.signAttestation(
+        { validatorAddress, blockHash: 'block1', timestamp: 0, slot: firstSlot, ffgSource: checkpoint, ffgTarget: checkpoint },
+        memberKeys.privateKey
+      );
+
+      // When: Both attest claiming the first slot of the epoch
+      await beaconState.addAttestation(vote(member));
+      await beaconState.addAttestation(vote(outsider));
+
+      // Then: Only the committee member's attestation enters the pool
+      expect(beaconState.getBeaconPool().map(att => att.validatorAddress)).toEqual([member]);
+    });
+  });
+
+  describe('ensureEpochDuties', () => {
+    it('should keep an epoch\'s duties until a block of an earlier epoch changes their seed', () => {
+      // Given: Epoch 1 duties computed at the start of epoch 1
+      const firstSlot = SimulatorConfig.SLOTS_PER_EPOCH;
+      RANDAO.ensureEpochDuties(beaconState, 1);
+      const schedule = beaconState.proposerSchedules.get(1);
+      const committees = beaconState.attestationCommittees.get(1);
+
+      // When: An epoch 1 block is applied (its proposer reward changes balances)
+      beaconState.clearDutiesAfter(1);
+      beaconState.validators[2] = { ...beaconState.validators[2], stakedEth: 64 };
+
+      // Then: Epoch 1 keeps the duties it started with, and a reorg restores them
+      expect(RANDAO.getScheduledProposer(beaconState, firstSlot)).toBe(schedule!.get(firstSlot));
+      const snapshot = beaconState.createSnapshot();
+      beaconState.clearRandaoState();
+      beaconState.restoreSnapshot(snapshot);
+      expect(Array.from(beaconState.proposerSchedules.get(1)!)).toEqual(Array.from(schedule!));
+      expect(Array.from(beaconState.attestationCommittees.get(1)!)).toEqual(Array.from(committees!));
+
+      // When: A late epoch 0 block is applied, changing the epoch 0 RANDAO mix
+      RANDAO.updateRandaoMix(beaconState, 0, 'abcdef1234567890');
+      beaconState.clearDutiesAfter(0);
+
+      // Then: Epoch 1 duties are recomputed from the new seed
+      const proposers = RANDAO.getProposerSchedule(beaconState, 1);
+      expect(RANDAO.getScheduledProposer(beaconState, firstSlot)).toBe(proposers[0]);
+      expect(Array.from(beaconState.proposerSchedules.get(1)!.values())).toEqual(proposers);
+    });
+  });
+
   describe('calculateRandaoReveal', () => {
     it('should generate BLS signature for epoch', () => {
       const node = new Node('TestNode', genesisTime, validators);
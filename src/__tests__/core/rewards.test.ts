@@ -0,0 +1,184 @@
+/**
+ * Unit tests for Rewards
+ * Tests participation tracking, proposer inclusion rewards,
+ * and per-epoch rewards and penalties
+ */
+
+import { Rewards } from '../../core/consensus/rewards';
+import { BeaconState, Validator } from '../../core/consensus/beaconState';
+import { BlockchainTree } from '../../core/blockchain/blockchainTree';
+import { Block, Attestation } from '../../types/types';
+import { SimulatorConfig } from '../../config/config';
+
+describe('Rewards', () => {
+  let beaconState: BeaconState;
+  let tree: BlockchainTree;
+  const GENESIS = SimulatorConfig.GENESIS_PREV_HASH;
+
+  /**
+   * Helper to create a block proposed by the given address (via its coinbase)
+   */
+  function createBlock(hash: string, parentHash: string, height: number, slot: number, proposer: string): Block {
+    return {
+      hash,
+      header: {
+        transactionHash: `tx-${hash}`,
+        bodyRoot: '',
+        timestamp: 1000 + height,
+        previousHeaderHash: parentHash,
+        height,
+        slot,
+        gasUsed: 0,
+        baseFeePerGas: 1,
+      },
+      transactions: [{
+        from: SimulatorConfig.PROTOCOL_NODE_ID,
+        to: proposer,
+        value: SimulatorConfig.BLOCK_REWARD,
+        nonce: 0,
+        gasLimit: 0,
+        maxFeePerGas: 0,
+        maxPriorityFeePerGas: 0,
+        signature: 'coinbase',
+        timestamp: 1000 + height,
+        txid: `coinbase-${hash}`
+      }],
+      attestations: [],
+      randaoReveal: 'test-randao',
+    };
+  }
+
+  /**
+   * Helper to create an attestation voting for blockHash with the given FFG target
+   */
+  function createAttestation(validatorAddress: string, blockHash: string, targetEpoch: number, targetRoot: string): Attestation {
+    return {
+      validatorAddress,
+      blockHash,
+      timestamp: Date.now(),
+      ffgSource: { epoch: -1, root: GENESIS },
+      ffgTarget: { epoch: targetEpoch, root: targetRoot }
+    };
+  }
+
+  function getStake(address: string): number {
+    return beaconState.getValidatorStake(address);
+  }
+
+  beforeEach(() => {
+    // genesis (slot -1) -> A (slot 0, epoch 0) -> B (slot 1, epoch 0)
+    tree = new BlockchainTree();
+    tree.addBlock({ ...createBlock('genesis', '', 0, -1, ''), transactions: [] });
+    tree.addBlock(createBlock('blockA', 'genesis', 1, 0, 'validator1'));
+    tree.addBlock(createBlock('blockB', 'blockA', 2, 1, 'validator1'));
+
+    const validators: Validator[] = [
+      { nodeAddress: 'validator1', stakedEth: 32 },
+      { nodeAddress: 'validator2', stakedEth: 32 },
+      { nodeAddress: 'validator3', stakedEth: 32 },
+    ];
+    beaconState = new BeaconState(Math.floor(Date.now() / 1000), validators);
+    beaconState.justifiedCheckpoint = { epoch: -1, root: GENESIS };
+  });
+
+  describe('processBlockAttestations', () => {
+    it('should credit correct votes and pay the proposer per attestation', () => {
+      // Given: Block C (slot 2) includes two correct votes for blockB with target blockA
+      const blockC = createBlock('blockC', 'blockB', 3, 2, 'validator3');
+      const attestations = [
+        createAttestation('validator1', 'blockB', 0, 'blockA'),
+        createAttestation('validator2', 'blockB', 0, 'blockA'),
+      ];
+      tree.addBlock(blockC);
+
+      // When: Block C's attestations are processed
+      Rewards.processBlockAttestations(beaconState, tree, blockC, attestations);
+
+      // Then: Both validators earned all flags, proposer earned inclusion rewards
+      expect(beaconState.epochParticipation[0]['validator1']).toEqual({ source: true, target: true, head: true });
+      expect(beaconState.epochParticipation[0]['validator2']).toEqual({ source: true, target: true, head: true });
+      expect(getStake('validator3')).toBeCloseTo(32 + 2 * SimulatorConfig.PROPOSER_INCLUSION_REWARD);
+    });
+
+    it('should not credit target or head for a vote on another fork', () => {
+      // Given: A fork block X at slot 1 that block C does not build on
+      tree.addBlock(createBlock('blockX', 'genesis', 1, 1, 'validator2'));
+      const blockC = createBlock('blockC', 'blockB', 3, 2, 'validator3');
+      tree.addBlock(blockC);
+
+      // When: Block C's attestations are processed
+      Rewards.processBlockAttestations(beaconState, tree, blockC, [createAttestation('validator1', 'blockX', 0, 'blockX')]);
+
+      // Then: Only the source vote is correct
+      expect(beaconState.epochParticipation[0]['validator1']).toEqual({ source: true, target: false, head: false });
+    });
+
+    it('should not pay the proposer twice for the same participation', () => {
+      const blockC = createBlock('blockC', 'blockB', 3, 2, 'validator3');
+      tree.addBlock(blockC);
+      const blockD = createBlock('blockD', 'blockC', 4, 3, 'validator2');
+      tree.addBlock(blockD);
+
+      Rewards.processBlockAttestations(beaconState, tree, blockC, [createAttestation('validator1', 'blockB', 0, 'blockA')]);
+      Rewards.processBlockAttestations(beaconState, tree, blockD, [createAttestation('validator1', 'blockB', 0, 'blockA')]);
+
+      expect(getStake('validator2')).toBe(32);
+    });
+  });
+
+  describe('processEpoch', () => {
+    it('should reward participants and penalize validators that missed the epoch', () => {
+      // Given: validator1 voted correctly in epoch 0, validator2 only got the source right
+      beaconState.epochParticipation[0] = {
+        validator1: { source: true, target: true, head: true },
+        validator2: { source: true, target: false, head: false },
+      };
+
+      // When: Epoch 0 is processed
+      Rewards.processEpoch(beaconState, 0);
+
+      // Then: Balances reflect rewards and penalties
+      const fullReward = SimulatorConfig.ATTESTATION_SOURCE_REWARD + SimulatorConfig.ATTESTATION_TARGET_REWARD + SimulatorConfig.ATTESTATION_HEAD_REWARD;
+      const offlinePenalty = SimulatorConfig.ATTESTATION_SOURCE_REWARD + SimulatorConfig.ATTESTATION_TARGET_REWARD;
+      expect(getStake('validator1')).toBeCloseTo(32 + fullReward);
+      expect(getStake('validator2')).toBeCloseTo(32 + SimulatorConfig.ATTESTATION_SOURCE_REWARD - SimulatorConfig.ATTESTATION_TARGET_REWARD);
+      expect(getStake('validator3')).toBeCloseTo(32 - offlinePenalty);
+      expect(beaconState.lastEpochRewards?.epoch).toBe(0);
+      expect(beaconState.lastEpochRewards?.deltas['validator3']).toBeCloseTo(-offlinePenalty);
+      expect(beaconState.epochParticipation[0]).toBeUndefined();
+    });
+
+    it('should not let balances go below zero', () => {
+      beaconState.validators[2] = { nodeAddress: 'validator3', stakedEth: 0.01 };
+
+      Rewards.processEpoch(beaconState, 0);
+
+      expect(getStake('validator3')).toBe(0);
+    });
+  });
+
+  describe('processEpochTransitions', () => {
+    it('should settle epoch N when the chain enters epoch N + 2', () => {
+      // Given: Blocks applied up to epoch 1
+      Rewards.processEpochTransitions(beaconState, 0);
+      Rewards.processEpochTransitions(beaconState, 1);
+      expect(beaconState.lastEpochRewards).toBeNull();
+
+      // When: First block of epoch 2 is applied
+      Rewards.processEpochTransitions(beaconState, 2);
+
+      // Then: Epoch 0 has been processed (nobody participated)
+      expect(beaconState.lastEpochRewards?.epoch).toBe(0);
+      expect(getStake('validator1')).toBeLessThan(32);
+    });
+
+    it('should process every skipped epoch', () => {
+      Rewards.processEpochTransitions(beaconState, 4);
+
+      // Epochs 0, 1 and 2 were settled
+      const perEpochPenalty = SimulatorConfig.ATTESTATION_SOURCE_REWARD + SimulatorConfig.ATTESTATION_TARGET_REWARD;
+      expect(beaconState.lastEpochRewards?.epoch).toBe(2);
+      expect(getStake('validator1')).toBeCloseTo(32 - 3 * perEpochPenalty);
+    });
+  });
+});
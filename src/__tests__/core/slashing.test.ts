@@ -0,0 +1,257 @@
+/**
+ * Unit tests for Slashing
+ * Tests detection of double proposals, double votes and surround votes,
+ * and application of slashing evidence to the beacon state
+ */
+
+import { Slashing } from '../../core/consensus/slashing';
+import { BeaconState, Validator } from '../../core/consensus/beaconState';
+import { BlockchainTree } from '../../core/blockchain/blockchainTree';
+import { AttestationAggregation } from '../../core/consensus/attestationAggregation';
+import { calculateBlockSigningRoot } from '../../core/validation/blockValidator';
+import { Attestation, Block } from '../../types/types';
+import { SimulatorConfig } from '../../config/config';
+import { generateBLSKeyPair, generateBLSSignature } from '../../utils/cryptoUtils';
+
+describe('Slashing', () => {
+  let beaconState: BeaconState;
+  const keys: Record<string, { privateKey: string; publicKey: string }> = {
+    validator1: generateBLSKeyPair(),
+    validator2: generateBLSKeyPair(),
+    validator3: generateBLSKeyPair(),
+  };
+
+  /**
+   * Helper to create a block proposed by the given address (named in and signed into its
+   * header, and paid by its coinbase); the header is signed with the signer's key
+   */
+  function createBlock(hash: string, parentHash: string, height: number, slot: number, proposer: string, timestamp: number = 1000, signer: string = proposer): Block {
+    const header: Block['header'] = {
+      transactionHash: `tx-${hash}`,
+      bodyRoot: '',
+      timestamp,
+      previousHeaderHash: parentHash,
+      height,
+      slot,
+      gasUsed: 0,
+      baseFeePerGas: 1,
+      ...(proposer && { proposerAddress: proposer }),
+    };
+    if (signer) {
+      header.proposerSignature = generateBLSSignature(calculateBlockSigningRoot(header), keys[signer].privateKey);
+    }
+    return {
+      hash,
+      header,
+      transactions: proposer ? [{
+        from: SimulatorConfig.PROTOCOL_NODE_ID,
+        to: proposer,
+        value: SimulatorConfig.BLOCK_REWARD,
+        nonce: 0,
+        gasLimit: 0,
+        maxFeePerGas: 0,
+        maxPriorityFeePerGas: 0,
+        signature: 'coinbase',
+        timestamp,
+        txid: `coinbase-${hash}`
+      }] : [],
+      attestations: [],
+      randaoReveal: 'test-randao',
+    };
+  }
+
+  /**
+   * Helper to create an attestation with FFG source and target, signed with the signer's key
+   */
+  function createAttestation(
+    validatorAddress: string,
+    sourceEpoch: number,
+    targetEpoch: number,
+    targetRoot: string,
+    signer: string = validatorAddress
+  ): Attestation {
+    return AttestationAggregation.signAttestation({
+      validatorAddress,
+      blockHash: targetRoot,
+      timestamp: Date.now(),
+      slot: targetEpoch * SimulatorConfig.SLOTS_PER_EPOCH,
+      ffgSource: { epoch: sourceEpoch, root: `root-${sourceEpoch}` },
+      ffgTarget: { epoch: targetEpoch, root: targetRoot }
+    }, keys[signer].privateKey);
+  }
+
+  beforeEach(() => {
+    const validators: Validator[] = Object.entries(keys).map(([nodeAddress, key]) => ({
+      nodeAddress,
+      stakedEth: 32,
+      blsPublicKey: key.publicKey
+    }));
+    beaconState = new BeaconState(Math.floor(Date.now() / 1000), validators);
+  });
+
+  describe('isSlashableAttestationPair', () => {
+    it('should detect a double vote (same target epoch, different root)', () => {
+      const att1 = createAttestation('validator1', 0, 1, 'blockA');
+      const att2 = createAttestation('validator1', 0, 1, 'blockB');
+
+      expect(Slashing.isSlashableAttestationPair(att1, att2)).toBe(true);
+    });
+
+    it('should detect a surround vote in either order', () => {
+      // Given: outer vote 0 -> 3 surrounds inner vote 1 -> 2
+      const outer = createAttestation('validator1', 0, 3, 'blockD');
+      const inner = createAttestation('validator1', 1, 2, 'blockC');
+
+      expect(Slashing.isSlashableAttestationPair(outer, inner)).toBe(true);
+      expect(Slashing.isSlashableAttestationPair(inner, outer)).toBe(true);
+    });
+
+    it('should not flag consistent votes or votes from different validators', () => {
+      const att1 = createAttestation('validator1', 0, 1, 'blockA');
+      const att2 = createAttestation('validator1', 1, 2, 'blockB');
+      const other = createAttestation('validator2', 0, 1, 'blockB');
+
+      expect(Slashing.isSlashableAttestationPair(att1, att1)).toBe(false);
+      expect(Slashing.isSlashableAttestationPair(att1, att2)).toBe(false);
+      expect(Slashing.isSlashableAttestationPair(att1, other)).toBe(false);
+    });
+  });
+
+  describe('detection', () => {
+    it('should queue proposer slashing when a proposer signs two blocks for one slot', () => {
+      // Given: A tree where validator1 proposed blockA at slot 1
+      const tree = new BlockchainTree();
+      tree.addBlock(createBlock('genesis', '', 0, -1, ''));
+      tree.addBlock(createBlock('blockA', 'genesis', 1, 1, 'validator1', 1000));
+
+      // When: validator1 proposes a conflicting blockB for the same slot
+      const blockB = createBlock('blockB', 'genesis', 1, 1, 'validator1', 2000);
+      tree.addBlock(blockB);
+      Slashing.onBlockObserved(beaconState, tree, blockB);
+
+      // Then: Evidence is queued
+      expect(beaconState.proposerSlashingPool).toHaveLength(1);
+      expect(beaconState.proposerSlashingPool[0].proposerAddress).toBe('validator1');
+      expect(Slashing.verifyProposerSlashing(beaconState, beaconState.proposerSlashingPool[0]).valid).toBe(true);
+    });
+
+    it('should not queue proposer slashing for blocks from different proposers', () => {
+      const tree = new BlockchainTree();
+      tree.addBlock(createBlock('genesis', '', 0, -1, ''));
+      tree.addBlock(createBlock('blockA', 'genesis', 1, 1, 'validator1'));
+      const blockB = createBlock('blockB', 'genesis', 1, 1, 'validator2');
+      tree.addBlock(blockB);
+
+      Slashing.onBlockObserved(beaconState, tree, blockB);
+
+      expect(beaconState.proposerSlashingPool).toHaveLength(0);
+    });
+
+    it('should queue attester slashing when conflicting votes are observed', () => {
+      Slashing.onAttestationObserved(beaconState, createAttestation('validator2', 0, 1, 'blockA'));
+      Slashing.onAttestationObserved(beaconState, createAttestation('validator2', 0, 1, 'blockB'));
+
+      expect(beaconState.attesterSlashingPool).toHaveLength(1);
+      expect(beaconState.attesterSlashingPool[0].attestation1.validatorAddress).toBe('validator2');
+    });
+  });
+
+  describe('evidence verification', () => {
+    it('should reject proposer evidence not signed by the accused or naming someone else', () => {
+      // Given: Two headers for slot 1 naming validator1 but signed with validator2's key
+      const forged = {
+        proposerAddress: 'validator1',
+        header1: createBlock('blockA', 'genesis', 1, 1, 'validator1', 1000, 'validator2').header,
+        header2: createBlock('blockB', 'genesis', 1, 1, 'validator1', 2000, 'validator2').header
+      };
+
+      // And: Two headers validator2 really signed, presented as evidence against validator1
+      const wrongProposer = {
+        proposerAddress: 'validator1',
+        header1: createBlock('blockA', 'genesis', 1, 1, 'validator2', 1000).header,
+        header2: createBlock('blockB', 'genesis', 1, 1, 'validator2', 2000).header
+      };
+
+      // Then: Neither slashes validator1
+      expect(Slashing.verifyProposerSlashing(beaconState, forged).error).toContain('is not signed by');
+      expect(Slashing.verifyProposerSlashing(beaconState, wrongProposer).error).toContain('does not name');
+      Slashing.applyBlockSlashings(beaconState, { ...createBlock('blockC', 'blockA', 2, 5, 'validator3'), proposerSlashings: [forged, wrongProposer] });
+      expect(beaconState.isValidatorSlashed('validator1')).toBe(false);
+    });
+
+    it('should reject attester evidence not signed by the accused', () => {
+      // Given: A double vote by validator2 signed with validator3's key
+      const forged = {
+        attestation1: createAttestation('validator2', 0, 1, 'blockA', 'validator3'),
+        attestation2: createAttestation('validator2', 0, 1, 'blockB', 'validator3')
+      };
+
+      // Then: It is rejected, and never pooled when observed
+      expect(Slashing.verifyAttesterSlashing(beaconState, forged).valid).toBe(false);
+      Slashing.onAttestationObserved(beaconState, forged.attestation1);
+      Slashing.onAttestationObserved(beaconState, forged.attestation2);
+      expect(beaconState.attesterSlashingPool).toHaveLength(0);
+
+      // And: A block including it slashes nobody
+      Slashing.applyBlockSlashings(beaconState, { ...createBlock('blockC', 'blockA', 2, 5, 'validator1'), attesterSlashings: [forged] });
+      expect(beaconState.isValidatorSlashed('validator2')).toBe(false);
+    });
+  });
+
+  describe('applyBlockSlashings', () => {
+    it('should burn stake, mark validator slashed and clear pools', () => {
+      // Given: Evidence of a double vote by validator3 in the pool
+      Slashing.onAttestationObserved(beaconState, createAttestation('validator3', 0, 1, 'blockA'));
+      Slashing.onAttestationObserved(beaconState, createAttestation('validator3', 0, 1, 'blockB'));
+      const { attesterSlashings } = Slashing.getPendingSlashings(beaconState);
+
+      // When: A block including that evidence is applied
+      const block = createBlock('blockC', 'blockA', 2, 5, 'validator1');
+      block.attesterSlashings = attesterSlashings;
+      Slashing.applyBlockSlashings(beaconState, block);
+
+      // Then: validator3 lost stakedEth / SLASHING_PENALTY_QUOTIENT and is ejected
+      const slashed = beaconState.validators.find(v => v.nodeAddress === 'validator3')!;
+      expect(slashed.slashed).toBe(true);
+      expect(slashed.stakedEth).toBe(32 - 32 / SimulatorConfig.SLASHING_PENALTY_QUOTIENT);
+      expect(beaconState.isValidatorSlashed('validator3')).toBe(true);
+      expect(beaconState.attesterSlashingPool).toHaveLength(0);
+    });
+
+    it('should not slash the same validator twice', () => {
+      expect(Slashing.slashValidator(beaconState, 'validator1', 0)).toBe(true);
+      expect(Slashing.slashValidator(beaconState, 'validator1', 0)).toBe(false);
+
+      const validator = beaconState.validators.find(v => v.nodeAddress === 'validator1')!;
+      expect(validator.stakedEth).toBe(32 - 32 / SimulatorConfig.SLASHING_PENALTY_QUOTIENT);
+    });
+
+    it('should restore balances when validators are reset for a reorg', () => {
+      beaconState.setGenesisValidators(beaconState.validators);
+      Slashing.slashValidator(beaconState, 'validator1', 0);
+
+      beaconState.resetValidators();
+
+      expect(beaconState.isValidatorSlashed('validator1')).toBe(false);
+      expect(beaconState.getValidatorStake('validator1')).toBe(32);
+    });
+
+    it('should pool evidence again when a reorg drops the block that included it', () => {
+      // Given: A snapshot taken while evidence against validator3 was pooled
+      Slashing.onAttestationObserved(beaconState, createAttestation('validator3', 0, 1, 'blockA'));
+      Slashing.onAttestationObserved(beaconState, createAttestation('validator3', 0, 1, 'blockB'));
+      const snapshot = beaconState.createSnapshot();
+
+      // When: A block including the evidence is applied, then a reorg rewinds past it
+      const block = createBlock('blockC', 'blockA', 2, 5, 'validator1');
+      block.attesterSlashings = Slashing.getPendingSlashings(beaconState).attesterSlashings;
+      Slashing.applyBlockSlashings(beaconState, block);
+      expect(beaconState.attesterSlashingPool).toHaveLength(0);
+      beaconState.restoreSnapshot(snapshot);
+
+      // Then: validator3 is unslashed and the evidence is waiting for the new canonical chain
+      expect(beaconState.isValidatorSlashed('validator3')).toBe(false);
+      expect(Slashing.getPendingSlashings(beaconState).attesterSlashings).toHaveLength(1);
+    });
+  });
+});
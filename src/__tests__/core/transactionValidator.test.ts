@@ -0,0 +1,128 @@
+/**
+ * Unit tests for transaction validation
+ * Tests that validators reject tampered, replayed, out-of-order and overdrawn transactions,
+ * and that proposers only pick transactions that pass the nonce and balance rules on their head
+ */
+
+import { validateTransaction } from '../../core/validation/transactionValidator';
+import { BlockCreator } from '../../core/blockchain/blockCreator';
+import { WorldState } from '../../core/blockchain/worldState';
+import { calculateTxid, createSignedTransaction } from '../../core/blockchain/transaction';
+import { generatePrivateKey, derivePublicKey, generateAddress, generateSignature } from '../../utils/cryptoUtils';
+import { calculateMaxCost } from '../../core/blockchain/gas';
+import { Account, EthereumTransaction } from '../../types/types';
+
+describe('validateTransaction', () => {
+  const privateKey = generatePrivateKey('Alice');
+  const publicKey = derivePublicKey(privateKey);
+  const alice = generateAddress(publicKey);
+  const fees = { maxFeePerGas: 10, maxPriorityFeePerGas: 2 };
+
+  /**
+   * Helper to create Alice's world state after she sent `nonce` transactions
+   */
+  function createWorldState(nonce: number, balance: number = 10): WorldState {
+    return new WorldState({ [alice]: { address: alice, balance, nonce } });
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should accept the sender\'s next nonce only', async () => {
+    const transaction = await createSignedTransaction(alice, '0xbob', 1, 3, privateKey, fees);
+
+    expect(await validateTransaction(transaction, createWorldState(3))).toEqual({ valid: true });
+    expect((await validateTransaction(transaction, createWorldState(4))).error).toContain('Invalid nonce: expected 4, got 3');
+    expect((await validateTransaction(transaction, createWorldState(2))).error).toContain('Invalid nonce: expected 2, got 3');
+  });
+
+  it('should reject a paint transaction whose color was changed after signing', async () => {
+    // Given: Alice signs a paint transaction for blue
+    const transaction = await createSignedTransaction(alice, '0xEPM_PAINT_CONTRACT', 1, 0, privateKey, fees, JSON.stringify({ color: 'blue' }));
+    expect(await validateTransaction(transaction, createWorldState(0))).toEqual({ valid: true });
+
+    // When: Someone swaps the color, keeping her txid and signature
+    const tampered = { ...transaction, data: JSON.stringify({ color: 'red' }) };
+
+    // Then: The txid no longer matches the signed payload
+    const result = await validateTransaction(tampered, createWorldState(0));
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('signature validation failed');
+  });
+
+  it('should reject a transaction signed for another chain', async () => {
+    // Given: Alice's transfer, re-hashed and signed with another chain ID
+    const transaction = await createSignedTransaction(alice, '0xbob', 1, 0, privateKey, fees);
+    const txid = calculateTxid(transaction, 1);
+    const otherChain = { ...transaction, txid, signature: await generateSignature(txid, privateKey) };
+
+    // Then: It is not valid on this chain
+    expect((await validateTransaction(otherChain, createWorldState(0))).valid).toBe(false);
+  });
+
+  it('should reject a transaction signed by anyone but its sender', async () => {
+    // Given: Mallory builds a transfer from Alice's account and signs it with her own key
+    const transaction = await createSignedTransaction(alice, '0xbob', 1, 0, generatePrivateKey('Mallory'), fees);
+
+    // Then: The txid matches, but the signature recovers to Mallory's address
+    const result = await validateTransaction(transaction, createWorldState(0));
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('signature validation failed');
+  });
+
+  it('should reject transactions the sender cannot pay for, gas included', async () => {
+    // Given: Alice holds exactly the value, but not the fee for the gas limit
+    const transaction = await createSignedTransaction(alice, '0xbob', 1, 0, privateKey, fees);
+
+    // Then: Only the value plus the gas limit at the max fee is enough
+    expect((await validateTransaction(transaction, createWorldState(0, 1))).error).toContain('Insufficient balance');
+    expect(await validateTransaction(transaction, createWorldState(0, calculateMaxCost(transaction)))).toEqual({ valid: true });
+  });
+});
+
+describe('BlockCreator.getExecutableTransactions', () => {
+  /**
+   * Helper to create an unsigned transfer of 1 ETH
+   */
+  function createTransaction(from: string, nonce: number): EthereumTransaction {
+    return {
+      from,
+      to: '0xbob',
+      value: 1,
+      nonce,
+      gasLimit: 21000,
+      maxFeePerGas: 0,
+      maxPriorityFeePerGas: 0,
+      signature: '',
+      timestamp: 0,
+      txid: `${from}-${nonce}`
+    };
+  }
+
+  it('should take each sender\'s next nonces in order while it can pay', () => {
+    // Given: Alice already sent nonce 0, can afford two transfers and has a gap after nonce 3;
+    // Carol can afford one
+    const accounts: Record<string, Account> = {
+      '0xalice': { address: '0xalice', balance: 2, nonce: 1 },
+      '0xcarol': { address: '0xcarol', balance: 1, nonce: 0 }
+    };
+    const transactions = [
+      createTransaction('0xalice', 2),
+      createTransaction('0xalice', 0),
+      createTransaction('0xalice', 1),
+      createTransaction('0xalice', 4),
+      createTransaction('0xcarol', 0),
+      createTransaction('0xcarol', 1),
+      createTransaction('0xdave', 0)
+    ];
+
+    // Then: The replayed nonce, the transaction after the gap, the overdraft and the unknown sender are left out
+    const executable = BlockCreator.getExecutableTransactions(transactions, accounts);
+    expect(executable.map(tx => tx.txid)).toEqual(['0xalice-1', '0xalice-2', '0xcarol-0']);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for ValidatorLifecycle
+ * Tests deposits, the churn-limited activation and exit queues,
+ * exit authorisation, ejections and withdrawals
+ */
+
+import { ValidatorLifecycle } from '../../core/consensus/validatorLifecycle';
+import { DepositContract } from '../../core/blockchain/depositContract';
+import { BeaconState, Validator } from '../../core/consensus/beaconState';
+import { EthereumTransaction } from '../../types/types';
+import { SimulatorConfig } from '../../config/config';
+
+describe('ValidatorLifecycle', () => {
+  let beaconState: BeaconState;
+
+  /**
+   * Helper to create a deposit contract call
+   */
+  function createCall(from: string, type: 'deposit' | 'exit', validatorAddress: string, value: number): EthereumTransaction {
+    return {
+      from,
+      to: SimulatorConfig.DEPOSIT_CONTRACT_ADDRESS,
+      value,
+      nonce: 0,
+      gasLimit: 50000,
+      maxFeePerGas: 0,
+      maxPriorityFeePerGas: 0,
+      data: DepositContract.encodeRequest({ type, validatorAddress }),
+      signature: '',
+      timestamp: 0,
+      txid: `${from}-${type}-${validatorAddress}`
+    };
+  }
+
+  /**
+   * Helper to find a validator by address
+   */
+  function getValidator(address: string): Validator | undefined {
+    return beaconState.validators.find(v => v.nodeAddress === address);
+  }
+
+  beforeEach(() => {
+    const validators: Validator[] = [
+      { nodeAddress: 'validator1', stakedEth: 32, withdrawalAddress: 'validator1' },
+      { nodeAddress: 'validator2', stakedEth: 32, withdrawalAddress: 'validator2' },
+      { nodeAddress: 'validator3', stakedEth: 32, withdrawalAddress: 'validator3' },
+      { nodeAddress: 'validator4', stakedEth: 32, withdrawalAddress: 'validator4' },
+    ];
+    beaconState = new BeaconState(Math.floor(Date.now() / 1000), validators);
+  });
+
+  describe('deposits and activation', () => {
+    it('should queue new validators and activate them after the delay, limited by churn', () => {
+      // Given: Two new validators deposit the activation balance in epoch 0
+      ValidatorLifecycle.processDepositContractCall(beaconState, createCall('alice', 'deposit', 'newValidator1', 32), 0);
+      ValidatorLifecycle.processDepositContractCall(beaconState, createCall('bob', 'deposit', 'newValidator2', 32), 0);
+
+      expect(getValidator('newValidator1')?.withdrawalAddress).toBe('alice');
+      expect(ValidatorLifecycle.isActiveValidator(getValidator('newValidator1')!, 0)).toBe(false);
+
+      // When: Registry updates run at epoch 1 (churn limit is 1 with 4 active validators)
+      ValidatorLifecycle.processRegistryUpdates(beaconState, 1);
+
+      // Then: Only the first deposit is scheduled for activation
+      const activationEpoch = 1 + SimulatorConfig.ACTIVATION_EXIT_DELAY_EPOCHS;
+      expect(getValidator('newValidator1')?.activationEpoch).toBe(activationEpoch);
+      expect(getValidator('newValidator2')?.activationEpoch).toBe(ValidatorLifecycle.FAR_FUTURE_EPOCH);
+      expect(ValidatorLifecycle.isActiveValidator(getValidator('newValidator1')!, activationEpoch - 1)).toBe(false);
+      expect(ValidatorLifecycle.isActiveValidator(getValidator('newValidator1')!, activationEpoch)).toBe(true);
+
+      // When: The next epoch starts
+      ValidatorLifecycle.processRegistryUpdates(beaconState, 2);
+
+      // Then: The second validator leaves the queue
+      expect(getValidator('newValidator2')?.activationEpoch).toBe(2 + SimulatorConfig.ACTIVATION_EXIT_DELAY_EPOCHS);
+    });
+
+    it('should wait for the activation balance and accept top-ups', () => {
+      // Given: A partial deposit
+      ValidatorLifecycle.processDepositContractCall(beaconState, createCall('alice', 'deposit', 'newValidator', 16), 0);
+      ValidatorLifecycle.processRegistryUpdates(beaconState, 1);
+      expect(getValidator('newValidator')?.activationEpoch).toBe(ValidatorLifecycle.FAR_FUTURE_EPOCH);
+
+      // When: The validator is topped up to the activation balance
+      ValidatorLifecycle.processDepositContractCall(beaconState, createCall('alice', 'deposit', 'newValidator', 16), 1);
+      ValidatorLifecycle.processRegistryUpdates(beaconState, 2);
+
+      // Then: It is queued for activation
+      expect(getValidator('newValidator')?.stakedEth).toBe(32);
+      expect(getValidator('newValidator')?.activationEpoch).toBe(2 + SimulatorConfig.ACTIVATION_EXIT_DELAY_EPOCHS);
+    });
+
+    it('should ignore calls that fail deposit contract validation', () => {
+      ValidatorLifecycle.processDepositContractCall(beaconState, createCall('alice', 'deposit', 'newValidator', 0.5), 0);
+
+      expect(getValidator('newValidator')).toBeUndefined();
+    });
+  });
+
+  describe('exits and withdrawals', () => {
+    it('should only accept exit requests from the withdrawal address', () => {
+      // When: Someone else asks validator1 to exit
+      ValidatorLifecycle.processDepositContractCall(beaconState, createCall('validator2', 'exit', 'validator1', 0.1), 0);
+
+      // Then: The request is ignored
+      expect(getValidator('validator1')?.exitEpoch).toBeUndefined();
+
+      // When: validator1's withdrawal address asks
+      ValidatorLifecycle.processDepositContractCall(beaconState, createCall('validator1', 'exit', 'validator1', 0.1), 0);
+
+      // Then: It is scheduled to exit
+      expect(getValidator('validator1')?.exitEpoch).toBe(SimulatorConfig.ACTIVATION_EXIT_DELAY_EPOCHS);
+    });
+
+    it('should spread exits over epochs according to the churn limit', () => {
+      ValidatorLifecycle.initiateExit(beaconState, 'validator1', 0);
+      ValidatorLifecycle.initiateExit(beaconState, 'validator2', 0);
+
+      expect(getValidator('validator1')?.exitEpoch).toBe(SimulatorConfig.ACTIVATION_EXIT_DELAY_EPOCHS);
+      expect(getValidator('validator2')?.exitEpoch).toBe(SimulatorConfig.ACTIVATION_EXIT_DELAY_EPOCHS + 1);
+    });
+
+    it('should withdraw the full balance to the withdrawal address once withdrawable', () => {
+      // Given: validator1 exits and has a balance of 33 ETH
+      beaconState.validators[0] = { ...beaconState.validators[0], stakedEth: 33, withdrawalAddress: 'alice' };
+      ValidatorLifecycle.initiateExit(beaconState, 'validator1', 0);
+      const withdrawableEpoch = getValidator('validator1')!.withdrawableEpoch!;
+
+      // Then: Nothing is withdrawn before the withdrawable epoch
+      expect(ValidatorLifecycle.processRegistryUpdates(beaconState, withdrawableEpoch - 1)).toEqual([]);
+
+      // When: The withdrawable epoch starts
+      const withdrawals = ValidatorLifecycle.processRegistryUpdates(beaconState, withdrawableEpoch);
+
+      // Then: The full balance goes to the withdrawal address, only once
+      expect(withdrawals).toEqual([{ validatorAddress: 'validator1', address: 'alice', amount: 33 }]);
+      expect(getValidator('validator1')?.stakedEth).toBe(0);
+      expect(ValidatorLifecycle.getValidatorStatus(getValidator('validator1')!, withdrawableEpoch)).toBe('withdrawn');
+      expect(ValidatorLifecycle.processRegistryUpdates(beaconState, withdrawableEpoch + 1)).toEqual([]);
+    });
+
+    it('should eject validators whose stake drops below the ejection balance', () => {
+      beaconState.validators[2] = { ...beaconState.validators[2], stakedEth: SimulatorConfig.EJECTION_BALANCE - 1 };
+
+      ValidatorLifecycle.processRegistryUpdates(beaconState, 3);
+
+      expect(getValidator('validator3')?.exitEpoch).toBe(3 + SimulatorConfig.ACTIVATION_EXIT_DELAY_EPOCHS);
+      expect(getValidator('validator1')?.exitEpoch).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for LinkModel
+ * Tests per-link latency, loss, duplication and bandwidth
+ */
+
+import { LinkModel, estimateMessageSize } from '../../network/linkModel';
+import { Message, MessageType } from '../../network/messages';
+import { SeededRandom } from '../../core/simulation/seededRandom';
+import { SimulatorConfig } from '../../config/config';
+
+describe('LinkModel', () => {
+  let linkModel: LinkModel;
+
+  /**
+   * Helper to build a message of roughly the given size in bytes
+   */
+  function messageOfSize(type: MessageType, bytes: number): Message {
+    return { type, fromNodeId: 'Blue', padding: 'x'.repeat(bytes) } as unknown as Message;
+  }
+
+  beforeEach(() => {
+    linkModel = new LinkModel(new SeededRandom(42));
+  });
+
+  it('should draw latencies from the configured delay range by default', () => {
+    const message = messageOfSize(MessageType.ATTESTATION, 100);
+
+    for (let i = 0; i < 50; i++) {
+      const [delay] = linkModel.planDelivery('Blue', 'Red', message, 0);
+      expect(delay).toBeGreaterThanOrEqual(SimulatorConfig.MIN_NETWORK_DELAY_MS);
+      expect(delay).toBeLessThanOrEqual(SimulatorConfig.MAX_NETWORK_DELAY_MS);
+    }
+  });
+
+  it('should make large messages take longer on a link with a bandwidth cap', () => {
+    // Given: A 1 Mbps link without jitter (125 bytes per ms)
+    linkModel.setLinkProfile('Blue', 'Red', { latencyMs: 10, jitterMs: 0, bandwidthMbps: 1 });
+    const attestation = messageOfSize(MessageType.ATTESTATION, 200);
+    const chainResponse = messageOfSize(MessageType.CHAIN_RESPONSE, 50_000);
+
+    // When: Each message is sent on an idle link
+    const [attestationDelay] = linkModel.planDelivery('Blue', 'Red', attestation, 0);
+    const [chainDelay] = linkModel.planDelivery('Blue', 'Red', chainResponse, 1_000);
+
+    // Then: Delay is latency plus transmission time
+    expect(attestationDelay).toBeCloseTo(10 + estimateMessageSize(attestation) / 125);
+    expect(chainDelay).toBeCloseTo(10 + estimateMessageSize(chainResponse) / 125);
+    expect(chainDelay).toBeGreaterThan(attestationDelay * 10);
+
+    // And: A message sent while the link is busy waits for the transmission ahead of it
+    const [queuedDelay] = linkModel.planDelivery('Blue', 'Red', attestation, 1_000);
+    expect(queuedDelay).toBeCloseTo(chainDelay + estimateMessageSize(attestation) / 125);
+  });
+
+  it('should drop and duplicate messages at the configured rates', () => {
+    const message = messageOfSize(MessageType.ATTESTATION, 100);
+    linkModel.setLinkProfile('Blue', 'Red', { dropRate: 1 });
+    linkModel.setLinkProfile('Blue', 'Green', { duplicateRate: 1 });
+
+    expect(linkModel.planDelivery('Blue', 'Red', message, 0)).toEqual([]);
+    expect(linkModel.planDelivery('Blue', 'Green', message, 0)).toHaveLength(2);
+    expect(linkModel.getStats()).toEqual({ sent: 2, dropped: 1, duplicated: 1, reordered: 0 });
+  });
+
+  it('should apply a link profile to one direction unless bidirectional', () => {
+    linkModel.setLinkProfile('Blue', 'Red', { latencyMs: 150 });
+    linkModel.setLinkProfile('Green', 'Yellow', { latencyMs: 80 }, true);
+
+    expect(linkModel.getLinkProfile('Blue', 'Red').latencyMs).toBe(150);
+    expect(linkModel.getLinkProfile('Red', 'Blue')).toEqual(LinkModel.getDefaultProfile());
+    expect(linkModel.getLinkProfile('Yellow', 'Green').latencyMs).toBe(80);
+
+    linkModel.clearLinkProfile('Blue', 'Red');
+    expect(linkModel.getLinkProfile('Blue', 'Red')).toEqual(LinkModel.getDefaultProfile());
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Integration tests for NetworkManager in virtual time
+ * Runs a small network through the event scheduler without waiting for wall-clock slots
+ */
+
+import { NetworkManager } from '../../network/networkManager';
+import { SimulatorConfig } from '../../config/config';
+import { BlockCreator } from '../../core/blockchain/blockCreator';
+import { MessageType } from '../../network/messages';
+
+describe('NetworkManager', () => {
+  let networkManager: NetworkManager;
+  const START_TIME_MS = 1_700_000_000_000;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    networkManager = new NetworkManager(START_TIME_MS);
+    networkManager.createFullyConnectedNetwork(4);
+  });
+
+  afterEach(() => {
+    networkManager.stopAllNodes();
+    jest.restoreAllMocks();
+  });
+
+  it('should produce one block per slot when run as fast as possible', async () => {
+    // Given: Slot processing is scheduled from genesis
+    networkManager.startSlotProcessing();
+
+    // When: One epoch of virtual time is run
+    const epochMs = SimulatorConfig.SLOTS_PER_EPOCH * SimulatorConfig.SECONDS_PER_SLOT * 1000;
+    await networkManager.getScheduler().runFor(epochMs);
+
+    // Then: Every node has the same chain with a block for each slot of the epoch
+    expect(networkManager.getClock().now()).toBe(START_TIME_MS + epochMs);
+    const chains = Object.values(networkManager.getNetworkState()).map((state: any) =>
+      state.blockchain.map((block: any) => block.hash)
+    );
+    expect(chains[0]).toHaveLength(SimulatorConfig.SLOTS_PER_EPOCH + 1);
+    chains.forEach(chain => expect(chain).toEqual(chains[0]));
+  }, 120000);
+
+  it('should not process slots once slot processing is stopped', async () => {
+    networkManager.startSlotProcessing();
+    networkManager.stopSlotProcessing();
+
+    await networkManager.getScheduler().runFor(3000);
+
+    const heights = Object.values(networkManager.getNetworkState()).map((state: any) => state.blockchain.length);
+    expect(heights).toEqual([1, 1, 1, 1]);
+  });
+
+  it('should start a recreated network with only its own validators', () => {
+    // When: The network is stopped and recreated with fewer nodes (e.g. new settings)
+    networkManager.stopAllNodes();
+    networkManager.createFullyConnectedNetwork(3);
+
+    // Then: Each node's validator registry holds the new nodes only
+    const addresses = Array.from(networkManager.getAllNodes().values()).map(node => node.getNodeAddress());
+    networkManager.getAllNodes().forEach(node => {
+      expect(node.node.getBeaconState().validators.map(v => v.nodeAddress)).toEqual(addresses);
+    });
+  });
+
+  it('should relay broadcasts to nodes that are not direct peers', async () => {
+    // Given: A ring Blue - Green - Red - Yellow - Blue, so Blue and Red are not peers
+    networkManager.setupNetworkTopology(new Map([
+      ['Blue', ['Green', 'Yellow']],
+      ['Green', ['Blue', 'Red']],
+      ['Red', ['Green', 'Yellow']],
+      ['Yellow', ['Red', 'Blue']]
+    ]));
+    networkManager.startSlotProcessing();
+
+    // When: One epoch of virtual time is run
+    await networkManager.getScheduler().runFor(SimulatorConfig.SLOTS_PER_EPOCH * SimulatorConfig.SECONDS_PER_SLOT * 1000);
+
+    // Then: Every node built the same chain from blocks relayed around the ring
+    const chains = Object.values(networkManager.getNetworkState()).map((state: any) =>
+      state.blockchain.map((block: any) => block.hash)
+    );
+    expect(chains[0]).toHaveLength(SimulatorConfig.SLOTS_PER_EPOCH + 1);
+    chains.forEach(chain => expect(chain).toEqual(chains[0]));
+
+    // And: Copies arriving from both directions were handled once and dropped after that
+    const redStats = networkManager.getNode('Red')!.getGossipStats();
+    expect(redStats.relayed).toBeGreaterThan(0);
+    expect(redStats.duplicates).toBeGreaterThan(0);
+  }, 120000);
+
+  it('should neither relay nor store a block that fails gossip validation', async () => {
+    // Given: Red signs a block with no transactions for slot 0
+    const red = networkManager.getNode('Red')!;
+    const invalidBlock = BlockCreator.createInvalidBlock(red.node.getLatestBlock()!, 0, red.node, 0);
+
+    // When: Green receives it as a gossip broadcast
+    await networkManager.getNode('Green')!.receiveIncomingMessage({
+      type: MessageType.PROPOSER_BLOCK_BROADCAST,
+      fromNodeId: 'Red',
+      block: invalidBlock,
+      slot: 0,
+      messageId: 'Red:spam',
+      hopsLeft: SimulatorConfig.GOSSIP_MAX_HOPS
+    });
+    await networkManager.getScheduler().runFor(1000);
+
+    // Then: No node relayed it and it is in no node's block tree
+    networkManager.getAllNodes().forEach(node => {
+      expect(node.getGossipStats().relayed).toBe(0);
+      expect(node.getState().blockchainTree.getNode(invalidBlock.hash!)).toBeUndefined();
+    });
+  });
+
+  describe('partitions', () => {
+    const EPOCH_MS = SimulatorConfig.SLOTS_PER_EPOCH * SimulatorConfig.SECONDS_PER_SLOT * 1000;
+
+    /**
+     * Helper to collect the senders of messages delivered to a node
+     */
+    function recordSenders(nodeId: string): string[] {
+      const senders: string[] = [];
+      const node = networkManager.getNode(nodeId)!;
+      jest.spyOn(node, 'receiveIncomingMessage').mockImplementation(async message => { senders.push(message.fromNodeId); });
+      return senders;
+    }
+
+    it('should drop messages between sides of a partition', async () => {
+      // Given: Blue and Green are cut off from Red and Yellow
+      const senders = recordSenders('Red');
+      networkManager.setPartition([['Blue', 'Green'], ['Red', 'Yellow']]);
+
+      // When: Every node broadcasts its head
+      networkManager.broadcastAllGhostHeads();
+      await networkManager.getScheduler().runFor(1000);
+
+      // Then: Red only hears from its own side, and nothing is held back
+      expect(senders).toEqual(['Yellow']);
+      expect(networkManager.getPartitionGroup('Red')).toBe(1);
+      expect(networkManager.getHeldMessageCount()).toBe(0);
+    });
+
+    it('should hold cross-partition messages in queue mode and deliver them on heal', async () => {
+      const senders = recordSenders('Red');
+      networkManager.setPartition([['Red']], 'queue');
+
+      networkManager.broadcastAllGhostHeads();
+      await networkManager.getScheduler().runFor(1000);
+
+      // Unlisted nodes form the other side together - Red's 3 heads plus, for Red,
+      // each of the other 3 heads sent directly and relayed by the 2 remaining nodes
+      expect(senders).toEqual([]);
+      expect(networkManager.getPartitionGroup('Blue')).toBe(1);
+      expect(networkManager.getHeldMessageCount()).toBe(12);
+
+      networkManager.healPartition();
+      await networkManager.getScheduler().runFor(1000);
+
+      // Red's recorder sees every copy (duplicates are dropped inside receiveIncomingMessage)
+      expect(senders.sort()).toEqual(['Blue', 'Blue', 'Blue', 'Green', 'Green', 'Green', 'Yellow', 'Yellow', 'Yellow']);
+      expect(networkManager.getPartition()).toBeNull();
+      expect(networkManager.getHeldMessageCount()).toBe(0);
+    });
+
+    it('should request chains over topology links after a heal in a line', async () => {
+      // Given: A line Blue - Green - Red - Yellow, split in the middle for one epoch
+      networkManager.setupNetworkTopology(new Map([
+        ['Blue', ['Green']],
+        ['Green', ['Blue', 'Red']],
+        ['Red', ['Green', 'Yellow']],
+        ['Yellow', ['Red']]
+      ]));
+      const chainRequests: string[] = [];
+      networkManager.getAllNodes().forEach((node, nodeId) => {
+        const receive = node.receiveIncomingMessage.bind(node);
+        jest.spyOn(node, 'receiveIncomingMessage').mockImplementation(async message => {
+          if (message.type === MessageType.CHAIN_REQUEST) chainRequests.push(`${message.fromNodeId}->${nodeId}`);
+          return receive(message);
+        });
+      });
+      networkManager.setPartition([['Blue', 'Green'], ['Red', 'Yellow']]);
+      networkManager.startSlotProcessing();
+      await networkManager.getScheduler().runFor(EPOCH_MS);
+
+      // When: The partition heals and, with no new blocks, nodes exchange heads for a few sync rounds
+      networkManager.stopSlotProcessing();
+      networkManager.healPartition();
+      networkManager.startSync();
+      await networkManager.getScheduler().runFor(4 * SimulatorConfig.SYNC_INTERVAL_MS);
+
+      // Then: Every chain request went to a neighbour, and the forks were exchanged
+      const links = ['Blue->Green', 'Green->Blue', 'Green->Red', 'Red->Green', 'Red->Yellow', 'Yellow->Red'];
+      expect(chainRequests.length).toBeGreaterThan(0);
+      chainRequests.forEach(request => expect(links).toContain(request));
+      const chains = Object.values(networkManager.getNetworkState()).map((state: any) =>
+        state.blockchain.map((block: any) => block.hash)
+      );
+      chains.forEach(chain => expect(chain).toEqual(chains[0]));
+    }, 120000);
+  });
+
+  describe('joining and leaving', () => {
+    const EPOCH_MS = SimulatorConfig.SLOTS_PER_EPOCH * SimulatorConfig.SECONDS_PER_SLOT * 1000;
+
+    /**
+     * Helper to get the block hashes of a node's chain
+     */
+    function chainOf(nodeId: string): string[] {
+      return networkManager.getNode(nodeId)!.getState().blockchain.map((block: any) => block.hash);
+    }
+
+    it('should sync a node that joins mid-run from genesis', async () => {
+      // Given: The network has run for an epoch
+      networkManager.startSlotProcessing();
+      await networkManager.getScheduler().runFor(EPOCH_MS);
+
+      // When: A fresh node joins and a slot passes
+      const nodeId = networkManager.addNode();
+      expect(chainOf(nodeId)).toHaveLength(1);
+      await networkManager.getScheduler().runFor(1000);
+
+      // Then: It has the same chain as the others and is linked to all of them
+      expect(nodeId).toBe('Blue-2');
+      expect(chainOf(nodeId)).toHaveLength(SimulatorConfig.SLOTS_PER_EPOCH + 2);
+      expect(chainOf(nodeId)).toEqual(chainOf('Blue'));
+      expect(networkManager.getNetworkTopology().get('Red')).toContain(nodeId);
+    }, 120000);
+
+    it('should resync a node restarted without its state and forget removed nodes', async () => {
+      // Given: Red crashed during the first epoch
+      networkManager.startSlotProcessing();
+      networkManager.crashNode('Red');
+      await networkManager.getScheduler().runFor(EPOCH_MS);
+      expect(chainOf('Red')).toHaveLength(1);
+
+      // When: Red restarts with a wiped state and Yellow leaves
+      networkManager.restartNode('Red', false);
+      networkManager.removeNode('Yellow');
+      await networkManager.getScheduler().runFor(1000);
+
+      // Then: Red caught up, and Yellow is gone from the nodes and every peer list
+      expect(chainOf('Red')).toEqual(chainOf('Blue'));
+      expect(networkManager.isNodeOnline('Red')).toBe(true);
+      expect(networkManager.getNode('Yellow')).toBeUndefined();
+      expect(networkManager.getNetworkTopology().get('Blue')).toEqual(['Green', 'Red']);
+    }, 120000);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for ScenarioRunner
+ * Tests scenario validation and running scripted actions and assertions headless
+ */
+
+import { ScenarioRunner, Scenario } from '../../network/scenarioRunner';
+import { BUILT_IN_SCENARIOS } from '../../network/scenarios';
+
+describe('ScenarioRunner', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('parse', () => {
+    it('should accept the built-in scenarios', () => {
+      expect(BUILT_IN_SCENARIOS.length).toBeGreaterThan(0);
+      BUILT_IN_SCENARIOS.forEach(scenario => expect(ScenarioRunner.parse(scenario)).toBe(scenario));
+    });
+
+    it('should parse JSON text', () => {
+      const scenario = ScenarioRunner.parse('{ "name": "heal", "slots": 4, "steps": [{ "slot": 1, "action": { "type": "heal" } }] }');
+
+      expect(scenario.steps[0].action).toEqual({ type: 'heal' });
+    });
+
+    it('should reject malformed steps with the step number', () => {
+      const unknownAction = { name: 'bad', slots: 4, steps: [{ slot: 1, action: { type: 'explode' } }] };
+      const badCondition = { name: 'bad', slots: 4, steps: [
+        { slot: 0, action: { type: 'heal' } },
+        { slot: 2, action: { type: 'assert', condition: { metric: 'finalizedEpoch', op: '=>', value: 1 } } }
+      ] };
+
+      expect(() => ScenarioRunner.parse(unknownAction)).toThrow('Step 0: unknown action type "explode"');
+      expect(() => ScenarioRunner.parse(badCondition)).toThrow('Step 1');
+      expect(() => ScenarioRunner.parse({ name: 'bad', steps: [] })).toThrow('slots');
+      expect(() => ScenarioRunner.parse({ name: 'bad', slots: 4, steps: [{ slot: 4, action: { type: 'heal' } }] }))
+        .toThrow('Step 0: slot 4 is past the end of the scenario (4 slots)');
+    });
+  });
+
+  it('should run actions at their slot and report assertion results', async () => {
+    // Given: Yellow goes offline at genesis, with one assertion that holds and one that cannot
+    const scenario: Scenario = {
+      name: 'offline node',
+      seed: 7,
+      slots: 3,
+      steps: [
+        { slot: 0, action: { type: 'setOnline', node: 'Yellow', online: false } },
+        { slot: 2, action: { type: 'assert', condition: { metric: 'headSlot', op: '==', value: 1 } } },
+        { slot: 2, action: { type: 'assert', condition: { metric: 'height', op: '==', value: 1, node: 'Yellow' } } },
+        { slot: 2, action: { type: 'assert', condition: { metric: 'finalizedEpoch', op: '>=', value: 3 } } }
+      ]
+    };
+
+    // When: The scenario runs headless
+    const report = await ScenarioRunner.run(scenario);
+
+    // Then: Online nodes built on slot 1 while Yellow stayed at genesis
+    expect(report.steps.map(step => step.status)).toEqual(['done', 'passed', 'passed', 'failed']);
+    expect(report.steps[1].detail).toBe('Blue=1, Green=1, Red=1');
+    expect(report.passed).toBe(false);
+    expect(report.summary.seed).toBe(7);
+    expect(report.summary.nodes.find(node => node.nodeId === 'Yellow')?.online).toBe(false);
+  }, 120000);
+
+  it('should report steps a shortened run never reached as errors', async () => {
+    // Given: A scenario run for fewer slots than it was written for (e.g. --slots on the command line)
+    const scenario = ScenarioRunner.parse({ name: 'short', slots: 4, steps: [{ slot: 3, action: { type: 'heal' } }] });
+
+    // When: It runs for 2 slots
+    const report = await ScenarioRunner.run({ ...scenario, slots: 2 });
+
+    // Then: The unreached step is an error that says why
+    expect(report.steps[0].status).toBe('error');
+    expect(report.steps[0].detail).toContain('ended before slot 3');
+    expect(report.passed).toBe(false);
+  }, 120000);
+});
@@ -0,0 +1,46 @@
+/**
+ * Integration tests for SimulationRunner
+ * Runs a small network headless and checks the summary it produces
+ */
+
+import { SimulationRunner } from '../../network/simulationRunner';
+import { SimulatorConfig } from '../../config/config';
+
+describe('SimulationRunner', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should summarize heads, finality, reorgs and the EPM contract of a run', async () => {
+    // Given: A run with a fixed seed and a config override
+    const previousSlotTime = SimulatorConfig.SECONDS_PER_SLOT;
+
+    // When: Three slots are run headless
+    const summary = await SimulationRunner.run({
+      slots: 3,
+      nodeCount: 4,
+      configOverrides: { RANDOM_SEED: 42, SECONDS_PER_SLOT: 2 }
+    });
+
+    // Then: The override applied for the run only
+    expect(summary.seed).toBe(42);
+    expect(summary.config.SECONDS_PER_SLOT).toBe(2);
+    expect(summary.endTimeMs - summary.startTimeMs).toBe(3 * 2000);
+    expect(SimulatorConfig.SECONDS_PER_SLOT).toBe(previousSlotTime);
+
+    // And: Every node ended on the same head with a block per slot
+    expect(summary.nodes).toHaveLength(4);
+    expect(summary.headsAgree).toBe(true);
+    expect(summary.nodes[0].headSlot).toBe(2);
+    expect(summary.totalReorgs).toBe(0);
+
+    // And: The painting contract is reported
+    expect(summary.epm).toHaveLength(1);
+    expect(summary.epm[0].complete).toBe(false);
+  }, 120000);
+});
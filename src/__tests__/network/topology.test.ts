@@ -0,0 +1,70 @@
+/**
+ * Unit tests for TopologyBuilder
+ * Tests that each shape links the expected peers, and that random shapes replay with the same seed
+ */
+
+import { TopologyBuilder, Topology } from '../../network/topology';
+import { SeededRandom } from '../../core/simulation/seededRandom';
+
+describe('TopologyBuilder', () => {
+  const NODE_IDS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+  /**
+   * Helper to get the number of peers of each node
+   */
+  function degrees(topology: Topology): number[] {
+    return Array.from(topology.values(), peers => peers.length);
+  }
+
+  /**
+   * Helper to check that every link is listed on both ends
+   */
+  function expectTwoWay(topology: Topology): void {
+    topology.forEach((peers, nodeId) => peers.forEach(peerId => expect(topology.get(peerId)).toContain(nodeId)));
+  }
+
+  it('should build the fixed shapes', () => {
+    const ring = TopologyBuilder.ring(NODE_IDS);
+    const line = TopologyBuilder.line(NODE_IDS);
+    const star = TopologyBuilder.star(NODE_IDS);
+
+    expect(degrees(TopologyBuilder.mesh(NODE_IDS))).toEqual([5, 5, 5, 5, 5, 5]);
+    expect(ring.get('A')).toEqual(['B', 'F']);
+    expect(TopologyBuilder.getDiameter(ring)).toBe(3);
+    expect(degrees(line)).toEqual([1, 2, 2, 2, 2, 1]);
+    expect(TopologyBuilder.getDiameter(line)).toBe(5);
+    expect(star.get('A')).toEqual(['B', 'C', 'D', 'E', 'F']);
+    expect(star.get('C')).toEqual(['A']);
+    [ring, line, star].forEach(expectTwoWay);
+  });
+
+  it('should build random shapes that replay with the same seed', () => {
+    // Given/When: Random graphs built from two generators with the same seed
+    const regular = TopologyBuilder.randomRegular(NODE_IDS, 3, new SeededRandom(42));
+    const smallWorld = TopologyBuilder.smallWorld(NODE_IDS, 4, 0.5, new SeededRandom(42));
+
+    // Then: Every node has the requested degree and the graphs are identical on replay
+    expect(degrees(regular)).toEqual([3, 3, 3, 3, 3, 3]);
+    expect(TopologyBuilder.randomRegular(NODE_IDS, 3, new SeededRandom(42))).toEqual(regular);
+    expect(TopologyBuilder.smallWorld(NODE_IDS, 4, 0.5, new SeededRandom(42))).toEqual(smallWorld);
+    expectTwoWay(regular);
+    expectTwoWay(smallWorld);
+
+    // And: Rewiring keeps the number of links
+    const linkCount = (topology: Topology) => degrees(topology).reduce((sum, degree) => sum + degree, 0) / 2;
+    expect(linkCount(smallWorld)).toBe(12);
+
+    expect(() => TopologyBuilder.randomRegular(['A', 'B', 'C'], 1, new SeededRandom(1))).toThrow('No 1-regular graph');
+  });
+
+  it('should parse a custom adjacency list', () => {
+    const topology = TopologyBuilder.custom(['A', 'B', 'C', 'D'], 'A: B, C;\nC: D');
+
+    expect(topology.get('A')).toEqual(['B', 'C']);
+    expect(topology.get('D')).toEqual(['C']);
+    expect(TopologyBuilder.toAdjacencyText(topology)).toBe('A: B, C; C: D');
+    expect(() => TopologyBuilder.custom(['A', 'B'], 'A: Z')).toThrow('unknown node "Z"');
+    expect(() => TopologyBuilder.custom(['A', 'B'], 'A B')).toThrow('expected "Node: Peer, Peer"');
+    expect(() => TopologyBuilder.build('hypercube', ['A'], new SeededRandom(1))).toThrow('Unknown topology');
+  });
+});
@@ -6,6 +6,9 @@ import {
   generateAddress,
   generateSignature,
   verifySignature,
+  splitSignature,
+  recoverPublicKey,
+  recoverAddress,
   hexToBuffer,
   bufferToHex
 } from '../../utils/cryptoUtils';
@@ -156,6 +159,27 @@ describe('Crypto Utilities', () => {
     });
   });
   
+  describe('Signer Recovery', () => {
+    it('should recover the signer\'s public key and address from a signature', async () => {
+      const privateKey = generatePrivateKey('test-node');
+      const publicKey = derivePublicKey(privateKey);
+      const signature = await generateSignature('test-txid', privateKey);
+
+      expect(splitSignature(signature).v).toBeLessThanOrEqual(1);
+      expect(recoverPublicKey('test-txid', signature)).toBe(publicKey);
+      expect(recoverAddress('test-txid', signature)).toBe(generateAddress(publicKey));
+    });
+
+    it('should recover another address for other data and nothing for malformed signatures', async () => {
+      const privateKey = generatePrivateKey('test-node');
+      const signature = await generateSignature('test-txid', privateKey);
+
+      expect(recoverAddress('other-txid', signature)).not.toBe(generateAddress(derivePublicKey(privateKey)));
+      expect(recoverAddress('test-txid', signature.slice(0, 128))).toBeNull();
+      expect(recoverAddress('test-txid', 'error-0')).toBeNull();
+    });
+  });
+
   describe('Buffer Conversion', () => {
     it('should convert hex to buffer and back', () => {
       const originalHex = '0123456789abcdef';
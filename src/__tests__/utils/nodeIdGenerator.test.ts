@@ -0,0 +1,43 @@
+/**
+ * Unit tests for node ids and paint teams
+ * Tests that ids scale past the four color names and that teams don't depend on ids
+ */
+
+import { generateUniqueNodeIds } from '../../utils/nodeIdGenerator';
+import { getNodePaintColor } from '../../utils/nodeColorUtils';
+import { NetworkManager } from '../../network/networkManager';
+
+describe('generateUniqueNodeIds', () => {
+  it('should keep the color names for the first four nodes', () => {
+    expect(generateUniqueNodeIds(4)).toEqual(['Blue', 'Green', 'Red', 'Yellow']);
+  });
+
+  it('should number the names for larger networks', () => {
+    const nodeIds = generateUniqueNodeIds(128);
+
+    expect(nodeIds.slice(4, 9)).toEqual(['Blue-2', 'Green-2', 'Red-2', 'Yellow-2', 'Blue-3']);
+    expect(nodeIds[127]).toBe('Yellow-32');
+    expect(new Set(nodeIds).size).toBe(128);
+  });
+});
+
+describe('paint teams', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should split nodes into equal teams in the order they join', () => {
+    // Given: Nodes with ids that say nothing about their color
+    const networkManager = new NetworkManager();
+    ['Alpha', 'Bravo', 'Charlie', 'Delta', 'Echo', 'Foxtrot', 'Golf', 'Hotel'].forEach(nodeId => networkManager.createNode(nodeId));
+
+    // Then: They join the four teams in turn
+    expect(['Alpha', 'Bravo', 'Charlie', 'Delta'].map(getNodePaintColor)).toEqual(['blue', 'green', 'red', 'yellow']);
+    expect(['Echo', 'Foxtrot', 'Golf', 'Hotel'].map(getNodePaintColor)).toEqual(['blue', 'green', 'red', 'yellow']);
+    networkManager.stopAllNodes();
+  });
+});
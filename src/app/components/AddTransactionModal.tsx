@@ -1,28 +1,54 @@
 import React, { useState } from 'react';
-import { Account } from '../../types/types';
+import { Account, TransactionFees } from '../../types/types';
+import { SimulatorConfig } from '../../config/config';
+import { DepositContract } from '../../core/blockchain/depositContract';
+import { suggestTransactionFees } from '../../core/blockchain/gas';
 import './AddTransactionModal.css';
 
 interface AddTransactionModalProps {
   nodeId: string;
   nodeAddress: string;
+  blsPublicKey?: string; // Sent with deposits for this node's own validator
   worldState: Record<string, Account>;
+  baseFeePerGas: number; // Base fee of the next block, for the suggested fees
   onClose: () => void;
-  onSubmit: (recipient: string, amount: number) => void;
+  onSubmit: (recipient: string, amount: number, data?: string, fees?: Partial<TransactionFees>, count?: number) => void;
 }
 
 const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
   nodeId,
   nodeAddress,
+  blsPublicKey,
   worldState,
+  baseFeePerGas,
   onClose,
   onSubmit
 }) => {
   const [recipient, setRecipient] = useState('');
   const [amount, setAmount] = useState('');
   const [error, setError] = useState('');
+  const [depositAction, setDepositAction] = useState<'deposit' | 'exit'>('deposit');
+  const [validatorAddress, setValidatorAddress] = useState(nodeAddress);
+  const [maxFeePerGas, setMaxFeePerGas] = useState('');
+  const [maxPriorityFeePerGas, setMaxPriorityFeePerGas] = useState('');
+  const [count, setCount] = useState('1');
   
-  // Get list of accounts for dropdown
-  const accounts = Object.keys(worldState).filter(addr => addr !== nodeAddress);
+  // Fees used for any field left blank
+  const suggestedFees = suggestTransactionFees(baseFeePerGas);
+  
+  // Get list of accounts for dropdown (the deposit contract is always available)
+  const accounts = Object.keys(worldState).filter(addr =>
+    addr !== nodeAddress && addr !== SimulatorConfig.DEPOSIT_CONTRACT_ADDRESS
+  );
+  accounts.push(SimulatorConfig.DEPOSIT_CONTRACT_ADDRESS);
+  const isDepositContract = recipient === SimulatorConfig.DEPOSIT_CONTRACT_ADDRESS;
+
+  const handleDepositActionChange = (action: 'deposit' | 'exit') => {
+    setDepositAction(action);
+    if (action === 'exit') {
+      setAmount(String(SimulatorConfig.EXIT_REQUEST_FEE));
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -45,9 +71,42 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
       return;
     }
 
-    console.log('AddTransactionModal: Calling onSubmit', { recipient: recipient.trim(), amount: amountNum });
-    // Submit the transaction
-    onSubmit(recipient.trim(), amountNum);
+    // Blank fee fields are filled in by the node from the current base fee
+    const fees: Partial<TransactionFees> = {};
+    if (maxFeePerGas.trim()) fees.maxFeePerGas = parseFloat(maxFeePerGas);
+    if (maxPriorityFeePerGas.trim()) fees.maxPriorityFeePerGas = parseFloat(maxPriorityFeePerGas);
+    if (Object.values(fees).some(fee => isNaN(fee) || fee < 0)) {
+      setError('Fees must be non-negative numbers');
+      return;
+    }
+    if (fees.maxFeePerGas !== undefined && fees.maxPriorityFeePerGas !== undefined && fees.maxPriorityFeePerGas > fees.maxFeePerGas) {
+      setError('Priority fee cannot exceed the max fee');
+      return;
+    }
+
+    const countNum = parseInt(count, 10);
+    if (isNaN(countNum) || countNum < 1) {
+      setError('Copies must be at least 1');
+      return;
+    }
+
+    // Deposit contract calls carry the request as call data
+    let data: string | undefined;
+    if (isDepositContract) {
+      if (!validatorAddress.trim()) {
+        setError('Validator address is required');
+        return;
+      }
+      data = DepositContract.encodeRequest({
+        type: depositAction,
+        validatorAddress: validatorAddress.trim(),
+        ...(depositAction === 'deposit' && validatorAddress.trim() === nodeAddress && blsPublicKey && { blsPublicKey })
+      });
+    }
+
+    console.log('AddTransactionModal: Calling onSubmit', { recipient: recipient.trim(), amount: amountNum, data, fees, count: countNum });
+    // Submit the transaction (several copies flood the mempool)
+    onSubmit(recipient.trim(), amountNum, data, fees, countNum);
     onClose();
   };
 
@@ -79,7 +138,9 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
                     <option key={addr} value={addr}>
                       {addr === '0xEPM_PAINT_CONTRACT' 
                         ? '🎨 EPM Paint Contract' 
-                        : `${addr.slice(0, 10)}...${addr.slice(-8)}`}
+                        : addr === SimulatorConfig.DEPOSIT_CONTRACT_ADDRESS
+                          ? '🔒 Deposit Contract'
+                          : `${addr.slice(0, 10)}...${addr.slice(-8)}`}
                     </option>
                   ))}
                 </select>
@@ -101,6 +162,94 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({
               </div>
             </div>
 
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="max-fee">Max Fee (gwei):</label>
+                <input
+                  id="max-fee"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={maxFeePerGas}
+                  onChange={(e) => setMaxFeePerGas(e.target.value)}
+                  placeholder={`auto (${suggestedFees.maxFeePerGas})`}
+                  className="form-input"
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="priority-fee">Priority Fee (gwei):</label>
+                <input
+                  id="priority-fee"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={maxPriorityFeePerGas}
+                  onChange={(e) => setMaxPriorityFeePerGas(e.target.value)}
+                  placeholder={`auto (${suggestedFees.maxPriorityFeePerGas})`}
+                  className="form-input"
+                />
+              </div>
+
+              <div className="form-group">
+                <label htmlFor="count">Copies:</label>
+                <input
+                  id="count"
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={count}
+                  onChange={(e) => setCount(e.target.value)}
+                  className="form-input"
+                />
+              </div>
+            </div>
+
+            <div className="add-tx-info">
+              <p>
+                Next base fee: {baseFeePerGas} gwei. Proposers take the highest tips first, and the base fee
+                rises while blocks are more than half full - add many copies to watch it climb.
+              </p>
+            </div>
+
+            {isDepositContract && (
+              <div className="form-row">
+                <div className="form-group">
+                  <label htmlFor="validator-address">Validator:</label>
+                  <input
+                    id="validator-address"
+                    type="text"
+                    value={validatorAddress}
+                    onChange={(e) => setValidatorAddress(e.target.value)}
+                    className="form-input"
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label htmlFor="deposit-action">Action:</label>
+                  <select
+                    id="deposit-action"
+                    value={depositAction}
+                    onChange={(e) => handleDepositActionChange(e.target.value as 'deposit' | 'exit')}
+                    className="form-input"
+                  >
+                    <option value="deposit">Deposit</option>
+                    <option value="exit">Exit</option>
+                  </select>
+                </div>
+              </div>
+            )}
+
+            {isDepositContract && (
+              <div className="add-tx-info">
+                <p>
+                  {depositAction === 'deposit'
+                    ? `Deposits of at least ${SimulatorConfig.MIN_DEPOSIT_AMOUNT} ETH are credited to the validator. New validators activate once they hold ${SimulatorConfig.VALIDATOR_ACTIVATION_BALANCE} ETH; you become their withdrawal address.`
+                    : `Exit requests cost ${SimulatorConfig.EXIT_REQUEST_FEE} ETH and must come from the validator's withdrawal address.`}
+                </p>
+              </div>
+            )}
+
             {error && <div className="error-message">{error}</div>}
 
             <div className="form-actions">
@@ -6,6 +6,7 @@ import { getNodeColorCSS, getNodeColorEmoji } from '../../utils/nodeColorUtils';
 import AttestationCircle from './AttestationCircle';
 import ProposerScheduleTimeline from './ProposerScheduleTimeline';
 import { SimulatorConfig } from '../../config/config';
+import { ValidatorLifecycle } from '../../core/consensus/validatorLifecycle';
 import './BeaconStateView.css';
 
 interface BeaconStateViewProps {
@@ -173,6 +174,14 @@ const BeaconStateView: React.FC<BeaconStateViewProps> = ({ beaconState, blockcha
           {/* Validators */}
           <div className="beacon-section">
             <h3>Validators ({validators.length})</h3>
+            {beaconState.lastEpochRewards && (
+              <p className="validator-rewards-note">
+                Balance change from epoch {beaconState.lastEpochRewards.epoch} rewards and penalties shown next to each stake
+                {beaconState.lastEpochRewards.inactivityLeak && (
+                  <span className="inactivity-leak-badge">INACTIVITY LEAK</span>
+                )}
+              </p>
+            )}
             <div className="validators-list">
               {validators.length === 0 ? (
                 <p className="empty-message">No validators registered</p>
@@ -183,15 +192,31 @@ const BeaconStateView: React.FC<BeaconStateViewProps> = ({ beaconState, blockcha
                     const addressSuffix = validator.nodeAddress.slice(-6);
                     const nodeColor = getNodeColorCSS(nodeId);
                     const nodeEmoji = getNodeColorEmoji(nodeId);
+                    const rewardDelta = beaconState.lastEpochRewards?.deltas[validator.nodeAddress];
+                    const inactivityScore = beaconState.inactivityScores[validator.nodeAddress] || 0;
+                    const status = ValidatorLifecycle.getValidatorStatus(validator, beaconState.latestAppliedEpoch);
                     return (
                       <div 
                         key={idx} 
-                        className="validator-item"
+                        className={`validator-item ${validator.slashed ? 'slashed' : ''}`}
                         style={{ borderLeftColor: nodeColor, borderLeftWidth: '4px' }}
                       >
                         <div className="validator-header">
-                          <span className="validator-index">#{idx}</span>
-                          <span className="validator-stake">{validator.stakedEth} ETH</span>
+                          <span className="validator-index">
+                            #{idx}
+                            {validator.slashed && <span className="validator-slashed-badge">SLASHED</span>}
+                            {status !== 'active' && (
+                              <span className={`validator-status-badge ${status}`}>{status.toUpperCase()}</span>
+                            )}
+                          </span>
+                          <span className="validator-stake">
+                            {Number(validator.stakedEth.toFixed(4))} ETH
+                            {rewardDelta !== undefined && rewardDelta !== 0 && (
+                              <span className={`validator-reward-delta ${rewardDelta > 0 ? 'positive' : 'negative'}`}>
+                                {rewardDelta > 0 ? '+' : ''}{Number(rewardDelta.toFixed(4))}
+                              </span>
+                            )}
+                          </span>
                         </div>
                         <div className="validator-node-info">
                           <span className="validator-node-id" style={{ color: nodeColor }}>
@@ -199,6 +224,9 @@ const BeaconStateView: React.FC<BeaconStateViewProps> = ({ beaconState, blockcha
                           </span>
                           <span className="validator-address-suffix">({addressSuffix})</span>
                         </div>
+                        {inactivityScore > 0 && (
+                          <div className="validator-inactivity-score">Inactivity score: {inactivityScore}</div>
+                        )}
                       </div>
                     );
                   })}
@@ -207,6 +235,29 @@ const BeaconStateView: React.FC<BeaconStateViewProps> = ({ beaconState, blockcha
             </div>
           </div>
 
+          {/* Slashing Pool - evidence waiting to be included in a block */}
+          <div className="beacon-section">
+            <h3>Slashing Pool</h3>
+            <div className="slashing-pool-list">
+              {beaconState.proposerSlashingPool.length === 0 && beaconState.attesterSlashingPool.length === 0 ? (
+                <p className="empty-message">No pending slashing evidence</p>
+              ) : (
+                <>
+                  {beaconState.proposerSlashingPool.map(evidence => (
+                    <div key={`proposer-${evidence.proposerAddress}`} className="slashing-item">
+                      Double proposal: {addressToNodeId[evidence.proposerAddress] || evidence.proposerAddress.slice(0, 8)} at slot {evidence.header1.slot}
+                    </div>
+                  ))}
+                  {beaconState.attesterSlashingPool.map(evidence => (
+                    <div key={`attester-${evidence.attestation1.validatorAddress}`} className="slashing-item">
+                      Conflicting FFG votes: {addressToNodeId[evidence.attestation1.validatorAddress] || evidence.attestation1.validatorAddress.slice(0, 8)} (target epochs {evidence.attestation1.ffgTarget?.epoch} / {evidence.attestation2.ffgTarget?.epoch})
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          </div>
+
           {/* RANDAO Mixes */}
           <div className="beacon-section">
             <h3>RANDAO Mixes</h3>
@@ -387,6 +387,23 @@ const BlockTreeView: React.FC<BlockTreeViewProps> = ({ blockchainTree, beaconSta
                           Attested
                         </text>
                         
+                        {/* Proposer boost - orange, only while the block's slot is in progress */}
+                        {(blockNode.metadata.proposerBoost ?? 0) > 0 && (
+                          <text
+                            fill="#f39c12"
+                            stroke="none"
+                            x={!isCanonical ? 55 : 40}
+                            y="24"
+                            textAnchor="start"
+                            fontSize="9"
+                            fontWeight="bold"
+                            fontFamily="monospace"
+                            style={{ pointerEvents: 'none', userSelect: 'none' }}
+                          >
+                            ⚡ incl. {blockNode.metadata.proposerBoost} boost
+                          </text>
+                        )}
+                        
                         {/* Attestation circles - with stopPropagation to prevent block modal */}
                         {beaconState && (() => {
                           const attestationsForThisBlock = Array.from(beaconState.latestAttestations?.values() || [])
@@ -519,6 +536,18 @@ const BlockTreeView: React.FC<BlockTreeViewProps> = ({ blockchainTree, beaconSta
                   <span className="info-label">Timestamp:</span>
                   <span className="info-value">{new Date(selectedBlock.header.timestamp).toLocaleString()}</span>
                 </div>
+                {selectedBlock.header.proposerAddress && (
+                  <div className="info-row">
+                    <span className="info-label">Proposer:</span>
+                    <span className="info-value hash-value">{selectedBlock.header.proposerAddress}</span>
+                  </div>
+                )}
+                {selectedBlock.header.proposerSignature && (
+                  <div className="info-row">
+                    <span className="info-label">Proposer Signature:</span>
+                    <span className="info-value hash-value">{selectedBlock.header.proposerSignature.slice(0, 16)}...{selectedBlock.header.proposerSignature.slice(-8)}</span>
+                  </div>
+                )}
                 {selectedBlock.randaoReveal && (
                   <div className="info-row">
                     <span className="info-label">RANDAO Reveal:</span>
@@ -555,29 +584,48 @@ const BlockTreeView: React.FC<BlockTreeViewProps> = ({ blockchainTree, beaconSta
                 <div className="attestations-section">
                   <h3>Included Attestations ({selectedBlock.attestations.length})</h3>
                   <p className="section-description">
-                    Attestations are votes from validators supporting blocks in the canonical chain and voting for Casper FFG finality checkpoints.
+                    Attestations are votes from validators supporting blocks in the canonical chain and voting for Casper FFG finality checkpoints. Votes with identical data are aggregated into one BLS signature per committee.
                   </p>
                   
                   {selectedBlock.attestations.map((attestation: any, index: number) => {
-                    const validatorNodeId = addressToNodeId.get(attestation.validatorAddress) || 'Unknown';
-                    const validatorColor = getNodeColorCSS(validatorNodeId);
+                    // Participants are the committee members whose aggregation bit is set
+                    const committee: string[] | undefined = beaconState?.getCommitteeForSlot?.(attestation.slot);
+                    const participants = committee && committee.length === attestation.aggregationBits.length
+                      ? committee.filter((_: string, position: number) => attestation.aggregationBits[position])
+                      : [];
+                    const signedCount = attestation.aggregationBits.filter(Boolean).length;
                     
                     return (
                       <div key={index} className="attestation-card">
                         <div className="attestation-validator-header">
-                          <span className="validator-label">Validator:</span>
-                          <span 
-                            className="validator-name" 
-                            style={{ color: validatorColor }}
-                          >
-                            {validatorNodeId}
+                          <span className="validator-label">Slot {attestation.slot} committee:</span>
+                          <span className="validator-address">
+                            {signedCount}/{attestation.aggregationBits.length} signed (bits {attestation.aggregationBits.map((bit: boolean) => bit ? '1' : '0').join('')})
                           </span>
-                          <span className="validator-address">({attestation.validatorAddress.slice(0, 8)}...{attestation.validatorAddress.slice(-6)})</span>
+                        </div>
+                        {participants.length > 0 && (
+                          <div className="attestation-field">
+                            <span className="field-label">Validators:</span>
+                            <span className="field-value">
+                              {participants.map((address: string, i: number) => {
+                                const validatorNodeId = addressToNodeId.get(address) || 'Unknown';
+                                return (
+                                  <span key={address} className="validator-name" style={{ color: getNodeColorCSS(validatorNodeId) }}>
+                                    {i > 0 ? ', ' : ''}{validatorNodeId}
+                                  </span>
+                                );
+                              })}
+                            </span>
+                          </div>
+                        )}
+                        <div className="attestation-field">
+                          <span className="field-label">Aggregated BLS Signature:</span>
+                          <span className="field-value">{attestation.signature.slice(0, 24)}...</span>
                         </div>
                         
                         <div className="attestation-subsection">
                           <div className="subsection-title">LMD GHOST Vote</div>
-                          <div className="subsection-description">Block this validator is voting for as the chain head</div>
+                          <div className="subsection-description">Block these validators are voting for as the chain head</div>
                           <div className="attestation-field">
                             <span className="field-label">Attested Block:</span>
                             <span className="field-value">{attestation.blockHash}</span>
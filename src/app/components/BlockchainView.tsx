@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import { Block, Account } from '../../types/types';
 import { ReceiptsDatabase } from '../../types/receipt';
 import { calculateBlockHeaderHash } from '../../core/validation/blockValidator';
+import { calculateBurnedEth } from '../../core/blockchain/gas';
+import { SimulatorConfig } from '../../config/config';
 import TransactionView from './TransactionView';
 import AttestationCircle from './AttestationCircle';
 import { useSimulatorContext } from '../contexts/SimulatorContext';
@@ -39,6 +41,25 @@ const BlockchainView: React.FC<BlockchainViewProps> = ({ blocks, worldState, rec
     }
   };
   
+  // Base fee of each block in chain order, and the ETH burned by all of them
+  const feeHistory = React.useMemo(() => {
+    const chain = [...blocks].sort((a, b) => a.header.height - b.header.height);
+    return {
+      baseFees: chain.map(block => block.header.baseFeePerGas),
+      totalBurned: chain.reduce((total, block) => total + calculateBurnedEth(block.header), 0)
+    };
+  }, [blocks]);
+  
+  // Sparkline points for the base fee history, scaled to a 120x24 box
+  const getBaseFeeSparkline = (baseFees: number[]): string => {
+    const max = Math.max(...baseFees);
+    const min = Math.min(...baseFees);
+    const range = max - min || 1;
+    return baseFees
+      .map((fee, i) => `${baseFees.length > 1 ? i / (baseFees.length - 1) * 120 : 60},${(22 - (fee - min) / range * 20).toFixed(1)}`)
+      .join(' ');
+  };
+  
   // Determine if a block is part of a fork
   const isForkedBlock = (block: Block): boolean => {
     if (forkStartHeight === null) return false;
@@ -197,6 +218,19 @@ const BlockchainView: React.FC<BlockchainViewProps> = ({ blocks, worldState, rec
       
       {/* Blocks container on the right */}
       <div className="blocks-container" ref={blocksContainerRef}>
+        {feeHistory.baseFees.length > 0 && (
+          <div className="fee-stats-bar">
+            <span className="fee-stat">
+              Base Fee: <strong>{feeHistory.baseFees[feeHistory.baseFees.length - 1].toFixed(3)} gwei</strong>
+            </span>
+            <svg className="base-fee-sparkline" width="120" height="24" viewBox="0 0 120 24">
+              <polyline points={getBaseFeeSparkline(feeHistory.baseFees)} fill="none" stroke="var(--primary-color)" strokeWidth="1.5" />
+            </svg>
+            <span className="fee-stat">
+              🔥 Total Burned: <strong>{feeHistory.totalBurned.toFixed(6)} ETH</strong>
+            </span>
+          </div>
+        )}
         <div className="blockchain-row">
           {sortedBlocksForDisplay.map((item, index) => {
             // Handle empty slot placeholders
@@ -265,7 +299,9 @@ const BlockchainView: React.FC<BlockchainViewProps> = ({ blocks, worldState, rec
                 <div className="block-counts-row">
                   <div className="block-tx-count">{block.transactions.length} tx</div>
                   {block.attestations && block.attestations.length > 0 && (
-                    <div className="block-attestation-count">{block.attestations.length} att</div>
+                    <div className="block-attestation-count">
+                      {block.attestations.reduce((count, attestation) => count + attestation.aggregationBits.filter(Boolean).length, 0)} att
+                    </div>
                   )}
                 </div>
                 {isForkedBlock(block) && <div className="fork-icon"><BiFork /></div>}
@@ -318,6 +354,32 @@ const BlockchainView: React.FC<BlockchainViewProps> = ({ blocks, worldState, rec
                   <span className="info-label">Timestamp:</span>
                   <span className="info-value">{new Date(selectedBlock.header.timestamp).toLocaleString()}</span>
                 </div>
+                <div className="info-row">
+                  <span className="info-label">Gas Used:</span>
+                  <span className="info-value">
+                    {selectedBlock.header.gasUsed.toLocaleString()} / {SimulatorConfig.BLOCK_GAS_LIMIT.toLocaleString()} ({(selectedBlock.header.gasUsed / SimulatorConfig.BLOCK_GAS_LIMIT * 100).toFixed(1)}%)
+                  </span>
+                </div>
+                <div className="info-row">
+                  <span className="info-label">Base Fee:</span>
+                  <span className="info-value">{selectedBlock.header.baseFeePerGas} gwei</span>
+                </div>
+                <div className="info-row">
+                  <span className="info-label">Burned:</span>
+                  <span className="info-value">{calculateBurnedEth(selectedBlock.header)} ETH</span>
+                </div>
+                {selectedBlock.header.proposerAddress && (
+                  <div className="info-row">
+                    <span className="info-label">Proposer:</span>
+                    <span className="info-value hash-value">{selectedBlock.header.proposerAddress}</span>
+                  </div>
+                )}
+                {selectedBlock.header.proposerSignature && (
+                  <div className="info-row">
+                    <span className="info-label">Proposer Signature:</span>
+                    <span className="info-value hash-value">{selectedBlock.header.proposerSignature.slice(0, 16)}...{selectedBlock.header.proposerSignature.slice(-8)}</span>
+                  </div>
+                )}
                 {selectedBlock.randaoReveal && (
                   <div className="info-row">
                     <span className="info-label">RANDAO Reveal:</span>
@@ -363,29 +425,48 @@ const BlockchainView: React.FC<BlockchainViewProps> = ({ blocks, worldState, rec
                 <div className="attestations-section">
                   <h3>Included Attestations ({selectedBlock.attestations.length})</h3>
                   <p className="section-description">
-                    Attestations are votes from validators supporting blocks in the canonical chain and voting for Casper FFG finality checkpoints.
+                    Attestations are votes from validators supporting blocks in the canonical chain and voting for Casper FFG finality checkpoints. Votes with identical data are aggregated into one BLS signature per committee.
                   </p>
                   
                   {selectedBlock.attestations.map((attestation: any, index: number) => {
-                    const validatorNodeId = addressToNodeId[attestation.validatorAddress] || 'Unknown';
-                    const validatorColor = getNodeColorCSS(validatorNodeId);
+                    // Participants are the committee members whose aggregation bit is set
+                    const committee: string[] | undefined = beaconState?.getCommitteeForSlot?.(attestation.slot);
+                    const participants = committee && committee.length === attestation.aggregationBits.length
+                      ? committee.filter((_: string, position: number) => attestation.aggregationBits[position])
+                      : [];
+                    const signedCount = attestation.aggregationBits.filter(Boolean).length;
                     
                     return (
                       <div key={index} className="attestation-card">
                         <div className="attestation-validator-header">
-                          <span className="validator-label">Validator:</span>
-                          <span 
-                            className="validator-name" 
-                            style={{ color: validatorColor }}
-                          >
-                            {validatorNodeId}
+                          <span className="validator-label">Slot {attestation.slot} committee:</span>
+                          <span className="validator-address">
+                            {signedCount}/{attestation.aggregationBits.length} signed (bits {attestation.aggregationBits.map((bit: boolean) => bit ? '1' : '0').join('')})
                           </span>
-                          <span className="validator-address">({attestation.validatorAddress.slice(0, 8)}...{attestation.validatorAddress.slice(-6)})</span>
+                        </div>
+                        {participants.length > 0 && (
+                          <div className="attestation-field">
+                            <span className="field-label">Validators:</span>
+                            <span className="field-value">
+                              {participants.map((address: string, i: number) => {
+                                const validatorNodeId = addressToNodeId[address] || 'Unknown';
+                                return (
+                                  <span key={address} className="validator-name" style={{ color: getNodeColorCSS(validatorNodeId) }}>
+                                    {i > 0 ? ', ' : ''}{validatorNodeId}
+                                  </span>
+                                );
+                              })}
+                            </span>
+                          </div>
+                        )}
+                        <div className="attestation-field">
+                          <span className="field-label">Aggregated BLS Signature:</span>
+                          <span className="field-value">{attestation.signature.slice(0, 24)}...</span>
                         </div>
                         
                         <div className="attestation-subsection">
                           <div className="subsection-title">LMD GHOST Vote</div>
-                          <div className="subsection-description">Block this validator is voting for as the chain head</div>
+                          <div className="subsection-description">Block these validators are voting for as the chain head</div>
                           <div className="attestation-field">
                             <span className="field-label">Attested Block:</span>
                             <span className="field-value">{attestation.blockHash}</span>
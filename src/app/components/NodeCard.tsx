@@ -0,0 +1,58 @@
+import React from 'react';
+import { NodeState } from '../../types/types';
+import { getPartitionSideLabel } from './PartitionModal';
+import { getNodeColorEmoji, getNodeColorCSS } from '../../utils/nodeColorUtils';
+import './NodeCard.css';
+
+interface NodeCardProps {
+  nodeState: NodeState;
+  selected: boolean;
+  onSelect: (nodeId: string) => void;
+}
+
+/**
+ * Compact summary of a node for networks too large for a full panel per node
+ * Shows the node's head and finality at a glance; clicking it opens the node's full panel
+ */
+const NodeCard: React.FC<NodeCardProps> = ({ nodeState, selected, onSelect }) => {
+  const head = nodeState.blockchain[nodeState.blockchain.length - 1];
+  const finalizedEpoch = nodeState.beaconState?.finalizedCheckpoint?.epoch;
+  const offline = nodeState.online === false;
+
+  return (
+    <button
+      className={`node-card ${selected ? 'selected' : ''} ${offline ? 'offline' : ''}`}
+      style={{ borderColor: getNodeColorCSS(nodeState.nodeId) }}
+      onClick={() => onSelect(nodeState.nodeId)}
+      title={`Address: ${nodeState.address}`}
+    >
+      <div className="node-card-header">
+        <span className="node-card-name" style={{ color: getNodeColorCSS(nodeState.nodeId) }}>
+          {getNodeColorEmoji(nodeState.nodeId)} {nodeState.nodeId}
+        </span>
+        {nodeState.consensusStatus === 'proposing' && <span className="node-card-status" title="Proposing">📦</span>}
+        {offline && <span className="node-card-badge">Offline</span>}
+        {nodeState.behaviour && nodeState.behaviour !== 'honest' && (
+          <span className="node-card-badge" title="Byzantine behaviour">😈 {nodeState.behaviour}</span>
+        )}
+        {nodeState.partitionGroup != null && (
+          <span className="node-card-badge">Side {getPartitionSideLabel(nodeState.partitionGroup)}</span>
+        )}
+      </div>
+      <div className="node-card-row">
+        <span>Head</span>
+        <span className="node-card-hash">{head?.hash?.slice(0, 6) ?? '-'}</span>
+      </div>
+      <div className="node-card-row">
+        <span>Slot / height</span>
+        <span>{head?.header.slot ?? '-'} / {nodeState.blockchain.length}</span>
+      </div>
+      <div className="node-card-row">
+        <span>Finalized</span>
+        <span>{finalizedEpoch !== undefined ? `epoch ${finalizedEpoch}` : '-'}</span>
+      </div>
+    </button>
+  );
+};
+
+export default NodeCard;
@@ -1,12 +1,16 @@
 import React, { useState, useMemo } from 'react';
-import { NodeState } from '../../types/types';
+import { NodeState, TransactionFees } from '../../types/types';
 import BlockchainView from './BlockchainView';
 import WorldStateView from './WorldStateView';
 import BeaconStateView from './BeaconStateView';
 import BlockTreeView from './BlockTreeView';
 import NodeToolbar from './NodeToolbar';
 import AddTransactionModal from './AddTransactionModal';
-import { NodeSettingsModal } from './NodeSettingsModal';
+import { NodeSettingsModal, NodeLifecycleAction } from './NodeSettingsModal';
+import { NodeBehaviour } from '../../core/consensus/consensusStrategy';
+import { getPartitionSideLabel } from './PartitionModal';
+import { calculateNextBaseFee } from '../../core/blockchain/gas';
+import { SimulatorConfig } from '../../config/config';
 import { useSimulatorContext } from '../contexts/SimulatorContext';
 import { getNodeColorEmoji, getNodeColorCSS, getNodeBackgroundTint } from '../../utils/nodeColorUtils';
 import './NodePanel.css';
@@ -14,11 +18,13 @@ import './NodePanel.css';
 interface NodePanelProps {
   nodeState: NodeState;
   allNodeIds?: string[];
-  onAddTransaction?: (nodeId: string, recipient: string, amount: number) => void;
+  onAddTransaction?: (nodeId: string, recipient: string, amount: number, data?: string, fees?: Partial<TransactionFees>, count?: number) => void;
   onUpdateNetworkDelay?: (nodeId: string, multiplier: number) => void;
+  onUpdateBehaviour?: (nodeId: string, behaviour: NodeBehaviour, censoredNodeIds: string[]) => void;
+  onLifecycleAction?: (nodeId: string, action: NodeLifecycleAction) => void;
 }
 
-const NodePanel: React.FC<NodePanelProps> = ({ nodeState, allNodeIds = [], onAddTransaction, onUpdateNetworkDelay }) => {
+const NodePanel: React.FC<NodePanelProps> = ({ nodeState, allNodeIds = [], onAddTransaction, onUpdateNetworkDelay, onUpdateBehaviour, onLifecycleAction }) => {
   const [showUtxoModal, setShowUtxoModal] = useState(false);
   const [showBeaconStateModal, setShowBeaconStateModal] = useState(false);
   const [showAddTxModal, setShowAddTxModal] = useState(false);
@@ -35,18 +41,31 @@ const NodePanel: React.FC<NodePanelProps> = ({ nodeState, allNodeIds = [], onAdd
   // Get the account balance - updates only when the actual balance changes
   const totalEth = nodeAddress ? (nodeState.worldState?.[nodeAddress]?.balance || 0) : 0;
   
+  // Head of this node's chain, whose base fee sets the next block's
+  const latestBlock = nodeState.blockchain[nodeState.blockchain.length - 1];
+  
   // Handler for adding transaction to mempool
-  const handleAddTransaction = (recipient: string, amount: number) => {
+  const handleAddTransaction = (recipient: string, amount: number, data?: string, fees?: Partial<TransactionFees>, count?: number) => {
     if (onAddTransaction) {
-      onAddTransaction(nodeState.nodeId, recipient, amount);
+      onAddTransaction(nodeState.nodeId, recipient, amount, data, fees, count);
     }
   };
   
-  // Handler for updating network delay multiplier
-  const handleSaveNetworkDelay = (multiplier: number) => {
+  // Handler for updating network delay multiplier and consensus behaviour
+  const handleSaveSettings = (multiplier: number, behaviour: NodeBehaviour, censoredNodeIds: string[]) => {
     if (onUpdateNetworkDelay) {
       onUpdateNetworkDelay(nodeState.nodeId, multiplier);
     }
+    if (onUpdateBehaviour) {
+      onUpdateBehaviour(nodeState.nodeId, behaviour, censoredNodeIds);
+    }
+  };
+  
+  // Handler for crashing, restarting or removing the node
+  const handleLifecycleAction = (action: NodeLifecycleAction) => {
+    if (onLifecycleAction) {
+      onLifecycleAction(nodeState.nodeId, action);
+    }
   };
   
   return (
@@ -60,6 +79,16 @@ const NodePanel: React.FC<NodePanelProps> = ({ nodeState, allNodeIds = [], onAdd
             >
               {nodeState.nodeId} {getNodeColorEmoji(nodeState.nodeId)}
             </h2>
+            {nodeState.partitionGroup != null && (
+              <span className="node-partition-badge" title="Network partition side - this node only reaches nodes on the same side">
+                Side {getPartitionSideLabel(nodeState.partitionGroup)}
+              </span>
+            )}
+            {nodeState.behaviour && nodeState.behaviour !== 'honest' && (
+              <span className="node-partition-badge" title="Byzantine behaviour - set in the node's settings">
+                😈 {nodeState.behaviour}
+              </span>
+            )}
           </div>
           <NodeToolbar 
             isMining={nodeState.isMining}
@@ -111,7 +140,9 @@ const NodePanel: React.FC<NodePanelProps> = ({ nodeState, allNodeIds = [], onAdd
         <AddTransactionModal
           nodeId={nodeState.nodeId}
           nodeAddress={nodeAddress}
+          blsPublicKey={nodeState.blsPublicKey}
           worldState={nodeState.worldState || {}}
+          baseFeePerGas={latestBlock ? calculateNextBaseFee(latestBlock.header) : SimulatorConfig.INITIAL_BASE_FEE_GWEI}
           onClose={() => setShowAddTxModal(false)}
           onSubmit={handleAddTransaction}
         />
@@ -132,8 +163,12 @@ const NodePanel: React.FC<NodePanelProps> = ({ nodeState, allNodeIds = [], onAdd
         <NodeSettingsModal
           nodeId={nodeState.nodeId}
           currentMultiplier={nodeState.networkDelayMultiplier || 1.0}
+          currentBehaviour={(nodeState.behaviour as NodeBehaviour) || 'honest'}
+          currentCensoredNodeIds={nodeState.censoredNodeIds || []}
+          online={nodeState.online !== false}
           onClose={() => setShowSettingsModal(false)}
-          onSave={handleSaveNetworkDelay}
+          onSave={handleSaveSettings}
+          onLifecycleAction={handleLifecycleAction}
         />
       )}
       
@@ -1,26 +1,69 @@
 import React, { useState } from 'react';
+import { NodeBehaviour, NODE_BEHAVIOURS } from '../../core/consensus/consensusStrategy';
+import { useSimulatorContext } from '../contexts/SimulatorContext';
 import './NodeSettingsModal.css';
 
+// What each behaviour does, shown under the behaviour picker
+const BEHAVIOUR_DESCRIPTIONS: Record<NodeBehaviour, string> = {
+  'honest': 'Follows the protocol.',
+  'withhold-blocks': 'Proposes blocks but never broadcasts them. Others see empty slots; the blocks only surface late through sync.',
+  'equivocate': 'Broadcasts two conflicting blocks for each of its slots. Validators that see both report it and it gets slashed.',
+  'stale-attestations': 'Votes for a block two blocks behind its head, adding no weight to new blocks.',
+  'censor': 'Leaves the chosen nodes\' transactions and attestations out of its blocks. Other proposers still include them.',
+  'invalid-blocks': 'Sends three blocks that break the block rules every slot. Validators reject them and gossip does not relay them.'
+};
+
+/**
+ * Things that can happen to a running node
+ * - crash: it stops until restarted
+ * - restart: it comes back with its local state
+ * - wipe: it comes back with its state lost and syncs from genesis
+ * - remove: it leaves the network for good
+ */
+export type NodeLifecycleAction = 'crash' | 'restart' | 'wipe' | 'remove';
+
 interface NodeSettingsModalProps {
   nodeId: string;
   currentMultiplier: number;
+  currentBehaviour: NodeBehaviour;
+  currentCensoredNodeIds: string[];
+  online: boolean;
   onClose: () => void;
-  onSave: (multiplier: number) => void;
+  onSave: (multiplier: number, behaviour: NodeBehaviour, censoredNodeIds: string[]) => void;
+  onLifecycleAction: (action: NodeLifecycleAction) => void;
 }
 
 /**
- * Modal for configuring per-node settings like network delay multiplier
+ * Modal for configuring per-node settings like network delay multiplier and
+ * consensus behaviour, and for crashing, restarting or removing the node
  */
 export const NodeSettingsModal: React.FC<NodeSettingsModalProps> = ({
   nodeId,
   currentMultiplier,
+  currentBehaviour,
+  currentCensoredNodeIds,
+  online,
   onClose,
   onSave,
+  onLifecycleAction,
 }) => {
   const [multiplier, setMultiplier] = useState(currentMultiplier);
+  const [behaviour, setBehaviour] = useState<NodeBehaviour>(currentBehaviour);
+  const [censoredNodeIds, setCensoredNodeIds] = useState<string[]>(currentCensoredNodeIds);
+  const { addressToNodeId } = useSimulatorContext();
+  const otherNodeIds = Object.values(addressToNodeId).filter(id => id !== nodeId);
 
   const handleSave = () => {
-    onSave(multiplier);
+    onSave(multiplier, behaviour, behaviour === 'censor' ? censoredNodeIds : []);
+    onClose();
+  };
+  
+  const toggleCensored = (censoredId: string) => {
+    setCensoredNodeIds(ids => ids.includes(censoredId) ? ids.filter(id => id !== censoredId) : [...ids, censoredId]);
+  };
+  
+  const handleLifecycleAction = (action: NodeLifecycleAction) => {
+    onLifecycleAction(action);
     onClose();
   };
 
@@ -56,6 +99,65 @@ export const NodeSettingsModal: React.FC<NodeSettingsModalProps> = ({
               <span>10,000x (Network Partition)</span>
             </div>
           </div>
+          
+          <div className="node-settings-modal-setting-group">
+            <label htmlFor="node-behaviour">Behaviour</label>
+            <select
+              id="node-behaviour"
+              className="node-settings-modal-select"
+              value={behaviour}
+              onChange={(e) => setBehaviour(e.target.value as NodeBehaviour)}
+            >
+              {NODE_BEHAVIOURS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+            <p className="node-settings-modal-setting-description">
+              {BEHAVIOUR_DESCRIPTIONS[behaviour]}
+            </p>
+            {behaviour === 'censor' && (
+              <div className="node-settings-modal-censor-list">
+                {otherNodeIds.map(otherId => (
+                  <label key={otherId} className="node-settings-modal-checkbox">
+                    <input
+                      type="checkbox"
+                      checked={censoredNodeIds.includes(otherId)}
+                      onChange={() => toggleCensored(otherId)}
+                    />
+                    {otherId}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          
+          <div className="node-settings-modal-setting-group">
+            <label>Lifecycle: {online ? 'running' : 'stopped'}</label>
+            <p className="node-settings-modal-setting-description">
+              A crashed node misses its duties until restarted. Restarting with a wiped state
+              makes it sync the chain from genesis again. A removed node's validator stays in
+              the validator set, offline.
+            </p>
+            <div className="node-settings-modal-lifecycle-buttons">
+              {online ? (
+                <button className="node-settings-modal-button-secondary" onClick={() => handleLifecycleAction('crash')}>
+                  💥 Crash
+                </button>
+              ) : (
+                <>
+                  <button className="node-settings-modal-button-secondary" onClick={() => handleLifecycleAction('restart')}>
+                    🔄 Restart
+                  </button>
+                  <button className="node-settings-modal-button-secondary" onClick={() => handleLifecycleAction('wipe')}>
+                    🧹 Restart with wiped state
+                  </button>
+                </>
+              )}
+              <button className="node-settings-modal-button-secondary" onClick={() => handleLifecycleAction('remove')}>
+                🚪 Remove node
+              </button>
+            </div>
+          </div>
         </div>
         
         <div className="node-settings-modal-footer">
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { PartitionMode } from '../../network/networkManager';
+import './PartitionModal.css';
+
+interface PartitionModalProps {
+  nodeIds: string[];
+  partition: { groups: string[][]; mode: PartitionMode } | null;  // Current partition, null if the network is whole
+  heldMessageCount: number;
+  onClose: () => void;
+  onApply: (groups: string[][], mode: PartitionMode) => void;
+  onHeal: () => void;
+}
+
+const SIDE_COUNT = 3;
+
+/**
+ * Label of a partition side ("A", "B", ...)
+ */
+export const getPartitionSideLabel = (group: number): string => String.fromCharCode(65 + group);
+
+/**
+ * Modal for splitting the validators into sides that cannot exchange messages, and healing the split
+ */
+const PartitionModal: React.FC<PartitionModalProps> = ({
+  nodeIds,
+  partition,
+  heldMessageCount,
+  onClose,
+  onApply,
+  onHeal,
+}) => {
+  // Side of each node - start from the current partition, else split the nodes in half
+  const [sides, setSides] = useState<Record<string, number>>(() => {
+    const initial: Record<string, number> = {};
+    nodeIds.forEach((nodeId, index) => {
+      const group = partition?.groups.findIndex(members => members.includes(nodeId)) ?? -1;
+      initial[nodeId] = group >= 0 ? group : index < nodeIds.length / 2 ? 0 : 1;
+    });
+    return initial;
+  });
+  const [mode, setMode] = useState<PartitionMode>(partition?.mode ?? 'drop');
+
+  const groups = Array.from({ length: SIDE_COUNT }, (_, side) => nodeIds.filter(nodeId => sides[nodeId] === side))
+    .filter(group => group.length > 0);
+
+  const setPreset = (minority: number) => {
+    const next: Record<string, number> = {};
+    nodeIds.forEach((nodeId, index) => {
+      next[nodeId] = index < nodeIds.length - minority ? 0 : 1;
+    });
+    setSides(next);
+  };
+
+  const handleApply = () => {
+    onApply(groups, mode);
+    onClose();
+  };
+
+  const handleHeal = () => {
+    onHeal();
+    onClose();
+  };
+
+  return (
+    <div className="partition-modal-overlay" onClick={onClose}>
+      <div className="partition-modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="partition-modal-header">
+          <h3>Network Partition</h3>
+          <button className="partition-modal-close-button" onClick={onClose}>×</button>
+        </div>
+
+        <div className="partition-modal-body">
+          <p className="partition-modal-description">
+            Nodes on different sides cannot exchange blocks, attestations or sync messages.
+            A side with 2/3 of the stake keeps finalizing; the others stall until the inactivity leak drains the missing validators.
+          </p>
+          {partition && (
+            <p className="partition-modal-status">
+              Partitioned ({partition.mode}): {partition.groups.map(group => `[${group.join(', ')}]`).join(' | ')}
+              {partition.mode === 'queue' && ` - ${heldMessageCount} messages held`}
+            </p>
+          )}
+
+          <div className="partition-modal-presets">
+            <button className="partition-modal-button-secondary" onClick={() => setPreset(Math.floor(nodeIds.length / 2))}>Even split</button>
+            <button className="partition-modal-button-secondary" onClick={() => setPreset(1)}>Majority / minority</button>
+          </div>
+
+          <div className="partition-modal-nodes">
+            {nodeIds.map(nodeId => (
+              <div key={nodeId} className="partition-modal-node-row">
+                <span className="partition-modal-node-id">{nodeId}</span>
+                {Array.from({ length: SIDE_COUNT }, (_, side) => (
+                  <button
+                    key={side}
+                    className={`partition-modal-side-button ${sides[nodeId] === side ? 'selected' : ''}`}
+                    onClick={() => setSides(prev => ({ ...prev, [nodeId]: side }))}
+                  >
+                    {getPartitionSideLabel(side)}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <div className="partition-modal-mode">
+            <label>
+              <input type="radio" checked={mode === 'drop'} onChange={() => setMode('drop')} />
+              Drop cross-partition messages
+            </label>
+            <label>
+              <input type="radio" checked={mode === 'queue'} onChange={() => setMode('queue')} />
+              Queue them and deliver when the partition heals
+            </label>
+          </div>
+        </div>
+
+        <div className="partition-modal-footer">
+          <button className="partition-modal-button-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="partition-modal-button-secondary" onClick={handleHeal} disabled={!partition}>
+            Heal
+          </button>
+          <button className="partition-modal-button-primary" onClick={handleApply} disabled={groups.length < 2}>
+            {partition ? 'Update Partition' : 'Partition'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PartitionModal;
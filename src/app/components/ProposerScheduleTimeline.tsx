@@ -91,6 +91,8 @@ const ProposerScheduleTimeline: React.FC<ProposerScheduleTimelineProps> = ({
                   const nodeColor = getNodeColorCSS(nodeId);
                   const isCurrentSlot = slot === currentSlot;
                   const isPastSlot = slot < currentSlot;
+                  const committee = (beaconState.attestationCommittees.get(epoch)?.get(slot) || [])
+                    .map(address => addressToNodeId[address] || address.slice(0, 8));
                   
                   return (
                     <div
@@ -100,7 +102,7 @@ const ProposerScheduleTimeline: React.FC<ProposerScheduleTimelineProps> = ({
                         backgroundColor: nodeColor,
                         opacity: isPastSlot ? 0.4 : 1
                       }}
-                      title={`Slot ${slot}: ${nodeId}`}
+                      title={`Slot ${slot}: ${nodeId}\nCommittee: ${committee.length > 0 ? committee.join(', ') : 'none'}`}
                     />
                   );
                 })}
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Scenario, ScenarioRun, ScenarioRunner } from '../../network/scenarioRunner';
+import { BUILT_IN_SCENARIOS } from '../../network/scenarios';
+import './ScenarioModal.css';
+
+interface ScenarioModalProps {
+  run: ScenarioRun | null;          // Scenario currently running on the network, if any
+  onClose: () => void;
+  onRun: (scenario: Scenario) => void;
+}
+
+const STATUS_ICONS: Record<ScenarioRun['steps'][number]['status'], string> = {
+  pending: '…',
+  done: '•',
+  passed: '✔',
+  failed: '✘',
+  error: '!'
+};
+
+/**
+ * Modal for running a scripted scenario (partitions, offline validators, equivocation, assertions)
+ * Pick an example or paste scenario JSON; running it restarts the network from genesis
+ */
+const ScenarioModal: React.FC<ScenarioModalProps> = ({ run, onClose, onRun }) => {
+  const [text, setText] = useState(JSON.stringify(run?.scenario ?? BUILT_IN_SCENARIOS[0], null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSelectExample = (index: number) => {
+    setText(JSON.stringify(BUILT_IN_SCENARIOS[index], null, 2));
+    setError(null);
+  };
+
+  const handleRun = () => {
+    try {
+      onRun(ScenarioRunner.parse(text));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="scenario-modal-overlay" onClick={onClose}>
+      <div className="scenario-modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="scenario-modal-header">
+          <h3>Scenario</h3>
+          <button className="scenario-modal-close-button" onClick={onClose}>×</button>
+        </div>
+
+        <div className="scenario-modal-body">
+          <label htmlFor="scenario-example">Example</label>
+          <select id="scenario-example" className="scenario-modal-select" defaultValue="" onChange={(e) => handleSelectExample(Number(e.target.value))}>
+            <option value="" disabled>Choose an example…</option>
+            {BUILT_IN_SCENARIOS.map((scenario, index) => (
+              <option key={scenario.name} value={index}>{scenario.name}</option>
+            ))}
+          </select>
+
+          <label htmlFor="scenario-json">Scenario JSON</label>
+          <p className="scenario-modal-description">
+            Steps run at the start of their slot (counted from genesis). Running a scenario applies its seed and config and restarts the network.
+          </p>
+          <textarea
+            id="scenario-json"
+            className="scenario-modal-textarea"
+            value={text}
+            spellCheck={false}
+            onChange={(e) => setText(e.target.value)}
+          />
+          {error && <div className="scenario-modal-error">⚠️ {error}</div>}
+
+          {run && (
+            <div className="scenario-modal-results">
+              <h4>{run.scenario.name}</h4>
+              {run.steps.map((step, index) => (
+                <div key={index} className={`scenario-modal-step ${step.status}`}>
+                  <span className="scenario-modal-step-icon">{STATUS_ICONS[step.status]}</span>
+                  <span className="scenario-modal-step-slot">Slot {step.slot}</span>
+                  <span>{step.description}</span>
+                  {step.detail && step.detail !== 'ok' && <span className="scenario-modal-step-detail">{step.detail}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="scenario-modal-footer">
+          <button className="scenario-modal-button-secondary" onClick={onClose}>
+            Close
+          </button>
+          <button className="scenario-modal-button-primary" onClick={handleRun}>
+            Run Scenario
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioModal;
@@ -1,5 +1,9 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { SimulatorConfig } from '../../config/config';
+import { SeededRandom } from '../../core/simulation/seededRandom';
+import { TOPOLOGY_TYPES, Topology, TopologyBuilder } from '../../network/topology';
+import { generateUniqueNodeIds } from '../../utils/nodeIdGenerator';
+import TopologyGraph from './TopologyGraph';
 import './SimulatorSettingsModal.css';
 
 interface SimulatorSettingsModalProps {
@@ -10,6 +14,21 @@ interface SimulatorSettingsModalProps {
 const SimulatorSettingsModal: React.FC<SimulatorSettingsModalProps> = ({ onClose, onSave }) => {
   // Initialize state with current config values
   const [config, setConfig] = useState({ ...SimulatorConfig });
+  
+  // Preview of the topology the network is built with - drawn from a fresh PRNG with the
+  // chosen seed, which is what the network builds its topology with first
+  const topologyPreview = useMemo((): { topology: Topology | null; error: string | null } => {
+    try {
+      const topology = TopologyBuilder.build(config.NETWORK_TOPOLOGY, generateUniqueNodeIds(config.NODE_COUNT), new SeededRandom(config.RANDOM_SEED), {
+        degree: config.TOPOLOGY_DEGREE,
+        rewireProbability: config.TOPOLOGY_REWIRE_PROBABILITY,
+        adjacency: config.CUSTOM_TOPOLOGY
+      });
+      return { topology, error: null };
+    } catch (e) {
+      return { topology: null, error: (e as Error).message };
+    }
+  }, [config.NODE_COUNT, config.NETWORK_TOPOLOGY, config.RANDOM_SEED, config.TOPOLOGY_DEGREE, config.TOPOLOGY_REWIRE_PROBABILITY, config.CUSTOM_TOPOLOGY]);
 
   const handleChange = (key: keyof typeof SimulatorConfig, value: string) => {
     const originalValue = SimulatorConfig[key];
@@ -45,6 +64,24 @@ const SimulatorSettingsModal: React.FC<SimulatorSettingsModalProps> = ({ onClose
         </div>
 
         <div className="settings-modal-content">
+          {/* Simulation Parameters */}
+          <div className="settings-section">
+            <h3>Simulation Parameters</h3>
+            <div className="settings-grid">
+              <div className="setting-item">
+                <label className="setting-label">Random Seed</label>
+                <input
+                  type="number"
+                  className="setting-input"
+                  value={config.RANDOM_SEED}
+                  onChange={(e) => handleChange('RANDOM_SEED', e.target.value)}
+                />
+                <span className="setting-description">Same seed and settings replay exactly the same run</span>
+                <span className="setting-warning">⚠️ Changing the seed restarts the network from genesis</span>
+              </div>
+            </div>
+          </div>
+
           {/* Issuance Parameters */}
           <div className="settings-section">
             <h3>Issuance Parameters</h3>
@@ -62,6 +99,67 @@ const SimulatorSettingsModal: React.FC<SimulatorSettingsModalProps> = ({ onClose
             </div>
           </div>
 
+          {/* Network Topology */}
+          <div className="settings-section">
+            <h3>Network Topology</h3>
+            <div className="settings-grid">
+              <div className="setting-item">
+                <label className="setting-label">Topology</label>
+                <select
+                  className="setting-input"
+                  value={config.NETWORK_TOPOLOGY}
+                  onChange={(e) => handleChange('NETWORK_TOPOLOGY', e.target.value)}
+                >
+                  {TOPOLOGY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+                <span className="setting-description">Which nodes are peers - broadcasts are relayed to the rest (restarts the network)</span>
+              </div>
+              {(config.NETWORK_TOPOLOGY === 'random-regular' || config.NETWORK_TOPOLOGY === 'small-world') && (
+                <div className="setting-item">
+                  <label className="setting-label">Degree</label>
+                  <input
+                    type="number"
+                    min="1"
+                    className="setting-input"
+                    value={config.TOPOLOGY_DEGREE}
+                    onChange={(e) => handleChange('TOPOLOGY_DEGREE', e.target.value)}
+                  />
+                  <span className="setting-description">Peers per node</span>
+                </div>
+              )}
+              {config.NETWORK_TOPOLOGY === 'small-world' && (
+                <div className="setting-item">
+                  <label className="setting-label">Rewire Probability</label>
+                  <input
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    max="1"
+                    className="setting-input"
+                    value={config.TOPOLOGY_REWIRE_PROBABILITY}
+                    onChange={(e) => handleChange('TOPOLOGY_REWIRE_PROBABILITY', e.target.value)}
+                  />
+                  <span className="setting-description">Chance each ring link is moved to a random node (0-1)</span>
+                </div>
+              )}
+              {config.NETWORK_TOPOLOGY === 'custom' && (
+                <div className="setting-item">
+                  <label className="setting-label">Links</label>
+                  <textarea
+                    className="setting-input"
+                    rows={4}
+                    placeholder="Blue: Green, Red; Red: Yellow"
+                    value={config.CUSTOM_TOPOLOGY}
+                    onChange={(e) => handleChange('CUSTOM_TOPOLOGY', e.target.value)}
+                  />
+                  <span className="setting-description">"Node: Peer, Peer" separated by ";" or new lines - links are two-way</span>
+                </div>
+              )}
+              {topologyPreview.topology && <TopologyGraph topology={topologyPreview.topology} />}
+              {topologyPreview.error && <span className="setting-warning">⚠️ {topologyPreview.error}</span>}
+            </div>
+          </div>
+
           {/* Network Parameters */}
           <div className="settings-section">
             <h3>Network Parameters</h3>
@@ -70,11 +168,13 @@ const SimulatorSettingsModal: React.FC<SimulatorSettingsModalProps> = ({ onClose
                 <label className="setting-label">Node Count</label>
                 <input
                   type="number"
+                  min="1"
+                  max="128"
                   className="setting-input"
                   value={config.NODE_COUNT}
                   onChange={(e) => handleChange('NODE_COUNT', e.target.value)}
                 />
-                <span className="setting-description">Number of nodes in the network</span>
+                <span className="setting-description">Number of validator nodes, split into four paint teams (restarts the network)</span>
               </div>
               <div className="setting-item">
                 <label className="setting-label">Min Network Delay (ms)</label>
@@ -96,6 +196,79 @@ const SimulatorSettingsModal: React.FC<SimulatorSettingsModalProps> = ({ onClose
                 />
                 <span className="setting-description">Maximum network delay</span>
               </div>
+              <div className="setting-item">
+                <label className="setting-label">Packet Loss Rate</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="1"
+                  className="setting-input"
+                  value={config.PACKET_LOSS_RATE}
+                  onChange={(e) => handleChange('PACKET_LOSS_RATE', e.target.value)}
+                />
+                <span className="setting-description">Probability a message is lost (0-1)</span>
+              </div>
+              <div className="setting-item">
+                <label className="setting-label">Packet Duplication Rate</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="1"
+                  className="setting-input"
+                  value={config.PACKET_DUPLICATION_RATE}
+                  onChange={(e) => handleChange('PACKET_DUPLICATION_RATE', e.target.value)}
+                />
+                <span className="setting-description">Probability a message arrives twice (0-1)</span>
+              </div>
+              <div className="setting-item">
+                <label className="setting-label">Packet Reorder Rate</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="1"
+                  className="setting-input"
+                  value={config.PACKET_REORDER_RATE}
+                  onChange={(e) => handleChange('PACKET_REORDER_RATE', e.target.value)}
+                />
+                <span className="setting-description">Probability a message is overtaken by later ones (0-1)</span>
+              </div>
+              <div className="setting-item">
+                <label className="setting-label">Link Bandwidth (Mbps)</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  className="setting-input"
+                  value={config.LINK_BANDWIDTH_MBPS}
+                  onChange={(e) => handleChange('LINK_BANDWIDTH_MBPS', e.target.value)}
+                />
+                <span className="setting-description">Per-link bandwidth, large messages take longer (0 = unlimited)</span>
+              </div>
+              <div className="setting-item">
+                <label className="setting-label">Gossip Fanout</label>
+                <input
+                  type="number"
+                  min="0"
+                  className="setting-input"
+                  value={config.GOSSIP_FANOUT}
+                  onChange={(e) => handleChange('GOSSIP_FANOUT', e.target.value)}
+                />
+                <span className="setting-description">Peers each broadcast is forwarded to (0 = all peers)</span>
+              </div>
+              <div className="setting-item">
+                <label className="setting-label">Gossip Max Hops</label>
+                <input
+                  type="number"
+                  min="0"
+                  className="setting-input"
+                  value={config.GOSSIP_MAX_HOPS}
+                  onChange={(e) => handleChange('GOSSIP_MAX_HOPS', e.target.value)}
+                />
+                <span className="setting-description">Times a broadcast may be relayed</span>
+              </div>
             </div>
           </div>
 
@@ -117,14 +290,52 @@ const SimulatorSettingsModal: React.FC<SimulatorSettingsModalProps> = ({ onClose
                 <span className="setting-description">Ratio of coins to redistribute (0-1)</span>
               </div>
               <div className="setting-item">
-                <label className="setting-label">Max Block Transactions</label>
+                <label className="setting-label">Block Gas Limit</label>
                 <input
                   type="number"
+                  step="100000"
+                  min="0"
                   className="setting-input"
-                  value={config.MAX_BLOCK_TRANSACTIONS}
-                  onChange={(e) => handleChange('MAX_BLOCK_TRANSACTIONS', e.target.value)}
+                  value={config.BLOCK_GAS_LIMIT}
+                  onChange={(e) => handleChange('BLOCK_GAS_LIMIT', e.target.value)}
                 />
-                <span className="setting-description">Maximum transactions per block</span>
+                <span className="setting-description">Maximum gas used by the transactions of one block</span>
+              </div>
+              <div className="setting-item">
+                <label className="setting-label">Initial Base Fee (gwei)</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  className="setting-input"
+                  value={config.INITIAL_BASE_FEE_GWEI}
+                  onChange={(e) => handleChange('INITIAL_BASE_FEE_GWEI', e.target.value)}
+                />
+                <span className="setting-description">Base fee of the first block, burned for every unit of gas used</span>
+              </div>
+              <div className="setting-item">
+                <label className="setting-label">Minimum Base Fee (gwei)</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  className="setting-input"
+                  value={config.MIN_BASE_FEE_GWEI}
+                  onChange={(e) => handleChange('MIN_BASE_FEE_GWEI', e.target.value)}
+                />
+                <span className="setting-description">Floor the base fee never drops below (Ethereum has none)</span>
+              </div>
+              <div className="setting-item">
+                <label className="setting-label">Priority Fee (gwei)</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  className="setting-input"
+                  value={config.PRIORITY_FEE_GWEI}
+                  onChange={(e) => handleChange('PRIORITY_FEE_GWEI', e.target.value)}
+                />
+                <span className="setting-description">Tip per unit of gas nodes offer proposers by default</span>
               </div>
             </div>
           </div>
@@ -184,6 +395,26 @@ const SimulatorSettingsModal: React.FC<SimulatorSettingsModalProps> = ({ onClose
                 />
                 <span className="setting-description">Maximum effective balance for validators</span>
               </div>
+              <div className="setting-item">
+                <label className="setting-label">Proposer Boost (%)</label>
+                <input
+                  type="number"
+                  className="setting-input"
+                  value={config.PROPOSER_SCORE_BOOST}
+                  onChange={(e) => handleChange('PROPOSER_SCORE_BOOST', e.target.value)}
+                />
+                <span className="setting-description">Fork choice weight for a timely block, in % of a slot's committee weight (0 disables)</span>
+              </div>
+              <div className="setting-item">
+                <label className="setting-label">Intervals Per Slot</label>
+                <input
+                  type="number"
+                  className="setting-input"
+                  value={config.INTERVALS_PER_SLOT}
+                  onChange={(e) => handleChange('INTERVALS_PER_SLOT', e.target.value)}
+                />
+                <span className="setting-description">Blocks arriving in the first 1/n of their slot get proposer boost</span>
+              </div>
             </div>
           </div>
 
@@ -266,7 +497,7 @@ const SimulatorSettingsModal: React.FC<SimulatorSettingsModalProps> = ({ onClose
             <button className="settings-button settings-button-secondary" onClick={onClose}>
               Cancel
             </button>
-            <button className="settings-button settings-button-primary" onClick={handleSave}>
+            <button className="settings-button settings-button-primary" onClick={handleSave} disabled={!!topologyPreview.error}>
               Save Changes
             </button>
           </div>
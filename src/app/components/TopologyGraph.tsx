@@ -0,0 +1,54 @@
+import React from 'react';
+import { Topology, TopologyBuilder } from '../../network/topology';
+import { getNodeColorCSS } from '../../utils/nodeColorUtils';
+import './TopologyGraph.css';
+
+interface TopologyGraphProps {
+  topology: Topology;
+  size?: number;   // Width and height of the drawing in px
+}
+
+/**
+ * Draws the nodes of a network on a circle with a line for each link
+ */
+const TopologyGraph: React.FC<TopologyGraphProps> = ({ topology, size = 220 }) => {
+  const nodeIds = Array.from(topology.keys());
+  const center = size / 2;
+  const radius = size / 2 - 28;
+  const position = (nodeId: string) => {
+    const angle = (2 * Math.PI * nodeIds.indexOf(nodeId)) / nodeIds.length - Math.PI / 2;
+    return { x: center + radius * Math.cos(angle), y: center + radius * Math.sin(angle) };
+  };
+
+  // Each two-way link once
+  const links = nodeIds.flatMap(nodeId => (topology.get(nodeId) ?? [])
+    .filter(peerId => nodeIds.indexOf(peerId) > nodeIds.indexOf(nodeId))
+    .map(peerId => [nodeId, peerId]));
+  const diameter = TopologyBuilder.getDiameter(topology);
+
+  return (
+    <div className="topology-graph">
+      <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
+        {links.map(([a, b]) => {
+          const from = position(a);
+          const to = position(b);
+          return <line key={`${a}-${b}`} className="topology-graph-link" x1={from.x} y1={from.y} x2={to.x} y2={to.y} />;
+        })}
+        {nodeIds.map(nodeId => {
+          const { x, y } = position(nodeId);
+          return (
+            <g key={nodeId}>
+              <circle className="topology-graph-node" cx={x} cy={y} r={10} fill={getNodeColorCSS(nodeId)} />
+              <text className="topology-graph-label" x={x} y={y + 24} textAnchor="middle">{nodeId}</text>
+            </g>
+          );
+        })}
+      </svg>
+      <div className="topology-graph-stats">
+        {links.length} links · diameter {Number.isFinite(diameter) ? `${diameter} hops` : 'disconnected'}
+      </div>
+    </div>
+  );
+};
+
+export default TopologyGraph;
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { EthereumTransaction, Account } from '../../types/types';
 import { TransactionReceipt } from '../../types/receipt';
 import { SimulatorConfig } from '../../config/config';
+import { calculateGasFee } from '../../core/blockchain/gas';
 import { useSimulatorContext } from '../contexts/SimulatorContext';
 import { getNodeColorCSS } from '../../utils/nodeColorUtils';
 import Xarrow from 'react-xarrows';
@@ -194,6 +195,36 @@ const TransactionView: React.FC<TransactionViewProps> = ({ transaction, worldSta
               <div className="metadata-value">{transaction.nonce}</div>
             </div>
           )}
+          
+          {!isCoinbase && (
+            <div className="metadata-item">
+              <div className="metadata-label">Max Fee / Priority Fee</div>
+              <div className="metadata-value">{transaction.maxFeePerGas} / {transaction.maxPriorityFeePerGas} gwei</div>
+            </div>
+          )}
+          
+          {!isCoinbase && receipt && (
+            <div className="metadata-item">
+              <div className="metadata-label">Effective Gas Price</div>
+              <div className="metadata-value">{receipt.effectiveGasPrice} gwei</div>
+            </div>
+          )}
+          
+          {!isCoinbase && receipt && (
+            <div className="metadata-item">
+              <div className="metadata-label">Gas Used / Limit</div>
+              <div className="metadata-value">
+                {receipt.gasUsed.toLocaleString()} / {transaction.gasLimit.toLocaleString()}
+              </div>
+            </div>
+          )}
+          
+          {!isCoinbase && receipt && (
+            <div className="metadata-item">
+              <div className="metadata-label">Transaction Fee</div>
+              <div className="metadata-value">{calculateGasFee(receipt.gasUsed, receipt.effectiveGasPrice)} ETH</div>
+            </div>
+          )}
         </div>
       </div>
 
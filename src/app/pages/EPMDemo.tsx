@@ -94,8 +94,10 @@ const EPMDemo: React.FC = () => {
           to: account.address,
           value: tx.eth,
           nonce: 0,
+          gasLimit: 0,
+          maxFeePerGas: 0,
+          maxPriorityFeePerGas: 0,
           data: JSON.stringify({ color: tx.color }),
-          publicKey: 'mock',
           signature: 'mock',
           timestamp: Date.now(),
           txid: `mock-${tx.color}`
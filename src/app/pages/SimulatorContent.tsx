@@ -1,12 +1,21 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { NetworkManager } from '../../network/networkManager';
-import { NodeState } from '../../types/types';
+import { NetworkManager, PartitionMode } from '../../network/networkManager';
+import { NodeState, TransactionFees } from '../../types/types';
 import NodePanel from '../components/NodePanel';
+import NodeCard from '../components/NodeCard';
+import { NodeLifecycleAction } from '../components/NodeSettingsModal';
+import { NodeBehaviour } from '../../core/consensus/consensusStrategy';
 import SimulatorSettingsModal from '../components/SimulatorSettingsModal';
+import ScenarioModal from '../components/ScenarioModal';
+import PartitionModal from '../components/PartitionModal';
+import { Scenario, ScenarioRun, ScenarioRunner } from '../../network/scenarioRunner';
 import { SimulatorProvider, useSimulatorContext } from '../contexts/SimulatorContext';
 import { SimulatorConfig } from '../../config/config';
 import { FaPlay, FaPause, FaSync } from 'react-icons/fa';
 
+// Networks with more nodes than this show a compact card per node and one full panel
+const FULL_PANEL_NODE_LIMIT = 4;
+
 /**
  * Inner simulator component that uses the simulator context
  */
@@ -23,23 +32,36 @@ const SimulatorContentInner: React.FC = () => {
   // State for settings modal
   const [showSettings, setShowSettings] = useState(false);
   
+  // Seed of the running network (share it to replay the run)
+  const [seed, setSeed] = useState(SimulatorConfig.RANDOM_SEED);
+  
+  // State for scenario modal and the scenario running on the network
+  const [showScenario, setShowScenario] = useState(false);
+  const [scenarioRun, setScenarioRun] = useState<ScenarioRun | null>(null);
+  
+  // State for partition editor
+  const [showPartition, setShowPartition] = useState(false);
+  
+  // Node shown in full when the network is too large for a panel per node
+  const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
+  
   // Get context functions
   const { detectForks, setAddressToNodeId } = useSimulatorContext();
   
   // Reference to the network manager instance
   const networkManagerRef = useRef<NetworkManager | null>(null);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const ghostHeadIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const slotIntervalRef = useRef<NodeJS.Timeout | null>(null);
   
-  // Initialize the network on component mount
-  useEffect(() => {
+  // Create a network seeded with SimulatorConfig.RANDOM_SEED and start playing it back
+  const startNetwork = (runSlots: boolean, runSync: boolean, nodeCount: number = SimulatorConfig.NODE_COUNT): NetworkManager => {
     // Create network manager
     const networkManager = new NetworkManager();
     networkManagerRef.current = networkManager;
+    setSeed(networkManager.getRandom().getSeed());
+    setScenarioRun(null);
     
-    // Create a fully connected network with 4 nodes
-    networkManager.createFullyConnectedNetwork(4);
+    // Create the nodes and link them in the configured topology
+    networkManager.createNetwork(nodeCount);
     
     // Build address-to-nodeId mapping for UI
     const mapping = networkManager.getAddressToNodeIdMapping();
@@ -47,34 +69,31 @@ const SimulatorContentInner: React.FC = () => {
     
     // Update the UI with initial node states
     updateNodeStates();
+    
+    // Schedule LMD-GHOST head broadcasts and consensus slots (configurable PoS slot time)
+    if (runSync) networkManager.startSync();
+    if (runSlots) networkManager.startSlotProcessing();
+    
+    // Play the simulation back at wall-clock speed
+    networkManager.getScheduler().startRealTime();
+    return networkManager;
+  };
+  
+  // Initialize the network on component mount
+  useEffect(() => {
+    startNetwork(true, true);
 
     // Set up interval to update UI
     intervalRef.current = setInterval(() => {
       updateNodeStates();
     }, 500);
     
-    // Set up interval to broadcast LMD-GHOST heads every second
-    ghostHeadIntervalRef.current = setInterval(() => {
-      networkManager.broadcastAllGhostHeads();
-    }, SimulatorConfig.SYNC_INTERVAL_MS);
-    
-    // Set up interval to process consensus slots (configurable PoS slot time)
-    slotIntervalRef.current = setInterval(() => {
-      networkManager.processAllSlots();
-    }, SimulatorConfig.SECONDS_PER_SLOT * 1000 + SimulatorConfig.PROPOSER_BUFFER_MS);
-    
     // Cleanup on unmount
     return () => {
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
       }
-      if (ghostHeadIntervalRef.current) {
-        clearInterval(ghostHeadIntervalRef.current);
-      }
-      if (slotIntervalRef.current) {
-        clearInterval(slotIntervalRef.current);
-      }
-      networkManager.stopAllNodes();
+      networkManagerRef.current?.stopAllNodes();
     };
   }, []);
   
@@ -90,12 +109,16 @@ const SimulatorContentInner: React.FC = () => {
   };
   
   // Handle adding transaction to a node's mempool
-  const handleAddTransaction = async (nodeId: string, recipient: string, amount: number) => {
+  const handleAddTransaction = async (nodeId: string, recipient: string, amount: number, data?: string, fees?: Partial<TransactionFees>, count: number = 1) => {
     if (!networkManagerRef.current) return;
     
-    const success = await networkManagerRef.current.addTransactionToNodeMempool(nodeId, recipient, amount);
+    // Copies are added one at a time so each gets the next nonce
+    let success = true;
+    for (let i = 0; i < count && success; i++) {
+      success = await networkManagerRef.current.addTransactionToNodeMempool(nodeId, recipient, amount, data, fees);
+    }
     if (success) {
-      console.log(`Added transaction to ${nodeId}'s mempool: ${amount} ETH to ${recipient}`);
+      console.log(`Added ${count} transaction(s) to ${nodeId}'s mempool: ${amount} ETH to ${recipient}`);
       
       // Small delay to ensure state is fully updated
       setTimeout(() => {
@@ -121,25 +144,71 @@ const SimulatorContentInner: React.FC = () => {
     updateNodeStates();
   };
   
+  // Make a node honest or give it a Byzantine strategy
+  const handleUpdateBehaviour = (nodeId: string, behaviour: NodeBehaviour, censoredNodeIds: string[]) => {
+    if (!networkManagerRef.current) return;
+    
+    networkManagerRef.current.setNodeBehaviour(nodeId, behaviour, censoredNodeIds);
+    updateNodeStates();
+  };
+  
+  // Add a fresh node that syncs from genesis
+  const handleAddNode = () => {
+    if (!networkManagerRef.current) return;
+    
+    const nodeId = networkManagerRef.current.addNode();
+    setAddressToNodeId(networkManagerRef.current.getAddressToNodeIdMapping());
+    setFocusedNodeId(nodeId);
+    updateNodeStates();
+  };
+  
+  // Crash, restart or remove a node
+  const handleLifecycleAction = (nodeId: string, action: NodeLifecycleAction) => {
+    const networkManager = networkManagerRef.current;
+    if (!networkManager) return;
+    
+    switch (action) {
+      case 'crash': networkManager.crashNode(nodeId); break;
+      case 'restart': networkManager.restartNode(nodeId, true); break;
+      case 'wipe': networkManager.restartNode(nodeId, false); break;
+      case 'remove':
+        networkManager.removeNode(nodeId);
+        setAddressToNodeId(networkManager.getAddressToNodeIdMapping());
+        break;
+    }
+    updateNodeStates();
+  };
+  
+  // Split the network into sides that cannot exchange messages
+  const handleApplyPartition = (groups: string[][], mode: PartitionMode) => {
+    if (!networkManagerRef.current) return;
+    
+    networkManagerRef.current.setPartition(groups, mode);
+    updateNodeStates();
+  };
+  
+  // Reconnect all sides of the partition
+  const handleHealPartition = () => {
+    if (!networkManagerRef.current) return;
+    
+    networkManagerRef.current.healPartition();
+    updateNodeStates();
+  };
+  
   // Toggle network running state
   const toggleNetwork = () => {
     if (!networkManagerRef.current) return;
     
     if (isNetworkRunning) {
       // Stop the network
-      if (slotIntervalRef.current) {
-        clearInterval(slotIntervalRef.current);
-        slotIntervalRef.current = null;
-      }
+      networkManagerRef.current.stopSlotProcessing();
       // Set all nodes to idle
       networkManagerRef.current.setAllConsensusStatus('idle');
       setIsNetworkRunning(false);
       console.log('[Network] Stopped');
     } else {
       // Start the network
-      slotIntervalRef.current = setInterval(() => {
-        networkManagerRef.current?.processAllSlots();
-      }, SimulatorConfig.SECONDS_PER_SLOT * 1000 + SimulatorConfig.PROPOSER_BUFFER_MS);
+      networkManagerRef.current.startSlotProcessing();
       setIsNetworkRunning(true);
       console.log('[Network] Started');
     }
@@ -151,17 +220,12 @@ const SimulatorContentInner: React.FC = () => {
     
     if (isSyncEnabled) {
       // Stop syncing
-      if (ghostHeadIntervalRef.current) {
-        clearInterval(ghostHeadIntervalRef.current);
-        ghostHeadIntervalRef.current = null;
-      }
+      networkManagerRef.current.stopSync();
       setIsSyncEnabled(false);
       console.log('[Sync] Disabled');
     } else {
       // Start syncing
-      ghostHeadIntervalRef.current = setInterval(() => {
-        networkManagerRef.current?.broadcastAllGhostHeads();
-      }, SimulatorConfig.SYNC_INTERVAL_MS);
+      networkManagerRef.current.startSync();
       setIsSyncEnabled(true);
       console.log('[Sync] Enabled');
     }
@@ -169,26 +233,67 @@ const SimulatorContentInner: React.FC = () => {
   
   // Handle saving settings
   const handleSaveSettings = (newConfig: typeof SimulatorConfig) => {
+    // A new seed, node count or topology means a new run - replay it from genesis
+    const restartKeys: (keyof typeof SimulatorConfig)[] = [
+      'RANDOM_SEED', 'NODE_COUNT', 'NETWORK_TOPOLOGY', 'TOPOLOGY_DEGREE', 'TOPOLOGY_REWIRE_PROBABILITY', 'CUSTOM_TOPOLOGY'
+    ];
+    const restartNeeded = restartKeys.some(key => newConfig[key] !== SimulatorConfig[key]);
+    
     // Update the config object
     Object.assign(SimulatorConfig, newConfig);
     console.log('[Settings] Configuration updated:', SimulatorConfig);
     
-    // Restart intervals with new config values if network is running
-    if (isNetworkRunning && slotIntervalRef.current) {
-      clearInterval(slotIntervalRef.current);
-      slotIntervalRef.current = setInterval(() => {
-        networkManagerRef.current?.processAllSlots();
-      }, SimulatorConfig.SECONDS_PER_SLOT * 1000 + SimulatorConfig.PROPOSER_BUFFER_MS);
+    if (restartNeeded) {
+      networkManagerRef.current?.stopAllNodes();
+      startNetwork(isNetworkRunning, isSyncEnabled);
+      console.log(`[Settings] Restarted network with seed ${SimulatorConfig.RANDOM_SEED} and ${SimulatorConfig.NETWORK_TOPOLOGY} topology`);
+      return;
     }
     
-    if (isSyncEnabled && ghostHeadIntervalRef.current) {
-      clearInterval(ghostHeadIntervalRef.current);
-      ghostHeadIntervalRef.current = setInterval(() => {
-        networkManagerRef.current?.broadcastAllGhostHeads();
-      }, SimulatorConfig.SYNC_INTERVAL_MS);
+    // Reschedule slots and sync with new config values if they are running
+    if (isNetworkRunning) {
+      networkManagerRef.current?.startSlotProcessing();
+    }
+    
+    if (isSyncEnabled) {
+      networkManagerRef.current?.startSync();
     }
   };
   
+  // Restart the network with a scenario's seed and config, then schedule its steps
+  const handleRunScenario = (scenario: Scenario) => {
+    Object.assign(SimulatorConfig, scenario.config ?? {});
+    if (scenario.seed !== undefined) {
+      SimulatorConfig.RANDOM_SEED = scenario.seed;
+    }
+    
+    networkManagerRef.current?.stopAllNodes();
+    const networkManager = startNetwork(true, true, scenario.nodeCount);
+    setIsNetworkRunning(true);
+    setIsSyncEnabled(true);
+    
+    setScenarioRun(ScenarioRunner.schedule(networkManager, scenario, run => {
+      setScenarioRun({ ...run, steps: [...run.steps] });
+    }));
+    console.log(`[Scenario] Running "${scenario.name}" with seed ${SimulatorConfig.RANDOM_SEED}`);
+  };
+  
+  // Large networks: the focused node, or the first node if none is focused (or it's gone)
+  const nodeIds = Object.keys(nodeStates);
+  const compactLayout = nodeIds.length > FULL_PANEL_NODE_LIMIT;
+  const focusedState = nodeStates[focusedNodeId ?? ''] ?? nodeStates[nodeIds[0]];
+  
+  // Partition state for the header button
+  const partition = networkManagerRef.current?.getPartition() ?? null;
+  
+  // Scenario progress for the header button
+  const scenarioStatus = scenarioRun && (() => {
+    const steps = scenarioRun.steps;
+    const failed = steps.filter(step => step.status === 'failed' || step.status === 'error').length;
+    const finished = steps.filter(step => step.status !== 'pending').length;
+    return failed > 0 ? `✘ ${failed} failed` : `${finished}/${steps.length}`;
+  })();
+  
   return (
     <div className="app-container">
       {/* Unified Single-Line Header Banner */}
@@ -212,6 +317,33 @@ const SimulatorContentInner: React.FC = () => {
             <FaSync className={isSyncEnabled ? 'spinning' : ''} />
             <span>{isSyncEnabled ? 'Sync Enabled' : 'Sync Disabled'}</span>
           </button>
+          <button 
+            className="control-button inactive"
+            onClick={handleAddNode}
+            title="Add a fresh node that syncs the chain from genesis"
+          >
+            <span>➕</span>
+            <span>Add Node</span>
+          </button>
+          <button 
+            className={`control-button ${partition ? 'partitioned' : 'inactive'}`}
+            onClick={() => setShowPartition(true)}
+            title="Split the network into sides that cannot exchange messages"
+          >
+            <span>✂️</span>
+            <span>{partition ? `Partitioned (${partition.groups.length} sides)` : 'Partition'}</span>
+          </button>
+          <button 
+            className={`control-button ${scenarioRun ? 'active' : 'inactive'}`}
+            onClick={() => setShowScenario(true)}
+            title="Run a scripted scenario"
+          >
+            <span>📜</span>
+            <span>{scenarioRun ? `Scenario ${scenarioStatus}` : 'Scenario'}</span>
+          </button>
+          <span className="seed-display" title="Random seed of this run - set the same seed in Settings to replay it exactly">
+            🎲 Seed {seed}
+          </span>
         </div>
         
         <div className="legend-divider"></div>
@@ -249,16 +381,43 @@ const SimulatorContentInner: React.FC = () => {
         </div>
       </header>
       
-      <main className="nodes-container">
-        {Object.entries(nodeStates).map(([nodeId, nodeState]) => (
-          <NodePanel 
-            key={nodeId} 
-            nodeState={nodeState}
-            onAddTransaction={handleAddTransaction}
-            onUpdateNetworkDelay={handleUpdateNetworkDelay}
-          />
-        ))}
-      </main>
+      {compactLayout ? (
+        <main className="nodes-overview">
+          <div className="node-card-grid">
+            {Object.entries(nodeStates).map(([nodeId, nodeState]) => (
+              <NodeCard
+                key={nodeId}
+                nodeState={nodeState}
+                selected={nodeId === focusedState?.nodeId}
+                onSelect={setFocusedNodeId}
+              />
+            ))}
+          </div>
+          {focusedState && (
+            <NodePanel 
+              key={focusedState.nodeId}
+              nodeState={focusedState}
+              onAddTransaction={handleAddTransaction}
+              onUpdateNetworkDelay={handleUpdateNetworkDelay}
+              onUpdateBehaviour={handleUpdateBehaviour}
+              onLifecycleAction={handleLifecycleAction}
+            />
+          )}
+        </main>
+      ) : (
+        <main className="nodes-container">
+          {Object.entries(nodeStates).map(([nodeId, nodeState]) => (
+            <NodePanel 
+              key={nodeId} 
+              nodeState={nodeState}
+              onAddTransaction={handleAddTransaction}
+              onUpdateNetworkDelay={handleUpdateNetworkDelay}
+              onUpdateBehaviour={handleUpdateBehaviour}
+              onLifecycleAction={handleLifecycleAction}
+            />
+          ))}
+        </main>
+      )}
       
       {/* Settings Modal */}
       {showSettings && (
@@ -267,6 +426,27 @@ const SimulatorContentInner: React.FC = () => {
           onSave={handleSaveSettings}
         />
       )}
+      
+      {/* Partition Modal */}
+      {showPartition && networkManagerRef.current && (
+        <PartitionModal
+          nodeIds={nodeIds}
+          partition={partition}
+          heldMessageCount={networkManagerRef.current.getHeldMessageCount()}
+          onClose={() => setShowPartition(false)}
+          onApply={handleApplyPartition}
+          onHeal={handleHealPartition}
+        />
+      )}
+      
+      {/* Scenario Modal */}
+      {showScenario && (
+        <ScenarioModal
+          run={scenarioRun}
+          onClose={() => setShowScenario(false)}
+          onRun={handleRunScenario}
+        />
+      )}
     </div>
   );
 };
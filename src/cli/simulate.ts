@@ -0,0 +1,214 @@
+/**
+ * Headless simulation runner
+ *
+ * Runs the network in virtual time without a browser and prints a summary:
+ * final head of every node, finalized checkpoint, reorg count and EPM winner.
+ * With --scenario it runs a scenario file instead and exits with 1 if any step failed.
+ *
+ * Usage (builds first, see the "simulate" script in package.json):
+ *   npm run simulate -- --epochs 4 --seed 42 --set SECONDS_PER_SLOT=2 --json --out run.json
+ *   npm run simulate -- --scenario src/network/scenarios/partition-and-heal.json --seed 7
+ *
+ * Options:
+ *   --scenario FILE    Run a scenario (JSON, see src/network/scenarioRunner.ts)
+ *   --slots N          Number of slots to run (default: the scenario's length)
+ *   --epochs N         Number of epochs to run (default 2, ignored if --slots is given)
+ *   --nodes N          Number of nodes (default SimulatorConfig.NODE_COUNT)
+ *   --seed N           Random seed (default SimulatorConfig.RANDOM_SEED)
+ *   --set KEY=VALUE    Override a SimulatorConfig value (repeatable)
+ *   --no-sync          Do not broadcast LMD-GHOST heads
+ *   --json             Print the summary as JSON instead of a text report
+ *   --out FILE         Also write the summary as JSON to FILE
+ *   --verbose          Keep the simulation's console logging
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { SimulatorConfig } from '../config/config';
+import { SimulationRunner, SimulationSummary } from '../network/simulationRunner';
+import { ScenarioRunner, ScenarioReport } from '../network/scenarioRunner';
+
+/**
+ * Parsed command-line options
+ */
+interface CliOptions {
+  slots?: number;
+  epochs?: number;
+  scenarioFile?: string;
+  nodeCount?: number;
+  configOverrides: Partial<typeof SimulatorConfig>;
+  sync: boolean;
+  json: boolean;
+  outFile?: string;
+  verbose: boolean;
+}
+
+const USAGE = 'Usage: simulate [--scenario FILE] [--slots N | --epochs N] [--nodes N] [--seed N] [--set KEY=VALUE]... [--no-sync] [--json] [--out FILE] [--verbose]';
+
+/**
+ * Parse a positive integer option value
+ */
+const parseCount = (flag: string, value: string | undefined): number => {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count <= 0) {
+    throw new Error(`${flag} needs a positive integer, got "${value}"`);
+  }
+  return count;
+};
+
+/**
+ * Parse a --set KEY=VALUE override, keeping the type of the existing config value
+ */
+const parseOverride = (assignment: string | undefined, overrides: Record<string, unknown>): void => {
+  const [key, value] = (assignment ?? '').split('=', 2);
+  if (!(key in SimulatorConfig) || value === undefined) {
+    throw new Error(`--set needs KEY=VALUE with a SimulatorConfig key, got "${assignment}"`);
+  }
+
+  const current = (SimulatorConfig as Record<string, unknown>)[key];
+  if (typeof current === 'number') {
+    const number = Number(value);
+    if (Number.isNaN(number)) throw new Error(`${key} must be a number, got "${value}"`);
+    overrides[key] = number;
+  } else if (typeof current === 'boolean') {
+    overrides[key] = value === 'true';
+  } else {
+    overrides[key] = value;
+  }
+};
+
+/**
+ * Parse process arguments into run options
+ */
+const parseArgs = (args: string[]): CliOptions => {
+  const overrides: Record<string, unknown> = {};
+  const options: CliOptions = { configOverrides: overrides, sync: true, json: false, verbose: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    switch (flag) {
+      case '--scenario': options.scenarioFile = args[++i]; break;
+      case '--slots': options.slots = parseCount(flag, args[++i]); break;
+      case '--epochs': options.epochs = parseCount(flag, args[++i]); break;
+      case '--nodes': options.nodeCount = parseCount(flag, args[++i]); break;
+      case '--seed': parseOverride(`RANDOM_SEED=${args[++i]}`, overrides); break;
+      case '--set': parseOverride(args[++i], overrides); break;
+      case '--no-sync': options.sync = false; break;
+      case '--json': options.json = true; break;
+      case '--out': options.outFile = args[++i]; break;
+      case '--verbose': options.verbose = true; break;
+      default: throw new Error(`Unknown option "${flag}"`);
+    }
+  }
+  return options;
+};
+
+/**
+ * Number of slots to run: --slots, else --epochs, else the default length
+ */
+const getSlotCount = (options: CliOptions, defaultSlots: number): number => {
+  if (options.slots !== undefined) return options.slots;
+  if (options.epochs === undefined) return defaultSlots;
+  const slotsPerEpoch = options.configOverrides.SLOTS_PER_EPOCH ?? SimulatorConfig.SLOTS_PER_EPOCH;
+  return options.epochs * slotsPerEpoch;
+};
+
+/**
+ * Format a summary as a human-readable report
+ */
+const formatSummary = (summary: SimulationSummary): string => {
+  const short = (hash: string | null | undefined) => hash ? hash.slice(0, 8) : '-';
+  const lines = [
+    `Seed ${summary.seed} | ${summary.nodeCount} nodes | ${summary.slots} slots (${summary.epochs} epochs) | ${summary.wallClockMs} ms wall clock`,
+    '',
+    'Node heads:'
+  ];
+  for (const node of summary.nodes) {
+    const finalized = node.finalizedCheckpoint ? `epoch ${node.finalizedCheckpoint.epoch}` : 'none';
+    lines.push(`  ${node.nodeId.padEnd(12)} head ${short(node.headHash)} slot ${node.headSlot ?? '-'} height ${node.height} | justified epoch ${node.justifiedEpoch} | finalized ${finalized} | reorgs ${node.reorgCount}`);
+  }
+  lines.push('');
+  lines.push(`Heads agree: ${summary.headsAgree ? 'yes' : 'no'}`);
+  lines.push(`Finalized checkpoint: ${summary.finalizedCheckpoint ? `epoch ${summary.finalizedCheckpoint.epoch} (${short(summary.finalizedCheckpoint.root)})` : 'none'}`);
+  lines.push(`Reorgs: ${summary.totalReorgs}`);
+
+  if (summary.epm.length === 0) {
+    lines.push('EPM: no contract');
+  }
+  for (const epm of summary.epm) {
+    const winner = epm.winnerColor ? `${epm.winnerColor} (${epm.winnerPixels} pixels)` : 'nobody painted yet';
+    lines.push(epm.complete
+      ? `EPM ${epm.contractAddress}: complete, winner ${winner}, ${epm.rewardAmount} ETH to ${short(epm.winnerAddress)}`
+      : `EPM ${epm.contractAddress}: in progress, leading ${winner}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Format the steps of a scenario run followed by the run summary
+ */
+const formatScenarioReport = (name: string, report: ScenarioReport): string => {
+  const icons = { pending: '…', done: '•', passed: '✔', failed: '✘', error: '!' };
+  const lines = [`Scenario "${name}": ${report.passed ? 'PASSED' : 'FAILED'}`];
+  for (const step of report.steps) {
+    lines.push(`  ${icons[step.status]} slot ${String(step.slot).padStart(3)} ${step.description}${step.detail && step.detail !== 'ok' ? ` (${step.detail})` : ''}`);
+  }
+  lines.push('');
+  lines.push(formatSummary(report.summary));
+  return lines.join('\n');
+};
+
+const main = async (): Promise<void> => {
+  let options: CliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  // The simulation logs every message - keep only errors unless asked
+  // Restored however the run ends, so a failing run still reports its error
+  const { log, warn } = console;
+  if (!options.verbose) {
+    console.log = () => {};
+    console.warn = () => {};
+  }
+
+  let result: SimulationSummary | ScenarioReport;
+  let text: string;
+  try {
+    if (options.scenarioFile) {
+      // Command-line options override the scenario's own settings
+      const scenario = ScenarioRunner.parse(readFileSync(options.scenarioFile, 'utf8'));
+      const report = await ScenarioRunner.run({
+        ...scenario,
+        slots: getSlotCount(options, scenario.slots),
+        nodeCount: options.nodeCount ?? scenario.nodeCount,
+        seed: options.configOverrides.RANDOM_SEED ?? scenario.seed,
+        config: { ...scenario.config, ...options.configOverrides }
+      });
+      result = report;
+      text = formatScenarioReport(scenario.name, report);
+      process.exitCode = report.passed ? 0 : 1;
+    } else {
+      const summary = await SimulationRunner.run({ ...options, slots: getSlotCount(options, 2 * SimulatorConfig.SLOTS_PER_EPOCH) });
+      result = summary;
+      text = formatSummary(summary);
+    }
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+
+  log(options.json ? JSON.stringify(result, null, 2) : text);
+  if (options.outFile) {
+    writeFileSync(options.outFile, JSON.stringify(result, null, 2));
+    log(`Summary written to ${options.outFile}`);
+  }
+};
+
+main().catch(error => {
+  console.error('[Simulate] Run failed:', error);
+  process.exit(1);
+});
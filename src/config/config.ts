@@ -7,26 +7,72 @@ export let SimulatorConfig = {
   // Issuance parameters
   BLOCK_REWARD: 4,           // ETH rewarded to proposers
   
+  // Simulation parameters
+  RANDOM_SEED: Math.floor(Math.random() * 1_000_000), // Seed for all simulation randomness - share it to replay a run
+  SIMULATION_START_TIME_MS: Date.UTC(2025, 0, 1), // Virtual time the simulation starts at (fixed so seeded runs replay exactly)
+  
   // Network parameters
   NODE_COUNT: 4,             // Number of nodes in the network
+  NETWORK_TOPOLOGY: 'mesh',  // Shape of the network: mesh, ring, star, line, random-regular, small-world or custom
+  TOPOLOGY_DEGREE: 4,        // Peers per node for random-regular and small-world topologies
+  TOPOLOGY_REWIRE_PROBABILITY: 0.2, // Chance each small-world link is rewired to a random node
+  CUSTOM_TOPOLOGY: '',       // Links of the custom topology, e.g. "Blue: Green, Red; Red: Yellow"
   MIN_NETWORK_DELAY_MS: 1,  // Minimum network delay in milliseconds
   MAX_NETWORK_DELAY_MS: 5, // Maximum network delay in milliseconds
+  PACKET_LOSS_RATE: 0,       // Probability (0-1) that a message is lost on a link
+  PACKET_DUPLICATION_RATE: 0, // Probability (0-1) that a message is delivered twice
+  PACKET_REORDER_RATE: 0,    // Probability (0-1) that a message is held back so later messages overtake it
+  LINK_BANDWIDTH_MBPS: 0,    // Per-link bandwidth in megabits/s - large messages take longer (0 = unlimited)
+  GOSSIP_FANOUT: 0,          // Peers each broadcast is forwarded to (0 = all peers)
+  GOSSIP_MAX_HOPS: 16,       // Times a broadcast may be relayed before nodes stop forwarding it
+  GOSSIP_SEEN_TTL_SLOTS: 4,  // Slots a node remembers the ids of messages it has seen
   
   // Transaction parameters
   REDISTRIBUTION_RATIO: 0.5, // Ratio of coins to redistribute (0-1)
-  MAX_BLOCK_TRANSACTIONS: 10, // Maximum number of transactions per block
+  BLOCK_GAS_LIMIT: 3_000_000, // Maximum gas the transactions of one block may use (Ethereum mainnet: 30M)
+  ELASTICITY_MULTIPLIER: 2,  // Gas target = BLOCK_GAS_LIMIT / this - fuller blocks raise the base fee, emptier ones lower it
+  BASE_FEE_MAX_CHANGE_DENOMINATOR: 8, // Base fee changes by at most 1/8 (12.5%) per block
+  INITIAL_BASE_FEE_GWEI: 1,  // Base fee of the genesis block, in gwei (1 gwei = 1e-9 ETH)
+  MIN_BASE_FEE_GWEI: 0.1,    // Floor for the base fee so it recovers within a few blocks (London has none: 0)
+  PRIORITY_FEE_GWEI: 2,      // Tip per gas nodes offer proposers for their transactions, in gwei
+  TX_BASE_GAS: 21000,        // Gas every transaction uses (a plain ETH transfer uses exactly this)
+  CALLDATA_GAS_PER_BYTE: 16, // Gas per byte of transaction data
+  CONTRACT_CREATION_GAS: 32000, // Extra gas to deploy a contract
+  CONTRACT_CALL_GAS: 20000,  // Execution gas of a successful call to the paint or deposit contract
   
   // Proof of Stake (PoS) parameters
   SECONDS_PER_SLOT: 1,      // Duration of each slot in seconds
   SLOTS_PER_EPOCH: 4,        // Number of slots per epoch (Ethereum mainnet: 32)
   PROPOSER_BUFFER_MS: 100,   // Buffer time in ms to ensure slot increments before next proposal
   SYNC_INTERVAL_MS: 4000,    // Interval for broadcasting LMD-GHOST heads (sync)
+  STATE_SNAPSHOT_DEPTH: 64,  // Blocks back a reorg can rewind to saved state (deeper reorgs replay from genesis)
   MAX_EFFECTIVE_BALANCE: 64, // Maximum effective balance in ETH for validators
+  PROPOSER_SCORE_BOOST: 40,  // Fork choice boost for a timely block, in % of one slot's committee weight (0 disables)
+  INTERVALS_PER_SLOT: 2,     // Attestation deadline is 1/INTERVALS_PER_SLOT into the slot (Ethereum: 3)
   GENESIS_RANDAO_MIX: '0x0000000000000000000000000000000000000000000000000000000000000000', // RANDAO mix for epoch -1 (32 bytes of zeros)
   GENESIS_RANDAO_REVEAL: '0x0000000000000000000000000000000000000000000000000000000000000001', // RANDAO reveal for genesis block (epoch 0)
+  SLASHING_PENALTY_QUOTIENT: 32, // Slashed validators immediately lose stakedEth / quotient (Ethereum: MIN_SLASHING_PENALTY_QUOTIENT)
+  ATTESTATION_SOURCE_REWARD: 0.014, // ETH per epoch for a correct FFG source vote (same amount is lost if missed)
+  ATTESTATION_TARGET_REWARD: 0.026, // ETH per epoch for a correct FFG target vote (same amount is lost if missed)
+  ATTESTATION_HEAD_REWARD: 0.014,   // ETH per epoch for a correct head vote (no penalty if missed)
+  PROPOSER_INCLUSION_REWARD: 0.002, // ETH paid to a proposer per attestation it includes
+  MIN_EPOCHS_TO_INACTIVITY_PENALTY: 4, // Epochs without finality before the inactivity leak starts
+  INACTIVITY_SCORE_BIAS: 4,          // Inactivity score added per missed target vote
+  INACTIVITY_SCORE_RECOVERY_RATE: 16, // Inactivity score removed per epoch while the chain is finalizing
+  INACTIVITY_PENALTY_QUOTIENT: 64,   // Leak speed: lower drains offline stake faster (Ethereum: 2^24)
+  VALIDATOR_ACTIVATION_BALANCE: 32, // Stake a deposited validator needs before it can enter the activation queue
+  MIN_DEPOSIT_AMOUNT: 1,             // Smallest deposit (ETH) accepted by the deposit contract
+  EXIT_REQUEST_FEE: 0.1,             // ETH fee for an exit request sent to the deposit contract (like EIP-7002)
+  MIN_PER_EPOCH_CHURN_LIMIT: 1,      // Minimum validators activated / exited per epoch
+  CHURN_LIMIT_QUOTIENT: 16,          // Churn limit = max(MIN_PER_EPOCH_CHURN_LIMIT, activeValidators / quotient)
+  ACTIVATION_EXIT_DELAY_EPOCHS: 2,   // Epochs between leaving a queue and activating / exiting (Ethereum: 1 + MAX_SEED_LOOKAHEAD)
+  WITHDRAWABILITY_DELAY_EPOCHS: 2,   // Epochs between exiting and stake being withdrawn to the execution layer
+  EJECTION_BALANCE: 16,              // Validators whose stake drops below this are force-exited
   
   // Constants
   PROTOCOL_NODE_ID: "COINBASE-REWARD",
+  CHAIN_ID: 1337,            // Chain ID every transaction signs, so it is not valid on other chains (EIP-155)
+  DEPOSIT_CONTRACT_ADDRESS: '0xDEPOSIT_CONTRACT', // Deposit contract - ETH sent here with deposit data stakes a validator
   GENESIS_PREV_HASH: "0000000000000000000000000000000000000000000000000000000000000000", // Previous hash for genesis blocks
   
   // UI parameters
@@ -1,18 +1,24 @@
-import { EthereumTransaction, PeerInfoMap, Block } from '../../types/types';
+import { EthereumTransaction, PeerInfoMap, Block, BlockHeader, TransactionFees, Account } from '../../types/types';
+import { ReceiptsDatabase } from '../../types/receipt';
 import { SimulatorConfig } from '../../config/config';
 import { 
   createCoinbaseTransaction, 
   createPeerPaymentTransactions,
-  createSignatureInput
+  createSignatureInput,
+  calculateTxid
 } from './transaction';
-import { calculateTransactionHash, calculateBlockHeaderHash } from '../validation/blockValidator';
-import { generateSignature as cryptoGenerateSignature } from '../../utils/cryptoUtils';
+import { calculateTransactionHash, calculateBlockBodyRoot, calculateBlockHeaderHash, calculateBlockSigningRoot } from '../validation/blockValidator';
+import { generateSignature as cryptoGenerateSignature, generateBLSSignature } from '../../utils/cryptoUtils';
 import { Node } from '../node';
-import { sha256 } from '@noble/hashes/sha256';
-import { bytesToHex } from '@noble/hashes/utils';
 import { getNodePaintColor } from '../../utils/nodeColorUtils';
 import { Mempool } from '../mempool/mempool';
 import { Blockchain } from './blockchain';
+import { Slashing } from '../consensus/slashing';
+import { AttestationAggregation } from '../consensus/attestationAggregation';
+import { simulationNow } from '../simulation/simulationClock';
+import { calculateEffectiveGasPrice, calculateGasFee, calculateMaxCost, calculateNextBaseFee, estimateGasLimit, suggestTransactionFees } from './gas';
+import { WorldState } from './worldState';
+import type { ConsensusStrategy } from '../consensus/consensusStrategy';
 
 /**
  * BlockCreator - Utility class for creating block transactions and blocks
@@ -43,30 +49,35 @@ export class BlockCreator {
       to: '0x0', // Contract creation address
       value: 0, // No ETH transferred
       nonce: 0,
+      gasLimit: 0, // Protocol transactions use no gas
+      maxFeePerGas: 0,
+      maxPriorityFeePerGas: 0,
       data: 'bulbasaur.png', // Image filename for the EPM contract
-      publicKey: 'genesis',
       signature: 'genesis',
       timestamp: 0, // Fixed timestamp for deterministic hash
       txid: 'genesis-epm-deploy'
     };
     
     const transactions = [epmDeployTransaction];
+    const body = { attestations: [], randaoReveal: SimulatorConfig.GENESIS_RANDAO_REVEAL };
     
     // Create block header (PoS - no ceiling or nonce)
     const header = {
       transactionHash: calculateTransactionHash(transactions),
+      bodyRoot: calculateBlockBodyRoot(body),
       timestamp: 0, // Fixed timestamp for deterministic genesis hash
       previousHeaderHash: SimulatorConfig.GENESIS_PREV_HASH,
       height: 0,
-      slot: -1 // Genesis is at slot -1 (before slot 0)
+      slot: -1, // Genesis is at slot -1 (before slot 0)
+      gasUsed: 0,
+      baseFeePerGas: SimulatorConfig.INITIAL_BASE_FEE_GWEI
     };
     
     // Create genesis block with RANDAO reveal
     const block = {
       header,
       transactions,
-      attestations: [],
-      randaoReveal: SimulatorConfig.GENESIS_RANDAO_REVEAL,
+      ...body,
       hash: calculateBlockHeaderHash(header)
     };
     
@@ -100,6 +111,7 @@ export class BlockCreator {
    * @param slot - Slot number for this block
    * @param randaoReveal - RANDAO reveal for this block
    * @param paintingComplete - Whether painting is complete
+   * @param strategy - Proposer's strategy, which may leave transactions and attestations out (default: include all)
    * @returns Complete block with header, transactions, and hash
    */
   public static async createBlock(
@@ -109,7 +121,8 @@ export class BlockCreator {
     beaconState: any,
     slot: number,
     randaoReveal: string,
-    paintingComplete: boolean
+    paintingComplete: boolean,
+    strategy?: ConsensusStrategy
   ): Promise<Block> {
     // Get latest block to build on top of
     const latestBlock = blockchain.getLatestBlock();
@@ -117,50 +130,120 @@ export class BlockCreator {
       throw new Error('[BlockCreator] Cannot create block: no latest block');
     }
     
+    // The base fee follows from how full the parent block was (EIP-1559)
+    const baseFeePerGas = calculateNextBaseFee(latestBlock.header);
+    
     // Create all transactions for the block
     const transactions = await BlockCreator.createBlockTransactions(
       node,
       blockchain,
       mempool,
       latestBlock.header.height + 1,
-      paintingComplete
+      paintingComplete,
+      baseFeePerGas,
+      strategy
     );
     
+    // Include attestations from beacon pool that point to canonical chain blocks
+    // Exclude attestations for this slot's committee (they cannot vote for a block before it exists)
+    const canonicalChain = blockchain.getCanonicalChain();
+    const canonicalHashes = new Set(canonicalChain.map(b => b.hash));
+    
+    const poolAttestations = beaconState.beaconPool.filter((attestation: any) => {
+      return canonicalHashes.has(attestation.blockHash) && attestation.slot < slot;
+    });
+    const includedAttestations = strategy ? strategy.filterAttestations(poolAttestations) : poolAttestations;
+    
+    // Pack votes with identical data into one aggregated BLS signature + committee bitfield
+    const aggregatedAttestations = AttestationAggregation.aggregate(beaconState, includedAttestations);
+    
+    // Include any slashing evidence this node has detected but not yet seen on chain
+    const { proposerSlashings, attesterSlashings } = Slashing.getPendingSlashings(beaconState);
+    
+    // Consensus body: RANDAO reveal, attestations and slashing operations (the header commits to its root)
+    const body = {
+      attestations: aggregatedAttestations,
+      randaoReveal: randaoReveal,
+      proposerSlashings,
+      attesterSlashings
+    };
+    
     // Create block header (PoS - no ceiling or nonce)
-    const header = {
+    const header: BlockHeader = {
       transactionHash: calculateTransactionHash(transactions),
-      timestamp: Date.now(),
+      bodyRoot: calculateBlockBodyRoot(body),
+      timestamp: simulationNow(),
       previousHeaderHash: latestBlock.hash || '',
       height: latestBlock.header.height + 1,
-      slot: slot
+      slot: slot,
+      proposerAddress: node.getAddress(),
+      gasUsed: 0,
+      baseFeePerGas
     };
     
-    // Compute block hash first (we need it to filter attestations)
-    const blockHash = calculateBlockHeaderHash(header);
+    // Execute the transactions on a copy of our state to report the gas they use
+    header.gasUsed = new WorldState(blockchain.getWorldState()).applyBlock({ header, transactions, attestations: [] });
     
-    // Include attestations from beacon pool that point to canonical chain blocks
-    // Exclude attestations for the current block we're creating
-    const canonicalChain = blockchain.getCanonicalChain();
-    const canonicalHashes = new Set(canonicalChain.map(b => b.hash));
-    
-    const includedAttestations = beaconState.beaconPool.filter((attestation: any) => {
-      // Include if attestation points to a block in canonical chain
-      // Exclude if attestation points to the block we're currently creating
-      return canonicalHashes.has(attestation.blockHash) && attestation.blockHash !== blockHash;
-    });
+    // Sign the header with our BLS key so validators can check we are the scheduled proposer
+    header.proposerSignature = generateBLSSignature(calculateBlockSigningRoot(header), node.getPrivateKey());
     
-    // Create block with RANDAO reveal and attestations
     const block: Block = {
       header,
       transactions,
-      attestations: includedAttestations,
-      randaoReveal: randaoReveal,
-      hash: blockHash
+      ...body,
+      hash: calculateBlockHeaderHash(header)
     };
     
     return block;
   }
   
+  /**
+   * Creates a second, conflicting block for the same slot (simulates an equivocating proposer)
+   * Same parent and transactions but a different timestamp, re-signed by the proposer
+   * so it is a valid block with a different hash - slashable evidence once both are seen
+   */
+  public static createConflictingBlock(block: Block, node: Node): Block {
+    const header: BlockHeader = {
+      ...block.header,
+      timestamp: block.header.timestamp + 1,
+      proposerSignature: undefined
+    };
+    header.proposerSignature = generateBLSSignature(calculateBlockSigningRoot(header), node.getPrivateKey());
+    
+    return {
+      ...block,
+      header,
+      hash: calculateBlockHeaderHash(header)
+    };
+  }
+  
+  /**
+   * Creates a block that breaks the block rules (it has no coinbase, or any, transaction)
+   * on top of the given parent, signed by the node - simulates a peer spamming invalid blocks
+   * @param index - Distinguishes the blocks sent in one slot
+   */
+  public static createInvalidBlock(parent: Block, slot: number, node: Node, index: number): Block {
+    const header: BlockHeader = {
+      transactionHash: calculateTransactionHash([]),
+      bodyRoot: calculateBlockBodyRoot({ attestations: [] }),
+      timestamp: simulationNow() + index,
+      previousHeaderHash: parent.hash || '',
+      height: parent.header.height + 1,
+      slot,
+      proposerAddress: node.getAddress(),
+      gasUsed: 0,
+      baseFeePerGas: calculateNextBaseFee(parent.header)
+    };
+    header.proposerSignature = generateBLSSignature(calculateBlockSigningRoot(header), node.getPrivateKey());
+    
+    return {
+      header,
+      transactions: [],
+      attestations: [],
+      hash: calculateBlockHeaderHash(header)
+    };
+  }
+  
   /**
    * Creates transactions for a new block
    * Includes: coinbase, mempool transactions, peer payments, and paint transaction
@@ -169,6 +252,8 @@ export class BlockCreator {
    * @param mempool The mempool instance
    * @param height Block height
    * @param paintingComplete Whether painting is complete for this node
+   * @param baseFeePerGas Base fee of the block in gwei
+   * @param strategy Proposer's strategy, which may leave mempool transactions out (default: include all)
    * @returns Promise resolving to array of transactions for the block
    */
   public static async createBlockTransactions(
@@ -176,7 +261,9 @@ export class BlockCreator {
     blockchain: Blockchain,
     mempool: Mempool,
     height: number,
-    paintingComplete: boolean
+    paintingComplete: boolean,
+    baseFeePerGas: number,
+    strategy?: ConsensusStrategy
   ): Promise<EthereumTransaction[]> {
     const nodeAddress = node.getAddress();
     
@@ -201,27 +288,41 @@ export class BlockCreator {
     
     console.log(`[BlockCreator] Creating block transactions for ${nodeAddress.slice(0, 8)}: baseNonce=${baseNonce}, balance=${nodeAccount?.balance || 0}`);
     
+    // Gas and ETH our peer payments need (they offer the default tip)
+    const fees = suggestTransactionFees(baseFeePerGas);
+    const peerPaymentGas = Object.values(validPeers).reduce((gas, peer) => gas + estimateGasLimit(peer.address), 0);
+    const peerPaymentCost = SimulatorConfig.BLOCK_REWARD * SimulatorConfig.REDISTRIBUTION_RATIO + calculateGasFee(peerPaymentGas, fees.maxFeePerGas);
+    
     // IMPORTANT: Add mempool transactions FIRST
-    // This ensures peer payments and paint transactions use nonces that come after mempool transactions
-    const maxMempoolSlots = SimulatorConfig.MAX_BLOCK_TRANSACTIONS - 1 - Object.keys(validPeers).length; // Reserve slots for coinbase, peer payments, and paint tx
-    const mempoolTransactions = mempool.getTransactions(Math.max(0, maxMempoolSlots));
+    // This ensures peer payments and paint transactions use nonces that come after our own mempool transactions
+    // Mempool transactions get the block gas left after reserving gas for peer payments and the paint tx
+    const reservedGas = peerPaymentGas + estimateGasLimit('0xEPM_PAINT_CONTRACT', BlockCreator.getPaintData(node));
+    BlockCreator.removeIncludedTransactions(mempool, blockchain);
+    const candidates = strategy ? strategy.filterTransactions(mempool.getAllTransactions()) : mempool.getAllTransactions();
+    
+    // Only transactions valid on top of the head we build on - our own may also spend the
+    // block reward, less what the peer payments need
+    const spendableState = nodeAccount
+      ? { ...worldState, [nodeAddress]: { ...nodeAccount, balance: nodeAccount.balance + SimulatorConfig.BLOCK_REWARD - peerPaymentCost } }
+      : worldState;
+    const executable = BlockCreator.getExecutableTransactions(candidates, spendableState);
+    const mempoolTransactions = BlockCreator.selectTransactions(executable, SimulatorConfig.BLOCK_GAS_LIMIT - reservedGas, baseFeePerGas);
     transactions.push(...mempoolTransactions);
     
     console.log(`[BlockCreator] Mempool transactions: ${mempoolTransactions.length}, peerCount: ${Object.keys(validPeers).length}`);
     
-    // Calculate starting nonce for peer payments (after mempool transactions)
-    const peerPaymentStartNonce = baseNonce + mempoolTransactions.length;
-    console.log(`[BlockCreator] Calculating peer payment start nonce: baseNonce=${baseNonce}, mempoolTransactions.length=${mempoolTransactions.length}, peerPaymentStartNonce=${peerPaymentStartNonce}`);
-    
-    console.log(`[BlockCreator] Peer payment start nonce: ${peerPaymentStartNonce}`);
+    // Calculate starting nonce for peer payments (after our own mempool transactions)
+    const ownTransactions = mempoolTransactions.filter(tx => tx.from === nodeAddress);
+    const peerPaymentStartNonce = baseNonce + ownTransactions.length;
+    console.log(`[BlockCreator] Peer payment start nonce: baseNonce=${baseNonce}, ownTransactions=${ownTransactions.length}, peerPaymentStartNonce=${peerPaymentStartNonce}`);
     
     // Create peer payment transactions (one per peer)
     const peerPayments = await createPeerPaymentTransactions(
       nodeAddress,
       peerPaymentStartNonce,
       node.getPrivateKey(),
-      node.getPublicKey(),
-      validPeers
+      validPeers,
+      fees
     );
     
     // Add all peer payment transactions to the block
@@ -229,7 +330,8 @@ export class BlockCreator {
     
     // After peer payments, create a paint transaction with remaining ETH (truncated to integer)
     const paintNonce = peerPaymentStartNonce + peerPayments.length;
-    const paintTransaction = await BlockCreator.createPaintTransaction(node, blockchain, paintNonce, paintingComplete);
+    const ownSpending = ownTransactions.reduce((total, tx) => total + calculateMaxCost(tx), 0);
+    const paintTransaction = await BlockCreator.createPaintTransaction(node, blockchain, paintNonce, paintingComplete, fees, ownSpending);
     if (paintTransaction) {
       transactions.push(paintTransaction);
     }
@@ -237,19 +339,110 @@ export class BlockCreator {
     return transactions;
   }
   
+  /**
+   * Mempool transactions that are valid on top of the given accounts: each sender's transactions
+   * with its next nonces in a row, while the sender can afford them (value plus the whole gas limit
+   * at the max fee). Replayed nonces are skipped; transactions after a gap or an overdraft wait
+   */
+  public static getExecutableTransactions(transactions: EthereumTransaction[], accounts: Record<string, Account>): EthereumTransaction[] {
+    const bySender = new Map<string, EthereumTransaction[]>();
+    for (const transaction of transactions) {
+      if (!bySender.has(transaction.from)) bySender.set(transaction.from, []);
+      bySender.get(transaction.from)!.push(transaction);
+    }
+    
+    const executable: EthereumTransaction[] = [];
+    for (const [sender, senderTransactions] of bySender) {
+      const account = accounts[sender];
+      if (!account) continue;
+      
+      let nonce = account.nonce;
+      let balance = account.balance;
+      for (const transaction of [...senderTransactions].sort((a, b) => a.nonce - b.nonce)) {
+        if (transaction.nonce < nonce) continue;
+        const maxCost = calculateMaxCost(transaction);
+        if (transaction.nonce > nonce || maxCost > balance) break;
+        executable.push(transaction);
+        nonce++;
+        balance -= maxCost;
+      }
+    }
+    return executable;
+  }
+  
+  /**
+   * Picks mempool transactions for a block, highest tip first (as EIP-1559 proposers do)
+   * - Transactions whose max fee is below the base fee wait for it to drop
+   * - Each sender's transactions stay in the order they were sent (so nonces stay in order)
+   * - Transactions are taken while their gas limits fit in the gas budget; once one of a
+   *   sender's transactions does not fit, the rest of that sender's wait for a later block
+   */
+  public static selectTransactions(transactions: EthereumTransaction[], gasBudget: number, baseFeePerGas: number): EthereumTransaction[] {
+    const queues = new Map<string, EthereumTransaction[]>();
+    for (const transaction of transactions) {
+      if (transaction.maxFeePerGas < baseFeePerGas) continue;
+      if (!queues.has(transaction.from)) queues.set(transaction.from, []);
+      queues.get(transaction.from)!.push(transaction);
+    }
+    
+    const tip = (transaction: EthereumTransaction) => calculateEffectiveGasPrice(transaction, baseFeePerGas) - baseFeePerGas;
+    const selected: EthereumTransaction[] = [];
+    let gasLeft = gasBudget;
+    while (queues.size > 0) {
+      // Next transaction of the sender offering the highest tip (ties go to the sender seen first)
+      let bestSender = '';
+      for (const [sender, queue] of queues) {
+        if (!bestSender || tip(queue[0]) > tip(queues.get(bestSender)![0])) bestSender = sender;
+      }
+      const queue = queues.get(bestSender)!;
+      const transaction = queue.shift()!;
+      
+      if (transaction.gasLimit > gasLeft) {
+        queues.delete(bestSender);
+        continue;
+      }
+      selected.push(transaction);
+      gasLeft -= transaction.gasLimit;
+      if (queue.length === 0) queues.delete(bestSender);
+    }
+    return selected;
+  }
+  
+  /**
+   * Drops mempool transactions the chain we build on already includes (they have receipts)
+   */
+  private static removeIncludedTransactions(mempool: Mempool, blockchain: Blockchain): void {
+    // Receipts of blocks on abandoned forks are kept too, so only look at the canonical chain's
+    const receipts: ReceiptsDatabase = blockchain.getReceipts();
+    const includedTxids = new Set(blockchain.getCanonicalChain().flatMap(block => Object.keys(receipts[block.hash || ''] || {})));
+    mempool.removeTransactions(mempool.getAllTransactions().filter(tx => includedTxids.has(tx.txid)).map(tx => tx.txid));
+  }
+  
+  /**
+   * Call data of a node's paint transactions: the color of its team (assigned when it joined the network)
+   * This ensures each node consistently paints the same color
+   */
+  private static getPaintData(node: Node): string {
+    return JSON.stringify({ color: getNodePaintColor(node.getNodeId()) });
+  }
+  
   /**
    * Creates a paint transaction to send remaining ETH (truncated to integer) to EPM contract
    * @param node The node creating the transaction
    * @param blockchain The blockchain instance
    * @param nonce The nonce to use for this transaction
    * @param paintingComplete Whether painting is complete for this node
+   * @param fees Fee caps for this block's transactions
+   * @param ownSpending Most our own mempool transactions in this block can cost
    * @returns Paint transaction or null if insufficient balance
    */
   public static async createPaintTransaction(
     node: Node,
     blockchain: Blockchain,
     nonce: number,
-    paintingComplete: boolean
+    paintingComplete: boolean,
+    fees: TransactionFees,
+    ownSpending: number = 0
   ): Promise<EthereumTransaction | null> {
     // Don't create paint transactions if painting is complete
     if (paintingComplete) {
@@ -277,13 +470,17 @@ export class BlockCreator {
     // Calculate balance AFTER coinbase is applied (coinbase will be added in this block)
     const balanceAfterCoinbase = nodeAccount.balance + SimulatorConfig.BLOCK_REWARD;
     
-    // Calculate remaining balance after peer payments
-    const balanceAfterPeerPayments = balanceAfterCoinbase - totalPeerPayments;
+    // Calculate remaining balance after our mempool transactions, peer payments and the gas fees of this block's transactions
+    const data = BlockCreator.getPaintData(node);
+    const gasLimit = estimateGasLimit('0xEPM_PAINT_CONTRACT', data);
+    const peerPaymentGas = Object.values(validPeers).reduce((gas, peer) => gas + estimateGasLimit(peer.address), 0);
+    const gasFees = calculateGasFee(peerPaymentGas + gasLimit, fees.maxFeePerGas);
+    const balanceAfterPeerPayments = balanceAfterCoinbase - ownSpending - totalPeerPayments - gasFees;
     
     // Calculate ETH to send (truncate to integer)
     const ethToSend = Math.floor(balanceAfterPeerPayments / 2);
     
-    console.log(`[BlockCreator] Paint tx check for ${nodeAddress.slice(0, 8)}: currentBalance=${nodeAccount.balance}, +coinbase=${SimulatorConfig.BLOCK_REWARD}, afterCoinbase=${balanceAfterCoinbase}, -peerPayments=${totalPeerPayments}, remaining=${balanceAfterPeerPayments}, ethToSend=${ethToSend}`);
+    console.log(`[BlockCreator] Paint tx check for ${nodeAddress.slice(0, 8)}: currentBalance=${nodeAccount.balance}, +coinbase=${SimulatorConfig.BLOCK_REWARD}, afterCoinbase=${balanceAfterCoinbase}, -ownSpending=${ownSpending}, -peerPayments=${totalPeerPayments}, -gasFees=${gasFees}, remaining=${balanceAfterPeerPayments}, ethToSend=${ethToSend}`);
     
     // Only send if we have at least 1 ETH after peer payments
     if (ethToSend < 1) {
@@ -291,18 +488,19 @@ export class BlockCreator {
       return null;
     }
     
-    const timestamp = Date.now();
+    const timestamp = simulationNow();
     
-    // Calculate txid (hash of transaction data)
-    // NOTE: Must match validator's calculateTxid - does NOT include data field
-    const txString = JSON.stringify({ 
-      from: nodeAddress, 
-      to: '0xEPM_PAINT_CONTRACT', 
-      value: ethToSend, 
-      nonce, 
+    // Calculate txid (hash of the signing payload, which covers the color data)
+    const txid = calculateTxid({
+      from: nodeAddress,
+      to: '0xEPM_PAINT_CONTRACT',
+      value: ethToSend,
+      nonce,
+      gasLimit,
+      ...fees,
+      data,
       timestamp
     });
-    const txid = bytesToHex(sha256(new TextEncoder().encode(txString)));
     
     // Create signature input (just the txid)
     const signatureInput = createSignatureInput({ txid });
@@ -316,19 +514,15 @@ export class BlockCreator {
       signature = `error-${timestamp}`;
     }
     
-    // Choose a deterministic color for this node based on its ID
-    // This ensures each node consistently paints the same color
-    const nodeId = node.getNodeId();
-    const nodeColor = getNodePaintColor(nodeId);
-    
     // Build complete paint transaction with color data
     return {
       from: nodeAddress,
       to: '0xEPM_PAINT_CONTRACT',
       value: ethToSend,
       nonce,
-      data: JSON.stringify({ color: nodeColor }),
-      publicKey: node.getPublicKey(),
+      gasLimit,
+      ...fees,
+      data,
       signature,
       timestamp,
       txid
@@ -7,8 +7,22 @@ import { BlockchainTree, BlockTreeNode } from './blockchainTree';
 import { LmdGhost } from '../consensus/lmdGhost';
 import { RANDAO } from '../consensus/randao';
 import { CasperFFG } from '../consensus/casperFFG';
+import { Slashing } from '../consensus/slashing';
+import { BeaconState, BeaconStateSnapshot } from '../consensus/beaconState';
+import { Rewards } from '../consensus/rewards';
+import { ValidatorLifecycle } from '../consensus/validatorLifecycle';
+import { AttestationAggregation } from '../consensus/attestationAggregation';
 import { SimulatorConfig } from '../../config/config';
 
+/**
+ * State after a block, kept so a reorg can restart from it instead of from genesis
+ */
+interface StateSnapshot {
+  height: number;
+  accounts: Record<string, Account>;
+  beaconState: BeaconStateSnapshot;
+}
+
 /**
  * Blockchain class with tree structure for fork management
  * Uses null root architecture to support multiple genesis blocks
@@ -20,6 +34,8 @@ export class Blockchain {
   private nodeId: string;
   private minerAddress: string;
   private beaconState: any;  // Reference to BeaconState for RANDAO and attestation processing
+  private reorgCount: number = 0;  // Number of times the GHOST-HEAD switched forks or moved backwards
+  private stateSnapshots: Map<string, StateSnapshot> = new Map();  // Block hash -> state after it (recent blocks only)
   
   constructor(nodeId: string, minerAddress: string, beaconState: any) {
     this.nodeId = nodeId;
@@ -63,6 +79,13 @@ export class Blockchain {
     return this.getCanonicalChain();
   }
   
+  /**
+   * Gets the number of reorgs this node has gone through
+   */
+  getReorgCount(): number {
+    return this.reorgCount;
+  }
+  
   /**
    * Gets the blockchain tree (for visualization and fork analysis)
    */
@@ -100,6 +123,31 @@ export class Blockchain {
     return head ? head.block : null;
   }
   
+  /**
+   * Whether our beacon state holds the epoch duties (proposer schedule) a block was made under
+   * True when the last block before the block's epoch is the same on its branch and on our
+   * canonical chain (Ethereum's dependent root); false for unknown parents
+   */
+  sharesEpochDuties(block: Block): boolean {
+    const epochStart = Math.floor(block.header.slot / SimulatorConfig.SLOTS_PER_EPOCH) * SimulatorConfig.SLOTS_PER_EPOCH;
+    const parent = this.blockTree.getNode(block.header.previousHeaderHash);
+    const head = this.blockTree.getCanonicalHead();
+    if (!parent || !head) return false;
+    
+    return this.getLastNodeBefore(parent, epochStart) === this.getLastNodeBefore(head, epochStart);
+  }
+  
+  /**
+   * Walk up from a tree node to the first ancestor (or the node itself) before a slot
+   */
+  private getLastNodeBefore(node: BlockTreeNode, slot: number): BlockTreeNode | null {
+    let current: BlockTreeNode | null = node;
+    while (current && current.block.header.slot >= slot) {
+      current = current.parent;
+    }
+    return current;
+  }
+  
   /**
    * Gets the current blockchain height (latest block height)
    */
@@ -113,14 +161,17 @@ export class Blockchain {
    * 
    * GHOST-HEAD Change Rule:
    * - If block extends canonical chain → GHOST-HEAD moves forward (forward progress)
-   * - If block creates a fork → GHOST-HEAD stays the same
-   * - CANNOT cause reorg (attestations in block are not considered for fork choice)
+   * - If block creates a fork → GHOST-HEAD stays the same, unless proposer boost makes it heaviest
+   * - Attestations in block are not considered for fork choice
    * 
-   * Note: Reorgs only happen when new attestation messages arrive (see onAttestationReceived)
+   * Note: Apart from proposer boost, reorgs only happen when new attestation messages arrive
+   * (see onAttestationReceived)
    * 
+   * @param block - Block to add
+   * @param isTimely - Block arrived in its own slot before the attestation deadline (gets proposer boost)
    * Returns true if block was added successfully, false otherwise
    */
-  async addBlock(block: Block): Promise<boolean> {
+  async addBlock(block: Block, isTimely: boolean = false): Promise<boolean> {
     // 1. Ensure block has a hash
     if (!block.hash) {
       block.hash = calculateBlockHeaderHash(block.header);
@@ -139,6 +190,14 @@ export class Blockchain {
     // update tree decorations if new block is referenced by any attestation
     LmdGhost.onNewBlock(block, this.blockTree, this.beaconState); 
     
+    // check whether this block's proposer already proposed a different block for the same slot
+    Slashing.onBlockObserved(this.beaconState, this.blockTree, block);
+    
+    // boost a timely block's weight until the end of its slot
+    if (isTimely) {
+      LmdGhost.applyProposerBoost(this.beaconState, this.blockTree, block);
+    }
+    
     // 3.5. Process any queued attestations for this block
     const queuedAttestations = this.beaconState.pendingAttestations.get(block.hash!);
     if (queuedAttestations && queuedAttestations.length > 0) {
@@ -159,6 +218,18 @@ export class Blockchain {
     return true
   }
 
+  /**
+   * Remove the proposer boost of an earlier slot (called at the start of every slot)
+   * Without the boost another fork may be heavier, so the GHOST-HEAD is recomputed
+   */
+  async clearProposerBoost(currentSlot: number): Promise<void> {
+    const oldGhostHead = this.blockTree.getGhostHead(this.beaconState);
+    if (!LmdGhost.clearProposerBoost(this.beaconState, this.blockTree, currentSlot)) return;
+    
+    const newGhostHead = this.blockTree.getGhostHead(this.beaconState);
+    await this.handleGhostHeadChange(oldGhostHead, newGhostHead);
+  }
+
   private async handleGhostHeadChange(
     oldGhostHead: BlockTreeNode | null,
     newGhostHead: BlockTreeNode | null
@@ -170,6 +241,7 @@ export class Blockchain {
       if (needsRewind) {
         // ❌ Reorganization: GHOST-HEAD switched to a different fork or backwards
         console.log(`[Blockchain] REORG: ${oldGhostHead?.hash?.slice(0, 8)} → ${newGhostHead?.hash?.slice(0, 8)}`);
+        this.reorgCount++;
         await this.handleBacktrack();
       } else {
         // ✅ Forward Progress: GHOST-HEAD moved down same chain
@@ -246,33 +318,48 @@ export class Blockchain {
    */
   private applyBlockToElAndClState(block: Block): void {
     // ========== World State Updates (Execution Layer) ==========
-    // Apply all transactions in the block to world state
-    for (let i = 0; i < block.transactions.length; i++) {
-      this.worldState.updateWithTransaction(
-        block.transactions[i],
-        block.hash,
-        block.header.height,
-        i
-      );
-    }
+    // Apply all transactions in the block to world state (gas fees go to the proposer)
+    this.worldState.applyBlock(block);
     
     // ========== Beacon State Updates (Consensus Layer) ==========
     // Calculate epoch from slot: epoch = floor(slot / SLOTS_PER_EPOCH)
     const epoch = Math.floor(block.header.slot / SimulatorConfig.SLOTS_PER_EPOCH);
     
+    // Proposer schedules and committees of later epochs were computed from the state before this block
+    this.beaconState.clearDutiesAfter(epoch);
+    
+    // Settle rewards and penalties and update the validator registry for every epoch boundary
+    // crossed since the last block; withdrawn stake is credited to the execution layer
+    const withdrawals = Rewards.processEpochTransitions(this.beaconState, epoch);
+    for (const withdrawal of withdrawals) {
+      this.worldState.processWithdrawal(withdrawal.address, withdrawal.amount);
+    }
+    
+    // Apply deposits and exit requests that succeeded on the execution layer
+    const depositContractCalls = ValidatorLifecycle.getSuccessfulDepositContractCalls(block, this.worldState.receipts[block.hash || '']);
+    for (const transaction of depositContractCalls) {
+      ValidatorLifecycle.processDepositContractCall(this.beaconState, transaction, epoch);
+    }
+    
     // Update RANDAO mix for current epoch: new_mix = current_mix XOR reveal
     // All blocks including genesis have RANDAO reveal
     RANDAO.updateRandaoMix(this.beaconState, epoch, block.randaoReveal!);
     
+    // Apply included slashing evidence (burns stake and ejects the offending validators)
+    Slashing.applyBlockSlashings(this.beaconState, block);
+    
     // Mark all attestations in this block as processed and remove from beacon pool
-    if (block.attestations && block.attestations.length > 0) {
+    // Aggregates are expanded into one vote per participant (signatures were verified by validateBlock)
+    const attestations = AttestationAggregation.getIndividualAttestations(this.beaconState, block.attestations || []);
+    if (attestations.length > 0) {
       const poolSizeBefore = this.beaconState.beaconPool.length;
-      for (const attestation of block.attestations) {
+      for (const attestation of attestations) {
         // Update latest attestation for this validator (for LMD-GHOST)
-        const existing = this.beaconState.latestAttestations.get(attestation.validatorAddress);
-        if (!existing || attestation.timestamp > existing.timestamp) {
-          this.beaconState.latestAttestations.set(attestation.validatorAddress, attestation);
-        }
+        // Goes through LmdGhost so the tree weights stay in sync with latestAttestations
+        LmdGhost.onNewAttestations(this.beaconState, this.blockTree, [attestation]);
+        
+        // Check the included vote against earlier FFG votes for slashable offences
+        Slashing.onAttestationObserved(this.beaconState, attestation);
         
         // Mark as processed to prevent duplicate inclusion
         this.beaconState.markAttestationAsProcessed(attestation.blockHash, attestation.validatorAddress);
@@ -280,7 +367,7 @@ export class Blockchain {
         // Remove from beacon pool (cleanup)
         const poolSizeBeforeFilter = this.beaconState.beaconPool.length;
         this.beaconState.beaconPool = this.beaconState.beaconPool.filter(
-          (att: any) => !(att.validatorAddress === attestation.validatorAddress && att.blockHash === attestation.blockHash)
+          (att: any) => !BeaconState.isSameAttestation(att, attestation)
         );
         const removed = poolSizeBeforeFilter - this.beaconState.beaconPool.length;
         if (removed === 0) {
@@ -289,12 +376,44 @@ export class Blockchain {
       }
       console.log(`[Blockchain] Beacon pool cleanup: ${poolSizeBefore} -> ${this.beaconState.beaconPool.length} (removed ${poolSizeBefore - this.beaconState.beaconPool.length})`);
       
+      // Record attester participation and pay the proposer (before justification moves)
+      Rewards.processBlockAttestations(this.beaconState, this.blockTree, block, attestations);
+      
       // Apply Casper FFG finality tracking
-      CasperFFG.applyAttestationsToBeaconState(this.beaconState, block.attestations);
+      CasperFFG.applyAttestationsToBeaconState(this.beaconState, attestations);
       
       // Note: Tree decoration is now handled incrementally in addBlock() via LmdGhost.updateTreeDecorations()
       // No need to redecorate entire tree here
     }
+    
+    // Re-weight fork choice votes of validators whose balance changed (rewards, penalties, slashing)
+    LmdGhost.onValidatorBalancesChanged(this.beaconState, this.blockTree);
+    
+    // Remember the state after this block so a reorg can restart from it
+    this.saveStateSnapshot(block);
+  }
+  
+  /**
+   * Save the world and beacon state after a block
+   * Only the last STATE_SNAPSHOT_DEPTH heights are kept - deeper reorgs replay from genesis
+   * Genesis itself is not saved: its validator set is only assigned after the chain is created,
+   * and clearAllState restores it anyway
+   */
+  private saveStateSnapshot(block: Block): void {
+    if (block.header.height === 0) return;
+    
+    this.stateSnapshots.set(block.hash || calculateBlockHeaderHash(block.header), {
+      height: block.header.height,
+      accounts: structuredClone(this.worldState.accounts),
+      beaconState: this.beaconState.createSnapshot()
+    });
+    
+    const minHeight = block.header.height - SimulatorConfig.STATE_SNAPSHOT_DEPTH;
+    for (const [hash, snapshot] of this.stateSnapshots) {
+      if (snapshot.height < minHeight) {
+        this.stateSnapshots.delete(hash);
+      }
+    }
   }
   
   /**
@@ -308,7 +427,7 @@ export class Blockchain {
    * 4. Check if GHOST-HEAD moved:
    *    - Stayed same → No action needed
    *    - Moved forward → Validate and apply new blocks to state
-   *    - Moved to different fork → Reorg (rebuild entire state, validate all blocks)
+   *    - Moved to different fork → Reorg (rewind state to the common ancestor, validate the new blocks)
    * 
    * This is the ONLY way reorgs can happen (not via block/chain addition)
    * 
@@ -349,19 +468,15 @@ export class Blockchain {
    * Handle reorganization: GHOST-HEAD switched to a different fork or moved backwards
    * 
    * Strategy:
-   * 1. Clear all state (world state, beacon state)
-   * 2. Get all blocks on new canonical chain
-   * 3. Apply blocks with retry logic if invalid blocks encountered
-   * 4. Each invalid block triggers: mark invalid → recompute GHOST-HEAD → retry
+   * 1. Rewind state to the common ancestor of the old and new canonical chains
+   * 2. Apply the new canonical chain's blocks after it
+   * 3. Each invalid block triggers: mark invalid → recompute GHOST-HEAD → retry
    */
   private async handleBacktrack(): Promise<void> {
-    // Clear state and get blocks to apply from new canonical chain
-    this.clearAllState();
-    
     // Retry loop: if we encounter invalid blocks, GHOST-HEAD will change
-    // and we'll need to rebuild from the new canonical chain
+    // and we'll need to rewind again and rebuild towards the new canonical chain
     for (let attempt = 0; attempt < 10; attempt++) {
-      const blocksToApply = this.getCanonicalChain();
+      const blocksToApply = this.rewindToCommonAncestor();
       const success = await this.applyBlocksSequentially(blocksToApply);
       
       if (success) {
@@ -377,6 +492,35 @@ export class Blockchain {
     console.error(`[Blockchain] Reorg failed after 10 attempts`);
   }
   
+  /**
+   * Restore the state of the newest canonical block we have a snapshot of
+   * That is the common ancestor with the old head (or a later block, if we applied this fork
+   * before); without one, state is cleared and the whole chain replayed
+   * 
+   * @returns Canonical blocks after the restored block, which still have to be applied
+   */
+  private rewindToCommonAncestor(): Block[] {
+    const canonicalChain = this.getCanonicalChain();
+    
+    for (let i = canonicalChain.length - 1; i >= 0; i--) {
+      const snapshot = this.stateSnapshots.get(canonicalChain[i].hash || '');
+      if (snapshot) {
+        // Receipts are keyed by block hash, so those of abandoned blocks can stay
+        const receipts = this.worldState.receipts;
+        this.worldState = new WorldState(snapshot.accounts);
+        this.worldState.receipts = receipts;
+        this.beaconState.restoreSnapshot(snapshot.beaconState);
+        LmdGhost.onValidatorBalancesChanged(this.beaconState, this.blockTree);
+        
+        console.log(`[Blockchain] Rewound state to block ${canonicalChain[i].hash?.slice(0, 8)} at height ${snapshot.height}`);
+        return canonicalChain.slice(i + 1);
+      }
+    }
+    
+    this.clearAllState();
+    return canonicalChain;
+  }
+  
   /**
    * Handle forward progress: GHOST-HEAD moved down the same chain
    * 
@@ -424,18 +568,25 @@ export class Blockchain {
   
   /**
    * Clear all blockchain state (world state and beacon state)
-   * Called during reorg to reset to clean state before rebuilding
+   * Called during reorg when no snapshot is left to rewind to, before rebuilding from genesis
    * 
    * Clears:
    * - World state (account balances, nonces, etc.)
    * - Processed attestations
    * - RANDAO mixes (re-initialized to genesis)
    * - Proposer schedules
+   * - Validator balances and slashed flags (restored to genesis, fork choice weights adjusted)
+   * - Epoch participation and rewards progress
+   * - Casper FFG checkpoints and vote counts
    */
   private clearAllState(): void {
     this.worldState = new WorldState();
     this.beaconState.clearProcessedAttestations();
     this.beaconState.clearRandaoState();
+    this.beaconState.resetValidators();
+    this.beaconState.clearEpochProcessingState();
+    this.beaconState.clearFinalityState();
+    LmdGhost.onValidatorBalancesChanged(this.beaconState, this.blockTree);
   }
   
   /**
@@ -459,8 +610,9 @@ export class Blockchain {
       return false;
     }
     
-    // Validate block against current world state (skip for genesis block)
-    const validationResult = (block.header.height != 0) ? await validateBlock(block, this.worldState, previousHash) : {valid: true};
+    // Validate block against current world state and its parent's header (skip for genesis block)
+    const parentHeader = this.blockTree.getNode(previousHash)?.block.header;
+    const validationResult = (block.header.height != 0) ? await validateBlock(block, this.worldState, previousHash, this.beaconState, parentHeader) : {valid: true};
     
     if (!validationResult.valid) {
       // Store validation error in metadata
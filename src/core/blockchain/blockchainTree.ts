@@ -24,7 +24,8 @@ export interface BlockTreeNode {
   metadata: {
     weight?: number;           // For GHOST: total attestation weight
     attestationCount?: number; // Number of attestations
-    attestedEth?: number;      // For LMD GHOST: total staked ETH attesting to this subtree
+    attestedEth?: number;      // For LMD GHOST: total staked ETH attesting to this subtree (plus proposer boost)
+    proposerBoost?: number;    // For LMD GHOST: proposer boost weight while this block is boosted
     isInvalid?: boolean;       // True if block is invalid (failed validation), false/undefined = valid
     validationError?: string;  // Error message if block failed validation
     [key: string]: any;        // Allow any future metadata
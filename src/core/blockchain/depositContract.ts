@@ -0,0 +1,86 @@
+/**
+ * Deposit Contract
+ *
+ * Execution layer side of validator staking. Transactions sent to
+ * DEPOSIT_CONTRACT_ADDRESS carry a JSON request in their data field:
+ *
+ * - Deposit: { "type": "deposit", "validatorAddress": "<address>", "blsPublicKey": "<key>" }
+ *   Locks the transaction value in the contract. The consensus layer credits it to
+ *   the validator (creating it if new) with the sender as withdrawal address.
+ *   New validators need their BLS public key so their attestations can be verified.
+ *
+ * - Exit:    { "type": "exit", "validatorAddress": "<address>" }
+ *   Pays EXIT_REQUEST_FEE and asks the consensus layer to exit the validator.
+ *   Only honoured if the sender is the validator's withdrawal address (like EIP-7002).
+ *
+ * The contract itself only checks the request is well-formed and holds the ETH;
+ * activation, exits and withdrawals are handled by ValidatorLifecycle.
+ */
+
+import { EthereumTransaction } from '../../types/types';
+import { SimulatorConfig } from '../../config/config';
+
+export interface DepositContractRequest {
+  type: 'deposit' | 'exit';
+  validatorAddress: string;
+  blsPublicKey?: string; // Deposits only - validator key registered for new validators
+}
+
+export class DepositContract {
+  /**
+   * Check whether a transaction is a call to the deposit contract
+   */
+  static isDepositContractCall(transaction: EthereumTransaction): boolean {
+    return transaction.to === SimulatorConfig.DEPOSIT_CONTRACT_ADDRESS;
+  }
+
+  /**
+   * Parse the request carried in a deposit contract call
+   * @returns The request, or null if the data is missing or malformed
+   */
+  static parseRequest(transaction: EthereumTransaction): DepositContractRequest | null {
+    if (!transaction.data) return null;
+
+    try {
+      const parsed = JSON.parse(transaction.data);
+      if ((parsed.type !== 'deposit' && parsed.type !== 'exit') || typeof parsed.validatorAddress !== 'string' || !parsed.validatorAddress) {
+        return null;
+      }
+      const request: DepositContractRequest = { type: parsed.type, validatorAddress: parsed.validatorAddress };
+      if (parsed.type === 'deposit' && typeof parsed.blsPublicKey === 'string' && parsed.blsPublicKey) {
+        request.blsPublicKey = parsed.blsPublicKey;
+      }
+      return request;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  /**
+   * Validate a deposit contract call before it is executed
+   * @returns {valid: true, request} or {valid: false, error} (the call reverts)
+   */
+  static validateCall(transaction: EthereumTransaction): { valid: boolean; request?: DepositContractRequest; error?: string } {
+    const request = this.parseRequest(transaction);
+    if (!request) {
+      return { valid: false, error: 'Invalid deposit data' };
+    }
+
+    if (request.type === 'deposit' && transaction.value < SimulatorConfig.MIN_DEPOSIT_AMOUNT) {
+      return { valid: false, error: `Deposit below minimum of ${SimulatorConfig.MIN_DEPOSIT_AMOUNT} ETH` };
+    }
+
+    if (request.type === 'exit' && transaction.value < SimulatorConfig.EXIT_REQUEST_FEE) {
+      return { valid: false, error: `Exit request fee is ${SimulatorConfig.EXIT_REQUEST_FEE} ETH` };
+    }
+
+    return { valid: true, request };
+  }
+
+  /**
+   * Create the data field for a deposit contract call
+   */
+  static encodeRequest(request: DepositContractRequest): string {
+    return JSON.stringify(request);
+  }
+}
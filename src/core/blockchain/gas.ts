@@ -0,0 +1,125 @@
+import { BlockHeader, EthereumTransaction, TransactionFees } from '../../types/types';
+import { SimulatorConfig } from '../../config/config';
+
+/**
+ * Gas accounting and the EIP-1559 fee market (simplified EVM)
+ *
+ * Every transaction names the most gas it may use (gasLimit) and the most it pays per unit
+ * (maxFeePerGas, in gwei), of which at most maxPriorityFeePerGas is a tip. The sender must be
+ * able to afford the whole limit at the max fee up front, but only pays for the gas it actually
+ * used - the rest is refunded.
+ *
+ * Each block has a base fee every transaction pays per gas. The base fee is burned and only the
+ * tip goes to the proposer. It follows demand: a block using more than the gas target
+ * (BLOCK_GAS_LIMIT / ELASTICITY_MULTIPLIER) raises the next block's base fee by up to 12.5%,
+ * one using less lowers it. Blocks hold as many transactions as fit in BLOCK_GAS_LIMIT.
+ *
+ * Without a real EVM, gas is fixed per kind of transaction:
+ * - plain transfer: TX_BASE_GAS (21000, as in Ethereum)
+ * - call data: + CALLDATA_GAS_PER_BYTE per byte
+ * - contract creation: + CONTRACT_CREATION_GAS
+ * - call to the paint or deposit contract: + CONTRACT_CALL_GAS if it succeeds (a reverted call
+ *   stops before executing, so the execution gas is refunded)
+ */
+
+/**
+ * Gas a transaction is charged before anything is executed (Ethereum's intrinsic gas)
+ * A transaction whose gas limit is below this is invalid
+ */
+export function calculateIntrinsicGas(transaction: Pick<EthereumTransaction, 'to' | 'data'>): number {
+  const dataBytes = transaction.data ? new TextEncoder().encode(transaction.data).length : 0;
+  const creationGas = transaction.to === '0x0' ? SimulatorConfig.CONTRACT_CREATION_GAS : 0;
+  return SimulatorConfig.TX_BASE_GAS + creationGas + dataBytes * SimulatorConfig.CALLDATA_GAS_PER_BYTE;
+}
+
+/**
+ * Gas a transaction uses when it succeeds
+ * A transaction with a lower gas limit runs out of gas (it reverts and uses its whole limit)
+ */
+export function calculateGasRequired(transaction: Pick<EthereumTransaction, 'to' | 'data'>): number {
+  const isContractCall = transaction.to === '0xEPM_PAINT_CONTRACT' || transaction.to === SimulatorConfig.DEPOSIT_CONTRACT_ADDRESS;
+  const executionGas = isContractCall ? SimulatorConfig.CONTRACT_CALL_GAS : 0;
+  return calculateIntrinsicGas(transaction) + executionGas;
+}
+
+/**
+ * Gas limit a wallet would set for a transaction (the gas it uses when it succeeds)
+ */
+export function estimateGasLimit(to: string, data?: string): number {
+  return calculateGasRequired({ to, data });
+}
+
+/**
+ * Fees a wallet would offer: the tip plus twice the base fee, so the transaction stays
+ * includable through six full blocks of base fee increases
+ * @param baseFeePerGas - Base fee of the next block
+ * @param fees - Caps chosen by the user (either may be left out)
+ */
+export function suggestTransactionFees(baseFeePerGas: number, fees: Partial<TransactionFees> = {}): TransactionFees {
+  const maxPriorityFeePerGas = fees.maxPriorityFeePerGas ?? SimulatorConfig.PRIORITY_FEE_GWEI;
+  return {
+    maxFeePerGas: fees.maxFeePerGas ?? 2 * baseFeePerGas + maxPriorityFeePerGas,
+    maxPriorityFeePerGas
+  };
+}
+
+/**
+ * Fee in ETH for an amount of gas at a price in gwei (1 gwei = 1e-9 ETH)
+ */
+export function calculateGasFee(gas: number, gweiPerGas: number): number {
+  return gas * gweiPerGas / 1e9;
+}
+
+/**
+ * Most a transaction can cost its sender: value plus its whole gas limit at the max fee
+ * Senders must hold this much for the transaction to be accepted
+ */
+export function calculateMaxCost(transaction: EthereumTransaction): number {
+  return transaction.value + calculateGasFee(transaction.gasLimit, transaction.maxFeePerGas);
+}
+
+/**
+ * Price per gas a transaction pays in a block: the base fee plus as much of its tip as
+ * its max fee leaves room for
+ */
+export function calculateEffectiveGasPrice(transaction: TransactionFees, baseFeePerGas: number): number {
+  return Math.min(transaction.maxFeePerGas, baseFeePerGas + transaction.maxPriorityFeePerGas);
+}
+
+/**
+ * Gas a block aims to use - the base fee rises above it and falls below it
+ */
+export function getGasTarget(): number {
+  return Math.floor(SimulatorConfig.BLOCK_GAS_LIMIT / SimulatorConfig.ELASTICITY_MULTIPLIER);
+}
+
+/**
+ * Base fee of the block after the given one (EIP-1559)
+ * Computed in whole wei like Ethereum, so every node gets exactly the same value:
+ * it moves by (gasUsed - target) / target / BASE_FEE_MAX_CHANGE_DENOMINATOR of the parent's base fee,
+ * rising by at least 1 wei when the parent is above target, and never below MIN_BASE_FEE_GWEI
+ */
+export function calculateNextBaseFee(parent: Pick<BlockHeader, 'gasUsed' | 'baseFeePerGas'>): number {
+  const parentBaseFee = BigInt(Math.round(parent.baseFeePerGas * 1e9));
+  const gasUsed = BigInt(parent.gasUsed);
+  const gasTarget = BigInt(getGasTarget());
+  const denominator = BigInt(SimulatorConfig.BASE_FEE_MAX_CHANGE_DENOMINATOR);
+
+  let baseFee = parentBaseFee;
+  if (gasUsed > gasTarget) {
+    const delta = parentBaseFee * (gasUsed - gasTarget) / gasTarget / denominator;
+    baseFee = parentBaseFee + (delta > 1n ? delta : 1n);
+  } else if (gasUsed < gasTarget) {
+    baseFee = parentBaseFee - parentBaseFee * (gasTarget - gasUsed) / gasTarget / denominator;
+  }
+
+  const minBaseFee = BigInt(Math.round(SimulatorConfig.MIN_BASE_FEE_GWEI * 1e9));
+  return Number(baseFee > minBaseFee ? baseFee : minBaseFee) / 1e9;
+}
+
+/**
+ * ETH burned by a block: the base fee of all the gas it used
+ */
+export function calculateBurnedEth(header: Pick<BlockHeader, 'gasUsed' | 'baseFeePerGas'>): number {
+  return calculateGasFee(header.gasUsed, header.baseFeePerGas);
+}
@@ -1,22 +1,45 @@
-import { EthereumTransaction, PeerInfoMap } from '../../types/types';
+import { EthereumTransaction, PeerInfoMap, TransactionFees } from '../../types/types';
 import { SimulatorConfig } from '../../config/config';
 import { generateSignature as cryptoGenerateSignature } from '../../utils/cryptoUtils';
 import { sha256 } from '@noble/hashes/sha256';
 import { bytesToHex } from '@noble/hashes/utils';
+import { simulationNow } from '../simulation/simulationClock';
+import { estimateGasLimit } from './gas';
 
 /**
- * Helper function to calculate transaction hash (txid)
- * NOTE: Does NOT include signature - txid is calculated before signing
+ * Transaction fields the signature commits to: all of them except the signature itself
  */
-function calculateTxid(tx: Partial<EthereumTransaction>): string {
-  const txString = JSON.stringify({ 
-    from: tx.from, 
-    to: tx.to, 
-    value: tx.value, 
-    nonce: tx.nonce, 
-    timestamp: tx.timestamp 
+export type SignedTransactionFields = Pick<
+  EthereumTransaction,
+  'from' | 'to' | 'value' | 'nonce' | 'gasLimit' | 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'data' | 'timestamp'
+>;
+
+/**
+ * Canonical signing payload of a transaction
+ * Every signed field in a fixed order, plus the chain ID so a transaction signed for one
+ * chain is invalid on any other (like EIP-155). Used both to create and to validate transactions
+ */
+export function createSigningPayload(tx: SignedTransactionFields, chainId: number = SimulatorConfig.CHAIN_ID): string {
+  return JSON.stringify({
+    chainId,
+    from: tx.from,
+    to: tx.to,
+    value: tx.value,
+    nonce: tx.nonce,
+    gasLimit: tx.gasLimit,
+    maxFeePerGas: tx.maxFeePerGas,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+    data: tx.data ?? null,
+    timestamp: tx.timestamp
   });
-  return bytesToHex(sha256(new TextEncoder().encode(txString)));
+}
+
+/**
+ * Calculates a transaction's hash (txid) from its signing payload
+ * NOTE: Does NOT include signature - txid is calculated before signing
+ */
+export function calculateTxid(tx: SignedTransactionFields, chainId: number = SimulatorConfig.CHAIN_ID): string {
+  return bytesToHex(sha256(new TextEncoder().encode(createSigningPayload(tx, chainId))));
 }
 
 /**
@@ -24,7 +47,7 @@ function calculateTxid(tx: Partial<EthereumTransaction>): string {
  * 
  * CRYPTOGRAPHIC COMMITMENT PATTERN:
  * We sign JUST the txid because:
- * 1. txid = hash(from, to, value, nonce, timestamp) - cryptographically commits to all transaction data
+ * 1. txid = hash(signing payload) - cryptographically commits to all transaction data, including call data and the chain ID
  * 2. Signing the txid proves you authorized this specific transaction
  * 3. During validation, we verify:
  *    a) hash(transaction_data) === txid (data hasn't been tampered with)
@@ -40,12 +63,12 @@ export function createSignatureInput(tx: { txid: string }) {
 /**
  * Creates a coinbase transaction for the miner
  * This is the reward for mining a block
- * Note: Coinbase transactions don't need real signatures
+ * Note: Coinbase transactions don't need real signatures, and are issued by the protocol so use no gas
  */
 export const createCoinbaseTransaction = (
   minerAddress: string
 ): EthereumTransaction => {
-  const timestamp = Date.now();
+  const timestamp = simulationNow();
   
   // Calculate txid first (before signature)
   const txid = calculateTxid({
@@ -53,6 +76,9 @@ export const createCoinbaseTransaction = (
     to: minerAddress,
     value: SimulatorConfig.BLOCK_REWARD,
     nonce: 0,
+    gasLimit: 0,
+    maxFeePerGas: 0,
+    maxPriorityFeePerGas: 0,
     timestamp
   });
   
@@ -61,7 +87,9 @@ export const createCoinbaseTransaction = (
     to: minerAddress,
     value: SimulatorConfig.BLOCK_REWARD,
     nonce: 0,
-    publicKey: '',
+    gasLimit: 0,
+    maxFeePerGas: 0,
+    maxPriorityFeePerGas: 0,
     signature: `coinbase-${timestamp}`,  // Placeholder signature for coinbase
     timestamp,
     txid
@@ -71,13 +99,14 @@ export const createCoinbaseTransaction = (
 /**
  * Creates peer payment transactions - one transaction per peer
  * In Ethereum account model, we send separate transactions instead of one with multiple outputs
+ * @param fees Fee caps for the payments (the miner pays them like any sender)
  */
 export const createPeerPaymentTransactions = async (
   minerAddress: string,
   minerNonce: number,
   minerPrivateKey: string,
-  minerPublicKey: string,
-  peers: PeerInfoMap
+  peers: PeerInfoMap,
+  fees: TransactionFees
 ): Promise<EthereumTransaction[]> => {
   const peerNodeIds = Object.keys(peers);
   
@@ -91,7 +120,8 @@ export const createPeerPaymentTransactions = async (
   for (let i = 0; i < peerNodeIds.length; i++) {
     const peerId = peerNodeIds[i];
     const peerAddress = peers[peerId].address;
-    const timestamp = Date.now();
+    const timestamp = simulationNow();
+    const gasLimit = estimateGasLimit(peerAddress);
     
     // Step 1: Calculate txid FIRST (before signature)
     const txid = calculateTxid({
@@ -99,6 +129,8 @@ export const createPeerPaymentTransactions = async (
       to: peerAddress,
       value: amountPerPeer,
       nonce: minerNonce + i,
+      gasLimit,
+      ...fees,
       timestamp
     });
     
@@ -121,7 +153,8 @@ export const createPeerPaymentTransactions = async (
       to: peerAddress,
       value: amountPerPeer,
       nonce: minerNonce + i,
-      publicKey: minerPublicKey,
+      gasLimit,
+      ...fees,
       signature,
       timestamp,
       txid
@@ -138,7 +171,9 @@ export const createPeerPaymentTransactions = async (
  * @param value Amount to send in ETH
  * @param nonce Sender's current nonce
  * @param privateKey Sender's private key for signing
- * @param publicKey Sender's public key
+ * @param fees Max fee and max tip per gas in gwei
+ * @param data Optional contract call data (e.g. a deposit contract request)
+ * @param gasLimit Most gas the transaction may use (default: the gas it needs to succeed)
  * @returns Signed Ethereum transaction
  */
 export async function createSignedTransaction(
@@ -147,12 +182,15 @@ export async function createSignedTransaction(
   value: number,
   nonce: number,
   privateKey: string,
-  publicKey: string
+  fees: TransactionFees,
+  data?: string,
+  gasLimit: number = estimateGasLimit(to, data)
 ): Promise<EthereumTransaction> {
-  const timestamp = Date.now();
+  const timestamp = simulationNow();
+  const { maxFeePerGas, maxPriorityFeePerGas } = fees;
   
   // Calculate txid first (before signature)
-  const txid = calculateTxid({ from, to, value, nonce, timestamp });
+  const txid = calculateTxid({ from, to, value, nonce, gasLimit, maxFeePerGas, maxPriorityFeePerGas, data, timestamp });
   
   // Create signature input and sign
   const signatureInput = createSignatureInput({ txid });
@@ -163,9 +201,12 @@ export async function createSignedTransaction(
     to,
     value,
     nonce,
-    publicKey,
+    gasLimit,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
     signature,
     timestamp,
-    txid
+    txid,
+    ...(data !== undefined && { data })
   };
 }
@@ -1,8 +1,10 @@
 import { SimulatorConfig } from '../../config/config';
-import { Block, EthereumTransaction, Account } from '../../types/types';
+import { Block, BlockHeader, EthereumTransaction, Account } from '../../types/types';
 import { createEPMContract } from '../epm/epmInit';
 import { EPM } from '../epm/EPM';
+import { DepositContract } from './depositContract';
 import { ReceiptsDatabase, TransactionReceipt } from '../../types/receipt';
+import { calculateEffectiveGasPrice, calculateGasFee, calculateGasRequired, calculateIntrinsicGas, calculateMaxCost } from './gas';
 
 /**
  * WorldState class for Ethereum account model
@@ -11,6 +13,7 @@ import { ReceiptsDatabase, TransactionReceipt } from '../../types/receipt';
 export class WorldState {
   public accounts: Record<string, Account>;
   public receipts: ReceiptsDatabase;  // Chaindata: transaction receipts
+  private baseFeePerGas = 0;          // Base fee of the block whose transactions are being applied
 
   constructor(initialAccounts: Record<string, Account> = {}) {
     // Deep copy the accounts to avoid reference issues
@@ -50,6 +53,7 @@ export class WorldState {
       status: status,
       gasUsed: gasUsed,
       cumulativeGasUsed: cumulativeGasUsed,
+      effectiveGasPrice: calculateEffectiveGasPrice(transaction, this.baseFeePerGas),
       contractAddress: contractAddress,
       logs: [], // Empty for now
       revertReason: revertReason
@@ -66,6 +70,7 @@ export class WorldState {
    * Helper function to process a transaction for WorldState updates
    * Updates sender and recipient account balances and nonces
    * Also handles EPM contract deployment and creates transaction receipts
+   * Returns the gas the transaction used (the gas fee is charged by the caller)
    */
   private processTransaction(
     transaction: EthereumTransaction, 
@@ -79,6 +84,16 @@ export class WorldState {
     // Check if this is a coinbase transaction (block reward)
     const isCoinbase = from === SimulatorConfig.PROTOCOL_NODE_ID;
     
+    // A transaction whose gas limit is below the gas it needs runs out of gas
+    if (!isCoinbase && transaction.gasLimit < calculateGasRequired(transaction)) {
+      return this.processOutOfGas(transaction, blockHash, blockNumber, txIndex, cumulativeGasUsed);
+    }
+    
+    // Handle deposit and exit requests sent to the deposit contract
+    if (DepositContract.isDepositContractCall(transaction) && !isCoinbase) {
+      return this.processDepositContractCall(transaction, blockHash, blockNumber, txIndex, cumulativeGasUsed);
+    }
+    
     // Check if this is a paint transaction to EPM contract
     // Paint transactions have JSON data with a color field
     let isPaintTransaction = false;
@@ -101,7 +116,8 @@ export class WorldState {
       const txBlockHash = blockHash || transaction.txid;
       const result = EPM.executeTransaction(this.accounts[to], transaction, txBlockHash);
       
-      const gasUsed = 21000; // Simplified gas for now
+      // A rejected call reverts before executing, so it only uses the intrinsic gas
+      const gasUsed = result.success ? calculateGasRequired(transaction) : calculateIntrinsicGas(transaction);
       
       if (result.success) {
         // Transaction succeeded - update the contract account
@@ -191,7 +207,7 @@ export class WorldState {
       // Add the contract account to world state
       this.accounts[contractAddress] = epmAccount;
       
-      const gasUsed = 53000; // Contract creation gas
+      const gasUsed = isCoinbase ? 0 : calculateGasRequired(transaction); // Protocol deployments (genesis) use no gas
       
       // Create success receipt for contract creation (only if block context available)
       if (blockHash && blockNumber !== undefined && txIndex !== undefined && cumulativeGasUsed !== undefined) {
@@ -235,7 +251,7 @@ export class WorldState {
       balance: this.accounts[to].balance + value
     };
     
-    const gasUsed = 21000; // Standard transfer gas
+    const gasUsed = isCoinbase ? 0 : calculateGasRequired(transaction); // Coinbase rewards use no gas
     
     // Create success receipt for regular transfer (only if block context available)
     if (blockHash && blockNumber !== undefined && txIndex !== undefined && cumulativeGasUsed !== undefined) {
@@ -254,44 +270,214 @@ export class WorldState {
     return { gasUsed, status: 1 };
   }
 
+  /**
+   * Processes a call to the deposit contract
+   * Valid calls move the transaction value from the sender into the contract;
+   * the consensus layer reads successful calls from the receipts
+   * Invalid calls revert (sender keeps its ETH, nonce still increments)
+   */
+  private processDepositContractCall(
+    transaction: EthereumTransaction,
+    blockHash?: string,
+    blockNumber?: number,
+    txIndex?: number,
+    cumulativeGasUsed?: number
+  ): { gasUsed: number; status: 0 | 1; revertReason?: string } {
+    const { from, to, value } = transaction;
+    const result = DepositContract.validateCall(transaction);
+    const gasUsed = result.valid ? calculateGasRequired(transaction) : calculateIntrinsicGas(transaction);
+    
+    if (!this.accounts[to]) {
+      this.accounts[to] = {
+        address: to,
+        balance: 0,
+        nonce: 0
+      };
+    }
+    
+    if (this.accounts[from]) {
+      this.accounts[from] = {
+        ...this.accounts[from],
+        balance: result.valid ? this.accounts[from].balance - value : this.accounts[from].balance,
+        nonce: this.accounts[from].nonce + 1
+      };
+    }
+    
+    if (result.valid) {
+      this.accounts[to] = {
+        ...this.accounts[to],
+        balance: this.accounts[to].balance + value
+      };
+    } else {
+      console.log(`Deposit contract call REJECTED: ${result.error}`);
+    }
+    
+    // Create receipt (only if block context available)
+    if (blockHash && blockNumber !== undefined && txIndex !== undefined && cumulativeGasUsed !== undefined) {
+      this.createReceipt(
+        transaction,
+        blockHash,
+        blockNumber,
+        txIndex,
+        result.valid ? 1 : 0,
+        gasUsed,
+        cumulativeGasUsed + gasUsed,
+        null,
+        result.error
+      );
+    }
+    
+    return { gasUsed, status: result.valid ? 1 : 0, revertReason: result.error };
+  }
+
+  /**
+   * Processes a transaction that ran out of gas
+   * Nothing is executed (no ETH moves) but the nonce still increments and the whole gas limit is used
+   */
+  private processOutOfGas(
+    transaction: EthereumTransaction,
+    blockHash?: string,
+    blockNumber?: number,
+    txIndex?: number,
+    cumulativeGasUsed?: number
+  ): { gasUsed: number; status: 0 | 1; revertReason?: string } {
+    const { from, gasLimit } = transaction;
+    const revertReason = `Out of gas: limit ${gasLimit} is below the ${calculateGasRequired(transaction)} gas required`;
+    console.log(`Transaction ${transaction.txid.slice(0, 8)} REVERTED: ${revertReason}`);
+    
+    if (this.accounts[from]) {
+      this.accounts[from] = {
+        ...this.accounts[from],
+        nonce: this.accounts[from].nonce + 1
+      };
+    }
+    
+    // Create failure receipt (only if block context available)
+    if (blockHash && blockNumber !== undefined && txIndex !== undefined && cumulativeGasUsed !== undefined) {
+      this.createReceipt(
+        transaction,
+        blockHash,
+        blockNumber,
+        txIndex,
+        0, // failure
+        gasLimit,
+        cumulativeGasUsed + gasLimit,
+        null,
+        revertReason
+      );
+    }
+    
+    return { gasUsed: gasLimit, status: 0, revertReason };
+  }
+
+  /**
+   * Charges the sender for the gas a transaction used at its effective gas price
+   * The base fee part is burned (it leaves the supply) and the tip goes to the block proposer
+   * The sender could afford its whole gas limit, but the unused gas is never charged (it is refunded)
+   * Without a fee recipient (no block context) the tip just leaves the sender
+   */
+  private payGasFee(transaction: EthereumTransaction, gasUsed: number, feeRecipient?: string): void {
+    const effectiveGasPrice = calculateEffectiveGasPrice(transaction, this.baseFeePerGas);
+    const fee = calculateGasFee(gasUsed, effectiveGasPrice);
+    if (fee <= 0 || !this.accounts[transaction.from]) {
+      return;
+    }
+    
+    this.accounts[transaction.from] = {
+      ...this.accounts[transaction.from],
+      balance: this.accounts[transaction.from].balance - fee
+    };
+    
+    const tip = calculateGasFee(gasUsed, effectiveGasPrice - this.baseFeePerGas);
+    if (feeRecipient && tip > 0) {
+      const recipient = this.accounts[feeRecipient] || { address: feeRecipient, balance: 0, nonce: 0 };
+      this.accounts[feeRecipient] = {
+        ...recipient,
+        balance: recipient.balance + tip
+      };
+    }
+  }
+
+  /**
+   * Credits a validator withdrawal from the consensus layer to an execution layer account
+   * Withdrawn ETH is newly credited (not taken from the deposit contract), as in Ethereum
+   */
+  processWithdrawal(address: string, amount: number): void {
+    const account = this.accounts[address] || { address, balance: 0, nonce: 0 };
+    this.accounts[address] = {
+      ...account,
+      balance: account.balance + amount
+    };
+  }
+
   /**
    * Updates the world state with a new transaction
-   * Updates account balances and nonces
+   * Updates account balances and nonces, and charges the gas fee to the sender
    * Optionally creates receipts if block context is provided
+   * @param cumulativeGasUsed - Gas used by the transactions before this one in the block
+   * @param blockHeader - Header of the block: its base fee is burned and its proposer receives the tip
+   * @returns Gas used by the transaction, or null if it could not be applied
    */
   updateWithTransaction(
     transaction: EthereumTransaction,
     blockHash?: string,
     blockNumber?: number,
-    txIndex?: number
-  ): boolean {
+    txIndex?: number,
+    cumulativeGasUsed: number = 0,
+    blockHeader?: Pick<BlockHeader, 'proposerAddress' | 'baseFeePerGas'>
+  ): number | null {
     // Validate that sender account exists (unless it's a coinbase transaction)
     const isCoinbase = transaction.from === SimulatorConfig.PROTOCOL_NODE_ID;
+    this.baseFeePerGas = blockHeader?.baseFeePerGas ?? 0;
     
     if (!isCoinbase) {
       // Check if sender account exists
       if (!this.accounts[transaction.from]) {
         console.error(`Transaction ${transaction.txid} has missing sender account: ${transaction.from}`);
-        return false;
+        return null;
+      }
+      
+      // Check the sender pays at least the block's base fee
+      if (transaction.maxFeePerGas < this.baseFeePerGas) {
+        console.error(`Transaction ${transaction.txid} max fee ${transaction.maxFeePerGas} gwei is below the base fee ${this.baseFeePerGas} gwei`);
+        return null;
       }
       
-      // Check if sender has sufficient balance
-      if (this.accounts[transaction.from].balance < transaction.value) {
+      // Check if sender can pay the value and the fee for the whole gas limit
+      const maxCost = calculateMaxCost(transaction);
+      if (this.accounts[transaction.from].balance < maxCost) {
         console.error(`Transaction ${transaction.txid} has insufficient balance`);
         console.error(`  Sender: ${transaction.from}`);
         console.error(`  Balance: ${this.accounts[transaction.from].balance}`);
-        console.error(`  Required: ${transaction.value}`);
-        return false;
+        console.error(`  Required: ${maxCost}`);
+        return null;
       }
     }
     
-    // Calculate cumulative gas for this transaction
-    // In a real implementation, this would track gas across all txs in the block
-    const cumulativeGasUsed = (txIndex || 0) * 21000;
-    
     // Process the transaction (update balances and nonces, create receipt if block context provided)
-    this.processTransaction(transaction, blockHash, blockNumber, txIndex, cumulativeGasUsed);
-    return true;
+    const { gasUsed } = this.processTransaction(transaction, blockHash, blockNumber, txIndex, cumulativeGasUsed);
+    this.payGasFee(transaction, gasUsed, blockHeader?.proposerAddress);
+    return gasUsed;
+  }
+
+  /**
+   * Applies all transactions of a block in order, creating their receipts
+   * Base fees are burned and tips paid to the block's proposer
+   * @returns Gas used by the whole block
+   */
+  applyBlock(block: Block): number {
+    let cumulativeGasUsed = 0;
+    for (let i = 0; i < block.transactions.length; i++) {
+      cumulativeGasUsed += this.updateWithTransaction(
+        block.transactions[i],
+        block.hash,
+        block.header.height,
+        i,
+        cumulativeGasUsed,
+        block.header
+      ) ?? 0;
+    }
+    return cumulativeGasUsed;
   }
 
   /**
@@ -303,15 +489,7 @@ export class WorldState {
     
     // Process each block's transactions with block context for receipt creation
     for (const block of blocks) {
-      const transactions = block.transactions as unknown as EthereumTransaction[];
-      for (let i = 0; i < transactions.length; i++) {
-        worldState.updateWithTransaction(
-          transactions[i],
-          block.hash,
-          block.header.height,
-          i
-        );
-      }
+      worldState.applyBlock(block);
     }
     
     return worldState;
@@ -1,4 +1,4 @@
-import { Block } from '../../types/types';
+import { Block, Attestation } from '../../types/types';
 import { SimulatorConfig } from '../../config/config';
 import { Node } from '../node';
 import { BeaconState } from './beaconState';
@@ -6,8 +6,13 @@ import { Blockchain } from '../blockchain/blockchain';
 import { BlockCreator } from '../blockchain/blockCreator';
 import { RANDAO } from './randao';
 import { CasperFFG } from './casperFFG';
+import { Slashing } from './slashing';
+import { AttestationAggregation } from './attestationAggregation';
 import { MessageType } from '../../network/messages';
 import { Mempool } from '../mempool/mempool';
+import { simulationNow } from '../simulation/simulationClock';
+import { validateBlockForGossip } from '../validation/blockValidator';
+import { ConsensusStrategy, HonestStrategy } from './consensusStrategy';
 
 /**
  * Consensus class handles PoS consensus logic
@@ -15,6 +20,7 @@ import { Mempool } from '../mempool/mempool';
  * 
  * State lives in BeaconState, this class contains logic only
  * Uses BlockCreator for block transaction creation
+ * Decisions a Byzantine validator would make differently go through its ConsensusStrategy
  */
 export class Consensus {
   private beaconState: BeaconState;
@@ -25,6 +31,13 @@ export class Consensus {
   private mempool: Mempool;
   private paintingComplete: boolean = false; // Flag to stop creating paint transactions
   
+  // Slashing protection - every attestation this validator has signed
+  // Checked before signing so an honest validator never double or surround votes
+  private signedAttestations: Attestation[] = [];
+  
+  // Honest by default - misbehaving strategies change what we broadcast, vote for and include
+  private strategy: ConsensusStrategy = new HonestStrategy();
+  
   // Consensus status for UI display
   public consensusStatus: 'idle' | 'validating' | 'proposing' = 'idle';
   
@@ -65,6 +78,21 @@ export class Consensus {
     return this.paintingComplete;
   }
   
+  /**
+   * Set how this validator behaves (see consensusStrategy.ts)
+   */
+  public setStrategy(strategy: ConsensusStrategy): void {
+    this.strategy = strategy;
+    console.log(`[Consensus ${this.nodeAddress.slice(0, 8)}] Behaviour set to ${strategy.behaviour}`);
+  }
+  
+  /**
+   * Gets this validator's strategy
+   */
+  public getStrategy(): ConsensusStrategy {
+    return this.strategy;
+  }
+  
   /**
    * Sets the callback for sending messages to the network
    */
@@ -132,11 +160,12 @@ export class Consensus {
   
   /**
    * Main consensus logic - called every slot
-   * 1. Calculate current slot and epoch
+   * 1. Calculate current slot and epoch, and drop the previous slot's proposer boost
    * 2. Ensure proposer schedule exists for current epoch
-   * 3. Determine current proposer for this slot
-   * 4. If we are proposer, create and broadcast block
-   * 5. If not proposer, wait for block from proposer
+   * 3. Attest for the previous slot if our committee duty was not fulfilled
+   * 4. Determine current proposer for this slot
+   * 5. If we are proposer, create and broadcast block
+   * 6. If not proposer, wait for block from proposer
    */
   async processSlot(): Promise<void> {
     // 1. Get current slot and epoch (time-based calculation)
@@ -145,57 +174,59 @@ export class Consensus {
     
     console.log(`[Consensus ${this.nodeAddress.slice(0, 8)}] Processing slot ${currentSlot}, epoch ${currentEpoch}`);
     
+    await this.blockchain.clearProposerBoost(currentSlot);
+    
     // 2. Ensure proposer schedule exists for current epoch (lazy calculation)
     this.ensureScheduleForEpoch(currentEpoch);
     
-    // 3. Determine current proposer for this slot
+    // 3. If the block for our committee slot never arrived (or lost fork choice),
+    // attest to our current head for that slot instead of missing the epoch's vote
+    this.attestForMissedCommitteeSlot(currentSlot - 1);
+    
+    // A spamming strategy sends its invalid blocks at the start of every slot
+    for (const spamBlock of this.strategy.createSpamBlocks(currentSlot, this.node, this.blockchain)) {
+      this.broadcastBlockToValidators(spamBlock, currentSlot);
+    }
+    
+    // 4. Determine current proposer for this slot
     const proposer = this.getCurrentProposer(currentEpoch, currentSlot);
     
     console.log(`[Consensus ${this.nodeAddress.slice(0, 8)}] Proposer for slot ${currentSlot}: ${proposer?.slice(0, 8) || 'null'}`);
     
-    // 4. If we are the proposer, create and broadcast block
-    if (proposer === this.nodeAddress) {
+    // 5. If we are the proposer, create and broadcast block
+    // Slashed validators have been ejected and no longer propose
+    if (proposer === this.nodeAddress && this.beaconState.isValidatorSlashed(this.nodeAddress)) {
+      console.log(`[Consensus ${this.nodeAddress.slice(0, 8)}] Skipping proposal for slot ${currentSlot} - validator is slashed`);
+      this.consensusStatus = 'idle';
+    } else if (proposer === this.nodeAddress) {
       console.log(`[Consensus ${this.nodeAddress.slice(0, 8)}] I am the proposer for slot ${currentSlot}!`);
       this.consensusStatus = 'proposing';
       await this.proposeBlock(currentSlot);
     } else {
-      // 5. If not proposer, we are validating (waiting for block)
+      // 6. If not proposer, we are validating (waiting for block)
       this.consensusStatus = 'validating';
     }
   }
   
   /**
-   * Computes the proposer schedule for an epoch using RANDAO
-   * Updates BeaconState.proposerSchedules with epoch -> (slot -> validator address)
+   * Computes the proposer schedule and attestation committees for an epoch using RANDAO
+   * Replaces any stored duties for the epoch with ones computed from the current state
+   * (see RANDAO.ensureEpochDuties - Blockchain drops them again if an earlier block arrives late)
    */
   private computeProposerSchedule(epoch: number): void {
     try {
-      const slotsPerEpoch = this.getSlotsPerEpoch();
-      const firstSlot = epoch * slotsPerEpoch;
-      
-      console.log(`[Consensus] Computing proposer schedule for epoch ${epoch}, first slot: ${firstSlot}`);
+      console.log(`[Consensus] Computing proposer schedule for epoch ${epoch}, first slot: ${epoch * this.getSlotsPerEpoch()}`);
       
-      // Get proposer schedule for entire epoch from RANDAO
-      // Returns array of 32 validator addresses (one per slot)
-      const proposerArray = RANDAO.getProposerSchedule(this.beaconState, epoch);
+      this.beaconState.proposerSchedules.delete(epoch);
+      this.beaconState.attestationCommittees.delete(epoch);
+      RANDAO.ensureEpochDuties(this.beaconState, epoch);
       
-      if (!proposerArray || proposerArray.length === 0) {
+      const schedule = this.beaconState.proposerSchedules.get(epoch);
+      if (!schedule) {
         console.error(`[Consensus] RANDAO returned empty proposer array for epoch ${epoch}`);
         return;
       }
       
-      console.log(`[Consensus] RANDAO returned ${proposerArray.length} proposers for epoch ${epoch}`);
-      
-      // Create schedule map: slot -> validator address
-      const schedule = new Map<number, string>();
-      for (let i = 0; i < slotsPerEpoch; i++) {
-        const slot = firstSlot + i;
-        schedule.set(slot, proposerArray[i]);
-      }
-      
-      // Store schedule in BeaconState
-      this.beaconState.proposerSchedules.set(epoch, schedule);
-      
       console.log(`[Consensus] Successfully stored proposer schedule for epoch ${epoch}, schedule size: ${schedule.size}`);
     } catch (error) {
       console.error(`[Consensus] Error computing proposer schedule for epoch ${epoch}:`, error);
@@ -244,7 +275,8 @@ export class Consensus {
       this.beaconState,
       slot,
       randaoReveal,
-      this.paintingComplete
+      this.paintingComplete,
+      this.strategy
     );
     
     console.log(`[Consensus] Created block with ${block.transactions.length} transactions for slot ${slot}`);
@@ -263,8 +295,12 @@ export class Consensus {
     }
     
     // Only broadcast if our own validation succeeded
-    console.log(`[Consensus] Own block validated successfully, broadcasting to validators`);
-    this.broadcastBlockToValidators(block, slot);
+    // Honest proposers broadcast the block; a withholding one keeps it, an equivocating one adds a conflicting block
+    const blocks = this.strategy.blocksToBroadcast(block, this.node);
+    console.log(`[Consensus] Own block validated successfully, broadcasting ${blocks.length} block(s) to validators (${this.strategy.behaviour})`);
+    for (const broadcastBlock of blocks) {
+      this.broadcastBlockToValidators(broadcastBlock, slot);
+    }
   }
   
   /**
@@ -287,20 +323,28 @@ export class Consensus {
   
   /**
    * Handles receiving a proposed block from another validator
-   * 1. Validate the block
+   * 1. Drop blocks that fail gossip validation (wrong proposer, signature, coinbase or roots)
    * 2. If valid, add to blockchain
    * 3. Create and broadcast attestation
    * 4. Update own beacon pool (triggers LMD-GHOST update)
-   * @returns true if block was successfully processed, false otherwise
+   * @returns true if block was successfully processed, false otherwise (the block is not relayed)
    */
   async handleProposedBlock(block: Block, slot: number, fromAddress: string): Promise<boolean> {
     console.log(`[Consensus] Received proposed block for slot ${slot} from ${fromAddress.slice(0, 8)}`);
     
+    // Drop blocks that are invalid on their own before they reach the block tree (or get relayed)
+    const gossipResult = validateBlockForGossip(block, this.beaconState, this.blockchain.sharesEpochDuties(block));
+    if (!gossipResult.valid) {
+      console.warn(`[Consensus] Dropping block for slot ${slot} from ${fromAddress.slice(0, 8)}: ${gossipResult.error}`);
+      return false;
+    }
+    
     // 1. Get current GHOST-HEAD before adding block
     const oldGhostHead = this.blockchain.getTree().getGhostHead(this.beaconState);
     
     // 2. Add block to blockchain (handles validation, state updates, and tree management)
-    const added = await this.blockchain.addBlock(block);
+    // Blocks arriving on time get proposer boost in fork choice
+    const added = await this.blockchain.addBlock(block, this.isTimely(block));
     if (!added) {
       console.warn(`[Consensus] Failed to add block for slot ${slot} - validation failed or parent not found`);
       return false;
@@ -309,39 +353,115 @@ export class Consensus {
     // 3. Get new GHOST-HEAD after adding block
     const newGhostHead = this.blockchain.getTree().getGhostHead(this.beaconState);
     
-    // 4. Only attest if new GHOST-HEAD points to the block we just added
+    // 4. Only the slot's committee attests, once per epoch (inactive validators are in no committee,
+    // slashed ones no longer attest)
+    if (!this.isAssignedToAttest(slot)) {
+      console.log(`[Consensus] Block ${block.hash!.slice(0, 8)} added - not attesting, not in committee for slot ${slot}`);
+      return true;
+    }
+    
+    // 5. Only attest if new GHOST-HEAD points to the block we just added
     if (newGhostHead?.hash === block.hash) {
       console.log(`[Consensus] New GHOST-HEAD is our block ${block.hash!.slice(0, 8)} - creating attestation`);
-      
-      // Compute FFG checkpoints (source and target) for this attestation
-      const canonicalChain = this.blockchain.getCanonicalChain();
-      const checkpoints = CasperFFG.computeCheckpoints(slot, canonicalChain, this.beaconState);
-      
-      const attestation = {
-        validatorAddress: this.nodeAddress,
-        blockHash: block.hash!,
-        timestamp: Date.now(),
-        ffgSource: checkpoints.source,
-        ffgTarget: checkpoints.target
-      };
-      
-      console.log(`[Consensus] FFG checkpoints - Source: epoch ${checkpoints.source.epoch} (${checkpoints.source.root.slice(0, 8)}), Target: epoch ${checkpoints.target.epoch} (${checkpoints.target.root.slice(0, 8)})`);
-      
-      // Update own beacon pool (triggers LMD-GHOST update)
-      this.beaconState.addAttestation(attestation);
-      
-      // Broadcast attestation to peers
-      this.broadcastAttestation(attestation);
-      
-      console.log(`[Consensus] Attested to block ${block.hash!.slice(0, 8)} for slot ${slot}`);
+      this.attest(block.hash!, slot);
       return true;
     } else {
       // Block was added but didn't become GHOST-HEAD (on a fork or behind)
+      // Our committee duty is fulfilled at the start of the next slot (attestForMissedCommitteeSlot)
       console.log(`[Consensus] Block ${block.hash!.slice(0, 8)} added but not GHOST-HEAD (old: ${oldGhostHead?.hash.slice(0, 8)}, new: ${newGhostHead?.hash.slice(0, 8)}) - not attesting`);
       return true; // Still successful, just not attesting
     }
   }
   
+  /**
+   * Check whether a block arrived during its own slot before the attestation deadline
+   * (the first 1/INTERVALS_PER_SLOT of the slot)
+   */
+  private isTimely(block: Block): boolean {
+    const slotDurationMs = SimulatorConfig.SECONDS_PER_SLOT * 1000;
+    const slotStartMs = this.beaconState.genesisTime * 1000 + block.header.slot * slotDurationMs;
+    const msIntoSlot = simulationNow() - slotStartMs;
+    return block.header.slot === this.getCurrentSlot() && msIntoSlot < slotDurationMs / SimulatorConfig.INTERVALS_PER_SLOT;
+  }
+  
+  /**
+   * Check whether this validator is in the committee for a slot and has not attested for it yet
+   */
+  private isAssignedToAttest(slot: number): boolean {
+    if (!RANDAO.getCommittee(this.beaconState, slot).includes(this.nodeAddress)) return false;
+    if (this.beaconState.isValidatorSlashed(this.nodeAddress)) return false;
+    return !this.signedAttestations.some(signed => signed.slot === slot);
+  }
+  
+  /**
+   * Attest to the current GHOST-HEAD for a past committee slot we have not attested in
+   * Covers missed proposals and blocks that did not become head when they arrived
+   */
+  private attestForMissedCommitteeSlot(slot: number): void {
+    if (slot < 0 || !this.isAssignedToAttest(slot)) return;
+    
+    const ghostHead = this.blockchain.getTree().getGhostHead(this.beaconState);
+    if (!ghostHead || ghostHead.block.header.slot > slot) return;
+    
+    console.log(`[Consensus] No attestation sent for committee slot ${slot} - attesting to head ${ghostHead.hash.slice(0, 8)}`);
+    this.attest(ghostHead.hash, slot);
+  }
+  
+  /**
+   * Create, sign, record and broadcast an attestation for a block in our committee slot
+   */
+  private attest(honestBlockHash: string, slot: number): void {
+    // A stale-voting strategy picks an older block than the one an honest validator votes for
+    const blockHash = this.strategy.chooseAttestationHead(honestBlockHash, this.blockchain);
+    
+    // Compute FFG checkpoints (source and target) for this attestation
+    const canonicalChain = this.blockchain.getCanonicalChain();
+    const checkpoints = CasperFFG.computeCheckpoints(slot, canonicalChain, this.beaconState);
+    
+    const unsignedAttestation = {
+      validatorAddress: this.nodeAddress,
+      blockHash,
+      timestamp: simulationNow(),
+      slot,
+      ffgSource: checkpoints.source,
+      ffgTarget: checkpoints.target
+    };
+    
+    console.log(`[Consensus] FFG checkpoints - Source: epoch ${checkpoints.source.epoch} (${checkpoints.source.root.slice(0, 8)}), Target: epoch ${checkpoints.target.epoch} (${checkpoints.target.root.slice(0, 8)})`);
+    
+    // Slashing protection: refuse to sign a vote that conflicts with one we already signed
+    // (e.g. a different target root for the same epoch after a reorg)
+    if (this.signedAttestations.some(signed => Slashing.isSlashableAttestationPair(signed, unsignedAttestation))) {
+      console.warn(`[Consensus] Not attesting to ${blockHash.slice(0, 8)} - vote would be slashable`);
+      return;
+    }
+    
+    // BLS-sign the attestation data (slot, head, source, target) with our validator key
+    const attestation = AttestationAggregation.signAttestation(unsignedAttestation, this.node.getPrivateKey());
+    this.recordSignedAttestation(attestation);
+    
+    // Update own beacon pool (triggers LMD-GHOST update)
+    this.beaconState.addAttestation(attestation);
+    
+    // Broadcast attestation to peers
+    this.broadcastAttestation(attestation);
+    
+    console.log(`[Consensus] Attested to block ${blockHash.slice(0, 8)} for slot ${slot}`);
+  }
+  
+  /**
+   * Records an attestation in the slashing protection history
+   * Votes whose target is older than the finalized epoch can no longer
+   * conflict with a future vote, so they are pruned
+   */
+  private recordSignedAttestation(attestation: Attestation): void {
+    const finalizedEpoch = this.beaconState.finalizedCheckpoint?.epoch ?? -Infinity;
+    this.signedAttestations = this.signedAttestations.filter(
+      signed => signed.ffgTarget!.epoch >= finalizedEpoch
+    );
+    this.signedAttestations.push(attestation);
+  }
+  
   /**
    * Broadcasts an attestation to peers
    */
@@ -9,7 +9,7 @@ import { SimulatorConfig } from '../../config/config';
  * 
  * Three-Message Sync Algorithm:
  * 1. LMD_GHOST_BROADCAST: Periodically broadcast GHOST-HEAD to all nodes
- * 2. CHAIN_REQUEST: If received head doesn't exist, request chain (direct message)
+ * 2. CHAIN_REQUEST: If received head doesn't exist, request chain from the peer it came from (direct message)
  * 3. CHAIN_RESPONSE: Respond with chain from requested head to genesis (direct message)
  */
 export class Sync {
@@ -67,22 +67,44 @@ export class Sync {
     this.onSendMessage(message);
   }
   
+  /**
+   * Sends the current LMD-GHOST head to one node
+   * Used to bootstrap a node that joins or restarts: it requests the chain if the head is new to it
+   * Message Type: LMD_GHOST_BROADCAST (direct message)
+   */
+  sendGhostHead(toNodeId: string): void {
+    if (!this.onSendMessage) return;
+    
+    const message = {
+      type: MessageType.LMD_GHOST_BROADCAST,
+      fromNodeId: this.nodeId,
+      toNodeId,
+      ghostHeadHash: this.getGhostHeadHash()
+    };
+    
+    this.onSendMessage(message);
+  }
+  
   /**
    * Handles receiving an LMD-GHOST broadcast from another node
    * Checks if the head exists in local tree
-   * If not, sends a CHAIN_REQUEST to that node
+   * If not, sends a CHAIN_REQUEST to the peer that delivered the broadcast - the relaying hop
+   * for gossiped heads, so sync follows the topology's links (the hop syncs the head itself
+   * when it relays it, and answers a later request once it has the chain)
    * 
    * Message Type: LMD_GHOST_BROADCAST (received)
-   * May send: CHAIN_REQUEST (direct to sender)
+   * May send: CHAIN_REQUEST (direct to the delivering peer)
+   * 
+   * @param peerId - Node the broadcast arrived from (its author, or the node that relayed it)
    */
-  handleGhostBroadcast(fromNodeId: string, ghostHeadHash: string): void {
+  handleGhostBroadcast(peerId: string, ghostHeadHash: string): void {
     // Check if this head exists in our tree
     const tree = this.blockchain.getTree();
     const headNode = tree.getNode(ghostHeadHash);
     
     // If we don't have this head, request the chain
     if (!headNode) {
-      this.requestChain(fromNodeId, ghostHeadHash);
+      this.requestChain(peerId, ghostHeadHash);
     }
     // If we have it, no action needed - we're in sync
   }
@@ -0,0 +1,189 @@
+import { Attestation, AggregatedAttestation } from '../../types/types';
+import { SimulatorConfig } from '../../config/config';
+import {
+  sha256Hash,
+  generateBLSSignature,
+  verifyBLSSignatureCached,
+  aggregateBLSSignatures
+} from '../../utils/cryptoUtils';
+import { RANDAO } from './randao';
+
+/**
+ * Data every committee member signs - attestations with identical data can be aggregated
+ */
+type AttestationData = Pick<AggregatedAttestation, 'slot' | 'blockHash' | 'ffgSource' | 'ffgTarget'>;
+
+/**
+ * AttestationAggregation - BLS signed and aggregated attestations for Ethereum PoS
+ *
+ * Static utility class that:
+ * - Signs attestations with the validator's BLS key over (slot, head, source, target)
+ * - Verifies single attestations on receipt
+ * - Aggregates attestations with identical data into one signature plus a participation
+ *   bitfield over the slot's committee when a proposer packs them into a block
+ * - Verifies aggregates on block import and expands them back into per-validator votes
+ *
+ * N attestations with the same data cost one signature and one N-bit bitfield in a block
+ * instead of N signatures (see docs/BLS_vs_ECDSA.md)
+ *
+ * Validator BLS public keys live in BeaconState; committees come from RANDAO.getCommittee,
+ * computed from the chain the state follows
+ */
+export class AttestationAggregation {
+
+  /**
+   * Message signed by committee members (domain-tagged hash of the attestation data)
+   */
+  static getSigningMessage(data: AttestationData): string {
+    return `ATTESTATION_${sha256Hash({
+      slot: data.slot,
+      blockHash: data.blockHash,
+      ffgSource: data.ffgSource,
+      ffgTarget: data.ffgTarget
+    })}`;
+  }
+
+  /**
+   * Sign an attestation's data with a validator's BLS private key
+   *
+   * @returns The attestation with its signature set
+   */
+  static signAttestation(attestation: Attestation, privateKey: string): Attestation {
+    const data = this.getAttestationData(attestation);
+    if (!data) {
+      throw new Error('Cannot sign an attestation without slot and FFG checkpoints');
+    }
+    return { ...attestation, signature: generateBLSSignature(this.getSigningMessage(data), privateKey) };
+  }
+
+  /**
+   * Verify a single attestation's BLS signature against its validator's public key
+   */
+  static verifyAttestation(beaconState: any, attestation: Attestation): boolean {
+    const data = this.getAttestationData(attestation);
+    const publicKey = this.getPublicKey(beaconState, attestation.validatorAddress);
+    if (!data || !attestation.signature || !publicKey) return false;
+
+    return verifyBLSSignatureCached(this.getSigningMessage(data), attestation.signature, publicKey);
+  }
+
+  /**
+   * Aggregate attestations for block inclusion
+   * Attestations are grouped by identical data (slot, head, source, target); each group
+   * becomes one AggregatedAttestation with a bitfield over the slot's committee
+   * Unsigned attestations and attestations from outside the committee are dropped
+   *
+   * @param beaconState - BeaconState with committees
+   * @param attestations - Individual attestations (e.g. from the beacon pool)
+   * @returns Aggregated attestations, in order of first appearance
+   */
+  static aggregate(beaconState: any, attestations: Attestation[]): AggregatedAttestation[] {
+    const groups = new Map<string, { data: AttestationData; committee: string[]; signatures: Map<number, string> }>();
+
+    for (const attestation of attestations) {
+      const data = this.getAttestationData(attestation);
+      if (!data || !attestation.signature) continue;
+
+      const committee = RANDAO.getCommittee(beaconState, data.slot);
+      const position = committee.indexOf(attestation.validatorAddress);
+      if (position === -1) continue;
+
+      const key = this.getSigningMessage(data);
+      if (!groups.has(key)) {
+        groups.set(key, { data, committee, signatures: new Map() });
+      }
+      groups.get(key)!.signatures.set(position, attestation.signature);
+    }
+
+    return Array.from(groups.values()).map(({ data, committee, signatures }) => ({
+      ...data,
+      aggregationBits: committee.map((_, position) => signatures.has(position)),
+      signature: aggregateBLSSignatures(Array.from(signatures.values()))
+    }));
+  }
+
+  /**
+   * Get the validators that participated in an aggregated attestation
+   *
+   * @returns Participant addresses, or null if the bitfield does not match the committee
+   */
+  static getParticipants(beaconState: any, aggregate: AggregatedAttestation): string[] | null {
+    const committee = RANDAO.getCommittee(beaconState, aggregate.slot);
+    if (aggregate.aggregationBits.length !== committee.length) return null;
+
+    return committee.filter((_, position) => aggregate.aggregationBits[position]);
+  }
+
+  /**
+   * Verify an aggregated attestation included in a block
+   * Checks the bitfield against the slot's committee and the aggregated BLS signature
+   * against the participants' public keys
+   */
+  static verifyAggregatedAttestation(beaconState: any, aggregate: AggregatedAttestation): { valid: boolean; error?: string } {
+    const participants = this.getParticipants(beaconState, aggregate);
+    if (!participants) {
+      return { valid: false, error: `Aggregation bits do not match committee size for slot ${aggregate.slot}` };
+    }
+    if (participants.length === 0) {
+      return { valid: false, error: `Aggregated attestation for slot ${aggregate.slot} has no participants` };
+    }
+
+    const publicKeys = participants.map(address => this.getPublicKey(beaconState, address));
+    if (publicKeys.some(publicKey => !publicKey)) {
+      return { valid: false, error: `Unknown public key in committee for slot ${aggregate.slot}` };
+    }
+
+    const keys = publicKeys as string[];
+    if (!verifyBLSSignatureCached(this.getSigningMessage(aggregate), aggregate.signature, keys.length === 1 ? keys[0] : keys)) {
+      return { valid: false, error: `Invalid aggregated signature for slot ${aggregate.slot}` };
+    }
+    return { valid: true };
+  }
+
+  /**
+   * Expand aggregated attestations back into one attestation per participant
+   * Used by fork choice, FFG and rewards, which all count votes per validator
+   * The timestamp is the start of the committee slot, so later votes always win in LMD-GHOST
+   *
+   * @param beaconState - BeaconState with committees
+   * @param aggregates - Aggregated attestations from a block
+   * @returns Individual (unsigned) attestations
+   */
+  static getIndividualAttestations(beaconState: any, aggregates: AggregatedAttestation[]): Attestation[] {
+    const attestations: Attestation[] = [];
+    for (const aggregate of aggregates) {
+      const timestamp = (beaconState.genesisTime + aggregate.slot * SimulatorConfig.SECONDS_PER_SLOT) * 1000;
+      for (const validatorAddress of this.getParticipants(beaconState, aggregate) || []) {
+        attestations.push({
+          validatorAddress,
+          blockHash: aggregate.blockHash,
+          timestamp,
+          slot: aggregate.slot,
+          ffgSource: aggregate.ffgSource,
+          ffgTarget: aggregate.ffgTarget
+        });
+      }
+    }
+    return attestations;
+  }
+
+  /**
+   * Extract the signed data of an attestation (null if it lacks slot or FFG checkpoints)
+   */
+  private static getAttestationData(attestation: Attestation): AttestationData | null {
+    if (attestation.slot === undefined || !attestation.ffgSource || !attestation.ffgTarget) return null;
+    return {
+      slot: attestation.slot,
+      blockHash: attestation.blockHash,
+      ffgSource: attestation.ffgSource,
+      ffgTarget: attestation.ffgTarget
+    };
+  }
+
+  /**
+   * Get a validator's BLS public key from the registry
+   */
+  private static getPublicKey(beaconState: any, validatorAddress: string): string | undefined {
+    return beaconState.validators.find((v: any) => v.nodeAddress === validatorAddress)?.blsPublicKey;
+  }
+}
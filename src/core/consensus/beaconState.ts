@@ -1,5 +1,11 @@
 import { LmdGhost } from './lmdGhost';
+import { Slashing } from './slashing';
 import { SimulatorConfig } from '../../config/config';
+import { ProposerSlashing, AttesterSlashing } from '../../types/types';
+import { EpochParticipation } from './rewards';
+import { ValidatorLifecycle } from './validatorLifecycle';
+import { AttestationAggregation } from './attestationAggregation';
+import { simulationNow } from '../simulation/simulationClock';
 
 /**
  * BeaconState - Consensus Layer (CL) state for Ethereum PoS
@@ -11,12 +17,44 @@ import { SimulatorConfig } from '../../config/config';
 export interface Validator {
   nodeAddress: string;
   stakedEth: number; // Amount of ETH staked (typically 32 ETH)
+  blsPublicKey?: string; // BLS public key used to verify the validator's attestations
+  slashed?: boolean; // True once the validator has been slashed (ejected from duties)
+  withdrawalAddress?: string; // Execution layer account that receives withdrawals and may request exits (defaults to nodeAddress)
+  activationEpoch?: number;   // First active epoch (undefined = active since genesis, Infinity = waiting in activation queue)
+  exitEpoch?: number;         // First epoch no longer active (undefined = not exiting)
+  withdrawableEpoch?: number; // Epoch at which the stake is withdrawn to the execution layer
 }
 
 export interface Attestation {
   validatorAddress: string;
   blockHash: string;
   timestamp: number;
+  slot?: number; // Slot of the committee the validator attested in
+  ffgSource?: { epoch: number; root: string };
+  ffgTarget?: { epoch: number; root: string };
+  signature?: string; // BLS signature over the attestation data
+}
+
+/**
+ * Copy of the beacon state that applying blocks changes (what a reorg would otherwise rebuild from genesis)
+ */
+export interface BeaconStateSnapshot {
+  randaoMixes: Map<number, string>;
+  proposerSchedules: Map<number, Map<number, string>>;
+  attestationCommittees: Map<number, Map<number, string[]>>;
+  validators: Validator[];
+  processedAttestations: Set<string>;
+  latestAppliedEpoch: number;
+  epochParticipation: Record<number, Record<string, EpochParticipation>>;
+  lastEpochRewards: { epoch: number; deltas: Record<string, number>; inactivityLeak: boolean } | null;
+  inactivityScores: Record<string, number>;
+  justifiedCheckpoint: { epoch: number; root: string | null };
+  previousJustifiedCheckpoint: { epoch: number; root: string | null } | null;
+  finalizedCheckpoint: { epoch: number; root: string | null } | null;
+  ffgVoteCounts: Record<number, Record<string, Set<string>>>;
+  latestAttestationByValidator: Record<string, any>;
+  proposerSlashingPool: ProposerSlashing[];
+  attesterSlashingPool: AttesterSlashing[];
 }
 
 export class BeaconState {
@@ -25,11 +63,20 @@ export class BeaconState {
   
   // Proposer schedules - maps epoch to (slot -> validator address)
   // Shows which validator proposes at each slot in each epoch
+  // An epoch's duties are computed from the state after the last block before the epoch
+  // (see RANDAO.ensureEpochDuties), so they belong to the chain this state follows
   public proposerSchedules: Map<number, Map<number, string>>; // epoch -> (slot -> validator address)
   
+  // Attestation committees - computed alongside proposer schedules from the same RANDAO seed
+  // Each active validator is assigned to exactly one slot per epoch
+  public attestationCommittees: Map<number, Map<number, string[]>>; // epoch -> (slot -> validator addresses)
+  
   // List of validators with their staked ETH
   public validators: Validator[];
   
+  // Validator set at genesis - restored when state is rebuilt during a reorg
+  private genesisValidators: Validator[];
+  
   // Genesis timestamp in UTC seconds
   public genesisTime: number;
   
@@ -48,6 +95,14 @@ export class BeaconState {
   // Latest attestations from each validator (for LMD GHOST fork choice)
   public latestAttestations: Map<string, Attestation>;
   
+  // Weight (effective balance) each validator's latest attestation currently adds to the tree
+  // Lets LMD-GHOST remove exactly what it added when balances change between votes
+  public attestationWeights: Map<string, number>;
+  
+  // Proposer boost - extra fork choice weight for the block that arrived on time in the current slot
+  // Cleared at the start of the next slot (Ethereum: store.proposer_boost_root)
+  public proposerBoost: { blockHash: string; slot: number; weight: number } | null;
+  
   // Casper FFG finality state
   public justifiedCheckpoint: { epoch: number; root: string | null };
   public previousJustifiedCheckpoint: { epoch: number; root: string | null } | null;
@@ -59,20 +114,41 @@ export class BeaconState {
   // Latest attestation included in a block for each validator (for FFG vote counting)
   public latestAttestationByValidator: Record<string, any>;
   
+  // Slashing state
+  // Pools of slashing evidence waiting to be included in a block by a proposer
+  public proposerSlashingPool: ProposerSlashing[];
+  public attesterSlashingPool: AttesterSlashing[];
+  // FFG votes observed per validator (gossip and blocks), used to detect double/surround votes
+  public observedAttestations: Record<string, Attestation[]>;
+  
+  // Rewards state
+  // Epoch of the latest applied block - epoch transitions are processed when it advances
+  public latestAppliedEpoch: number;
+  // Participation flags per epoch: epoch -> (validator address -> flags)
+  public epochParticipation: Record<number, Record<string, EpochParticipation>>;
+  // Balance changes from the most recently processed epoch (for display)
+  public lastEpochRewards: { epoch: number; deltas: Record<string, number>; inactivityLeak: boolean } | null;
+  // Inactivity score per validator - grows while it misses target votes, drives the inactivity leak
+  public inactivityScores: Record<string, number>;
+  
   // Reference to blockchain for triggering tree updates (set after construction)
   private blockchain?: any;
   
   constructor(genesisTime: number, validators: Validator[]) {
     this.genesisTime = genesisTime;
     this.validators = validators;
+    this.genesisValidators = validators;
     this.randaoMixes = new Map();
     this.proposerSchedules = new Map();
+    this.attestationCommittees = new Map();
     this.beaconPool = [];
     this.pendingAttestations = new Map();
     this.processedAttestations = new Set();
     
     // Initialize LMD-GHOST fork choice state
     this.latestAttestations = new Map();
+    this.attestationWeights = new Map();
+    this.proposerBoost = null;
     
     // Initialize Casper FFG finality state
     // Use genesis hash (0x000...) as the initial justified checkpoint root
@@ -82,6 +158,17 @@ export class BeaconState {
     this.ffgVoteCounts = {};
     this.latestAttestationByValidator = {};
     
+    // Initialize slashing state
+    this.proposerSlashingPool = [];
+    this.attesterSlashingPool = [];
+    this.observedAttestations = {};
+    
+    // Initialize rewards state (genesis block is in epoch -1)
+    this.latestAppliedEpoch = -1;
+    this.epochParticipation = {};
+    this.lastEpochRewards = null;
+    this.inactivityScores = {};
+    
     // Initialize RANDAO mixes for genesis and epoch 0
     // Epoch -1: Genesis block (slot -1)
     // Epoch 0: First real epoch (slots 0-3 with SLOTS_PER_EPOCH=4)
@@ -98,13 +185,126 @@ export class BeaconState {
   }
   
   /**
-   * Get current slot based on time since genesis
+   * Set the genesis validator set for this node
+   * Takes a private copy so balance changes (e.g. slashing) on one node
+   * never leak into another node's beacon state
+   */
+  setGenesisValidators(validators: Validator[]): void {
+    this.genesisValidators = validators.map(v => ({ ...v }));
+    this.resetValidators();
+  }
+  
+  /**
+   * Restore the validator set to its genesis balances
+   * Called during reorg - slashings and rewards are re-applied as blocks are replayed
+   */
+  resetValidators(): void {
+    this.validators = this.genesisValidators.map(v => ({ ...v }));
+  }
+  
+  /**
+   * Clear epoch processing state (participation, inactivity scores and last processed epoch)
+   * Called during reorg - rewards are re-applied as blocks are replayed
+   */
+  clearEpochProcessingState(): void {
+    this.latestAppliedEpoch = -1;
+    this.epochParticipation = {};
+    this.lastEpochRewards = null;
+    this.inactivityScores = {};
+  }
+  
+  /**
+   * Reset Casper FFG checkpoints and vote counts to genesis
+   * Called during reorg - justification and finality are re-derived as blocks are replayed
+   */
+  clearFinalityState(): void {
+    this.justifiedCheckpoint = { epoch: -1, root: SimulatorConfig.GENESIS_PREV_HASH };
+    this.previousJustifiedCheckpoint = null;
+    this.finalizedCheckpoint = null;
+    this.ffgVoteCounts = {};
+    this.latestAttestationByValidator = {};
+  }
+  
+  /**
+   * Copy the state blocks change, to restore it if a reorg goes back to this block
+   */
+  createSnapshot(): BeaconStateSnapshot {
+    return {
+      randaoMixes: new Map(this.randaoMixes),
+      proposerSchedules: new Map(this.proposerSchedules),
+      attestationCommittees: new Map(this.attestationCommittees),
+      validators: this.validators.map(v => ({ ...v })),
+      processedAttestations: new Set(this.processedAttestations),
+      latestAppliedEpoch: this.latestAppliedEpoch,
+      epochParticipation: structuredClone(this.epochParticipation),
+      lastEpochRewards: structuredClone(this.lastEpochRewards),
+      inactivityScores: { ...this.inactivityScores },
+      justifiedCheckpoint: { ...this.justifiedCheckpoint },
+      previousJustifiedCheckpoint: this.previousJustifiedCheckpoint && { ...this.previousJustifiedCheckpoint },
+      finalizedCheckpoint: this.finalizedCheckpoint && { ...this.finalizedCheckpoint },
+      ffgVoteCounts: structuredClone(this.ffgVoteCounts),
+      latestAttestationByValidator: structuredClone(this.latestAttestationByValidator),
+      proposerSlashingPool: [...this.proposerSlashingPool],
+      attesterSlashingPool: [...this.attesterSlashingPool]
+    };
+  }
+  
+  /**
+   * Restore the state blocks change from a snapshot (called during reorg)
+   * Proposer schedules and committees come back with it: they were computed from this
+   * chain's state at the start of their epoch, which the snapshot may already be past
+   * Slashing evidence observed since the snapshot stays pooled - replayed blocks remove what they include
+   */
+  restoreSnapshot(snapshot: BeaconStateSnapshot): void {
+    const copy = structuredClone(snapshot);
+    this.randaoMixes = copy.randaoMixes;
+    this.proposerSchedules = copy.proposerSchedules;
+    this.attestationCommittees = copy.attestationCommittees;
+    this.validators = copy.validators;
+    this.processedAttestations = copy.processedAttestations;
+    this.latestAppliedEpoch = copy.latestAppliedEpoch;
+    this.epochParticipation = copy.epochParticipation;
+    this.lastEpochRewards = copy.lastEpochRewards;
+    this.inactivityScores = copy.inactivityScores;
+    this.justifiedCheckpoint = copy.justifiedCheckpoint;
+    this.previousJustifiedCheckpoint = copy.previousJustifiedCheckpoint;
+    this.finalizedCheckpoint = copy.finalizedCheckpoint;
+    this.ffgVoteCounts = copy.ffgVoteCounts;
+    this.latestAttestationByValidator = copy.latestAttestationByValidator;
+    this.proposerSlashingPool = [
+      ...copy.proposerSlashingPool,
+      ...this.proposerSlashingPool.filter(evidence =>
+        !copy.proposerSlashingPool.some(pooled => pooled.proposerAddress === evidence.proposerAddress))
+    ];
+    this.attesterSlashingPool = [
+      ...copy.attesterSlashingPool,
+      ...this.attesterSlashingPool.filter(evidence =>
+        !copy.attesterSlashingPool.some(pooled =>
+          pooled.attestation1.validatorAddress === evidence.attestation1.validatorAddress))
+    ];
+  }
+  
+  /**
+   * Drop the proposer schedules and committees of epochs after the given one
+   * Called when a block of that epoch is applied: later epochs' duties were computed
+   * from the state before it (their RANDAO seed and validator balances have changed)
+   */
+  clearDutiesAfter(epoch: number): void {
+    for (const scheduledEpoch of Array.from(this.proposerSchedules.keys())) {
+      if (scheduledEpoch > epoch) this.proposerSchedules.delete(scheduledEpoch);
+    }
+    for (const committeeEpoch of Array.from(this.attestationCommittees.keys())) {
+      if (committeeEpoch > epoch) this.attestationCommittees.delete(committeeEpoch);
+    }
+  }
+  
+  /**
+   * Get current slot based on simulated time since genesis
    * Slot = (current_time - genesis_time) / SECONDS_PER_SLOT
    */
   getCurrentSlot(): number {
-    const currentTime = Math.floor(Date.now() / 1000); // Current UTC in seconds
-    const timeSinceGenesis = currentTime - this.genesisTime;
-    return Math.floor(timeSinceGenesis / SimulatorConfig.SECONDS_PER_SLOT);
+    const msSinceGenesis = simulationNow() - this.genesisTime * 1000;
+    return Math.floor(msSinceGenesis / (SimulatorConfig.SECONDS_PER_SLOT * 1000));
   }
   
   /**
@@ -166,6 +366,29 @@ export class BeaconState {
     return epochSchedule.get(slot);
   }
   
+  /**
+   * Get the attestation committee for a slot
+   * @returns Validator addresses, or undefined if committees for the epoch are not computed yet
+   */
+  getCommitteeForSlot(slot: number): string[] | undefined {
+    const epoch = Math.floor(slot / SimulatorConfig.SLOTS_PER_EPOCH);
+    return this.attestationCommittees.get(epoch)?.get(slot);
+  }
+  
+  /**
+   * Get the slot a validator attests in during an epoch
+   * @returns The assigned slot, or undefined if not in any committee (or committees not computed)
+   */
+  getAttestationSlot(validatorAddress: string, epoch: number): number | undefined {
+    const committees = this.attestationCommittees.get(epoch);
+    if (!committees) return undefined;
+    
+    for (const [slot, committee] of committees) {
+      if (committee.includes(validatorAddress)) return slot;
+    }
+    return undefined;
+  }
+  
   /**
    * Add an attestation to the beacon pool
    * Called when an attestation message is received from the network
@@ -175,23 +398,51 @@ export class BeaconState {
    * - Validates blocks if GHOST-HEAD changes
    * - Checks for reorg (GHOST-HEAD change)
    * - Rebuilds state if needed
+   * 
+   * @returns false if the attestation was rejected (not in committee or bad signature)
    */
-  async addAttestation(attestation: Attestation): Promise<void> {
-    // Check if this exact attestation already exists (same validator + block hash)
-    const exists = this.beaconPool.some(
-      att => att.validatorAddress === attestation.validatorAddress && 
-             att.blockHash === attestation.blockHash
-    );
+  async addAttestation(attestation: Attestation): Promise<boolean> {
+    // Reject attestations from validators outside the slot's committee (when the committee is known)
+    if (attestation.slot !== undefined) {
+      const committee = this.getCommitteeForSlot(attestation.slot);
+      if (committee && !committee.includes(attestation.validatorAddress)) {
+        console.warn(`[BeaconState] Ignoring attestation from ${attestation.validatorAddress.slice(0, 8)} - not in committee for slot ${attestation.slot}`);
+        return false;
+      }
+    }
+    
+    // Reject attestations without a valid BLS signature from the validator
+    if (!AttestationAggregation.verifyAttestation(this, attestation)) {
+      console.warn(`[BeaconState] Ignoring attestation from ${attestation.validatorAddress.slice(0, 8)} - invalid signature`);
+      return false;
+    }
+    
+    // Check if this exact attestation already exists (same validator + block hash + target epoch)
+    const exists = this.beaconPool.some(att => BeaconState.isSameAttestation(att, attestation));
     
     if (!exists) {
       this.beaconPool.push(attestation);
       
+      // Check the vote against this validator's earlier FFG votes for slashable offences
+      Slashing.onAttestationObserved(this, attestation);
+      
       // Delegate to blockchain to handle attestation and check for reorg
       // This is the ONLY way reorgs can happen (not via block/chain addition)
       if (this.blockchain) {
         await this.blockchain.onAttestationReceived(attestation);
       }
     }
+    return true;
+  }
+  
+  /**
+   * Check whether two attestations are the same vote
+   * A validator may vote for the same block again in a later epoch (e.g. after missed slots)
+   */
+  static isSameAttestation(a: Attestation, b: Attestation): boolean {
+    return a.validatorAddress === b.validatorAddress &&
+           a.blockHash === b.blockHash &&
+           a.ffgTarget?.epoch === b.ffgTarget?.epoch;
   }
   
   /**
@@ -253,15 +504,16 @@ export class BeaconState {
   }
   
   /**
-   * Clear RANDAO mixes and proposer schedules
+   * Clear RANDAO mixes, proposer schedules and attestation committees
    * Called during reorg - they will be rebuilt as blocks are reapplied
    * 
    * RANDAO mixes: Rebuilt by applyBlockToElAndClState for each block
-   * Proposer schedules: Recomputed lazily by Consensus when needed
+   * Proposer schedules and committees: Recomputed lazily by Consensus when needed
    */
   clearRandaoState(): void {
     this.randaoMixes.clear();
     this.proposerSchedules.clear();
+    this.attestationCommittees.clear();
     
     // Re-initialize genesis RANDAO mix (epoch -1)
     this.randaoMixes.set(-1, SimulatorConfig.GENESIS_RANDAO_MIX);
@@ -283,8 +535,8 @@ export class BeaconState {
     let totalAttestations = 0;
     for (const block of blocks) {
       if (block.attestations && block.attestations.length > 0) {
-        console.log(`[BeaconState] Block ${block.hash?.slice(0, 8)} has ${block.attestations.length} attestations`);
-        for (const attestation of block.attestations) {
+        console.log(`[BeaconState] Block ${block.hash?.slice(0, 8)} has ${block.attestations.length} aggregated attestations`);
+        for (const attestation of AttestationAggregation.getIndividualAttestations(this, block.attestations)) {
           this.markAttestationAsProcessed(attestation.blockHash, attestation.validatorAddress);
           totalAttestations++;
         }
@@ -302,6 +554,32 @@ export class BeaconState {
     return validator ? validator.stakedEth : 0;
   }
   
+  /**
+   * Get validator's effective balance used to weight its fork choice votes
+   * Staked ETH capped at MAX_EFFECTIVE_BALANCE; slashed, inactive or unknown validators weigh 0
+   */
+  getEffectiveBalance(validatorAddress: string): number {
+    const validator = this.validators.find(v => v.nodeAddress === validatorAddress);
+    return ValidatorLifecycle.getEffectiveBalance(validator, this.latestAppliedEpoch);
+  }
+  
+  /**
+   * Check whether a validator is active (not pending, exited or slashed) in an epoch
+   * Defaults to the epoch of the latest applied block
+   */
+  isValidatorActive(validatorAddress: string, epoch: number = this.latestAppliedEpoch): boolean {
+    const validator = this.validators.find(v => v.nodeAddress === validatorAddress);
+    return !!validator && !validator.slashed && ValidatorLifecycle.isActiveValidator(validator, epoch);
+  }
+  
+  /**
+   * Check whether a validator has been slashed
+   */
+  isValidatorSlashed(validatorAddress: string): boolean {
+    const validator = this.validators.find(v => v.nodeAddress === validatorAddress);
+    return validator?.slashed === true;
+  }
+  
   /**
    * Update latest attestation for a validator if the new one is more recent
    * Returns true if updated, false if existing attestation was newer
@@ -382,6 +660,10 @@ export class BeaconState {
         epoch,
         Array.from(schedule.entries())
       ]),
+      attestationCommittees: Array.from(this.attestationCommittees.entries()).map(([epoch, committees]) => [
+        epoch,
+        Array.from(committees.entries())
+      ]),
     };
   }
 }
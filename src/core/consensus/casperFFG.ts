@@ -1,5 +1,6 @@
 import { Block } from '../../types/types';
 import { SimulatorConfig } from '../../config/config';
+import { ValidatorLifecycle } from './validatorLifecycle';
 
 /**
  * Casper FFG (Finality Gadget) Implementation
@@ -124,7 +125,7 @@ export class CasperFFG {
    * 2. Record attestation as validator's latest included attestation
    * 3. If attestation's source matches current justified checkpoint, count the vote
    * 4. Add validator to target epoch/root vote bucket
-   * 5. Check if target has reached 2/3 threshold to justify
+   * 5. Check if target has reached 2/3 of total active stake to justify
    * 6. If justified and previous justified are consecutive epochs, finalize previous
    * 7. Garbage collect old vote buckets
    * 
@@ -135,9 +136,6 @@ export class CasperFFG {
     beaconState: any,
     attestationsInBlock: any[]
   ): void {
-    // Compute 2/3 threshold based on validator count
-    const threshold = Math.ceil((2 * beaconState.validators.length) / 3);
-    
     // Current justified checkpoint (attestations must have source == this to be counted)
     const currentJustified = beaconState.justifiedCheckpoint;
     
@@ -155,6 +153,13 @@ export class CasperFFG {
       beaconState.latestAttestationByValidator[validator] = att;
       
       // 3) Check if attestation is countable for FFG (source must match current justified)
+      // Slashed validators have been ejected - their votes no longer count
+      const isSlashed = beaconState.validators.some((v: any) => v.nodeAddress === validator && v.slashed);
+      if (isSlashed) {
+        console.log(`[CasperFFG] Skipping attestation from ${validator.slice(0, 8)} - validator is slashed`);
+        continue;
+      }
+      
       if (!att.ffgSource || !att.ffgTarget) {
         console.log(`[CasperFFG] Skipping attestation from ${validator.slice(0, 8)} - missing FFG fields`);
         continue;
@@ -181,13 +186,23 @@ export class CasperFFG {
       targetSet.add(validator);
       
       // 5) Attempt to update justified/finalized based on the changed bucket
-      this.tryUpdateJustifiedAndFinalized(beaconState, targetEpoch, targetRoot, threshold);
+      this.tryUpdateJustifiedAndFinalized(beaconState, targetEpoch, targetRoot);
     }
     
     // 6) Garbage collect old vote buckets
     this.garbageCollectUpToFinalized(beaconState);
   }
   
+  /**
+   * Sum of effective balances of all validators active in an epoch
+   */
+  static getTotalActiveStake(state: any, epoch: number): number {
+    return state.validators.reduce(
+      (total: number, v: any) => total + ValidatorLifecycle.getEffectiveBalance(v, epoch),
+      0
+    );
+  }
+  
   /**
    * Get or create epoch bucket in ffgVoteCounts
    */
@@ -240,8 +255,7 @@ export class CasperFFG {
   private static tryUpdateJustifiedAndFinalized(
     state: any,
     candidateEpoch: number,
-    candidateRoot: string,
-    threshold: number
+    candidateRoot: string
   ): void {
     const epochBucket = state.ffgVoteCounts[candidateEpoch];
     if (!epochBucket) return;
@@ -249,15 +263,24 @@ export class CasperFFG {
     const voters = epochBucket[candidateRoot];
     if (!voters) return;
     
-    // Not enough votes to justify
-    if (voters.size < threshold) return;
+    // Not enough stake to justify (voting stake must be >= 2/3 of total stake active in the candidate epoch)
+    // Stake-weighted so the inactivity leak can restore finality by draining offline validators
+    const totalStake = this.getTotalActiveStake(state, candidateEpoch);
+    let votingStake = 0;
+    for (const voter of voters) {
+      votingStake += ValidatorLifecycle.getEffectiveBalance(
+        state.validators.find((v: any) => v.nodeAddress === voter),
+        candidateEpoch
+      );
+    }
+    if (totalStake === 0 || votingStake * 3 < totalStake * 2) return;
     
     const currentJustifiedEpoch = state.justifiedCheckpoint?.epoch ?? -1;
     
     // Only move justified forward (monotonicity)
     if (candidateEpoch <= currentJustifiedEpoch) return;
     
-    console.log(`[CasperFFG] Justifying epoch ${candidateEpoch} with ${voters.size}/${threshold} votes`);
+    console.log(`[CasperFFG] Justifying epoch ${candidateEpoch} with ${votingStake}/${totalStake} ETH of votes`);
     
     // Promote: previousJustified <- justified, justified <- candidate
     state.previousJustifiedCheckpoint = { ...state.justifiedCheckpoint };
@@ -0,0 +1,192 @@
+import { Block, Attestation, EthereumTransaction } from '../../types/types';
+import { Node } from '../node';
+import { Blockchain } from '../blockchain/blockchain';
+import { BlockCreator } from '../blockchain/blockCreator';
+
+/**
+ * Ways a validator can run the protocol: honestly, or with one of the misbehaviours
+ * the protocol has to cope with
+ * - withhold-blocks: proposes but keeps its blocks to itself (they only surface late, via sync)
+ * - equivocate: broadcasts two conflicting blocks for each of its slots (slashable)
+ * - stale-attestations: votes for a block some way behind its head
+ * - censor: leaves the transactions and attestations of chosen validators out of its blocks
+ * - invalid-blocks: sends blocks that break the block rules every slot
+ */
+export type NodeBehaviour = 'honest' | 'withhold-blocks' | 'equivocate' | 'stale-attestations' | 'censor' | 'invalid-blocks';
+
+export const NODE_BEHAVIOURS: NodeBehaviour[] = ['honest', 'withhold-blocks', 'equivocate', 'stale-attestations', 'censor', 'invalid-blocks'];
+
+/**
+ * Parameters of the behaviours that need more than their name
+ */
+export interface StrategyOptions {
+  censoredAddresses?: string[];  // Validators a censor leaves out (censor)
+  staleDepth?: number;           // Blocks behind the head to vote for (stale-attestations, default 2)
+  spamCount?: number;            // Invalid blocks sent per slot (invalid-blocks, default 3)
+}
+
+/**
+ * Decisions Consensus hands to a strategy
+ * Each hook receives what an honest validator would do and returns what this one does;
+ * validation, fork choice and slashing on the receiving side are never changed
+ */
+export interface ConsensusStrategy {
+  readonly behaviour: NodeBehaviour;
+
+  /**
+   * Blocks to broadcast for our own proposal (already added to our chain)
+   */
+  blocksToBroadcast(block: Block, node: Node): Block[];
+
+  /**
+   * Block to vote for in an attestation, given the block an honest validator votes for
+   */
+  chooseAttestationHead(blockHash: string, blockchain: Blockchain): string;
+
+  /**
+   * Mempool transactions the proposer may include, in order
+   */
+  filterTransactions(transactions: EthereumTransaction[]): EthereumTransaction[];
+
+  /**
+   * Pool attestations the proposer may include
+   */
+  filterAttestations(attestations: Attestation[]): Attestation[];
+
+  /**
+   * Extra blocks to broadcast at the start of a slot
+   */
+  createSpamBlocks(slot: number, node: Node, blockchain: Blockchain): Block[];
+}
+
+/**
+ * Follows the protocol - the base for every misbehaviour
+ */
+export class HonestStrategy implements ConsensusStrategy {
+  readonly behaviour: NodeBehaviour = 'honest';
+
+  blocksToBroadcast(block: Block, _node: Node): Block[] {
+    return [block];
+  }
+
+  chooseAttestationHead(blockHash: string, _blockchain: Blockchain): string {
+    return blockHash;
+  }
+
+  filterTransactions(transactions: EthereumTransaction[]): EthereumTransaction[] {
+    return transactions;
+  }
+
+  filterAttestations(attestations: Attestation[]): Attestation[] {
+    return attestations;
+  }
+
+  createSpamBlocks(_slot: number, _node: Node, _blockchain: Blockchain): Block[] {
+    return [];
+  }
+}
+
+/**
+ * Never broadcasts its blocks - other validators see an empty slot, unless the block
+ * reaches them later through sync, when it is too late for proposer boost
+ */
+export class WithholdBlocksStrategy extends HonestStrategy {
+  readonly behaviour: NodeBehaviour = 'withhold-blocks';
+
+  blocksToBroadcast(_block: Block, _node: Node): Block[] {
+    return [];
+  }
+}
+
+/**
+ * Broadcasts a second, conflicting block alongside each of its blocks
+ * Validators that see both submit proposer slashing evidence
+ */
+export class EquivocateStrategy extends HonestStrategy {
+  readonly behaviour: NodeBehaviour = 'equivocate';
+
+  blocksToBroadcast(block: Block, node: Node): Block[] {
+    return [block, BlockCreator.createConflictingBlock(block, node)];
+  }
+}
+
+/**
+ * Votes for an ancestor of the head instead of the head
+ * Stale votes still count towards FFG (same source and target) but add no weight to new blocks
+ */
+export class StaleAttestationStrategy extends HonestStrategy {
+  readonly behaviour: NodeBehaviour = 'stale-attestations';
+
+  constructor(private readonly depth: number = 2) {
+    super();
+  }
+
+  chooseAttestationHead(blockHash: string, blockchain: Blockchain): string {
+    let treeNode = blockchain.getTree().getNode(blockHash);
+    for (let i = 0; i < this.depth && treeNode?.parent; i++) {
+      treeNode = treeNode.parent;
+    }
+    return treeNode?.hash ?? blockHash;
+  }
+}
+
+/**
+ * Leaves the chosen validators' transactions and attestations out of its blocks
+ * Other proposers still include them, so censored validators only lose inclusion delay
+ */
+export class CensorStrategy extends HonestStrategy {
+  readonly behaviour: NodeBehaviour = 'censor';
+  private readonly censored: Set<string>;
+
+  constructor(censoredAddresses: string[] = []) {
+    super();
+    this.censored = new Set(censoredAddresses);
+  }
+
+  filterTransactions(transactions: EthereumTransaction[]): EthereumTransaction[] {
+    return transactions.filter(tx => !this.censored.has(tx.from));
+  }
+
+  filterAttestations(attestations: Attestation[]): Attestation[] {
+    return attestations.filter(attestation => !this.censored.has(attestation.validatorAddress));
+  }
+
+  getCensoredAddresses(): string[] {
+    return Array.from(this.censored);
+  }
+}
+
+/**
+ * Sends blocks that break the block rules at the start of every slot
+ * Validators reject them on arrival and gossip does not relay them
+ */
+export class InvalidBlocksStrategy extends HonestStrategy {
+  readonly behaviour: NodeBehaviour = 'invalid-blocks';
+
+  constructor(private readonly spamCount: number = 3) {
+    super();
+  }
+
+  createSpamBlocks(slot: number, node: Node, blockchain: Blockchain): Block[] {
+    const parent = blockchain.getLatestBlock();
+    if (!parent) return [];
+    return Array.from({ length: this.spamCount }, (_, index) => BlockCreator.createInvalidBlock(parent, slot, node, index));
+  }
+}
+
+/**
+ * Create the strategy for a behaviour
+ * @throws Error for unknown behaviours
+ */
+export const createConsensusStrategy = (behaviour: string, options: StrategyOptions = {}): ConsensusStrategy => {
+  switch (behaviour) {
+    case 'honest': return new HonestStrategy();
+    case 'withhold-blocks': return new WithholdBlocksStrategy();
+    case 'equivocate': return new EquivocateStrategy();
+    case 'stale-attestations': return new StaleAttestationStrategy(options.staleDepth);
+    case 'censor': return new CensorStrategy(options.censoredAddresses);
+    case 'invalid-blocks': return new InvalidBlocksStrategy(options.spamCount);
+    default:
+      throw new Error(`Unknown node behaviour "${behaviour}" (expected ${NODE_BEHAVIOURS.join(', ')})`);
+  }
+};
@@ -0,0 +1,82 @@
+import { SimulatorConfig } from '../../config/config';
+import { EpochParticipation } from './rewards';
+import { ValidatorLifecycle } from './validatorLifecycle';
+
+/**
+ * InactivityLeak - Liveness recovery for Ethereum PoS
+ *
+ * If the chain goes more than MIN_EPOCHS_TO_INACTIVITY_PENALTY epochs without finality
+ * (e.g. a network partition leaves fewer than 2/3 of the stake online), validators that
+ * miss target votes accumulate an inactivity score and lose stake proportionally to it.
+ * The penalty grows each epoch, so offline stake drains quadratically until the
+ * participating validators hold 2/3 of the total stake and finality resumes.
+ *
+ * Static utility class - inactivity scores live in BeaconState, called from Rewards.processEpoch
+ */
+export class InactivityLeak {
+
+  /**
+   * Number of epochs between an epoch and the latest finalized checkpoint
+   * Before anything is finalized, genesis (epoch -1) counts as finalized
+   */
+  static getFinalityDelay(beaconState: any, epoch: number): number {
+    const finalizedEpoch = beaconState.finalizedCheckpoint?.epoch ?? -1;
+    return epoch - finalizedEpoch;
+  }
+
+  /**
+   * Check whether the chain is in an inactivity leak for an epoch
+   */
+  static isInLeak(beaconState: any, epoch: number): boolean {
+    return this.getFinalityDelay(beaconState, epoch) > SimulatorConfig.MIN_EPOCHS_TO_INACTIVITY_PENALTY;
+  }
+
+  /**
+   * Update inactivity scores for an epoch and compute the resulting penalties
+   *
+   * Scores (Ethereum: process_inactivity_updates):
+   * - Correct target vote: score decreases by 1, missed or wrong: increases by INACTIVITY_SCORE_BIAS
+   * - Outside a leak every score additionally recovers by INACTIVITY_SCORE_RECOVERY_RATE
+   *
+   * Penalty for validators that missed the target:
+   *   effectiveBalance * score / (INACTIVITY_SCORE_BIAS * INACTIVITY_PENALTY_QUOTIENT)
+   *
+   * @param beaconState - BeaconState holding validators and inactivity scores
+   * @param epoch - Epoch being processed
+   * @param participation - Participation flags for that epoch
+   * @returns Penalty in ETH per validator address (only validators with a penalty)
+   */
+  static processEpoch(
+    beaconState: any,
+    epoch: number,
+    participation: Record<string, EpochParticipation>
+  ): Record<string, number> {
+    const inLeak = this.isInLeak(beaconState, epoch);
+    const penalties: Record<string, number> = {};
+
+    for (const validator of beaconState.validators) {
+      if (validator.slashed || !ValidatorLifecycle.isActiveValidator(validator, epoch)) continue;
+
+      const address = validator.nodeAddress;
+      const votedTarget = participation[address]?.target === true;
+      let score = beaconState.inactivityScores[address] || 0;
+
+      score = votedTarget ? score - Math.min(1, score) : score + SimulatorConfig.INACTIVITY_SCORE_BIAS;
+      if (!inLeak) {
+        score -= Math.min(SimulatorConfig.INACTIVITY_SCORE_RECOVERY_RATE, score);
+      }
+      beaconState.inactivityScores[address] = score;
+
+      if (!votedTarget && score > 0) {
+        const effectiveBalance = ValidatorLifecycle.getEffectiveBalance(validator, epoch);
+        penalties[address] = effectiveBalance * score /
+          (SimulatorConfig.INACTIVITY_SCORE_BIAS * SimulatorConfig.INACTIVITY_PENALTY_QUOTIENT);
+      }
+    }
+
+    if (inLeak) {
+      console.log(`[InactivityLeak] Epoch ${epoch} is ${this.getFinalityDelay(beaconState, epoch)} epochs past finality - leaking ${Object.keys(penalties).length} inactive validators`);
+    }
+    return penalties;
+  }
+}
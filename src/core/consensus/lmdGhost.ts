@@ -1,6 +1,7 @@
 import { Block } from '../../types/types';
 import { BlockchainTree, BlockTreeNode } from '../blockchain/blockchainTree';
 import { BeaconState } from './beaconState';
+import { SimulatorConfig } from '../../config/config';
 
 /**
  * LMD-GHOST (Latest Message Driven Greedy Heaviest Observed SubTree)
@@ -9,6 +10,7 @@ import { BeaconState } from './beaconState';
  * - Manages latest attestations from validators (stored in BeaconState)
  * - Decorates blockchain tree with attestedEth (cumulative attested weight)
  * - Computes GHOST-HEAD for fork choice
+ * - Applies proposer boost to the block that arrived on time in the current slot
  * 
  * All state is stored in BeaconState, methods are pure/static
  */
@@ -17,32 +19,39 @@ export class LmdGhost {
    * Record a new attestation from a validator and incrementally update tree decorations
    * This is the core method that maintains attestedEth values in the tree
    * 
+   * Each vote is weighted by the validator's effective balance. The weight actually
+   * applied is remembered in beaconState.attestationWeights so it can be removed
+   * exactly, even if the validator's balance changed in the meantime
+   * 
    * @param beaconState - Beacon state containing latest attestations
    * @param tree - Blockchain tree to update
    * @param attestation - New attestation to record
    */
   public static onLatestAttestChange(beaconState: any, tree: BlockchainTree, oldAtt: Attestation | undefined, newAtt: Attestation): void {
+    const validator = newAtt.validatorAddress;
+    
     // a) Decrement attestedEth for old attestation (if it points to a node in tree)
     if (oldAtt) {
       const oldNode = tree.getNode(oldAtt.blockHash);
       if (oldNode) {
-        LmdGhost.decrementAttestedEthOfParents(oldNode);
+        LmdGhost.decrementAttestedEthOfParents(oldNode, LmdGhost.getAppliedWeight(beaconState, validator));
       }
     }
     
     // b) Increment attestedEth for new attestation (if it points to a node in tree)
+    const newWeight = beaconState.getEffectiveBalance(validator);
+    beaconState.attestationWeights.set(validator, newWeight);
     const newNode = tree.getNode(newAtt.blockHash);
     if (newNode) {
-      LmdGhost.incrementAttestedEthOfParents(newNode);
+      LmdGhost.incrementAttestedEthOfParents(newNode, newWeight);
     }
   }
   
   /**
    * Increment attestedEth from a node up to root
    * Called when a new attestation points to this node
-   * todo: attestedEthToAdd should come from validator set
    */
-  private static incrementAttestedEthOfParents(node: BlockTreeNode,attestedEthToAdd: number = 32): void {
+  private static incrementAttestedEthOfParents(node: BlockTreeNode, attestedEthToAdd: number): void {
     let current: BlockTreeNode | null = node;
     
     while (current && !current.metadata.isInvalid) { // dont keep updating once we hit invalid node
@@ -57,9 +66,8 @@ export class LmdGhost {
   /**
    * Decrement attestedEth from a node up to root
    * Called when an old attestation is replaced
-   * todo: attestedEthToRemove should come from validator set
    */
-  private static decrementAttestedEthOfParents(node: BlockTreeNode, attestedEthToRemove: number = 32): void {
+  private static decrementAttestedEthOfParents(node: BlockTreeNode, attestedEthToRemove: number): void {
     let current: BlockTreeNode | null = node;
     
     while (current && !current.metadata.isInvalid) { // dont keep updating once we hit invalid node
@@ -69,6 +77,43 @@ export class LmdGhost {
       current = current.parent;
     }
   }
+  
+  /**
+   * Get the weight currently applied to the tree for a validator's latest attestation
+   * Falls back to the validator's effective balance if no weight was recorded yet
+   */
+  private static getAppliedWeight(beaconState: any, validatorAddress: string): number {
+    return beaconState.attestationWeights.get(validatorAddress) ?? beaconState.getEffectiveBalance(validatorAddress);
+  }
+  
+  /**
+   * Re-weight latest attestations after validator balances changed
+   * (rewards, penalties, slashing, or a reset during reorg)
+   * 
+   * For every validator whose effective balance differs from the weight applied
+   * to the tree, the difference is added to (or removed from) its attested block
+   * and all ancestors, so attestedEth always equals the sum of current weights
+   * 
+   * @param beaconState - Beacon state containing validators and latest attestations
+   * @param tree - Blockchain tree to update
+   */
+  public static onValidatorBalancesChanged(beaconState: any, tree: BlockchainTree): void {
+    for (const [validator, att] of beaconState.latestAttestations as Map<string, Attestation>) {
+      const appliedWeight = LmdGhost.getAppliedWeight(beaconState, validator);
+      const currentWeight = beaconState.getEffectiveBalance(validator);
+      if (appliedWeight === currentWeight) continue;
+      
+      beaconState.attestationWeights.set(validator, currentWeight);
+      const node = tree.getNode(att.blockHash);
+      if (!node) continue;
+      
+      if (currentWeight > appliedWeight) {
+        LmdGhost.incrementAttestedEthOfParents(node, currentWeight - appliedWeight);
+      } else {
+        LmdGhost.decrementAttestedEthOfParents(node, appliedWeight - currentWeight);
+      }
+    }
+  }
     
   /**
    * Handle attestation set changes
@@ -97,11 +142,70 @@ export class LmdGhost {
     
     for (const att of beaconState.latestAttestations.values()) {
       if (att.blockHash === block.hash) {
-        LmdGhost.incrementAttestedEthOfParents(blockNode);
+        const weight = LmdGhost.getAppliedWeight(beaconState, att.validatorAddress);
+        beaconState.attestationWeights.set(att.validatorAddress, weight);
+        LmdGhost.incrementAttestedEthOfParents(blockNode, weight);
       }
     }
   }
 
+  /**
+   * Proposer boost weight: PROPOSER_SCORE_BOOST percent of one slot's committee weight
+   * (total effective balance of active validators / SLOTS_PER_EPOCH)
+   */
+  public static getProposerBoostWeight(beaconState: any): number {
+    const totalWeight = beaconState.validators.reduce(
+      (total: number, v: any) => total + beaconState.getEffectiveBalance(v.nodeAddress),
+      0
+    );
+    return totalWeight / SimulatorConfig.SLOTS_PER_EPOCH * SimulatorConfig.PROPOSER_SCORE_BOOST / 100;
+  }
+  
+  /**
+   * Apply proposer boost to a block that arrived during its own slot before the attestation deadline
+   * Only the first timely block of a slot is boosted. The weight is added to the block and its
+   * ancestors like a vote, so a late block released by an attacker together with withheld
+   * votes cannot outweigh the timely block that builds next to it (ex-ante reorg)
+   * 
+   * @param beaconState - Beacon state holding the current boost
+   * @param tree - Blockchain tree to update
+   * @param block - Timely block (already added to the tree)
+   */
+  public static applyProposerBoost(beaconState: any, tree: BlockchainTree, block: Block): void {
+    LmdGhost.clearProposerBoost(beaconState, tree, block.header.slot);
+    if (beaconState.proposerBoost) return;
+    
+    const node = tree.getNode(block.hash || '');
+    const weight = LmdGhost.getProposerBoostWeight(beaconState);
+    if (!node || weight <= 0) return;
+    
+    beaconState.proposerBoost = { blockHash: node.hash, slot: block.header.slot, weight };
+    node.metadata.proposerBoost = weight;
+    LmdGhost.incrementAttestedEthOfParents(node, weight);
+    console.log(`[LMD-GHOST] Proposer boost of ${weight} ETH for block ${node.hash.slice(0, 8)} in slot ${block.header.slot}`);
+  }
+  
+  /**
+   * Remove the proposer boost once its slot is over
+   * 
+   * @param beaconState - Beacon state holding the current boost
+   * @param tree - Blockchain tree to update
+   * @param currentSlot - Current slot (a boost from an earlier slot is removed)
+   * @returns true if a boost was removed (the GHOST-HEAD may have changed)
+   */
+  public static clearProposerBoost(beaconState: any, tree: BlockchainTree, currentSlot: number): boolean {
+    const boost = beaconState.proposerBoost;
+    if (!boost || boost.slot >= currentSlot) return false;
+    
+    beaconState.proposerBoost = null;
+    const node = tree.getNode(boost.blockHash);
+    if (node) {
+      delete node.metadata.proposerBoost;
+      LmdGhost.decrementAttestedEthOfParents(node, boost.weight);
+    }
+    return true;
+  }
+
   public static markNodeInvalid(node: BlockTreeNode): void {
     node.metadata.isInvalid = true;
     
@@ -120,7 +224,7 @@ export class LmdGhost {
    * 
    * Algorithm:
    * 1. Start at finalized checkpoint (or genesis if no finalized checkpoint)
-   * 2. At each fork, choose the valid child with highest attestedEth
+   * 2. At each fork, choose the valid child with highest attestedEth (including proposer boost)
    * 3. If tie, choose block with smallest hash (deterministic tiebreaker)
    * 4. Continue until a leaf
    * 
@@ -177,11 +281,11 @@ export interface Attestation {
   timestamp: number;
   
   // Casper FFG fields for finality
-  ffgSource: {
+  ffgSource?: {
     epoch: number;
     root: string;  // Block hash at source checkpoint
   };
-  ffgTarget: {
+  ffgTarget?: {
     epoch: number;
     root: string;  // Block hash at target checkpoint
   };
@@ -2,14 +2,16 @@
  * RANDAO - Random beacon for validator scheduling in Ethereum PoS
  * 
  * Implements the RANDAO mechanism for generating unpredictable randomness
- * and computing proposer schedules for upcoming epochs.
+ * and computing proposer schedules and attestation committees for upcoming epochs.
  */
 
 import { BeaconState } from './beaconState';
 import { SimulatorConfig } from '../../config/config';
+import { ValidatorLifecycle } from './validatorLifecycle';
 import { 
   hexToBytes, 
   generateBLSSignature,
+  verifyBLSSignatureCached,
   i2b8,
   concat,
   u64,
@@ -42,10 +44,18 @@ export class RANDAO {
 
     // Build list of active validators with their effective balance capped at MAX_EFFECTIVE_BALANCE
     // This prevents any single validator from dominating the selection
-    const activeValidators = state.validators.map((validator, validatorIndex) => ({ 
-      validatorIndex, 
-      effectiveBalance: Math.min(validator.stakedEth, SimulatorConfig.MAX_EFFECTIVE_BALANCE) 
-    }));
+    // Pending, exited and slashed validators (or ones with no stake left) are never selected
+    const activeValidators = state.validators
+      .map((validator, validatorIndex) => ({ 
+        validatorIndex, 
+        effectiveBalance: Math.min(validator.stakedEth, SimulatorConfig.MAX_EFFECTIVE_BALANCE),
+        isEligible: !validator.slashed && ValidatorLifecycle.isActiveValidator(validator, targetEpoch)
+      }))
+      .filter(candidate => candidate.isEligible && candidate.effectiveBalance > 0);
+    
+    if (activeValidators.length === 0) {
+      return [];
+    }
 
     const proposerSchedule: string[] = [];
 
@@ -98,6 +108,49 @@ export class RANDAO {
     return proposerSchedule;
   }
 
+  /**
+   * Computes the attestation committees for a given epoch
+   * Active validators are shuffled with the same RANDAO seed as the proposer schedule
+   * (domain-separated so the two are independent) and split into one committee per slot,
+   * so every active validator attests exactly once per epoch
+   * 
+   * Shuffle: Fisher-Yates driven by H(committeeSeed || position) - deterministic for
+   * all nodes with the same state. (Ethereum uses the swap-or-not shuffle, same idea)
+   * 
+   * @param state - Current beacon state with validators and RANDAO mix
+   * @param targetEpoch - The epoch to compute committees for
+   * @returns Array of SLOTS_PER_EPOCH committees (validator addresses), some may be empty
+   */
+  static getAttestationCommittees(state: BeaconState, targetEpoch: number): string[][] {
+    // Same seed as the proposer schedule, with a domain tag so committees differ from proposers
+    const epochSeedBytes = hexToBytes(state.getRandaoMix(targetEpoch - 1));
+    const committeeSeedBytes = hashBytes(concat(epochSeedBytes, new TextEncoder().encode('ATTESTATION_COMMITTEE')));
+
+    // Committees only depend on activation/exit epochs (scheduled epochs in advance), so any node
+    // can recompute a past epoch's committees when importing blocks. Slashed validators stay in
+    // their committee until they exit (as in Ethereum) but no longer attest
+    const shuffled = state.validators
+      .filter(validator => ValidatorLifecycle.isActiveValidator(validator, targetEpoch))
+      .map(validator => validator.nodeAddress);
+
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const randomnessBytes = hashBytes(concat(committeeSeedBytes, i2b8(i)));
+      const j = u64(randomnessBytes, 0) % (i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+
+    // Split the shuffled list into contiguous committees, one per slot
+    const slotsPerEpoch = SimulatorConfig.SLOTS_PER_EPOCH;
+    const committees: string[][] = [];
+    for (let slotIndexInEpoch = 0; slotIndexInEpoch < slotsPerEpoch; slotIndexInEpoch++) {
+      const start = Math.floor((shuffled.length * slotIndexInEpoch) / slotsPerEpoch);
+      const end = Math.floor((shuffled.length * (slotIndexInEpoch + 1)) / slotsPerEpoch);
+      committees.push(shuffled.slice(start, end));
+    }
+
+    return committees;
+  }
+
   /**
    * Calculate RANDAO reveal for a given epoch
    * This is the BLS signature of the epoch number using the node's private key
@@ -111,18 +164,84 @@ export class RANDAO {
     const privateKey = node.getPrivateKey();
     
     // Create message to sign: "RANDAO_REVEAL_" + epoch
-    const message = `RANDAO_REVEAL_${epoch}`;
+    const message = this.getRevealMessage(epoch);
     
     // Sign the message using BLS signature
-    // In real Ethereum, this would use the validator's BLS key
+    // The node's private key doubles as its BLS validator key (see Node.getBLSPublicKey)
     const signature = generateBLSSignature(message, privateKey);
     
     return signature;
   }
 
+  /**
+   * Verify a RANDAO reveal against the proposer's BLS public key
+   * A reveal is deterministic (BLS signature of the epoch), so a proposer's only
+   * choice is to publish it or skip the slot - it cannot grind for a better mix
+   * 
+   * @param epoch - Epoch of the block carrying the reveal
+   * @param reveal - RANDAO reveal from the block
+   * @param blsPublicKey - Proposer's BLS public key
+   */
+  static verifyRandaoReveal(epoch: number, reveal: string, blsPublicKey: string): boolean {
+    return verifyBLSSignatureCached(this.getRevealMessage(epoch), reveal, blsPublicKey);
+  }
+
+  /**
+   * Compute and store an epoch's proposer schedule and attestation committees if missing
+   * 
+   * Duties are computed once per chain and epoch, from the state after the last block before
+   * the epoch (Ethereum's dependent root): the state a node has when it validates the epoch's
+   * first block, or starts the epoch at its head. Blockchain drops them whenever a block of an
+   * earlier epoch is applied (BeaconState.clearDutiesAfter) and reorgs restore them with the
+   * rest of the state, so rewards paid later in the epoch never change them
+   * 
+   * @param state - Beacon state (after the last block before the epoch, if duties are missing)
+   * @param epoch - Epoch to compute duties for
+   */
+  static ensureEpochDuties(state: BeaconState, epoch: number): void {
+    const firstSlot = epoch * SimulatorConfig.SLOTS_PER_EPOCH;
+    
+    if (!state.proposerSchedules.has(epoch)) {
+      const proposers = this.getProposerSchedule(state, epoch);
+      if (proposers.length > 0) {
+        state.proposerSchedules.set(epoch, new Map(proposers.map((proposer, i) => [firstSlot + i, proposer])));
+      }
+    }
+    
+    if (!state.attestationCommittees.has(epoch)) {
+      const committees = this.getAttestationCommittees(state, epoch);
+      state.attestationCommittees.set(epoch, new Map(committees.map((committee, i) => [firstSlot + i, committee])));
+    }
+  }
+
+  /**
+   * Get the proposer scheduled for a slot, computing the epoch's duties if needed
+   * 
+   * @param state - Beacon state (after the parent of the block being checked)
+   * @param slot - Slot to look up
+   * @returns Proposer address, or undefined if no validator is eligible
+   */
+  static getScheduledProposer(state: BeaconState, slot: number): string | undefined {
+    this.ensureEpochDuties(state, Math.floor(slot / SimulatorConfig.SLOTS_PER_EPOCH));
+    return state.getValidatorForSlot(slot);
+  }
+
+  /**
+   * Get the attestation committee for a slot, computing the epoch's duties if needed
+   * 
+   * @param state - Beacon state (after the parent of the block being checked)
+   * @param slot - Slot to look up
+   * @returns Validator addresses (empty if no validator is active)
+   */
+  static getCommittee(state: BeaconState, slot: number): string[] {
+    this.ensureEpochDuties(state, Math.floor(slot / SimulatorConfig.SLOTS_PER_EPOCH));
+    return state.getCommitteeForSlot(slot) || [];
+  }
+
   /**
    * Update RANDAO mix for an epoch with a new reveal
    * new_mix = current_mix XOR reveal
+   * The reveal was checked against the proposer's BLS key by validateBlock
    * 
    * @param state - Beacon state to update
    * @param epoch - Epoch to update mix for
@@ -133,4 +252,11 @@ export class RANDAO {
     const newMix = xorHexStrings(currentMix, reveal);
     state.updateRandaoMix(epoch, newMix);
   }
+
+  /**
+   * Message signed for a RANDAO reveal
+   */
+  private static getRevealMessage(epoch: number): string {
+    return `RANDAO_REVEAL_${epoch}`;
+  }
 }
@@ -0,0 +1,210 @@
+import { Block, Attestation, Withdrawal } from '../../types/types';
+import { SimulatorConfig } from '../../config/config';
+import { BlockchainTree, BlockTreeNode } from '../blockchain/blockchainTree';
+import { Slashing } from './slashing';
+import { InactivityLeak } from './inactivityLeak';
+import { ValidatorLifecycle } from './validatorLifecycle';
+
+/**
+ * Participation flags earned by a validator for one epoch
+ * Set when one of its attestations for that epoch is included in a block
+ */
+export interface EpochParticipation {
+  source: boolean; // Voted for the justified checkpoint as FFG source
+  target: boolean; // Voted for the correct checkpoint of the epoch as FFG target
+  head: boolean;   // Voted for a block on the chain that included the attestation
+}
+
+/**
+ * Rewards - Consensus layer issuance for Ethereum PoS
+ *
+ * Static utility class that:
+ * - Records attester participation (source/target/head) when attestations are included in blocks
+ * - Pays proposers a reward for every attestation they include
+ * - Runs epoch processing: rewards correct votes and penalizes missed or wrong ones
+ *
+ * Epoch N is processed at the transition into epoch N + 2, so attestations for N
+ * can still be included during epoch N + 1 (like Ethereum's "previous epoch" processing)
+ *
+ * All state (balances, participation) lives in BeaconState
+ */
+export class Rewards {
+
+  /**
+   * Process every epoch transition between the last applied block and a new block
+   * Must run before the block's own operations (Ethereum: process_slots before process_block)
+   *
+   * Each transition settles rewards, then runs validator registry updates
+   * (activations, exits, withdrawals - see ValidatorLifecycle)
+   *
+   * @param beaconState - BeaconState to update
+   * @param blockEpoch - Epoch of the block about to be applied
+   * @returns Withdrawals to credit on the execution layer
+   */
+  static processEpochTransitions(beaconState: any, blockEpoch: number): Withdrawal[] {
+    const withdrawals: Withdrawal[] = [];
+    for (let epoch = beaconState.latestAppliedEpoch + 1; epoch <= blockEpoch; epoch++) {
+      const processedEpoch = epoch - 2;
+      if (processedEpoch >= 0) {
+        this.processEpoch(beaconState, processedEpoch);
+      }
+      withdrawals.push(...ValidatorLifecycle.processRegistryUpdates(beaconState, epoch));
+    }
+    beaconState.latestAppliedEpoch = Math.max(beaconState.latestAppliedEpoch, blockEpoch);
+    return withdrawals;
+  }
+
+  /**
+   * Record participation for the attestations included in a block and pay its proposer
+   * Must run before CasperFFG updates the justified checkpoint for this block
+   *
+   * Attestations are only credited if included by the end of the epoch after their target epoch
+   * The proposer earns PROPOSER_INCLUSION_REWARD for each attestation that adds new participation
+   *
+   * @param beaconState - BeaconState to update
+   * @param tree - Blockchain tree (used to resolve the including block's ancestry)
+   * @param block - Block whose attestations are being applied
+   * @param attestations - The block's attestations, expanded to one per validator
+   */
+  static processBlockAttestations(beaconState: any, tree: BlockchainTree, block: Block, attestations: Attestation[]): void {
+    if (attestations.length === 0) return;
+
+    const blockEpoch = Math.floor(block.header.slot / SimulatorConfig.SLOTS_PER_EPOCH);
+    const blockNode = tree.getNode(block.hash || '');
+    let newlyCredited = 0;
+
+    for (const att of attestations) {
+      if (!att.ffgSource || !att.ffgTarget) continue;
+
+      const targetEpoch = att.ffgTarget.epoch;
+      if (targetEpoch < 0 || blockEpoch > targetEpoch + 1) continue; // Too late to be rewarded
+
+      const flags = this.getAttestationFlags(beaconState, blockNode, att);
+      if (!beaconState.epochParticipation[targetEpoch]) {
+        beaconState.epochParticipation[targetEpoch] = {};
+      }
+      const existing: EpochParticipation | undefined = beaconState.epochParticipation[targetEpoch][att.validatorAddress];
+      const merged: EpochParticipation = {
+        source: flags.source || !!existing?.source,
+        target: flags.target || !!existing?.target,
+        head: flags.head || !!existing?.head
+      };
+
+      const addsParticipation = !existing ||
+        merged.source !== existing.source ||
+        merged.target !== existing.target ||
+        merged.head !== existing.head;
+      if (addsParticipation) {
+        beaconState.epochParticipation[targetEpoch][att.validatorAddress] = merged;
+        newlyCredited++;
+      }
+    }
+
+    const proposer = Slashing.getProposerAddress(block);
+    if (proposer && newlyCredited > 0) {
+      this.changeBalance(beaconState, proposer, newlyCredited * SimulatorConfig.PROPOSER_INCLUSION_REWARD);
+    }
+  }
+
+  /**
+   * Apply rewards and penalties for one epoch
+   *
+   * For each validator active in the epoch (and not slashed):
+   * - Correct source / target vote: + SOURCE / TARGET reward, missed or wrong: - the same amount
+   * - Correct head vote: + HEAD reward (a wrong or missed head vote is not penalized, as in Ethereum)
+   * - During an inactivity leak nobody earns attestation rewards, and validators that
+   *   missed the target additionally pay the inactivity penalty (see InactivityLeak)
+   * Balances never go below 0
+   *
+   * @param beaconState - BeaconState to update
+   * @param epoch - Epoch whose participation is being settled
+   */
+  static processEpoch(beaconState: any, epoch: number): void {
+    const participation: Record<string, EpochParticipation> = beaconState.epochParticipation[epoch] || {};
+    const deltas: Record<string, number> = {};
+    const inactivityLeak = InactivityLeak.isInLeak(beaconState, epoch);
+    const inactivityPenalties = InactivityLeak.processEpoch(beaconState, epoch, participation);
+    const reward = (amount: number) => inactivityLeak ? 0 : amount;
+
+    for (const validator of beaconState.validators) {
+      if (validator.slashed || !ValidatorLifecycle.isActiveValidator(validator, epoch)) continue;
+
+      const flags = participation[validator.nodeAddress];
+      let delta = 0;
+      delta += flags?.source ? reward(SimulatorConfig.ATTESTATION_SOURCE_REWARD) : -SimulatorConfig.ATTESTATION_SOURCE_REWARD;
+      delta += flags?.target ? reward(SimulatorConfig.ATTESTATION_TARGET_REWARD) : -SimulatorConfig.ATTESTATION_TARGET_REWARD;
+      delta += flags?.head ? reward(SimulatorConfig.ATTESTATION_HEAD_REWARD) : 0;
+      delta -= inactivityPenalties[validator.nodeAddress] || 0;
+
+      deltas[validator.nodeAddress] = this.changeBalance(beaconState, validator.nodeAddress, delta);
+    }
+
+    // Participation of settled epochs is no longer needed
+    for (const epochKey of Object.keys(beaconState.epochParticipation)) {
+      if (Number(epochKey) <= epoch) {
+        delete beaconState.epochParticipation[Number(epochKey)];
+      }
+    }
+
+    beaconState.lastEpochRewards = { epoch, deltas, inactivityLeak };
+    console.log(`[Rewards] Processed epoch ${epoch}: ${Object.keys(participation).length}/${beaconState.validators.length} validators participated`);
+  }
+
+  /**
+   * Determine which participation flags an included attestation earns
+   * - source: FFG source equals the current or previous justified checkpoint
+   * - target: FFG target root is the checkpoint block of the target epoch on the including chain
+   * - head: attested block is an ancestor of the including block within the target epoch
+   */
+  private static getAttestationFlags(
+    beaconState: any,
+    blockNode: BlockTreeNode | undefined,
+    att: Attestation
+  ): EpochParticipation {
+    const matchesCheckpoint = (checkpoint: { epoch: number; root: string | null } | null) =>
+      !!checkpoint && checkpoint.epoch === att.ffgSource!.epoch && checkpoint.root === att.ffgSource!.root;
+    const source = matchesCheckpoint(beaconState.justifiedCheckpoint) ||
+                   matchesCheckpoint(beaconState.previousJustifiedCheckpoint);
+
+    const targetEpoch = att.ffgTarget!.epoch;
+    const checkpointSlot = targetEpoch * SimulatorConfig.SLOTS_PER_EPOCH;
+    let checkpointRoot: string | null = null;
+    let headOnChain = false;
+
+    // Walk back from the including block (exclusive) - attestations always vote for earlier blocks
+    let current = blockNode?.parent || null;
+    while (current) {
+      if (current.hash === att.blockHash) {
+        const attestedEpoch = Math.floor(current.block.header.slot / SimulatorConfig.SLOTS_PER_EPOCH);
+        headOnChain = attestedEpoch === targetEpoch;
+      }
+      if (checkpointRoot === null && current.block.header.slot <= checkpointSlot) {
+        checkpointRoot = current.hash;
+      }
+      if (checkpointRoot !== null && current.block.header.slot < checkpointSlot) break;
+      current = current.parent;
+    }
+
+    return {
+      source,
+      target: source && checkpointRoot === att.ffgTarget!.root,
+      head: source && headOnChain && checkpointRoot === att.ffgTarget!.root
+    };
+  }
+
+  /**
+   * Add delta ETH to a validator's balance (never below 0)
+   * Rounded to gwei precision to avoid floating point drift
+   *
+   * @returns The delta actually applied
+   */
+  private static changeBalance(beaconState: any, validatorAddress: string, delta: number): number {
+    const index = beaconState.validators.findIndex((v: any) => v.nodeAddress === validatorAddress);
+    if (index === -1) return 0;
+
+    const validator = beaconState.validators[index];
+    const newBalance = Math.max(0, Math.round((validator.stakedEth + delta) * 1e9) / 1e9);
+    beaconState.validators[index] = { ...validator, stakedEth: newBalance };
+    return Math.round((newBalance - validator.stakedEth) * 1e9) / 1e9;
+  }
+}
@@ -0,0 +1,316 @@
+import { Block, ProposerSlashing, AttesterSlashing, Attestation } from '../../types/types';
+import { SimulatorConfig } from '../../config/config';
+import { BlockchainTree } from '../blockchain/blockchainTree';
+import { calculateBlockHeaderHash, calculateBlockSigningRoot } from '../validation/blockValidator';
+import { verifyBLSSignatureCached } from '../../utils/cryptoUtils';
+import { ValidatorLifecycle } from './validatorLifecycle';
+import { AttestationAggregation } from './attestationAggregation';
+
+/**
+ * Slashing - Accountable safety for Ethereum PoS
+ *
+ * Static utility class that:
+ * - Detects slashable offences (double proposals, double votes, surround votes)
+ * - Packages evidence into ProposerSlashing / AttesterSlashing block operations
+ * - Applies included evidence to BeaconState (burns stake, ejects validator)
+ *
+ * All state (evidence pools, observed votes, validator balances) lives in BeaconState
+ */
+export class Slashing {
+
+  /**
+   * Get the address of the validator that proposed a block
+   * The proposer is named (and signs) the block header; validation ensures the
+   * coinbase pays the same address
+   *
+   * @param block - Block to inspect
+   * @returns Proposer address or null for blocks without a proposer (genesis)
+   */
+  static getProposerAddress(block: Block): string | null {
+    return block.header.proposerAddress ?? this.getCoinbaseRecipient(block);
+  }
+
+  /**
+   * Get the recipient of a block's coinbase transaction
+   *
+   * @returns Recipient address or null for blocks without a coinbase (genesis)
+   */
+  static getCoinbaseRecipient(block: Block): string | null {
+    const coinbase = block.transactions[0];
+    if (!coinbase || coinbase.from !== SimulatorConfig.PROTOCOL_NODE_ID) {
+      return null;
+    }
+    return coinbase.to;
+  }
+
+  /**
+   * Check whether two attestations from the same validator are slashable
+   *
+   * Casper FFG slashing conditions:
+   * 1. Double vote: same target epoch, different target root
+   * 2. Surround vote: source1 < source2 and target2 < target1 (or vice versa)
+   *
+   * @returns true if the pair proves the validator violated a slashing condition
+   */
+  static isSlashableAttestationPair(att1: Attestation, att2: Attestation): boolean {
+    if (att1.validatorAddress !== att2.validatorAddress) return false;
+    if (!att1.ffgSource || !att1.ffgTarget || !att2.ffgSource || !att2.ffgTarget) return false;
+
+    // 1) Double vote
+    const isDoubleVote = att1.ffgTarget.epoch === att2.ffgTarget.epoch &&
+                         att1.ffgTarget.root !== att2.ffgTarget.root;
+
+    // 2) Surround vote (either attestation may be the surrounding one)
+    const surrounds = (outer: Attestation, inner: Attestation) =>
+      outer.ffgSource!.epoch < inner.ffgSource!.epoch &&
+      inner.ffgTarget!.epoch < outer.ffgTarget!.epoch;
+    const isSurroundVote = surrounds(att1, att2) || surrounds(att2, att1);
+
+    return isDoubleVote || isSurroundVote;
+  }
+
+  /**
+   * Check proposer slashing evidence
+   * Both headers must be for the same slot but be different blocks, and both must name the
+   * accused proposer and carry its BLS signature - otherwise anyone could forge evidence
+   *
+   * @param beaconState - BeaconState with the validators' BLS public keys
+   */
+  static verifyProposerSlashing(beaconState: any, evidence: ProposerSlashing): { valid: boolean; error?: string } {
+    const { proposerAddress, header1, header2 } = evidence;
+    if (header1.slot !== header2.slot) {
+      return { valid: false, error: `Proposer slashing headers are for different slots (${header1.slot} vs ${header2.slot})` };
+    }
+    if (calculateBlockHeaderHash(header1) === calculateBlockHeaderHash(header2)) {
+      return { valid: false, error: 'Proposer slashing headers are identical' };
+    }
+
+    const publicKey = this.getBLSPublicKey(beaconState, proposerAddress);
+    if (!publicKey) {
+      return { valid: false, error: `No BLS public key for accused proposer ${proposerAddress.slice(0, 8)}` };
+    }
+    for (const header of [header1, header2]) {
+      if (header.proposerAddress !== proposerAddress) {
+        return { valid: false, error: `Proposer slashing header for slot ${header.slot} does not name ${proposerAddress.slice(0, 8)}` };
+      }
+      if (!header.proposerSignature || !verifyBLSSignatureCached(calculateBlockSigningRoot(header), header.proposerSignature, publicKey)) {
+        return { valid: false, error: `Proposer slashing header for slot ${header.slot} is not signed by ${proposerAddress.slice(0, 8)}` };
+      }
+    }
+    return { valid: true };
+  }
+
+  /**
+   * Check attester slashing evidence
+   * The two attestations must violate a Casper FFG slashing condition and both must
+   * carry the accused validator's BLS signature
+   *
+   * @param beaconState - BeaconState with the validators' BLS public keys
+   */
+  static verifyAttesterSlashing(beaconState: any, evidence: AttesterSlashing): { valid: boolean; error?: string } {
+    const { attestation1, attestation2 } = evidence;
+    if (!this.isSlashableAttestationPair(attestation1, attestation2)) {
+      return { valid: false, error: `Attester slashing for ${attestation1.validatorAddress.slice(0, 8)} is not a double or surround vote` };
+    }
+    if (!AttestationAggregation.verifyAttestation(beaconState, attestation1) ||
+        !AttestationAggregation.verifyAttestation(beaconState, attestation2)) {
+      return { valid: false, error: `Attester slashing attestations are not signed by ${attestation1.validatorAddress.slice(0, 8)}` };
+    }
+    return { valid: true };
+  }
+
+  /**
+   * Detect a double proposal when a block is added to the tree
+   * Looks for another block in the tree with the same slot and proposer
+   * If found, evidence is queued in the proposer slashing pool
+   *
+   * @param beaconState - BeaconState holding the slashing pool
+   * @param tree - Blockchain tree containing all blocks seen so far
+   * @param block - Newly added block
+   */
+  static onBlockObserved(beaconState: any, tree: BlockchainTree, block: Block): void {
+    const proposerAddress = this.getProposerAddress(block);
+    if (!proposerAddress) return;
+
+    for (const node of tree.getAllNodes()) {
+      const other = node.block;
+      if (node.hash === block.hash || other.header.slot !== block.header.slot) continue;
+      if (this.getProposerAddress(other) !== proposerAddress) continue;
+
+      console.log(`[Slashing] Double proposal by ${proposerAddress.slice(0, 8)} at slot ${block.header.slot}: ${node.hash.slice(0, 8)} vs ${block.hash?.slice(0, 8)}`);
+      this.addProposerSlashing(beaconState, {
+        proposerAddress,
+        header1: other.header,
+        header2: block.header
+      });
+      return;
+    }
+  }
+
+  /**
+   * Detect double and surround votes when an attestation is observed
+   * (received via gossip or included in a block)
+   * Compares against every FFG vote previously observed from the same validator
+   * Votes expanded from aggregates carry no signature of their own, so they cannot
+   * serve as evidence and are skipped
+   *
+   * @param beaconState - BeaconState holding observed votes and the slashing pool
+   * @param attestation - Newly observed attestation
+   */
+  static onAttestationObserved(beaconState: any, attestation: Attestation): void {
+    if (!attestation.ffgSource || !attestation.ffgTarget || !attestation.signature) return;
+
+    const validator = attestation.validatorAddress;
+    const observed: Attestation[] = beaconState.observedAttestations[validator] || [];
+
+    for (const previous of observed) {
+      if (this.isSlashableAttestationPair(previous, attestation)) {
+        console.log(`[Slashing] Conflicting FFG votes by ${validator.slice(0, 8)}: target epoch ${previous.ffgTarget!.epoch} vs ${attestation.ffgTarget.epoch}`);
+        this.addAttesterSlashing(beaconState, {
+          attestation1: previous,
+          attestation2: attestation
+        });
+        break;
+      }
+    }
+
+    // Only remember one attestation per distinct (source, target) vote
+    const alreadyObserved = observed.some(att => this.hasSameFfgVote(att, attestation));
+    if (!alreadyObserved) {
+      const finalizedEpoch = beaconState.finalizedCheckpoint?.epoch ?? -Infinity;
+      // Votes whose target is older than the finalized epoch can no longer conflict with new votes
+      beaconState.observedAttestations[validator] = [
+        ...observed.filter(att => att.ffgTarget!.epoch >= finalizedEpoch),
+        attestation
+      ];
+    }
+  }
+
+  /**
+   * Get slashing evidence that a proposer should include in its block
+   * Skips evidence against validators that are already slashed
+   */
+  static getPendingSlashings(beaconState: any): {
+    proposerSlashings: ProposerSlashing[];
+    attesterSlashings: AttesterSlashing[];
+  } {
+    return {
+      proposerSlashings: beaconState.proposerSlashingPool.filter(
+        (evidence: ProposerSlashing) => !beaconState.isValidatorSlashed(evidence.proposerAddress)
+      ),
+      attesterSlashings: beaconState.attesterSlashingPool.filter(
+        (evidence: AttesterSlashing) => !beaconState.isValidatorSlashed(evidence.attestation1.validatorAddress)
+      )
+    };
+  }
+
+  /**
+   * Apply the slashing operations included in a block to BeaconState
+   * Each valid piece of evidence slashes its validator once;
+   * included evidence is removed from the local pools
+   *
+   * @param beaconState - BeaconState to update
+   * @param block - Block whose slashing operations are being applied
+   */
+  static applyBlockSlashings(beaconState: any, block: Block): void {
+    const epoch = Math.floor(block.header.slot / SimulatorConfig.SLOTS_PER_EPOCH);
+
+    for (const evidence of block.proposerSlashings || []) {
+      if (this.verifyProposerSlashing(beaconState, evidence).valid) {
+        this.slashValidator(beaconState, evidence.proposerAddress, epoch);
+      }
+      beaconState.proposerSlashingPool = beaconState.proposerSlashingPool.filter(
+        (pooled: ProposerSlashing) => pooled.proposerAddress !== evidence.proposerAddress
+      );
+    }
+
+    for (const evidence of block.attesterSlashings || []) {
+      const validator = evidence.attestation1.validatorAddress;
+      if (this.verifyAttesterSlashing(beaconState, evidence).valid) {
+        this.slashValidator(beaconState, validator, epoch);
+      }
+      beaconState.attesterSlashingPool = beaconState.attesterSlashingPool.filter(
+        (pooled: AttesterSlashing) => pooled.attestation1.validatorAddress !== validator
+      );
+    }
+  }
+
+  /**
+   * Slash a validator
+   * 1. Burn stakedEth / SLASHING_PENALTY_QUOTIENT of its stake
+   * 2. Mark it slashed so it no longer proposes or attests, and queue its exit
+   *    (remaining stake is withdrawn once it becomes withdrawable)
+   * 3. Drop cached proposer schedules after the current epoch so they are
+   *    recomputed without the slashed validator
+   *
+   * @returns true if the validator was slashed, false if unknown or already slashed
+   */
+  static slashValidator(beaconState: any, validatorAddress: string, epoch: number): boolean {
+    const index = beaconState.validators.findIndex((v: any) => v.nodeAddress === validatorAddress);
+    if (index === -1) return false;
+
+    const validator = beaconState.validators[index];
+    if (validator.slashed) return false;
+
+    const penalty = validator.stakedEth / SimulatorConfig.SLASHING_PENALTY_QUOTIENT;
+    beaconState.validators[index] = {
+      ...validator,
+      stakedEth: validator.stakedEth - penalty,
+      slashed: true
+    };
+    ValidatorLifecycle.initiateExit(beaconState, validatorAddress, epoch);
+
+    for (const scheduledEpoch of Array.from(beaconState.proposerSchedules.keys()) as number[]) {
+      if (scheduledEpoch > epoch) {
+        beaconState.proposerSchedules.delete(scheduledEpoch);
+      }
+    }
+
+    console.log(`[Slashing] Slashed ${validatorAddress.slice(0, 8)} in epoch ${epoch}: burned ${penalty} ETH`);
+    return true;
+  }
+
+  /**
+   * Queue proposer slashing evidence (one piece of evidence per proposer)
+   * Evidence that would not pass verification is dropped, so it never invalidates our blocks
+   */
+  private static addProposerSlashing(beaconState: any, evidence: ProposerSlashing): void {
+    const exists = beaconState.proposerSlashingPool.some(
+      (pooled: ProposerSlashing) => pooled.proposerAddress === evidence.proposerAddress
+    );
+    if (!exists && !beaconState.isValidatorSlashed(evidence.proposerAddress) && this.verifyProposerSlashing(beaconState, evidence).valid) {
+      beaconState.proposerSlashingPool.push(evidence);
+    }
+  }
+
+  /**
+   * Queue attester slashing evidence (one piece of evidence per validator)
+   * Evidence that would not pass verification is dropped, so it never invalidates our blocks
+   */
+  private static addAttesterSlashing(beaconState: any, evidence: AttesterSlashing): void {
+    const validator = evidence.attestation1.validatorAddress;
+    const exists = beaconState.attesterSlashingPool.some(
+      (pooled: AttesterSlashing) => pooled.attestation1.validatorAddress === validator
+    );
+    if (!exists && !beaconState.isValidatorSlashed(validator) && this.verifyAttesterSlashing(beaconState, evidence).valid) {
+      beaconState.attesterSlashingPool.push(evidence);
+    }
+  }
+
+  /**
+   * Get a validator's BLS public key from the registry
+   */
+  private static getBLSPublicKey(beaconState: any, validatorAddress: string): string | undefined {
+    return beaconState.validators.find((v: any) => v.nodeAddress === validatorAddress)?.blsPublicKey;
+  }
+
+  /**
+   * Check whether two attestations carry the same FFG source and target
+   */
+  private static hasSameFfgVote(att1: Attestation, att2: Attestation): boolean {
+    return att1.ffgSource?.epoch === att2.ffgSource?.epoch &&
+           att1.ffgSource?.root === att2.ffgSource?.root &&
+           att1.ffgTarget?.epoch === att2.ffgTarget?.epoch &&
+           att1.ffgTarget?.root === att2.ffgTarget?.root;
+  }
+}
@@ -0,0 +1,227 @@
+import { Block, EthereumTransaction, Withdrawal } from '../../types/types';
+import { SimulatorConfig } from '../../config/config';
+import { DepositContract } from '../blockchain/depositContract';
+import type { Validator } from './beaconState';
+
+/**
+ * ValidatorLifecycle - Validator registry management for Ethereum PoS
+ *
+ * Static utility class that links the execution layer deposit contract to BeaconState.validators:
+ * - Deposits create (or top up) validators, which wait in a churn-limited activation queue
+ * - Exit requests (and ejections) move validators into a churn-limited exit queue
+ * - Exited validators become withdrawable after a delay and their stake is withdrawn to the EL
+ *
+ * Validator lifecycle epochs (see Validator in beaconState.ts):
+ *   deposited -> activationEpoch -> exitEpoch -> withdrawableEpoch -> withdrawn
+ * Genesis validators have no activationEpoch and are active from the start
+ *
+ * All state lives in BeaconState
+ */
+export class ValidatorLifecycle {
+  // Epoch used for lifecycle events that have not been scheduled yet
+  static readonly FAR_FUTURE_EPOCH = Infinity;
+
+  /**
+   * Check whether a validator is active (proposes, attests, counts for stake) in an epoch
+   */
+  static isActiveValidator(validator: Validator, epoch: number): boolean {
+    const activationEpoch = validator.activationEpoch ?? -1;
+    const exitEpoch = validator.exitEpoch ?? this.FAR_FUTURE_EPOCH;
+    return activationEpoch <= epoch && epoch < exitEpoch;
+  }
+
+  /**
+   * Get a validator's lifecycle status in an epoch (for display)
+   */
+  static getValidatorStatus(validator: Validator, epoch: number): 'pending' | 'active' | 'exiting' | 'exited' | 'withdrawn' {
+    if ((validator.activationEpoch ?? -1) > epoch) return 'pending';
+    if (validator.withdrawableEpoch !== undefined && validator.withdrawableEpoch <= epoch && validator.stakedEth <= 0) {
+      return 'withdrawn';
+    }
+    if (validator.exitEpoch !== undefined) {
+      return validator.exitEpoch <= epoch ? 'exited' : 'exiting';
+    }
+    return 'active';
+  }
+
+  /**
+   * Effective balance of a validator in an epoch, used to weight its fork choice and FFG votes
+   * Staked ETH capped at MAX_EFFECTIVE_BALANCE; slashed, inactive or unknown validators weigh 0
+   */
+  static getEffectiveBalance(validator: Validator | undefined, epoch: number): number {
+    if (!validator || validator.slashed || !this.isActiveValidator(validator, epoch)) return 0;
+    return Math.min(validator.stakedEth, SimulatorConfig.MAX_EFFECTIVE_BALANCE);
+  }
+
+  /**
+   * Get the validators active in an epoch
+   */
+  static getActiveValidators(beaconState: any, epoch: number): any[] {
+    return beaconState.validators.filter((v: any) => this.isActiveValidator(v, epoch));
+  }
+
+  /**
+   * Maximum number of validators that may be activated (or exited) per epoch
+   */
+  static getChurnLimit(beaconState: any, epoch: number): number {
+    const activeCount = this.getActiveValidators(beaconState, epoch).length;
+    return Math.max(
+      SimulatorConfig.MIN_PER_EPOCH_CHURN_LIMIT,
+      Math.floor(activeCount / SimulatorConfig.CHURN_LIMIT_QUOTIENT)
+    );
+  }
+
+  /**
+   * Apply a successful deposit contract call from an applied block
+   * Calls that reverted on the execution layer are ignored
+   *
+   * @param beaconState - BeaconState to update
+   * @param transaction - Transaction sent to the deposit contract
+   * @param epoch - Epoch of the block that included the transaction
+   */
+  static processDepositContractCall(beaconState: any, transaction: EthereumTransaction, epoch: number): void {
+    const result = DepositContract.validateCall(transaction);
+    if (!result.valid || !result.request) return;
+
+    if (result.request.type === 'deposit') {
+      this.processDeposit(beaconState, result.request.validatorAddress, transaction.from, transaction.value, result.request.blsPublicKey);
+    } else {
+      this.processExitRequest(beaconState, result.request.validatorAddress, transaction.from, epoch);
+    }
+  }
+
+  /**
+   * Credit a deposit to a validator
+   * Unknown validators are created with the depositor as withdrawal address and the given
+   * BLS public key, and wait for activation; deposits to existing validators top up their stake
+   */
+  static processDeposit(beaconState: any, validatorAddress: string, withdrawalAddress: string, amount: number, blsPublicKey?: string): void {
+    const index = beaconState.validators.findIndex((v: any) => v.nodeAddress === validatorAddress);
+
+    if (index === -1) {
+      beaconState.validators.push({
+        nodeAddress: validatorAddress,
+        stakedEth: amount,
+        blsPublicKey,
+        withdrawalAddress,
+        activationEpoch: this.FAR_FUTURE_EPOCH
+      });
+      console.log(`[ValidatorLifecycle] New validator ${validatorAddress.slice(0, 8)} deposited ${amount} ETH`);
+      return;
+    }
+
+    const validator = beaconState.validators[index];
+    beaconState.validators[index] = { ...validator, stakedEth: validator.stakedEth + amount };
+    console.log(`[ValidatorLifecycle] Validator ${validatorAddress.slice(0, 8)} topped up by ${amount} ETH`);
+  }
+
+  /**
+   * Handle an exit request from the execution layer
+   * Only the validator's withdrawal address may request its exit
+   */
+  static processExitRequest(beaconState: any, validatorAddress: string, requester: string, epoch: number): void {
+    const validator = beaconState.validators.find((v: any) => v.nodeAddress === validatorAddress);
+    if (!validator) return;
+
+    const withdrawalAddress = validator.withdrawalAddress ?? validator.nodeAddress;
+    if (requester !== withdrawalAddress) {
+      console.log(`[ValidatorLifecycle] Ignoring exit request for ${validatorAddress.slice(0, 8)} - not sent by its withdrawal address`);
+      return;
+    }
+    if (!this.isActiveValidator(validator, epoch)) return;
+
+    this.initiateExit(beaconState, validatorAddress, epoch);
+  }
+
+  /**
+   * Schedule a validator's exit through the churn-limited exit queue
+   * Sets exitEpoch and withdrawableEpoch; does nothing if an exit is already scheduled
+   */
+  static initiateExit(beaconState: any, validatorAddress: string, epoch: number): void {
+    const index = beaconState.validators.findIndex((v: any) => v.nodeAddress === validatorAddress);
+    if (index === -1) return;
+
+    const validator = beaconState.validators[index];
+    if (validator.exitEpoch !== undefined) return;
+
+    // Exit no earlier than the delay, and no earlier than validators already in the queue
+    const scheduledExits = beaconState.validators
+      .map((v: any) => v.exitEpoch)
+      .filter((exitEpoch: number | undefined) => exitEpoch !== undefined) as number[];
+    let exitEpoch = Math.max(epoch + SimulatorConfig.ACTIVATION_EXIT_DELAY_EPOCHS, ...scheduledExits);
+    const exitsInEpoch = scheduledExits.filter(e => e === exitEpoch).length;
+    if (exitsInEpoch >= this.getChurnLimit(beaconState, epoch)) {
+      exitEpoch++;
+    }
+
+    beaconState.validators[index] = {
+      ...validator,
+      exitEpoch,
+      withdrawableEpoch: exitEpoch + SimulatorConfig.WITHDRAWABILITY_DELAY_EPOCHS
+    };
+    console.log(`[ValidatorLifecycle] Validator ${validatorAddress.slice(0, 8)} will exit at epoch ${exitEpoch}`);
+  }
+
+  /**
+   * Registry updates at the start of an epoch (Ethereum: process_registry_updates)
+   * 1. Eject active validators whose stake dropped below EJECTION_BALANCE
+   * 2. Activate queued validators with enough stake, up to the churn limit, in deposit order
+   * 3. Withdraw the stake of validators that reached their withdrawable epoch
+   *
+   * @param beaconState - BeaconState to update
+   * @param epoch - Epoch that is starting
+   * @returns Withdrawals to credit on the execution layer
+   */
+  static processRegistryUpdates(beaconState: any, epoch: number): Withdrawal[] {
+    // 1) Ejections
+    for (const validator of [...beaconState.validators]) {
+      if (this.isActiveValidator(validator, epoch) && validator.stakedEth < SimulatorConfig.EJECTION_BALANCE) {
+        console.log(`[ValidatorLifecycle] Ejecting ${validator.nodeAddress.slice(0, 8)} - stake ${validator.stakedEth} ETH below ${SimulatorConfig.EJECTION_BALANCE} ETH`);
+        this.initiateExit(beaconState, validator.nodeAddress, epoch);
+      }
+    }
+
+    // 2) Activation queue (validators array order = deposit order)
+    let activations = 0;
+    const churnLimit = this.getChurnLimit(beaconState, epoch);
+    for (let i = 0; i < beaconState.validators.length && activations < churnLimit; i++) {
+      const validator = beaconState.validators[i];
+      if (validator.activationEpoch !== this.FAR_FUTURE_EPOCH) continue;
+      if (validator.stakedEth < SimulatorConfig.VALIDATOR_ACTIVATION_BALANCE) continue;
+
+      const activationEpoch = epoch + SimulatorConfig.ACTIVATION_EXIT_DELAY_EPOCHS;
+      beaconState.validators[i] = { ...validator, activationEpoch };
+      activations++;
+      console.log(`[ValidatorLifecycle] Validator ${validator.nodeAddress.slice(0, 8)} will activate at epoch ${activationEpoch}`);
+    }
+
+    // 3) Withdrawals
+    const withdrawals: Withdrawal[] = [];
+    for (let i = 0; i < beaconState.validators.length; i++) {
+      const validator = beaconState.validators[i];
+      if (validator.withdrawableEpoch === undefined || validator.withdrawableEpoch > epoch) continue;
+      if (validator.stakedEth <= 0) continue;
+
+      withdrawals.push({
+        validatorAddress: validator.nodeAddress,
+        address: validator.withdrawalAddress ?? validator.nodeAddress,
+        amount: validator.stakedEth
+      });
+      beaconState.validators[i] = { ...validator, stakedEth: 0 };
+    }
+
+    return withdrawals;
+  }
+
+  /**
+   * Get the deposit contract calls in a block that succeeded on the execution layer
+   *
+   * @param block - Applied block
+   * @param receipts - Receipts of the block (txid -> receipt)
+   */
+  static getSuccessfulDepositContractCalls(block: Block, receipts: Record<string, any> | undefined): EthereumTransaction[] {
+    return block.transactions.filter(tx =>
+      DepositContract.isDepositContractCall(tx) && receipts?.[tx.txid]?.status === 1
+    );
+  }
+}
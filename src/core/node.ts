@@ -4,7 +4,8 @@ import { Mempool } from './mempool/mempool';
 import { BeaconState, Validator } from './consensus/beaconState';
 import { Sync } from './consensus/Sync';
 import { Consensus } from './consensus/Consensus';
-import { generatePrivateKey, derivePublicKey, generateAddress } from '../utils/cryptoUtils';
+import { generatePrivateKey, derivePublicKey, generateAddress, deriveBLSPublicKey } from '../utils/cryptoUtils';
+import { simulationNow } from './simulation/simulationClock';
 
 /**
  * Node class representing a full node in the Bitcoin network
@@ -22,6 +23,7 @@ export class Node {
   // Security-related properties
   private privateKey: string;
   private publicKey: string;
+  private blsPublicKey: string; // Validator key for attestations and RANDAO reveals
   private address: string;
   
   // Painting state (for EPM contract)
@@ -40,10 +42,11 @@ export class Node {
     this.privateKey = generatePrivateKey(nodeId);
     this.publicKey = derivePublicKey(this.privateKey);
     this.address = generateAddress(this.publicKey);
+    this.blsPublicKey = deriveBLSPublicKey(this.privateKey);
     
     // Initialize Beacon State (Consensus Layer) BEFORE Blockchain
     // All nodes will be initialized with the same genesis time and validator set
-    const defaultGenesisTime = genesisTime || Math.floor(Date.now() / 1000);
+    const defaultGenesisTime = genesisTime || Math.floor(simulationNow() / 1000);
     const defaultValidators = validators || [];
     this.beaconState = new BeaconState(defaultGenesisTime, defaultValidators);
     
@@ -92,11 +95,13 @@ export class Node {
       beaconState: this.beaconState,
       worldState: this.blockchain.getWorldState(),
       receipts: this.blockchain.getReceipts(),
+      reorgCount: this.blockchain.getReorgCount(),
       mempool: this.mempool.getAllTransactions(),
 
       consensusStatus: this.consensus.consensusStatus,
       peerIds: Object.keys(this.peers),
       publicKey: this.publicKey,
+      blsPublicKey: this.blsPublicKey,
       address: this.address
     };
   }
@@ -134,6 +139,13 @@ export class Node {
     return this.blockchain.getHeight();
   }
   
+  /**
+   * Gets the head of the canonical chain
+   */
+  getLatestBlock(): Block | null {
+    return this.blockchain.getLatestBlock();
+  }
+  
   /**
    * Gets all blocks in the blockchain
    */
@@ -148,6 +160,13 @@ export class Node {
     return this.publicKey;
   }
   
+  /**
+   * Gets the node's BLS public key (validator key)
+   */
+  getBLSPublicKey(): string {
+    return this.blsPublicKey;
+  }
+  
   /**
    * Gets the node's Bitcoin address
    */
@@ -0,0 +1,292 @@
+import { SimulationClock } from './simulationClock';
+
+/**
+ * Event callback - async callbacks are awaited before the next event runs
+ */
+export type EventCallback = () => void | Promise<void>;
+
+/**
+ * An event waiting in the scheduler's queue
+ */
+interface ScheduledEvent {
+  id: number;
+  time: number;          // Virtual time (ms) the event fires at
+  sequence: number;      // Insertion order - breaks ties between events at the same time
+  label: string;         // Description for logging
+  callback: EventCallback;
+  intervalMs?: number;   // Set for repeating events
+}
+
+/**
+ * EventScheduler - Discrete-event scheduler driving the simulation clock
+ *
+ * Events sit in a binary min-heap ordered by (time, insertion order). Running an
+ * event advances the SimulationClock to its time and awaits its callback, so events
+ * always run one at a time in the same order for the same inputs.
+ *
+ * A run can be driven three ways:
+ * - step(): run exactly the next event
+ * - runUntil() / runFor(): run all events up to a virtual time as fast as possible
+ * - startRealTime(): play events back as wall-clock time passes (for the UI)
+ */
+export class EventScheduler {
+  private heap: ScheduledEvent[] = [];
+  private cancelledIds: Set<number> = new Set();
+  private nextId: number = 1;
+  private nextSequence: number = 0;
+
+  // Runs are serialized so stepping and real-time playback never interleave events
+  private runQueue: Promise<unknown> = Promise.resolve();
+
+  // Real-time playback state
+  private realTimeTimer: ReturnType<typeof setTimeout> | null = null;
+  private realTimeSpeed: number = 1;
+
+  constructor(private readonly clock: SimulationClock) {}
+
+  /**
+   * Get the clock this scheduler advances
+   */
+  getClock(): SimulationClock {
+    return this.clock;
+  }
+
+  /**
+   * Schedule a callback after a delay of virtual time
+   * @returns Event id (for cancel)
+   */
+  schedule(delayMs: number, callback: EventCallback, label: string = 'event'): number {
+    return this.scheduleAt(this.clock.now() + Math.max(0, delayMs), callback, label);
+  }
+
+  /**
+   * Schedule a callback at an absolute virtual time (past times run next)
+   * @returns Event id (for cancel)
+   */
+  scheduleAt(timeMs: number, callback: EventCallback, label: string = 'event'): number {
+    const id = this.nextId++;
+    this.push({ id, time: Math.max(timeMs, this.clock.now()), sequence: this.nextSequence++, label, callback });
+    return id;
+  }
+
+  /**
+   * Schedule a callback every intervalMs, first at firstTimeMs (default: one interval from now)
+   * @returns Event id shared by all repetitions (cancel stops the repetition)
+   */
+  scheduleRepeating(intervalMs: number, callback: EventCallback, label: string = 'event', firstTimeMs?: number): number {
+    if (intervalMs <= 0) {
+      throw new Error(`Repeating event "${label}" needs a positive interval`);
+    }
+    const id = this.nextId++;
+    const time = Math.max(firstTimeMs ?? this.clock.now() + intervalMs, this.clock.now());
+    this.push({ id, time, sequence: this.nextSequence++, label, callback, intervalMs });
+    return id;
+  }
+
+  /**
+   * Cancel a scheduled (or repeating) event
+   */
+  cancel(id: number): void {
+    if (this.heap.some(event => event.id === id)) {
+      this.cancelledIds.add(id);
+    }
+  }
+
+  /**
+   * Number of events waiting to run
+   */
+  getPendingEventCount(): number {
+    return this.heap.filter(event => !this.cancelledIds.has(event.id)).length;
+  }
+
+  /**
+   * Virtual time of the next event, or null if the queue is empty
+   */
+  getNextEventTime(): number | null {
+    this.dropCancelledHead();
+    return this.heap.length > 0 ? this.heap[0].time : null;
+  }
+
+  /**
+   * Run exactly the next event
+   * @returns false if there was no event to run
+   */
+  step(): Promise<boolean> {
+    return this.serialize(() => this.runNextEvent());
+  }
+
+  /**
+   * Run every event up to (and including) a virtual time, then move the clock there
+   * @returns Number of events run
+   */
+  runUntil(timeMs: number): Promise<number> {
+    return this.serialize(async () => {
+      let count = 0;
+      let nextTime = this.getNextEventTime();
+      while (nextTime !== null && nextTime <= timeMs) {
+        await this.runNextEvent();
+        count++;
+        nextTime = this.getNextEventTime();
+      }
+      if (timeMs > this.clock.now()) {
+        this.clock.advanceTo(timeMs);
+      }
+      return count;
+    });
+  }
+
+  /**
+   * Run every event in the next durationMs of virtual time, as fast as possible
+   * @returns Number of events run
+   */
+  runFor(durationMs: number): Promise<number> {
+    return this.runUntil(this.clock.now() + durationMs);
+  }
+
+  /**
+   * Play events back as wall-clock time passes
+   * @param speed - Virtual milliseconds per wall-clock millisecond (1 = real time)
+   */
+  startRealTime(speed: number = 1): void {
+    this.stopRealTime();
+    this.realTimeSpeed = speed;
+
+    let wallStart = Date.now();
+    let virtualStart = this.clock.now();
+
+    const tick = async () => {
+      const target = virtualStart + (Date.now() - wallStart) * this.realTimeSpeed;
+      await this.runUntil(target);
+      if (this.realTimeTimer === null) return; // stopped while running
+
+      // Events took longer than their virtual duration - continue from here instead of catching up
+      if (this.clock.now() > target) {
+        wallStart = Date.now();
+        virtualStart = this.clock.now();
+      }
+
+      const nextTime = this.getNextEventTime();
+      const waitMs = nextTime === null ? 100 : (nextTime - this.clock.now()) / this.realTimeSpeed;
+      this.realTimeTimer = setTimeout(tick, Math.min(Math.max(waitMs, 0), 100));
+    };
+    this.realTimeTimer = setTimeout(tick, 0);
+  }
+
+  /**
+   * Stop real-time playback (the queue and clock keep their state)
+   */
+  stopRealTime(): void {
+    if (this.realTimeTimer !== null) {
+      clearTimeout(this.realTimeTimer);
+      this.realTimeTimer = null;
+    }
+  }
+
+  /**
+   * Whether events are being played back in real time
+   */
+  isRealTime(): boolean {
+    return this.realTimeTimer !== null;
+  }
+
+  /**
+   * Pop the next event, advance the clock to it and run it
+   */
+  private async runNextEvent(): Promise<boolean> {
+    this.dropCancelledHead();
+    const event = this.pop();
+    if (!event) return false;
+
+    this.clock.advanceTo(event.time);
+
+    // Re-queue repeating events before running so the callback can cancel them
+    if (event.intervalMs !== undefined) {
+      this.push({ ...event, time: event.time + event.intervalMs, sequence: this.nextSequence++ });
+    }
+
+    try {
+      await event.callback();
+    } catch (error) {
+      console.error(`[EventScheduler] Event "${event.label}" at ${event.time} failed:`, error);
+    }
+
+    // Let promises the callback started without awaiting settle before the next event
+    await yieldToEventLoop();
+    return true;
+  }
+
+  /**
+   * Chain a run behind any run already in progress
+   */
+  private serialize<T>(run: () => Promise<T>): Promise<T> {
+    const result = this.runQueue.then(run);
+    this.runQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Discard cancelled events at the top of the heap
+   */
+  private dropCancelledHead(): void {
+    while (this.heap.length > 0 && this.cancelledIds.has(this.heap[0].id)) {
+      const event = this.pop()!;
+      if (!this.heap.some(other => other.id === event.id)) {
+        this.cancelledIds.delete(event.id);
+      }
+    }
+  }
+
+  /**
+   * Heap ordering: earlier time first, then insertion order
+   */
+  private isBefore(a: ScheduledEvent, b: ScheduledEvent): boolean {
+    return a.time < b.time || (a.time === b.time && a.sequence < b.sequence);
+  }
+
+  /**
+   * Insert an event into the heap (sift up)
+   */
+  private push(event: ScheduledEvent): void {
+    const heap = this.heap;
+    heap.push(event);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.isBefore(heap[i], heap[parent])) break;
+      [heap[i], heap[parent]] = [heap[parent], heap[i]];
+      i = parent;
+    }
+  }
+
+  /**
+   * Remove and return the earliest event (sift down)
+   */
+  private pop(): ScheduledEvent | undefined {
+    const heap = this.heap;
+    if (heap.length === 0) return undefined;
+
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && this.isBefore(heap[left], heap[smallest])) smallest = left;
+        if (right < heap.length && this.isBefore(heap[right], heap[smallest])) smallest = right;
+        if (smallest === i) break;
+        [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Resolve after all pending promise callbacks have run
+ */
+const yieldToEventLoop = (): Promise<void> =>
+  new Promise(resolve => typeof setImmediate === 'function' ? setImmediate(resolve) : setTimeout(resolve, 0));
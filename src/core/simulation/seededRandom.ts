@@ -0,0 +1,54 @@
+/**
+ * SeededRandom - Reproducible pseudo-random numbers for the simulation
+ *
+ * Every random choice in a run (network delays, node ids) is drawn from one
+ * SeededRandom owned by the NetworkManager, so two runs with the same seed and
+ * config replay exactly: same delays, same block hashes, same forks.
+ *
+ * Uses the mulberry32 generator (32-bit state, fast, good enough for simulation -
+ * not for cryptography).
+ */
+export class SeededRandom {
+  private readonly seed: number;
+  private state: number;
+
+  /**
+   * @param seed - Any number; it is truncated to an unsigned 32-bit integer
+   */
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Get the seed this generator was created with (share it to replay a run)
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Next number in [0, 1) - drop-in replacement for Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Next integer between min and max (both inclusive)
+   */
+  nextInt(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  /**
+   * Pick a random element of a non-empty array
+   */
+  pick<T>(items: T[]): T {
+    return items[this.nextInt(0, items.length - 1)];
+  }
+}
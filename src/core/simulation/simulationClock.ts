@@ -0,0 +1,57 @@
+/**
+ * SimulationClock - Virtual time for the simulated network
+ *
+ * Time only moves when the EventScheduler advances it to the next event, so a run
+ * can be stepped event by event, played back at wall-clock speed, or fast-forwarded
+ * without waiting. All simulation code reads time through simulationNow() instead
+ * of Date.now(), which makes slot boundaries, timestamps and message delivery order
+ * independent of how fast the host machine is.
+ */
+export class SimulationClock {
+  private currentTimeMs: number;
+
+  /**
+   * @param startTimeMs - Virtual time (UTC milliseconds) the simulation starts at
+   */
+  constructor(startTimeMs: number = Date.now()) {
+    this.currentTimeMs = startTimeMs;
+  }
+
+  /**
+   * Current virtual time in UTC milliseconds
+   */
+  now(): number {
+    return this.currentTimeMs;
+  }
+
+  /**
+   * Move the clock forward (time never runs backwards)
+   */
+  advanceTo(timeMs: number): void {
+    if (timeMs < this.currentTimeMs) {
+      throw new Error(`Cannot move simulation clock back from ${this.currentTimeMs} to ${timeMs}`);
+    }
+    this.currentTimeMs = timeMs;
+  }
+}
+
+// Clock read by core code (block and transaction timestamps, slot calculation)
+// The NetworkManager running the simulation installs its own clock here
+let activeClock = new SimulationClock();
+
+/**
+ * Get the clock of the running simulation
+ */
+export const getSimulationClock = (): SimulationClock => activeClock;
+
+/**
+ * Install the clock of the running simulation
+ */
+export const setSimulationClock = (clock: SimulationClock): void => {
+  activeClock = clock;
+};
+
+/**
+ * Current simulated time in UTC milliseconds (use instead of Date.now())
+ */
+export const simulationNow = (): number => activeClock.now();
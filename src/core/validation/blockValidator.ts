@@ -1,8 +1,13 @@
 import { Block, BlockHeader } from '../../types/types';
-import { sha256Hash, isHashBelowCeiling } from '../../utils/cryptoUtils';
+import { sha256Hash, isHashBelowCeiling, verifyBLSSignatureCached } from '../../utils/cryptoUtils';
 import { SimulatorConfig } from '../../config/config';
 import { validateTransaction } from './transactionValidator';
 import { WorldState } from '../blockchain/worldState';
+import { Slashing } from '../consensus/slashing';
+import { AttestationAggregation } from '../consensus/attestationAggregation';
+import { RANDAO } from '../consensus/randao';
+import { simulationNow } from '../simulation/simulationClock';
+import { calculateNextBaseFee } from '../blockchain/gas';
 
 /**
  * Creates a block header hash by hashing the header
@@ -11,6 +16,14 @@ export const calculateBlockHeaderHash = (header: BlockHeader): string => {
   return sha256Hash(header);
 };
 
+/**
+ * Creates the message the proposer signs: the header hash without the proposer signature
+ */
+export const calculateBlockSigningRoot = (header: BlockHeader): string => {
+  const { proposerSignature, ...unsignedHeader } = header;
+  return calculateBlockHeaderHash(unsignedHeader);
+};
+
 /**
  * Calculates the hash of all transactions in a block
  */
@@ -18,14 +31,36 @@ export const calculateTransactionHash = (transactions: any[]): string => {
   return sha256Hash(transactions);
 };
 
+/**
+ * Calculates the hash of a block's consensus body (attestations, slashing evidence and RANDAO reveal)
+ * The header commits to it, so the block hash and proposer signature cover the body too
+ */
+export const calculateBlockBodyRoot = (
+  body: Pick<Block, 'attestations' | 'proposerSlashings' | 'attesterSlashings' | 'randaoReveal'>
+): string => {
+  return sha256Hash({
+    attestations: body.attestations,
+    proposerSlashings: body.proposerSlashings ?? [],
+    attesterSlashings: body.attesterSlashings ?? [],
+    randaoReveal: body.randaoReveal ?? null
+  });
+};
+
 /**
  * Validates a block against the blockchain rules
  * Returns {valid: true} if valid, {valid: false, error: string} if invalid
+ * 
+ * @param beaconState - Beacon state after the parent block (proposer schedule, committees and
+ *                      validator keys), required to verify the proposer, RANDAO reveal and
+ *                      aggregated attestations
+ * @param parentHeader - Header of the parent block, required to verify the base fee
  */
 export const validateBlock = async (
   block: Block, 
   worldState: WorldState,
-  previousHeaderHash: string
+  previousHeaderHash: string,
+  beaconState?: any,
+  parentHeader?: BlockHeader
 ): Promise<{valid: boolean; error?: string}> => {
   const { header, transactions } = block;
   
@@ -52,8 +87,33 @@ export const validateBlock = async (
   // Update the temporary world state with the coinbase transaction
   tempWorldState.updateWithTransaction(transactions[0]);
   
-  // 3. Validate all other transactions sequentially
+  // 3. Validate the base fee follows from the parent block (EIP-1559)
+  if (parentHeader) {
+    const expectedBaseFee = calculateNextBaseFee(parentHeader);
+    if (header.baseFeePerGas !== expectedBaseFee) {
+      const error = `Base fee mismatch: ${header.baseFeePerGas} gwei !== ${expectedBaseFee} gwei`;
+      console.error(error);
+      return { valid: false, error };
+    }
+  }
+  
+  // 4. Validate all other transactions sequentially
+  // Each must fit in the gas the block has left (so the block stays within BLOCK_GAS_LIMIT)
+  // and offer at least the block's base fee
+  let cumulativeGasUsed = 0;
   for (let i = 1; i < transactions.length; i++) {
+    const gasLeft = SimulatorConfig.BLOCK_GAS_LIMIT - cumulativeGasUsed;
+    if (transactions[i].gasLimit > gasLeft) {
+      const error = `Transaction ${i} failed: gas limit ${transactions[i].gasLimit} exceeds the ${gasLeft} gas left in the block`;
+      console.error(error);
+      return { valid: false, error };
+    }
+    if (transactions[i].maxFeePerGas < header.baseFeePerGas) {
+      const error = `Transaction ${i} failed: max fee ${transactions[i].maxFeePerGas} gwei is below the base fee ${header.baseFeePerGas} gwei`;
+      console.error(error);
+      return { valid: false, error };
+    }
+    
     const txResult = await validateTransaction(transactions[i], tempWorldState, false);
     if (!txResult.valid) {
       const error = `Transaction ${i} failed: ${txResult.error}`;
@@ -61,11 +121,18 @@ export const validateBlock = async (
       return { valid: false, error };
     }
     
-    // Update the temporary world state with this transaction
-    tempWorldState.updateWithTransaction(transactions[i]);
+    // Update the temporary world state with this transaction (base fee burned, tip to the proposer)
+    cumulativeGasUsed += tempWorldState.updateWithTransaction(transactions[i], undefined, undefined, undefined, cumulativeGasUsed, header) ?? 0;
   }
   
-  // 4. Validate transaction hash in header matches the hash of all transactions
+  // 5. Validate the header reports the gas the transactions used
+  if (header.gasUsed !== cumulativeGasUsed) {
+    const error = `Gas used mismatch: header says ${header.gasUsed}, transactions used ${cumulativeGasUsed}`;
+    console.error(error);
+    return { valid: false, error };
+  }
+  
+  // 6. Validate transaction hash in header matches the hash of all transactions
   const calculatedTransactionHash = calculateTransactionHash(transactions);
   if (header.transactionHash !== calculatedTransactionHash) {
     const error = `Transaction hash mismatch: ${header.transactionHash} !== ${calculatedTransactionHash}`;
@@ -73,7 +140,15 @@ export const validateBlock = async (
     return { valid: false, error };
   }
   
-  // 5. Validate previous header hash matches the provided hash
+  // 7. Validate body root in header matches the hash of the block's consensus body
+  const calculatedBodyRoot = calculateBlockBodyRoot(block);
+  if (header.bodyRoot !== calculatedBodyRoot) {
+    const error = `Body root mismatch: ${header.bodyRoot} !== ${calculatedBodyRoot}`;
+    console.error(error);
+    return { valid: false, error };
+  }
+  
+  // 8. Validate previous header hash matches the provided hash
   // For non-genesis blocks, validate previous hash
   if (header.height > 0) {
     if (!previousHeaderHash) {
@@ -89,8 +164,8 @@ export const validateBlock = async (
     }
   }
   
-  // 6. Validate block timestamp is reasonable
-  const now = Date.now();
+  // 9. Validate block timestamp is reasonable
+  const now = simulationNow();
   const fiveHoursInMs = 5 * 60 * 60 * 1000;
   if (header.timestamp > now + fiveHoursInMs || header.timestamp < now - fiveHoursInMs) {
     const error = `Block timestamp is unreasonable: ${header.timestamp}`;
@@ -98,25 +173,147 @@ export const validateBlock = async (
     return { valid: false, error };
   }
   
-  // 7. Validate attestations (if any)
+  // 10. Validate the block comes from the slot's scheduled proposer with a valid RANDAO reveal
+  if (beaconState) {
+    const proposerResult = validateProposer(block, beaconState);
+    if (!proposerResult.valid) {
+      const error = `Invalid proposer: ${proposerResult.error}`;
+      console.error(error);
+      return { valid: false, error };
+    }
+  }
+  
+  // 11. Validate aggregated attestations (if any)
   if (block.attestations && block.attestations.length > 0) {
-    // TODO: Add more comprehensive attestation validation:
-    // - Verify attestations point to blocks in the tree
-    // - Verify attestations are from registered validators
-    // - Verify attestation signatures (when implemented)
+    // TODO: Verify attestations point to blocks in the tree
     
-    // For now, just check for duplicates within the block
+    // Each vote (slot, head, source, target) may only be aggregated once per block,
+    // and only attestations for earlier slots can be included
     const attestationKeys = new Set<string>();
     for (const attestation of block.attestations) {
-      const key = `${attestation.blockHash}-${attestation.validatorAddress}`;
+      const key = AttestationAggregation.getSigningMessage(attestation);
       if (attestationKeys.has(key)) {
-        const error = `Duplicate attestation in block: ${key}`;
+        const error = `Duplicate aggregated attestation in block for slot ${attestation.slot}`;
         console.error(error);
         return { valid: false, error };
       }
       attestationKeys.add(key);
+      
+      if (attestation.slot >= header.slot) {
+        const error = `Attestation for slot ${attestation.slot} included too early (block slot ${header.slot})`;
+        console.error(error);
+        return { valid: false, error };
+      }
+      
+      // Committee bitfield and aggregated BLS signature
+      if (beaconState) {
+        const result = AttestationAggregation.verifyAggregatedAttestation(beaconState, attestation);
+        if (!result.valid) {
+          const error = `Invalid attestation: ${result.error}`;
+          console.error(error);
+          return { valid: false, error };
+        }
+      }
     }
   }
   
+  // 12. Validate slashing evidence (if any)
+  // Evidence must prove a real offence - otherwise a proposer could burn honest validators' stake
+  // Checking the accused validator's signatures needs the beacon state
+  if (!beaconState && (block.proposerSlashings?.length || block.attesterSlashings?.length)) {
+    const error = 'Cannot verify slashing evidence without the beacon state';
+    console.error(error);
+    return { valid: false, error };
+  }
+  for (const evidence of block.proposerSlashings || []) {
+    const result = Slashing.verifyProposerSlashing(beaconState, evidence);
+    if (!result.valid) {
+      const error = `Invalid proposer slashing: ${result.error}`;
+      console.error(error);
+      return { valid: false, error };
+    }
+  }
+  for (const evidence of block.attesterSlashings || []) {
+    const result = Slashing.verifyAttesterSlashing(beaconState, evidence);
+    if (!result.valid) {
+      const error = `Invalid attester slashing: ${result.error}`;
+      console.error(error);
+      return { valid: false, error };
+    }
+  }
+  
+  return { valid: true };
+};
+
+/**
+ * Validates a received block before it is added to the block tree or relayed (gossip validation)
+ * Only the checks that need no parent state: the block matches its hash and the header's roots,
+ * and it comes from its proposer (see validateProposer)
+ * Blocks that pass are fully validated by validateBlock when the chain applies them
+ * 
+ * @param checkSchedule - Whether beaconState holds the proposer schedule of the block's branch
+ *                        (blocks on other forks can only be checked against it once applied)
+ */
+export const validateBlockForGossip = (block: Block, beaconState: any, checkSchedule: boolean): {valid: boolean; error?: string} => {
+  const { header } = block;
+  
+  if (block.hash && block.hash !== calculateBlockHeaderHash(header)) {
+    return { valid: false, error: 'Block hash does not match its header' };
+  }
+  
+  if (block.transactions.length === 0) {
+    return { valid: false, error: 'Block has no transactions' };
+  }
+  
+  if (header.transactionHash !== calculateTransactionHash(block.transactions)) {
+    return { valid: false, error: 'Transaction hash mismatch' };
+  }
+  
+  if (header.bodyRoot !== calculateBlockBodyRoot(block)) {
+    return { valid: false, error: 'Body root mismatch' };
+  }
+  
+  return validateProposer(block, beaconState, checkSchedule);
+};
+
+/**
+ * Validates a block's proposer against the beacon state
+ * - The header names the proposer scheduled for its slot (unless checkSchedule is false)
+ * - The header is signed with that validator's BLS key
+ * - The coinbase pays the proposer (rewards cannot be redirected to another validator)
+ * - The RANDAO reveal is the proposer's BLS signature of the block's epoch
+ */
+const validateProposer = (block: Block, beaconState: any, checkSchedule: boolean = true): {valid: boolean; error?: string} => {
+  const { header } = block;
+  
+  if (!header.proposerAddress || !header.proposerSignature) {
+    return { valid: false, error: 'Block header has no proposer address or signature' };
+  }
+  
+  if (checkSchedule) {
+    const scheduledProposer = RANDAO.getScheduledProposer(beaconState, header.slot);
+    if (header.proposerAddress !== scheduledProposer) {
+      return { valid: false, error: `${header.proposerAddress.slice(0, 8)} is not the scheduled proposer for slot ${header.slot} (${scheduledProposer?.slice(0, 8) ?? 'none'})` };
+    }
+  }
+  
+  const validator = beaconState.validators.find((v: any) => v.nodeAddress === header.proposerAddress);
+  if (!validator?.blsPublicKey) {
+    return { valid: false, error: `No BLS public key for proposer ${header.proposerAddress.slice(0, 8)}` };
+  }
+  
+  if (!verifyBLSSignatureCached(calculateBlockSigningRoot(header), header.proposerSignature, validator.blsPublicKey)) {
+    return { valid: false, error: `Invalid proposer signature for slot ${header.slot}` };
+  }
+  
+  if (Slashing.getCoinbaseRecipient(block) !== header.proposerAddress) {
+    return { valid: false, error: 'Coinbase recipient is not the proposer' };
+  }
+  
+  const epoch = Math.floor(header.slot / SimulatorConfig.SLOTS_PER_EPOCH);
+  if (!block.randaoReveal || !RANDAO.verifyRandaoReveal(epoch, block.randaoReveal, validator.blsPublicKey)) {
+    return { valid: false, error: `Invalid RANDAO reveal for epoch ${epoch}` };
+  }
+  
   return { valid: true };
 };
@@ -5,35 +5,13 @@
 
 import { EthereumTransaction } from '../../types/types';
 import { SimulatorConfig } from '../../config/config';
-import { generateAddress, verifySignature } from '../../utils/cryptoUtils';
-import { createSignatureInput } from '../blockchain/transaction';
-import { sha256 } from '@noble/hashes/sha256';
-import { bytesToHex } from '@noble/hashes/utils';
-
-/**
- * Helper to calculate txid for validation
- * Must match the calculation in transaction.ts
- */
-function calculateTxid(tx: {
-  from: string;
-  to: string;
-  value: number;
-  nonce: number;
-  timestamp: number;
-}): string {
-  const txString = JSON.stringify({ 
-    from: tx.from, 
-    to: tx.to, 
-    value: tx.value, 
-    nonce: tx.nonce, 
-    timestamp: tx.timestamp 
-  });
-  return bytesToHex(sha256(new TextEncoder().encode(txString)));
-}
+import { recoverAddress } from '../../utils/cryptoUtils';
+import { calculateTxid, createSignatureInput } from '../blockchain/transaction';
 
 /**
  * Validates the security aspects of an Ethereum transaction
- * Verifies signature and that public key hash matches from address
+ * Verifies the txid and that the signature was made by the from address
+ * (the sender is recovered from the signature - transactions carry no public key)
  * @param transaction The transaction to validate
  * @returns True if the transaction passes all security checks, false otherwise
  */
@@ -45,66 +23,42 @@ export const validateTransactionSecurity = async (
     return true;
   }
   
-  // 2. Verify public key is provided
-  if (!transaction.publicKey) {
-    console.error('Missing public key for transaction');
-    return false;
-  }
-  
-  // 3. Verify that the public key hash matches the from address
-  const derivedAddress = generateAddress(transaction.publicKey);
-  if (derivedAddress !== transaction.from) {
-    console.error(`Public key does not match from address: ${derivedAddress} !== ${transaction.from}`);
-    return false;
-  }
-  
-  // 4. Verify that a signature exists
+  // 2. Verify that a signature exists
   if (!transaction.signature) {
     console.error('Missing signature for transaction');
     return false;
   }
   
-  // 5. Verify that the signature is not an error signature
+  // 3. Verify that the signature is not an error signature
   if (transaction.signature.startsWith('error-')) {
     console.error('Transaction contains error signature');
     return false;
   }
   
-  // 6. Verify txid matches transaction data (data integrity check)
-  // This ensures the transaction data hasn't been tampered with
-  const calculatedTxid = calculateTxid({
-    from: transaction.from,
-    to: transaction.to,
-    value: transaction.value,
-    nonce: transaction.nonce,
-    timestamp: transaction.timestamp
-  });
+  // 4. Verify txid matches the signing payload on this chain (data integrity check)
+  // This ensures no field, call data included, has been tampered with since signing
+  const calculatedTxid = calculateTxid(transaction);
   
   if (calculatedTxid !== transaction.txid) {
     console.error(`Transaction data tampered: calculated txid ${calculatedTxid} !== ${transaction.txid}`);
     return false;
   }
   
-  // 7. Create signature input (just the txid)
+  // 5. Create signature input (just the txid)
   // The signature proves authorization of this specific txid
   const signatureInput = createSignatureInput({ txid: transaction.txid });
   
-  // 8. Cryptographically verify the signature (authorization check)
-  // This proves the sender has the private key for the from address
-  try {
-    const isValid = await verifySignature(
-      signatureInput,
-      transaction.signature,
-      transaction.publicKey
-    );
-    
-    // 9. Reject if signature is invalid
-    if (!isValid) {
-      console.error('Invalid signature for transaction');
-      return false;
-    }
-  } catch (error) {
-    console.error('Error verifying signature:', error);
+  // 6. Recover the signer's address from the signature (authorization check)
+  // Only the holder of the private key for the from address can produce a signature that recovers to it
+  const signerAddress = recoverAddress(signatureInput, transaction.signature);
+  
+  // 7. Reject if the signature is malformed or was made by anyone but the sender
+  if (!signerAddress) {
+    console.error('Invalid signature for transaction');
+    return false;
+  }
+  if (signerAddress !== transaction.from) {
+    console.error(`Signature is not from the sender: recovered ${signerAddress} !== ${transaction.from}`);
     return false;
   }
   
@@ -2,6 +2,7 @@ import { EthereumTransaction } from '../../types/types';
 import { SimulatorConfig } from '../../config/config';
 import { WorldState } from '../blockchain/worldState';
 import { validateTransactionSecurity } from './securityValidator';
+import { calculateIntrinsicGas, calculateMaxCost } from '../blockchain/gas';
 
 /**
  * Validates an Ethereum transaction against the world state
@@ -32,12 +33,13 @@ export async function validateTransaction(
       return { valid: false, error };
     }
   
-    // 3. Validate sender has sufficient balance - todo this is failing on re org we need to fix this long term
-    /*if (senderAccount.balance < transaction.value) {
-      const error = `Insufficient balance: sender has ${senderAccount.balance} ETH but transaction requires ${transaction.value} ETH`;
+    // 3. Validate sender can pay the value and the fee for the whole gas limit
+    const maxCost = calculateMaxCost(transaction);
+    if (senderAccount.balance < maxCost) {
+      const error = `Insufficient balance: sender has ${senderAccount.balance} ETH but transaction requires ${maxCost} ETH`;
       console.error(error);
       return { valid: false, error };
-    }*/
+    }
   
     // 4. Validate transaction value is positive
     if (transaction.value <= 0) {
@@ -46,14 +48,27 @@ export async function validateTransaction(
       return { valid: false, error };
     }
   
-    // 5. Validate nonce matches sender's current nonce - todo add this check back, there is edeg case where this is failing on re org
-    /*if (transaction.nonce !== senderAccount.nonce) {
+    // 5. Validate the gas limit covers the intrinsic gas and the tip fits under the max fee
+    const intrinsicGas = calculateIntrinsicGas(transaction);
+    if (!(transaction.gasLimit >= intrinsicGas)) {
+      const error = `Intrinsic gas too low: gas limit ${transaction.gasLimit} is below ${intrinsicGas}`;
+      console.error(error);
+      return { valid: false, error };
+    }
+    if (!(transaction.maxPriorityFeePerGas >= 0 && transaction.maxPriorityFeePerGas <= transaction.maxFeePerGas)) {
+      const error = `Invalid fees: max priority fee ${transaction.maxPriorityFeePerGas} gwei must be between 0 and the max fee ${transaction.maxFeePerGas} gwei`;
+      console.error(error);
+      return { valid: false, error };
+    }
+  
+    // 6. Validate nonce matches sender's current nonce (rejects replays and out-of-order transactions)
+    if (transaction.nonce !== senderAccount.nonce) {
       const error = `Invalid nonce: expected ${senderAccount.nonce}, got ${transaction.nonce} (sender: ${transaction.from.slice(0, 16)}...)`;
       console.error(error);
       return { valid: false, error };
-    }*/
+    }
   
-    // 6. Security validation: Verify signature and address
+    // 7. Security validation: Verify signature and address
     const securityValid = await validateTransactionSecurity(transaction);
     if (!securityValid) {
       const error = `Transaction signature validation failed (txid: ${transaction.txid?.slice(0, 16)}...)`;
@@ -0,0 +1,173 @@
+import { Message } from './messages';
+import { SimulatorConfig } from '../config/config';
+import { SeededRandom } from '../core/simulation/seededRandom';
+
+/**
+ * Behaviour of a one-way network link between two nodes
+ */
+export interface LinkProfile {
+  latencyMs: number;                      // Typical one-way latency
+  jitterMs: number;                       // Spread around latencyMs
+  distribution: 'uniform' | 'normal';     // uniform: latencyMs ± jitterMs, normal: jitterMs is the standard deviation
+  dropRate: number;                       // Probability (0-1) that a message is lost
+  duplicateRate: number;                  // Probability (0-1) that a message arrives twice
+  reorderRate: number;                    // Probability (0-1) that a message is held back so later ones overtake it
+  bandwidthMbps: number;                  // Link capacity in megabits/s (0 = unlimited)
+}
+
+/**
+ * Counters of what the links did to messages
+ */
+export interface LinkStats {
+  sent: number;
+  dropped: number;
+  duplicated: number;
+  reordered: number;
+}
+
+// Message sizes are computed once per message object
+const messageSizes = new WeakMap<object, number>();
+
+/**
+ * Estimate the size of a message on the wire (bytes of its JSON encoding)
+ */
+export const estimateMessageSize = (message: Message): number => {
+  let size = messageSizes.get(message);
+  if (size === undefined) {
+    size = JSON.stringify(message).length;
+    messageSizes.set(message, size);
+  }
+  return size;
+};
+
+/**
+ * LinkModel - Latency, jitter, loss, duplication, reordering and bandwidth per (sender, receiver) link
+ *
+ * Every link uses the default profile from SimulatorConfig unless it has its own profile.
+ * A link with a bandwidth cap sends one message at a time, so a large CHAIN_RESPONSE
+ * occupies it much longer than an ATTESTATION and delays the messages queued behind it.
+ * All randomness comes from the network's seeded PRNG.
+ */
+export class LinkModel {
+  private profiles: Map<string, Partial<LinkProfile>> = new Map();
+  private busyUntil: Map<string, number> = new Map();   // Virtual time each link finishes its current transmission
+  private stats: LinkStats = { sent: 0, dropped: 0, duplicated: 0, reordered: 0 };
+
+  constructor(private readonly random: SeededRandom) {}
+
+  /**
+   * Profile of links without their own profile (read from SimulatorConfig on every call)
+   */
+  static getDefaultProfile(): LinkProfile {
+    const minDelay = SimulatorConfig.MIN_NETWORK_DELAY_MS;
+    const maxDelay = Math.max(SimulatorConfig.MAX_NETWORK_DELAY_MS, minDelay);
+    return {
+      latencyMs: (minDelay + maxDelay) / 2,
+      jitterMs: (maxDelay - minDelay) / 2,
+      distribution: 'uniform',
+      dropRate: SimulatorConfig.PACKET_LOSS_RATE,
+      duplicateRate: SimulatorConfig.PACKET_DUPLICATION_RATE,
+      reorderRate: SimulatorConfig.PACKET_REORDER_RATE,
+      bandwidthMbps: SimulatorConfig.LINK_BANDWIDTH_MBPS
+    };
+  }
+
+  /**
+   * Give the link from one node to another its own profile (unset fields use the default)
+   * @param bidirectional - Also apply it to the link back
+   */
+  setLinkProfile(fromNodeId: string, toNodeId: string, profile: Partial<LinkProfile>, bidirectional: boolean = false): void {
+    this.profiles.set(this.getLinkKey(fromNodeId, toNodeId), { ...profile });
+    if (bidirectional) {
+      this.profiles.set(this.getLinkKey(toNodeId, fromNodeId), { ...profile });
+    }
+  }
+
+  /**
+   * Return a link to the default profile
+   */
+  clearLinkProfile(fromNodeId: string, toNodeId: string): void {
+    this.profiles.delete(this.getLinkKey(fromNodeId, toNodeId));
+  }
+
+  /**
+   * Effective profile of the link from one node to another
+   */
+  getLinkProfile(fromNodeId: string, toNodeId: string): LinkProfile {
+    return { ...LinkModel.getDefaultProfile(), ...this.profiles.get(this.getLinkKey(fromNodeId, toNodeId)) };
+  }
+
+  /**
+   * Counters of sent, dropped, duplicated and reordered messages
+   */
+  getStats(): LinkStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Decide when a message sent now arrives at a node
+   * @param delayMultiplier - Recipient's network delay multiplier (scales latency)
+   * @returns Delays from now of every copy that arrives (empty if the message is lost)
+   */
+  planDelivery(fromNodeId: string, toNodeId: string, message: Message, nowMs: number, delayMultiplier: number = 1): number[] {
+    const profile = this.getLinkProfile(fromNodeId, toNodeId);
+    this.stats.sent++;
+
+    // Rates of 0 draw no random numbers, so enabling them on one link doesn't shift other links' draws
+    if (profile.dropRate > 0 && this.random.next() < profile.dropRate) {
+      this.stats.dropped++;
+      return [];
+    }
+
+    const copies = profile.duplicateRate > 0 && this.random.next() < profile.duplicateRate ? 2 : 1;
+    if (copies > 1) this.stats.duplicated++;
+
+    // The link transmits one message at a time at its bandwidth
+    let transmitMs = 0;
+    if (profile.bandwidthMbps > 0) {
+      const key = this.getLinkKey(fromNodeId, toNodeId);
+      const start = Math.max(nowMs, this.busyUntil.get(key) ?? nowMs);
+      const end = start + estimateMessageSize(message) / (profile.bandwidthMbps * 125); // 1 Mbps = 125 bytes/ms
+      this.busyUntil.set(key, end);
+      transmitMs = end - nowMs;
+    }
+
+    return Array.from({ length: copies }, () => {
+      let latency = this.sampleLatency(profile) * delayMultiplier;
+      if (profile.reorderRate > 0 && this.random.next() < profile.reorderRate) {
+        latency += this.random.next() * 2 * (profile.latencyMs + profile.jitterMs);
+        this.stats.reordered++;
+      }
+      return transmitMs + latency;
+    });
+  }
+
+  /**
+   * Forget link profiles, transmissions in progress and counters
+   */
+  reset(): void {
+    this.profiles.clear();
+    this.busyUntil.clear();
+    this.stats = { sent: 0, dropped: 0, duplicated: 0, reordered: 0 };
+  }
+
+  /**
+   * Draw one latency from the link's distribution (never negative)
+   */
+  private sampleLatency(profile: LinkProfile): number {
+    if (profile.jitterMs <= 0) return Math.max(0, profile.latencyMs);
+
+    if (profile.distribution === 'normal') {
+      // Box-Muller transform
+      const u1 = 1 - this.random.next();
+      const u2 = this.random.next();
+      const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+      return Math.max(0, profile.latencyMs + z * profile.jitterMs);
+    }
+    return Math.max(0, profile.latencyMs + (this.random.next() * 2 - 1) * profile.jitterMs);
+  }
+
+  private getLinkKey(fromNodeId: string, toNodeId: string): string {
+    return `${fromNodeId}->${toNodeId}`;
+  }
+}
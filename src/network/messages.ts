@@ -19,6 +19,11 @@ export interface NetworkMessage {
   type: MessageType;
   fromNodeId: string;
   toNodeId?: string; // Optional for broadcast messages
+  
+  // Gossip envelope (broadcasts only) - set by NodeWorker when a broadcast is published
+  messageId?: string;  // Unique id, nodes ignore ids they have already seen
+  hopsLeft?: number;   // Times the message may still be relayed
+  relayedBy?: string;  // Node that forwarded this copy (unset when sent by fromNodeId itself)
 }
 
 /**
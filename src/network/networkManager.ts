@@ -2,11 +2,32 @@ import { NodeWorker } from './nodeWorker';
 import { Message } from './messages';
 import { SimulatorConfig } from '../config/config';
 import { generateUniqueNodeIds } from '../utils/nodeIdGenerator';
+import { getTeamPaintColor, setNodePaintColor } from '../utils/nodeColorUtils';
 import { Validator } from '../core/consensus/beaconState';
+import { SimulationClock, setSimulationClock } from '../core/simulation/simulationClock';
+import { EventScheduler } from '../core/simulation/eventScheduler';
+import { SeededRandom } from '../core/simulation/seededRandom';
+import { LinkModel } from './linkModel';
+import { TopologyBuilder, Topology } from './topology';
+import { NodeBehaviour, CensorStrategy, createConsensusStrategy } from '../core/consensus/consensusStrategy';
+import { TransactionFees } from '../types/types';
+
+/**
+ * What happens to messages between nodes on different sides of a partition
+ * - drop: they are lost
+ * - queue: they are held and delivered once the partition heals
+ */
+export type PartitionMode = 'drop' | 'queue';
 
 /**
  * NetworkManager class to manage a network of nodes
  * Simulates a peer-to-peer network by routing messages between nodes
+ * 
+ * Owns the simulation clock and event scheduler: message deliveries, slot processing
+ * and head sync broadcasts are all scheduler events in virtual time
+ * 
+ * Message timing and loss come from a per-link LinkModel; all randomness comes from
+ * one seeded PRNG, so a run is fully determined by its seed, start time and config
  */
 export class NetworkManager {
   /**
@@ -22,33 +43,206 @@ export class NetworkManager {
   private nodesMap: Map<string, NodeWorker> = new Map();
   private networkTopology: Map<string, string[]> = new Map();
   
+  // Virtual time, the queue of pending network events and the source of all randomness
+  private clock: SimulationClock;
+  private scheduler: EventScheduler;
+  private random: SeededRandom;
+  private linkModel: LinkModel;
+  private slotEventId: number | null = null;
+  private syncEventId: number | null = null;
+  
+  // Fault injection: the current partition (null = network is whole), cross-partition
+  // messages held until it heals, and nodes taken offline
+  private partition: { groups: string[][]; mode: PartitionMode; groupOf: Map<string, number> } | null = null;
+  private heldMessages: { message: Message; nodeId: string }[] = [];
+  private offlineNodeIds: Set<string> = new Set();
+  
+  // Nodes created so far, including removed ones - picks the next node's id and paint team
+  private createdNodeCount: number = 0;
+  
   // Shared beacon state initialization - all nodes start with same genesis time and validators
-  private beaconGenesisTime: number = Math.floor(Date.now() / 1000);
+  private beaconGenesisTime: number;
   private beaconValidators: Validator[] = [];
   
+  /**
+   * @param startTimeMs - Virtual time (UTC ms) the simulation starts at, genesis is the
+   *                      start of that second
+   * @param seed - Seed for the network's PRNG (same seed and config = same run)
+   */
+  constructor(
+    startTimeMs: number = SimulatorConfig.SIMULATION_START_TIME_MS,
+    seed: number = SimulatorConfig.RANDOM_SEED
+  ) {
+    this.clock = new SimulationClock(startTimeMs);
+    this.scheduler = new EventScheduler(this.clock);
+    this.random = new SeededRandom(seed);
+    this.linkModel = new LinkModel(this.random);
+    setSimulationClock(this.clock);
+    this.beaconGenesisTime = Math.floor(startTimeMs / 1000);
+  }
+  
+  /**
+   * Gets the scheduler driving this network (step, run as fast as possible, or real time)
+   */
+  getScheduler(): EventScheduler {
+    return this.scheduler;
+  }
+  
+  /**
+   * Gets the seeded PRNG of this network
+   */
+  getRandom(): SeededRandom {
+    return this.random;
+  }
+  
+  /**
+   * Gets the link model deciding latency, loss and bandwidth of every sender -> receiver link
+   */
+  getLinkModel(): LinkModel {
+    return this.linkModel;
+  }
+  
+  /**
+   * Gets the virtual clock of this network
+   */
+  getClock(): SimulationClock {
+    return this.clock;
+  }
+  
   /**
    * Creates a new node in the network
+   * The node joins the next EPM paint team in turn (independent of its id)
    */
   createNode(nodeId: string): NodeWorker {
+    setNodePaintColor(nodeId, getTeamPaintColor(this.createdNodeCount++));
+    
     // Create a new node worker with shared beacon state initialization
-    const nodeWorker = new NodeWorker(nodeId, this.beaconGenesisTime, this.beaconValidators);
+    const nodeWorker = this.createNodeWorker(nodeId);
     
     // Add this node as a validator
     // Schedule will be computed lazily when first slot is processed
     this.beaconValidators.push({
       nodeAddress: nodeWorker.getNodeAddress(),
-      stakedEth: 32
+      stakedEth: 32,
+      blsPublicKey: nodeWorker.getBLSPublicKey(),
+      withdrawalAddress: nodeWorker.getNodeAddress()
     });
     
-    // Set up message handling
-    nodeWorker.setOnOutgoingMessage(this.routeMessageFromNode.bind(this));
-    
     // Add the node to the network
     this.nodesMap.set(nodeId, nodeWorker);
     
     return nodeWorker;
   }
   
+  /**
+   * Creates a node worker starting from the shared genesis (time and validators)
+   * and connects its outgoing messages to the network
+   */
+  private createNodeWorker(nodeId: string): NodeWorker {
+    const nodeWorker = new NodeWorker(nodeId, this.beaconGenesisTime, this.beaconValidators);
+    nodeWorker.setOnOutgoingMessage(this.routeMessageFromNode.bind(this));
+    return nodeWorker;
+  }
+  
+  /**
+   * Adds a fresh node to a running network
+   * The node is not a genesis validator (it can deposit to become one). It starts from
+   * genesis and syncs the chain from its peers via Sync
+   * @param peerIds - Nodes to link it to (default: every node in a mesh, otherwise
+   *                  TOPOLOGY_DEGREE random nodes)
+   * @returns The new node's id
+   */
+  addNode(peerIds?: string[]): string {
+    const nodeId = generateUniqueNodeIds(this.createdNodeCount + 1)[this.createdNodeCount];
+    const existingIds = Array.from(this.nodesMap.keys());
+    const peers = peerIds ?? (SimulatorConfig.NETWORK_TOPOLOGY === 'mesh'
+      ? existingIds
+      : this.pickRandom(existingIds, SimulatorConfig.TOPOLOGY_DEGREE));
+    const unknownPeer = peers.find(peerId => !this.nodesMap.has(peerId));
+    if (unknownPeer) {
+      throw new Error(`Cannot link new node to unknown node "${unknownPeer}"`);
+    }
+    
+    setNodePaintColor(nodeId, getTeamPaintColor(this.createdNodeCount++));
+    const nodeWorker = this.createNodeWorker(nodeId);
+    nodeWorker.node.getBeaconState().setGenesisValidators(this.beaconValidators);
+    this.nodesMap.set(nodeId, nodeWorker);
+    
+    // Link both ends and refresh every node's peer addresses
+    const topology = this.getNetworkTopology();
+    topology.set(nodeId, [...peers]);
+    peers.forEach(peerId => topology.get(peerId)!.push(nodeId));
+    this.setupNetworkTopology(topology);
+    console.log(`[NetworkManager] Node ${nodeId} joined, linked to ${peers.join(', ') || 'no peers'}`);
+    
+    this.requestSync(nodeId);
+    return nodeId;
+  }
+  
+  /**
+   * Removes a node and its links from the network
+   * Its validator stays in the validator set, so it counts as offline stake from now on
+   */
+  removeNode(nodeId: string): void {
+    if (!this.nodesMap.delete(nodeId)) {
+      console.error(`Node ${nodeId} not found`);
+      return;
+    }
+    
+    const topology = this.getNetworkTopology();
+    topology.delete(nodeId);
+    topology.forEach((peerIds, peerId) => topology.set(peerId, peerIds.filter(id => id !== nodeId)));
+    this.setupNetworkTopology(topology);
+    
+    this.offlineNodeIds.delete(nodeId);
+    this.heldMessages = this.heldMessages.filter(held => held.nodeId !== nodeId);
+    console.log(`[NetworkManager] Node ${nodeId} left the network`);
+  }
+  
+  /**
+   * Crashes a node: it goes offline until restarted
+   */
+  crashNode(nodeId: string): void {
+    this.setNodeOnline(nodeId, false);
+  }
+  
+  /**
+   * Restarts a node and has its peers send it their heads so it catches up
+   * @param keepState - true: the node resumes with its local chain and state;
+   *                    false: its local state is lost and it syncs again from genesis
+   *                    (same id and keys, but no memory of its own earlier votes)
+   */
+  restartNode(nodeId: string, keepState: boolean = true): void {
+    const node = this.nodesMap.get(nodeId);
+    if (!node) {
+      console.error(`Node ${nodeId} not found`);
+      return;
+    }
+    
+    if (!keepState) {
+      const nodeWorker = this.createNodeWorker(nodeId);
+      nodeWorker.node.getBeaconState().setGenesisValidators(this.beaconValidators);
+      nodeWorker.setNetworkDelayMultiplier(node.getNetworkDelayMultiplier());
+      nodeWorker.node.getConsensus().setStrategy(node.node.getConsensus().getStrategy());
+      this.nodesMap.set(nodeId, nodeWorker);
+      this.setupNetworkTopology(this.networkTopology);
+    }
+    
+    this.offlineNodeIds.delete(nodeId);
+    console.log(`[NetworkManager] Node ${nodeId} restarted (${keepState ? 'kept' : 'lost'} its local state)`);
+    this.requestSync(nodeId);
+  }
+  
+  /**
+   * Has the online peers of a node send it their LMD-GHOST heads, so it requests any
+   * chain it is missing instead of waiting for the next sync round
+   */
+  private requestSync(nodeId: string): void {
+    for (const peerId of this.networkTopology.get(nodeId) || []) {
+      if (this.isNodeOnline(peerId)) this.nodesMap.get(peerId)?.sendGhostHead(nodeId);
+    }
+  }
+  
 
   
   /**
@@ -87,6 +281,18 @@ export class NetworkManager {
    * @returns Array of node IDs that were created
    */
   createFullyConnectedNetwork(nodeCount: number): string[] {
+    return this.createNetwork(nodeCount, 'mesh');
+  }
+  
+  /**
+   * Creates a network with the specified number of nodes linked in the given shape
+   * Broadcasts reach nodes that aren't direct peers through gossip relays
+   * @param topologyType - mesh, ring, star, line, random-regular, small-world or custom
+   *                       (options come from SimulatorConfig, random shapes use the seeded PRNG)
+   * @returns Array of node IDs that were created
+   * @throws Error if the topology cannot be built (the nodes are created first)
+   */
+  createNetwork(nodeCount: number, topologyType: string = SimulatorConfig.NETWORK_TOPOLOGY): string[] {
     // Generate unique phonetic node IDs ("Alpha", "Bravo", etc)
     const nodeIds = generateUniqueNodeIds(nodeCount);
     
@@ -95,25 +301,37 @@ export class NetworkManager {
       this.createNode(nodeId);
     }
     
-    // All nodes created - schedules will be computed lazily when first slot is processed
+    // All nodes created - give each node its own copy of the validator set
+    // so per-node balance changes (e.g. slashing) don't leak between nodes
+    for (const nodeWorker of this.nodesMap.values()) {
+      nodeWorker.node.getBeaconState().setGenesisValidators(this.beaconValidators);
+    }
+    
+    // Schedules will be computed lazily when first slot is processed
     console.log(`[NetworkManager] All ${nodeCount} nodes created with ${this.beaconValidators.length} validators.`);
     
-    // Set up the network topology (mesh)
-    const topology = new Map<string, string[]>();
-    for (const nodeId of nodeIds) {
-      // Each node is connected to all other nodes
-      topology.set(nodeId, nodeIds.filter(id => id !== nodeId));
-    }
-    this.setupNetworkTopology(topology);
+    // Set up the network topology
+    this.setupNetworkTopology(TopologyBuilder.build(topologyType, nodeIds, this.random));
+    console.log(`[NetworkManager] Linked nodes as ${topologyType}: ${TopologyBuilder.toAdjacencyText(this.networkTopology)}`);
     
     return nodeIds;
   }
   
+  /**
+   * Gets the peers of each node
+   */
+  getNetworkTopology(): Topology {
+    return new Map(Array.from(this.networkTopology, ([nodeId, peerIds]) => [nodeId, [...peerIds]]));
+  }
+  
   /**
    * Receives an outgoing message from a node and routes it through the network
    * Acts as the network layer that transmits messages between nodes
    */
   private routeMessageFromNode(message: Message): void {
+    // Offline nodes cannot send or relay anything
+    if (!this.isNodeOnline(this.getHopSender(message))) return;
+    
     // Delay is now applied per-recipient in deliverMessageToRecipients
     this.deliverMessageToRecipients(message);
   }
@@ -126,14 +344,7 @@ export class NetworkManager {
     if (message.toNodeId) {
       const targetNode = this.nodes.get(message.toNodeId);
       if (targetNode) {
-        // Apply recipient's delay multiplier
-        const baseDelay = this.getRandomNetworkDelay();
-        const multiplier = targetNode.getNetworkDelayMultiplier();
-        const actualDelay = baseDelay * multiplier;
-        
-        setTimeout(() => {
-          targetNode.receiveIncomingMessage(message);
-        }, actualDelay);
+        this.scheduleDelivery(message, message.toNodeId, targetNode);
       } else {
         // Silently drop the message if the target node no longer exists
         // This can happen during test cleanup when nodes are removed
@@ -142,32 +353,245 @@ export class NetworkManager {
       return;
     }
     
-    // Otherwise, it's a broadcast message - send to all peers of the sender
-    const senderPeers = this.networkTopology.get(message.fromNodeId) || [];
-    console.log(`[NetworkManager] 🌐 Broadcasting ${message.type} from ${message.fromNodeId.slice(0, 8)} to ${senderPeers.length} peers: ${senderPeers.map(p => p.slice(0, 8)).join(', ')}`);
+    // Otherwise, it's a gossip broadcast - send to the peers of the node publishing or relaying it
+    const senderId = this.getHopSender(message);
+    const senderPeers = this.selectGossipPeers(senderId, message);
+    console.log(`[NetworkManager] 🌐 ${message.relayedBy ? 'Relaying' : 'Broadcasting'} ${message.type} from ${senderId.slice(0, 8)} to ${senderPeers.length} peers: ${senderPeers.map(p => p.slice(0, 8)).join(', ')}`);
     
     for (const peerId of senderPeers) {
       const peerNode = this.nodes.get(peerId);
       if (peerNode) {
-        // Apply recipient's delay multiplier
-        const baseDelay = this.getRandomNetworkDelay();
-        const multiplier = peerNode.getNetworkDelayMultiplier();
-        const actualDelay = baseDelay * multiplier;
-        console.log(`[NetworkManager] 🌐 Broadcasting ${message.type} from ${message.fromNodeId.slice(0, 8)} to ${peerId.slice(0, 8)} with delay ${actualDelay.toFixed(2)}ms`);
-        setTimeout(() => {
-          peerNode.receiveIncomingMessage(message);
-        }, actualDelay);
+        this.scheduleDelivery(message, peerId, peerNode);
+      }
+    }
+  }
+  
+  /**
+   * Picks the peers a node sends a broadcast to: all its peers except the message's author,
+   * or a random GOSSIP_FANOUT of them
+   */
+  private selectGossipPeers(senderId: string, message: Message): string[] {
+    const peers = (this.networkTopology.get(senderId) || []).filter(peerId => peerId !== message.fromNodeId);
+    const fanout = SimulatorConfig.GOSSIP_FANOUT;
+    return fanout > 0 ? this.pickRandom(peers, fanout) : peers;
+  }
+  
+  /**
+   * Picks `count` random items (all of them if there are no more than `count`)
+   * Partial Fisher-Yates shuffle with the seeded PRNG
+   */
+  private pickRandom(items: string[], count: number): string[] {
+    if (count >= items.length) return [...items];
+    
+    const picked = [...items];
+    for (let i = 0; i < count; i++) {
+      const j = this.random.nextInt(i, picked.length - 1);
+      [picked[i], picked[j]] = [picked[j], picked[i]];
+    }
+    return picked.slice(0, count);
+  }
+  
+  /**
+   * Node that sent this copy of a message over the wire (the relaying node for gossip relays)
+   */
+  private getHopSender(message: Message): string {
+    return message.relayedBy ?? message.fromNodeId;
+  }
+  
+  /**
+   * Schedules a message to arrive at one node as decided by the link model
+   * (latency scaled by the recipient's delay multiplier, possibly lost or duplicated)
+   */
+  private scheduleDelivery(message: Message, nodeId: string, node: NodeWorker): void {
+    const delays = this.linkModel.planDelivery(this.getHopSender(message), nodeId, message, this.clock.now(), node.getNetworkDelayMultiplier());
+    
+    for (const delay of delays) {
+      this.scheduler.schedule(delay, () => this.deliverMessage(message, nodeId), `${message.type} to ${nodeId}`);
+    }
+  }
+  
+  /**
+   * Hands a message to its recipient on arrival
+   * Dropped if the recipient is offline or has left; if a partition separates sender and recipient
+   * the message is dropped or held until the partition heals (depending on the partition mode)
+   */
+  private async deliverMessage(message: Message, nodeId: string): Promise<void> {
+    // Look the node up on arrival - it may have left or restarted without its state
+    const node = this.nodesMap.get(nodeId);
+    if (!node || !this.isNodeOnline(nodeId)) return;
+    
+    if (!this.canReach(this.getHopSender(message), nodeId)) {
+      if (this.partition?.mode === 'queue') {
+        this.heldMessages.push({ message, nodeId });
       }
+      return;
+    }
+    
+    await node.receiveIncomingMessage(message);
+  }
+  
+  /**
+   * Virtual time (UTC ms) at which a slot starts
+   */
+  getSlotStartTime(slot: number): number {
+    return this.beaconGenesisTime * 1000 + slot * SimulatorConfig.SECONDS_PER_SLOT * 1000;
+  }
+  
+  /**
+   * Splits the network into groups that cannot exchange messages
+   * Nodes not listed in any group form one extra group together
+   * @param groups - Node ids of each side of the partition
+   * @param mode - 'drop' loses cross-partition messages, 'queue' delivers them when the partition heals
+   */
+  setPartition(groups: string[][], mode: PartitionMode = 'drop'): void {
+    const groupOf = new Map<string, number>();
+    groups.forEach((group, index) => {
+      for (const nodeId of group) {
+        groupOf.set(nodeId, index);
+      }
+    });
+    
+    // Messages held by an earlier partition stay held until the network heals
+    this.partition = { groups: groups.map(group => [...group]), mode, groupOf };
+    console.log(`[NetworkManager] Partitioned network (${mode}): ${groups.map(group => `[${group.join(', ')}]`).join(' | ')}`);
+  }
+  
+  /**
+   * Removes the partition - all nodes can exchange messages again
+   * Messages held back by a 'queue' partition are sent again with a fresh network delay
+   */
+  healPartition(): void {
+    this.partition = null;
+    
+    const heldMessages = this.heldMessages;
+    this.heldMessages = [];
+    for (const { message, nodeId } of heldMessages) {
+      const node = this.nodes.get(nodeId);
+      if (node) {
+        this.scheduleDelivery(message, nodeId, node);
+      }
+    }
+    console.log(`[NetworkManager] Partition healed - delivering ${heldMessages.length} held messages`);
+  }
+  
+  /**
+   * Gets the current partition (null when the network is whole)
+   */
+  getPartition(): { groups: string[][]; mode: PartitionMode } | null {
+    return this.partition && { groups: this.partition.groups, mode: this.partition.mode };
+  }
+  
+  /**
+   * Gets the partition group index of a node (null when the network is whole)
+   * Nodes not listed in any group share the index after the last group
+   */
+  getPartitionGroup(nodeId: string): number | null {
+    if (!this.partition) return null;
+    return this.partition.groupOf.get(nodeId) ?? this.partition.groups.length;
+  }
+  
+  /**
+   * Number of cross-partition messages waiting for the partition to heal
+   */
+  getHeldMessageCount(): number {
+    return this.heldMessages.length;
+  }
+  
+  /**
+   * Whether a message from one node can reach another under the current partition
+   */
+  private canReach(fromNodeId: string, toNodeId: string): boolean {
+    return this.getPartitionGroup(fromNodeId) === this.getPartitionGroup(toNodeId);
+  }
+  
+  /**
+   * Takes a node offline or brings it back
+   * Offline nodes neither process slots nor send or receive messages, so an offline
+   * validator misses its proposals and attestations; once back it catches up via sync
+   */
+  setNodeOnline(nodeId: string, online: boolean): void {
+    if (online) {
+      this.offlineNodeIds.delete(nodeId);
+    } else {
+      this.offlineNodeIds.add(nodeId);
+    }
+    console.log(`[NetworkManager] Node ${nodeId} is now ${online ? 'online' : 'offline'}`);
+  }
+  
+  /**
+   * Whether a node is online
+   */
+  isNodeOnline(nodeId: string): boolean {
+    return !this.offlineNodeIds.has(nodeId);
+  }
+  
+  /**
+   * Sets how a node's validator behaves: honestly or with one of the Byzantine strategies
+   * @param censoredNodeIds - Nodes whose transactions and attestations a censor leaves out of its blocks
+   * @throws Error for unknown behaviours
+   */
+  setNodeBehaviour(nodeId: string, behaviour: NodeBehaviour, censoredNodeIds: string[] = []): void {
+    const node = this.nodesMap.get(nodeId);
+    if (!node) {
+      console.error(`Node ${nodeId} not found`);
+      return;
+    }
+    
+    const censoredAddresses = censoredNodeIds
+      .map(censoredId => this.nodesMap.get(censoredId)?.getNodeAddress())
+      .filter((address): address is string => address !== undefined);
+    node.node.getConsensus().setStrategy(createConsensusStrategy(behaviour, { censoredAddresses }));
+  }
+  
+  /**
+   * Starts processing slots: every node runs its slot logic PROPOSER_BUFFER_MS after
+   * each slot boundary (in virtual time)
+   */
+  startSlotProcessing(): void {
+    this.stopSlotProcessing();
+    
+    const slotMs = SimulatorConfig.SECONDS_PER_SLOT * 1000;
+    const nextSlot = Math.max(0, Math.ceil((this.clock.now() - this.getSlotStartTime(0) - SimulatorConfig.PROPOSER_BUFFER_MS) / slotMs));
+    const firstTime = this.getSlotStartTime(nextSlot) + SimulatorConfig.PROPOSER_BUFFER_MS;
+    
+    this.slotEventId = this.scheduler.scheduleRepeating(slotMs, () => this.processAllSlots(), 'slot', firstTime);
+  }
+  
+  /**
+   * Stops processing slots (messages in flight are still delivered)
+   */
+  stopSlotProcessing(): void {
+    if (this.slotEventId !== null) {
+      this.scheduler.cancel(this.slotEventId);
+      this.slotEventId = null;
+    }
+  }
+  
+  /**
+   * Starts broadcasting LMD-GHOST heads from all nodes every SYNC_INTERVAL_MS
+   */
+  startSync(): void {
+    this.stopSync();
+    this.syncEventId = this.scheduler.scheduleRepeating(SimulatorConfig.SYNC_INTERVAL_MS, () => this.broadcastAllGhostHeads(), 'sync');
+  }
+  
+  /**
+   * Stops broadcasting LMD-GHOST heads
+   */
+  stopSync(): void {
+    if (this.syncEventId !== null) {
+      this.scheduler.cancel(this.syncEventId);
+      this.syncEventId = null;
     }
   }
   
   /**
    * Broadcasts LMD-GHOST heads from all nodes
-   * Called periodically (every second) for PoS synchronization
+   * Called periodically (every SYNC_INTERVAL_MS) for PoS synchronization
    */
   broadcastAllGhostHeads(): void {
-    for (const node of this.nodesMap.values()) {
-      node.broadcastGhostHead();
+    for (const [nodeId, node] of this.nodesMap.entries()) {
+      if (this.isNodeOnline(nodeId)) node.broadcastGhostHead();
     }
   }
   
@@ -179,10 +603,10 @@ export class NetworkManager {
    * - If not proposer: wait for block from proposer
    */
   async processAllSlots(): Promise<void> {
-    // Process slots for all nodes in parallel (each calculates slot based on time)
-    const promises = Array.from(this.nodesMap.values()).map(node => 
-      node.processSlot()
-    );
+    // Process slots for all online nodes in parallel (each calculates slot based on time)
+    const promises = Array.from(this.nodesMap.entries())
+      .filter(([nodeId]) => this.isNodeOnline(nodeId))
+      .map(([, node]) => node.processSlot());
     await Promise.all(promises);
   }
   
@@ -191,9 +615,17 @@ export class NetworkManager {
    * Used for test cleanup and when shutting down the network
    */
   stopAllNodes(): void {
-    // Clear any references or resources
+    // Stop the simulation and clear any references or resources
+    this.scheduler.stopRealTime();
+    this.stopSlotProcessing();
+    this.stopSync();
     this.nodesMap.clear();
     this.networkTopology.clear();
+    this.partition = null;
+    this.heldMessages = [];
+    this.offlineNodeIds.clear();
+    this.createdNodeCount = 0;
+    this.beaconValidators = [];
   }
   
   /**
@@ -224,10 +656,18 @@ export class NetworkManager {
   getNetworkState(): Record<string, any> {
     const state: Record<string, any> = {};
     
+    const addressToNodeId = this.getAddressToNodeIdMapping();
     for (const [nodeId, node] of this.nodesMap.entries()) {
+      const strategy = node.node.getConsensus().getStrategy();
       state[nodeId] = {
         ...node.getState(),
-        networkDelayMultiplier: node.getNetworkDelayMultiplier()
+        behaviour: strategy.behaviour,
+        censoredNodeIds: strategy instanceof CensorStrategy
+          ? strategy.getCensoredAddresses().map(address => addressToNodeId[address] ?? address)
+          : [],
+        networkDelayMultiplier: node.getNetworkDelayMultiplier(),
+        online: this.isNodeOnline(nodeId),
+        partitionGroup: this.getPartitionGroup(nodeId)
       };
     }
     
@@ -254,16 +694,18 @@ export class NetworkManager {
    * @param nodeId ID of the node to add transaction to
    * @param recipient Recipient address
    * @param amount Amount in ETH
+   * @param data Optional contract call data
+   * @param fees Max fee and tip per gas in gwei (default: the node picks them from its head's base fee)
    * @returns true if transaction was added successfully
    */
-  async addTransactionToNodeMempool(nodeId: string, recipient: string, amount: number): Promise<boolean> {
+  async addTransactionToNodeMempool(nodeId: string, recipient: string, amount: number, data?: string, fees?: Partial<TransactionFees>): Promise<boolean> {
     const node = this.nodesMap.get(nodeId);
     if (!node) {
       console.error(`Node ${nodeId} not found`);
       return false;
     }
     
-    return await node.addTransactionToMempool(recipient, amount);
+    return await node.addTransactionToMempool(recipient, amount, data, fees);
   }
   
   /**
@@ -291,15 +733,4 @@ export class NetworkManager {
       consensus.consensusStatus = status;
     });
   }
-  
-  /**
-   * Generates a random network delay to simulate network latency
-   */
-  private getRandomNetworkDelay(): number {
-    // Simulate network latency between MIN_DELAY and MAX_DELAY
-    const MIN_DELAY = SimulatorConfig.MIN_NETWORK_DELAY_MS || 50;
-    const MAX_DELAY = SimulatorConfig.MAX_NETWORK_DELAY_MS || 200;
-    
-    return Math.floor(Math.random() * (MAX_DELAY - MIN_DELAY + 1)) + MIN_DELAY;
-  }
 }
@@ -1,5 +1,5 @@
 import { Node } from '../core/node';
-import { Block, PeerInfoMap, Attestation } from '../types/types';
+import { Block, PeerInfoMap, Attestation, TransactionFees } from '../types/types';
 import { Validator } from '../core/consensus/beaconState';
 import { 
   Message, 
@@ -11,15 +11,37 @@ import {
   ProposerBlockBroadcastMessage
 } from './messages';
 import { createSignedTransaction } from '../core/blockchain/transaction';
+import { calculateNextBaseFee, suggestTransactionFees } from '../core/blockchain/gas';
+import { SimulatorConfig } from '../config/config';
+import { simulationNow } from '../core/simulation/simulationClock';
+
+/**
+ * Counters of a node's gossip traffic
+ */
+export interface GossipStats {
+  published: number;   // Broadcasts this node created
+  relayed: number;     // Broadcasts this node forwarded for others
+  duplicates: number;  // Copies ignored because the message was already seen
+}
 
 /**
  * NodeWorker class that wraps a Node instance and handles message passing
  * This simulates a node running in its own process/thread
+ * 
+ * Broadcasts are gossiped: each node handles a broadcast it hasn't seen, and if it is
+ * valid forwards it to its own peers, so messages reach nodes that aren't direct peers
+ * of the sender (ring, star and random topologies)
  */
 export class NodeWorker {
   private _node: Node;
   private onOutgoingMessageCallback?: (message: Message) => void;
   
+  // Gossip: message ids already seen (with the virtual time first seen, oldest first)
+  // and the sequence number used for ids of this node's own broadcasts
+  private seenMessages: Map<string, number> = new Map();
+  private messageSequence: number = 0;
+  private gossipStats: GossipStats = { published: 0, relayed: 0, duplicates: 0 };
+  
   /**
    * Gets the underlying Node instance
    * @returns The Node instance
@@ -36,16 +58,12 @@ export class NodeWorker {
     
     // Set up callback for Sync to send messages
     this._node.getSync().setMessageCallback((message: any) => {
-      if (this.onOutgoingMessageCallback) {
-        this.onOutgoingMessageCallback(message as Message);
-      }
+      this.publish(message as Message);
     });
     
     // Set up callback for Consensus to send messages
     this._node.getConsensus().setMessageCallback((message: any) => {
-      if (this.onOutgoingMessageCallback) {
-        this.onOutgoingMessageCallback(message as Message);
-      }
+      this.publish(message as Message);
     });
   }
   
@@ -59,11 +77,23 @@ export class NodeWorker {
   
   /**
    * Receives and processes incoming messages from other nodes via the network
+   * Resolves once the message is fully processed, so the network scheduler can run
+   * deliveries one after another
    */
-  receiveIncomingMessage(message: Message): void {
+  async receiveIncomingMessage(message: Message): Promise<void> {
+    // Broadcasts arrive once per path through the network - only the first copy is handled
+    if (message.messageId) {
+      if (this.hasSeen(message.messageId)) {
+        this.gossipStats.duplicates++;
+        return;
+      }
+      this.markSeen(message.messageId);
+    }
+    
+    let valid = true;
     switch (message.type) {
       case MessageType.ATTESTATION:
-        this.handleAttestation(message as AttestationMessage);
+        valid = await this.handleAttestation(message as AttestationMessage);
         break;
       case MessageType.LMD_GHOST_BROADCAST:
         this.handleLmdGhostBroadcast(message as LmdGhostBroadcastMessage);
@@ -72,14 +102,76 @@ export class NodeWorker {
         this.handleChainRequest(message as ChainRequestMessage);
         break;
       case MessageType.CHAIN_RESPONSE:
-        this.handleChainResponse(message as ChainResponseMessage);
+        await this.handleChainResponse(message as ChainResponseMessage);
         break;
       case MessageType.PROPOSER_BLOCK_BROADCAST:
-        this.handleProposerBlockBroadcast(message as ProposerBlockBroadcastMessage);
+        valid = await this.handleProposerBlockBroadcast(message as ProposerBlockBroadcastMessage);
         break;
       default:
         console.error(`Unknown message type: ${(message as any).type}`);
+        valid = false;
+    }
+    
+    // Invalid broadcasts are not passed on
+    if (valid) {
+      this.relay(message);
+    }
+  }
+  
+  /**
+   * Gets counters of this node's gossip traffic
+   */
+  getGossipStats(): GossipStats {
+    return { ...this.gossipStats };
+  }
+  
+  /**
+   * Sends a message created by this node's Sync or Consensus onto the network
+   * Broadcasts get a gossip envelope: a unique id and the number of times they may be relayed
+   */
+  private publish(message: Message): void {
+    if (!this.onOutgoingMessageCallback) return;
+    
+    if (message.toNodeId) {
+      this.onOutgoingMessageCallback(message);
+      return;
+    }
+    
+    const messageId = `${this._node.getNodeId()}:${++this.messageSequence}`;
+    this.markSeen(messageId);
+    this.gossipStats.published++;
+    this.onOutgoingMessageCallback({ ...message, messageId, hopsLeft: SimulatorConfig.GOSSIP_MAX_HOPS });
+  }
+  
+  /**
+   * Forwards a broadcast to this node's peers while it has hops left
+   */
+  private relay(message: Message): void {
+    if (!message.messageId || !message.hopsLeft || !this.onOutgoingMessageCallback) return;
+    
+    this.gossipStats.relayed++;
+    this.onOutgoingMessageCallback({ ...message, hopsLeft: message.hopsLeft - 1, relayedBy: this._node.getNodeId() });
+  }
+  
+  /**
+   * Checks whether a message id was seen within the last GOSSIP_SEEN_TTL_SLOTS slots
+   */
+  private hasSeen(messageId: string): boolean {
+    // Forget ids older than the TTL - the map is in the order ids were first seen
+    const cutoff = simulationNow() - SimulatorConfig.GOSSIP_SEEN_TTL_SLOTS * SimulatorConfig.SECONDS_PER_SLOT * 1000;
+    for (const [seenId, seenAt] of this.seenMessages) {
+      if (seenAt >= cutoff) break;
+      this.seenMessages.delete(seenId);
     }
+    
+    return this.seenMessages.has(messageId);
+  }
+  
+  /**
+   * Remembers a message id as seen now
+   */
+  private markSeen(messageId: string): void {
+    this.seenMessages.set(messageId, simulationNow());
   }
   
   /**
@@ -97,6 +189,13 @@ export class NodeWorker {
     return this._node.getAddress();
   }
   
+  /**
+   * Gets the BLS public key (validator key) of this node
+   */
+  getBLSPublicKey(): string {
+    return this._node.getBLSPublicKey();
+  }
+  
   /**
    * Gets the current state of the node
    */
@@ -107,25 +206,29 @@ export class NodeWorker {
   /**
    * Handles an attestation message from another validator
    * Adds the attestation to the local beacon pool
+   * @returns false if the attestation was rejected
    */
-  private handleAttestation(message: AttestationMessage): void {
+  private async handleAttestation(message: AttestationMessage): Promise<boolean> {
     console.log(`[NodeWorker ${this._node.getAddress().slice(0, 8)}] 📥 Received attestation from ${message.fromNodeId.slice(0, 8)} for block ${message.attestation.blockHash.slice(0, 8)}`);
     
     // Add attestation to beacon state's beacon pool
     const beaconState = this._node.getState().beaconState;
-    if (beaconState) {
-      beaconState.addAttestation(message.attestation);
+    if (!beaconState) return false;
+    
+    const added = await beaconState.addAttestation(message.attestation);
+    if (added) {
       console.log(`[NodeWorker ${this._node.getAddress().slice(0, 8)}] ✅ Added attestation to beacon pool. Latest attestations count: ${beaconState.latestAttestations.size}`);
     }
+    return added;
   }
   
   /**
    * Handles LMD-GHOST broadcast message
-   * Thin wrapper - delegates to Sync class
+   * Thin wrapper - delegates to Sync class (which requests missing chains from the delivering peer)
    */
   private handleLmdGhostBroadcast(message: LmdGhostBroadcastMessage): void {
     const sync = this._node.getSync();
-    sync.handleGhostBroadcast(message.fromNodeId, message.ghostHeadHash);
+    sync.handleGhostBroadcast(message.relayedBy ?? message.fromNodeId, message.ghostHeadHash);
   }
   
   /**
@@ -141,19 +244,20 @@ export class NodeWorker {
    * Handles chain response message
    * Thin wrapper - delegates to Sync class
    */
-  private handleChainResponse(message: ChainResponseMessage): void {
+  private async handleChainResponse(message: ChainResponseMessage): Promise<void> {
     const sync = this._node.getSync();
-    sync.handleChainResponse(message.requestedHeadHash, message.blocks);
+    await sync.handleChainResponse(message.requestedHeadHash, message.blocks);
   }
   
   /**
    * Handles a block broadcast from a proposer
    * Validators receive this and attest to the block
+   * @returns false if the block could not be added
    */
-  private handleProposerBlockBroadcast(message: ProposerBlockBroadcastMessage): void {
+  private async handleProposerBlockBroadcast(message: ProposerBlockBroadcastMessage): Promise<boolean> {
     console.log(`[NodeWorker ${this._node.getAddress().slice(0, 8)}] 📦 Received proposer block ${message.block.hash?.slice(0, 8)} for slot ${message.slot} from ${message.fromNodeId.slice(0, 8)}`);
     const consensus = this._node.getConsensus();
-    consensus.handleProposedBlock(message.block, message.slot, message.fromNodeId);
+    return consensus.handleProposedBlock(message.block, message.slot, message.fromNodeId);
   }
   
   /**
@@ -165,6 +269,14 @@ export class NodeWorker {
     sync.broadcastGhostHead();
   }
   
+  /**
+   * Sends this node's LMD-GHOST head to one node (to bootstrap a joining or restarted node)
+   */
+  sendGhostHead(toNodeId: string): void {
+    const sync = this._node.getSync();
+    sync.sendGhostHead(toNodeId);
+  }
+  
   /**
    * Processes a consensus slot
    * Called periodically (every 12 seconds) to run PoS consensus
@@ -178,9 +290,11 @@ export class NodeWorker {
    * Creates and adds a transaction to this node's mempool
    * @param recipient Recipient address
    * @param amount Amount in ETH
+   * @param data Optional contract call data
+   * @param fees Max fee and tip per gas in gwei (default: a wallet's suggestion for the next block)
    * @returns true if transaction was added successfully
    */
-  async addTransactionToMempool(recipient: string, amount: number): Promise<boolean> {
+  async addTransactionToMempool(recipient: string, amount: number, data?: string, fees: Partial<TransactionFees> = {}): Promise<boolean> {
     // Get current nonce from world state
     const worldState = this._node.getWorldState();
     const senderAddress = this._node.getAddress();
@@ -188,12 +302,17 @@ export class NodeWorker {
     const baseNonce = senderAccount ? senderAccount.nonce : 0;
     
     // Count pending transactions from this sender in mempool to calculate next nonce
+    // (ones our head already includes have nonces below the base and are not pending)
     const mempoolTransactions = this._node.getMempoolTransactions(1000); // Get all mempool transactions
-    const pendingFromSender = mempoolTransactions.filter(tx => tx.from === senderAddress).length;
+    const pendingFromSender = mempoolTransactions.filter(tx => tx.from === senderAddress && tx.nonce >= baseNonce).length;
     const nonce = baseNonce + pendingFromSender;
     
     console.log(`Creating transaction with nonce ${nonce} (base: ${baseNonce}, pending: ${pendingFromSender})`);
     
+    // Offer fees based on the base fee of the block after our head
+    const latestBlock = this._node.getLatestBlock();
+    const nextBaseFee = latestBlock ? calculateNextBaseFee(latestBlock.header) : SimulatorConfig.INITIAL_BASE_FEE_GWEI;
+    
     // Create a signed transaction
     const transaction = await createSignedTransaction(
       senderAddress,
@@ -201,7 +320,8 @@ export class NodeWorker {
       amount,
       nonce,
       this._node.getPrivateKey(),
-      this._node.getPublicKey()
+      suggestTransactionFees(nextBaseFee, fees),
+      data
     );
     
     // Add to mempool
@@ -0,0 +1,399 @@
+import { NetworkManager, PartitionMode } from './networkManager';
+import { SimulationRunner, SimulationSummary, NodeSummary } from './simulationRunner';
+import { SimulatorConfig } from '../config/config';
+import { LinkProfile } from './linkModel';
+import { NodeBehaviour, NODE_BEHAVIOURS } from '../core/consensus/consensusStrategy';
+
+/**
+ * Something a scenario does to the network at the start of a slot
+ * Nodes are referred to by node id ("Blue", "Green", ...)
+ */
+export type ScenarioAction =
+  | { type: 'partition'; groups: string[][]; mode?: PartitionMode }         // Split the network, unlisted nodes form one more group
+  | { type: 'heal' }                                                        // Remove the partition
+  | { type: 'setDelayMultiplier'; node: string; multiplier: number }        // Same as the slider in NodeSettingsModal
+  | { type: 'setLink'; from: string; to: string; profile: Partial<LinkProfile>; bidirectional?: boolean }  // Latency, loss, bandwidth of one link
+  | { type: 'submitTransaction'; from: string; to: string; amount: number; data?: string }  // `to` is a node id or an address
+  | { type: 'setOnline'; node: string; online: boolean }                    // Take a validator offline or bring it back
+  | { type: 'addNode'; peers?: string[] }                                    // A fresh non-validator node joins and syncs from genesis
+  | { type: 'removeNode'; node: string }                                    // A node leaves for good (its validator stays, offline)
+  | { type: 'crash'; node: string }                                         // A node stops until restarted
+  | { type: 'restart'; node: string; keepState?: boolean }                  // Restart a node, wiping its state unless keepState
+  | { type: 'setBehaviour'; node: string; behaviour: NodeBehaviour; censor?: string[] }  // Honest or a Byzantine strategy (censor: node ids left out)
+  | { type: 'setSync'; enabled: boolean }                                   // Toggle LMD-GHOST head broadcasts
+  | { type: 'assert'; condition: ScenarioCondition };                       // Check the network state
+
+/**
+ * Per-node metrics a condition can compare
+ */
+export type ScenarioMetric = 'finalizedEpoch' | 'justifiedEpoch' | 'headSlot' | 'height' | 'reorgCount' | 'slashedValidators';
+
+/**
+ * Comparison operators for conditions
+ */
+export type ScenarioOperator = '>=' | '>' | '<=' | '<' | '==' | '!=';
+
+/**
+ * Condition checked by an assert action
+ * Metric conditions must hold on the given node, or on every online node if none is given
+ */
+export type ScenarioCondition =
+  | { metric: ScenarioMetric; op: ScenarioOperator; value: number; node?: string }
+  | { metric: 'headsAgree'; value: boolean };
+
+/**
+ * An action and the slot at whose start it runs
+ */
+export interface ScenarioStep {
+  slot: number;
+  action: ScenarioAction;
+}
+
+/**
+ * A scripted run: network setup, actions and assertions by slot
+ * Plain JSON, so scenarios can be stored as files (see src/network/scenarios)
+ */
+export interface Scenario {
+  name: string;
+  description?: string;
+  slots: number;                                        // Length of the run
+  nodeCount?: number;                                   // Defaults to SimulatorConfig.NODE_COUNT
+  seed?: number;                                        // Defaults to SimulatorConfig.RANDOM_SEED
+  config?: Partial<typeof SimulatorConfig>;             // Config overrides for the run
+  steps: ScenarioStep[];
+}
+
+/**
+ * Progress of one scenario step
+ */
+export interface ScenarioStepResult {
+  slot: number;
+  description: string;
+  status: 'pending' | 'done' | 'passed' | 'failed' | 'error';
+  detail?: string;                                      // Observed values or error message
+}
+
+/**
+ * A scenario scheduled on a network, updated as its steps run
+ */
+export interface ScenarioRun {
+  scenario: Scenario;
+  steps: ScenarioStepResult[];
+}
+
+/**
+ * Outcome of a headless scenario run
+ */
+export interface ScenarioReport {
+  passed: boolean;                                      // No failed assertions and no failed actions
+  steps: ScenarioStepResult[];
+  summary: SimulationSummary;
+}
+
+const METRICS: ScenarioMetric[] = ['finalizedEpoch', 'justifiedEpoch', 'headSlot', 'height', 'reorgCount', 'slashedValidators'];
+const OPERATORS: ScenarioOperator[] = ['>=', '>', '<=', '<', '==', '!='];
+
+/**
+ * ScenarioRunner - Scripted network events for reproducing forks, partitions and faults
+ *
+ * A scenario schedules actions on the network's event scheduler at the start of given
+ * slots (before the slot's proposals), so it runs the same way in the UI (real time)
+ * and headless (as fast as possible, e.g. from tests or the command-line runner).
+ */
+export class ScenarioRunner {
+  /**
+   * Validate a scenario parsed from JSON
+   * @param input - Scenario object or JSON text
+   * @throws Error describing the first problem found
+   */
+  static parse(input: unknown): Scenario {
+    const scenario = (typeof input === 'string' ? JSON.parse(input) : input) as Scenario;
+    if (!scenario || typeof scenario !== 'object') throw new Error('Scenario must be an object');
+    if (typeof scenario.name !== 'string') throw new Error('Scenario needs a "name"');
+    if (!Number.isInteger(scenario.slots) || scenario.slots <= 0) throw new Error('Scenario needs a positive integer "slots"');
+    if (!Array.isArray(scenario.steps)) throw new Error('Scenario needs a "steps" array');
+
+    scenario.steps.forEach((step, i) => {
+      if (!Number.isInteger(step?.slot) || step.slot < 0) throw new Error(`Step ${i}: "slot" must be a non-negative integer`);
+      if (step.slot >= scenario.slots) throw new Error(`Step ${i}: slot ${step.slot} is past the end of the scenario (${scenario.slots} slots)`);
+      ScenarioRunner.validateAction(step.action, `Step ${i}`);
+    });
+    return scenario;
+  }
+
+  /**
+   * Schedule a scenario's steps on a network
+   * Slots are counted from genesis; steps for slots that already started run immediately
+   * @param onUpdate - Called after every step (e.g. to refresh the UI)
+   */
+  static schedule(networkManager: NetworkManager, scenario: Scenario, onUpdate?: (run: ScenarioRun) => void): ScenarioRun {
+    const run: ScenarioRun = {
+      scenario,
+      steps: scenario.steps.map(step => ({ slot: step.slot, description: ScenarioRunner.describe(step.action), status: 'pending' }))
+    };
+
+    const scheduler = networkManager.getScheduler();
+    scenario.steps.forEach((step, i) => {
+      scheduler.scheduleAt(networkManager.getSlotStartTime(step.slot), async () => {
+        const result = run.steps[i];
+        try {
+          const detail = await ScenarioRunner.runAction(networkManager, step.action);
+          if (step.action.type === 'assert') {
+            result.status = detail.passed ? 'passed' : 'failed';
+            console.log(`[Scenario] Slot ${step.slot}: ${result.description} - ${result.status} (${detail.message})`);
+          } else {
+            result.status = 'done';
+            console.log(`[Scenario] Slot ${step.slot}: ${result.description}`);
+          }
+          result.detail = detail.message;
+        } catch (error) {
+          result.status = 'error';
+          result.detail = (error as Error).message;
+          console.error(`[Scenario] Slot ${step.slot}: ${result.description} failed:`, error);
+        }
+        onUpdate?.(run);
+      }, `scenario: ${run.steps[i].description}`);
+    });
+
+    console.log(`[Scenario] Scheduled "${scenario.name}" with ${scenario.steps.length} steps`);
+    return run;
+  }
+
+  /**
+   * Run a scenario headless on a fresh network
+   */
+  static async run(scenario: Scenario): Promise<ScenarioReport> {
+    let run: ScenarioRun | undefined;
+    const summary = await SimulationRunner.run({
+      slots: scenario.slots,
+      nodeCount: scenario.nodeCount,
+      configOverrides: {
+        ...scenario.config,
+        ...(scenario.seed !== undefined ? { RANDOM_SEED: scenario.seed } : {})
+      },
+      setup: networkManager => { run = ScenarioRunner.schedule(networkManager, scenario); }
+    });
+
+    // Steps past the last slot never ran (the run was made shorter than the scenario)
+    const steps = run!.steps;
+    for (const step of steps) {
+      if (step.status === 'pending') {
+        step.status = 'error';
+        step.detail = `Never ran - the run ended before slot ${step.slot} (${scenario.slots} slots)`;
+      }
+    }
+    return {
+      passed: steps.every(step => step.status === 'done' || step.status === 'passed'),
+      steps,
+      summary
+    };
+  }
+
+  /**
+   * One-line description of an action
+   */
+  static describe(action: ScenarioAction): string {
+    switch (action.type) {
+      case 'partition': return `Partition ${action.groups.map(group => `[${group.join(', ')}]`).join(' | ')}${action.mode === 'queue' ? ' (queue messages)' : ''}`;
+      case 'heal': return 'Heal partition';
+      case 'setDelayMultiplier': return `Set ${action.node} network delay x${action.multiplier}`;
+      case 'setLink': return `Set link ${action.from} ${action.bidirectional ? '<->' : '->'} ${action.to}: ${Object.entries(action.profile).map(([key, value]) => `${key}=${value}`).join(', ')}`;
+      case 'submitTransaction': return `${action.from} sends ${action.amount} ETH to ${action.to}`;
+      case 'setOnline': return `Take ${action.node} ${action.online ? 'online' : 'offline'}`;
+      case 'addNode': return `Add a node${action.peers ? ` linked to ${action.peers.join(', ')}` : ''}`;
+      case 'removeNode': return `Remove ${action.node}`;
+      case 'crash': return `Crash ${action.node}`;
+      case 'restart': return `Restart ${action.node} ${action.keepState === false ? 'from genesis' : 'with its state'}`;
+      case 'setBehaviour': return `${action.node} becomes ${action.behaviour}${action.censor ? ` (censoring ${action.censor.join(', ')})` : ''}`;
+      case 'setSync': return `${action.enabled ? 'Enable' : 'Disable'} sync`;
+      case 'assert': {
+        const condition = action.condition;
+        if (condition.metric === 'headsAgree') return `Assert heads ${condition.value ? 'agree' : 'differ'}`;
+        return `Assert ${condition.metric} ${condition.op} ${condition.value} on ${condition.node ?? 'all online nodes'}`;
+      }
+    }
+  }
+
+  /**
+   * Apply an action to the network
+   * @returns Whether an assertion held and what was observed (always passed for other actions)
+   */
+  private static async runAction(networkManager: NetworkManager, action: ScenarioAction): Promise<{ passed: boolean; message: string }> {
+    const done = { passed: true, message: 'ok' };
+    switch (action.type) {
+      case 'partition':
+        networkManager.setPartition(action.groups, action.mode);
+        return done;
+      case 'heal':
+        networkManager.healPartition();
+        return done;
+      case 'setDelayMultiplier':
+        ScenarioRunner.requireNode(networkManager, action.node);
+        networkManager.setNodeNetworkDelayMultiplier(action.node, action.multiplier);
+        return done;
+      case 'setLink':
+        ScenarioRunner.requireNode(networkManager, action.from);
+        ScenarioRunner.requireNode(networkManager, action.to);
+        networkManager.getLinkModel().setLinkProfile(action.from, action.to, action.profile, action.bidirectional);
+        return done;
+      case 'submitTransaction': {
+        ScenarioRunner.requireNode(networkManager, action.from);
+        const recipient = networkManager.getNode(action.to)?.getNodeAddress() ?? action.to;
+        const added = await networkManager.addTransactionToNodeMempool(action.from, recipient, action.amount, action.data);
+        if (!added) throw new Error(`${action.from} rejected the transaction`);
+        return done;
+      }
+      case 'setOnline':
+        ScenarioRunner.requireNode(networkManager, action.node);
+        networkManager.setNodeOnline(action.node, action.online);
+        return done;
+      case 'addNode':
+        return { passed: true, message: `${networkManager.addNode(action.peers)} joined` };
+      case 'removeNode':
+        ScenarioRunner.requireNode(networkManager, action.node);
+        networkManager.removeNode(action.node);
+        return done;
+      case 'crash':
+        ScenarioRunner.requireNode(networkManager, action.node);
+        networkManager.crashNode(action.node);
+        return done;
+      case 'restart':
+        ScenarioRunner.requireNode(networkManager, action.node);
+        networkManager.restartNode(action.node, action.keepState ?? true);
+        return done;
+      case 'setBehaviour':
+        ScenarioRunner.requireNode(networkManager, action.node);
+        (action.censor ?? []).forEach(nodeId => ScenarioRunner.requireNode(networkManager, nodeId));
+        networkManager.setNodeBehaviour(action.node, action.behaviour, action.censor);
+        return done;
+      case 'setSync':
+        if (action.enabled) {
+          networkManager.startSync();
+        } else {
+          networkManager.stopSync();
+        }
+        return done;
+      case 'assert':
+        return ScenarioRunner.checkCondition(networkManager, action.condition);
+    }
+  }
+
+  /**
+   * Evaluate a condition against the current state of the network
+   */
+  private static checkCondition(networkManager: NetworkManager, condition: ScenarioCondition): { passed: boolean; message: string } {
+    const { nodes, headsAgree } = SimulationRunner.summarizeNetwork(networkManager);
+
+    if (condition.metric === 'headsAgree') {
+      const heads = nodes.map(node => `${node.nodeId}=${node.headHash?.slice(0, 8)}`).join(', ');
+      return { passed: headsAgree === condition.value, message: heads };
+    }
+
+    if (condition.node) ScenarioRunner.requireNode(networkManager, condition.node);
+    const checked = condition.node
+      ? nodes.filter(node => node.nodeId === condition.node)
+      : nodes.filter(node => node.online);
+    const values = checked.map(node => ({ nodeId: node.nodeId, value: ScenarioRunner.getMetric(node, condition.metric) }));
+
+    return {
+      passed: values.length > 0 && values.every(({ value }) => ScenarioRunner.compare(value, condition.op, condition.value)),
+      message: values.map(({ nodeId, value }) => `${nodeId}=${value}`).join(', ')
+    };
+  }
+
+  /**
+   * Read a metric from a node summary
+   */
+  private static getMetric(node: NodeSummary, metric: ScenarioMetric): number {
+    switch (metric) {
+      case 'finalizedEpoch': return node.finalizedCheckpoint?.epoch ?? -1;
+      case 'justifiedEpoch': return node.justifiedEpoch;
+      case 'headSlot': return node.headSlot ?? 0;
+      case 'height': return node.height;
+      case 'reorgCount': return node.reorgCount;
+      case 'slashedValidators': return node.slashedValidators;
+    }
+  }
+
+  private static compare(actual: number, op: ScenarioOperator, expected: number): boolean {
+    switch (op) {
+      case '>=': return actual >= expected;
+      case '>': return actual > expected;
+      case '<=': return actual <= expected;
+      case '<': return actual < expected;
+      case '==': return actual === expected;
+      case '!=': return actual !== expected;
+    }
+  }
+
+  private static requireNode(networkManager: NetworkManager, nodeId: string): void {
+    if (!networkManager.getNode(nodeId)) throw new Error(`Unknown node "${nodeId}"`);
+  }
+
+  /**
+   * Check the fields an action needs (scenarios usually come from hand-written JSON)
+   */
+  private static validateAction(action: ScenarioAction | undefined, where: string): void {
+    const isNumber = (value: unknown) => typeof value === 'number' && !Number.isNaN(value);
+    const isString = (value: unknown) => typeof value === 'string' && value.length > 0;
+    const fail = (problem: string) => { throw new Error(`${where}: ${problem}`); };
+
+    switch (action?.type) {
+      case 'partition':
+        if (!Array.isArray(action.groups) || !action.groups.every(group => Array.isArray(group) && group.every(isString))) {
+          fail('"groups" must be an array of node id arrays');
+        }
+        if (action.mode !== undefined && action.mode !== 'drop' && action.mode !== 'queue') fail('"mode" must be "drop" or "queue"');
+        return;
+      case 'heal':
+        return;
+      case 'setDelayMultiplier':
+        if (!isString(action.node) || !isNumber(action.multiplier) || action.multiplier <= 0) fail('needs "node" and a positive "multiplier"');
+        return;
+      case 'setLink': {
+        if (!isString(action.from) || !isString(action.to) || typeof action.profile !== 'object' || action.profile === null) {
+          fail('needs "from", "to" and a "profile" object');
+        }
+        const { distribution, ...numbers } = action.profile;
+        if (distribution !== undefined && distribution !== 'uniform' && distribution !== 'normal') fail('"distribution" must be "uniform" or "normal"');
+        if (!Object.values(numbers).every(value => isNumber(value) && (value as number) >= 0)) fail('profile values must be non-negative numbers');
+        return;
+      }
+      case 'submitTransaction':
+        if (!isString(action.from) || !isString(action.to) || !isNumber(action.amount)) fail('needs "from", "to" and "amount"');
+        return;
+      case 'setOnline':
+        if (!isString(action.node) || typeof action.online !== 'boolean') fail('needs "node" and boolean "online"');
+        return;
+      case 'addNode':
+        if (action.peers !== undefined && (!Array.isArray(action.peers) || !action.peers.every(isString))) fail('"peers" must be an array of node ids');
+        return;
+      case 'removeNode':
+      case 'crash':
+        if (!isString(action.node)) fail('needs "node"');
+        return;
+      case 'restart':
+        if (!isString(action.node)) fail('needs "node"');
+        if (action.keepState !== undefined && typeof action.keepState !== 'boolean') fail('"keepState" must be a boolean');
+        return;
+      case 'setBehaviour':
+        if (!isString(action.node) || !NODE_BEHAVIOURS.includes(action.behaviour)) fail(`needs "node" and "behaviour" (${NODE_BEHAVIOURS.join(', ')})`);
+        if (action.censor !== undefined && (!Array.isArray(action.censor) || !action.censor.every(isString))) fail('"censor" must be an array of node ids');
+        return;
+      case 'setSync':
+        if (typeof action.enabled !== 'boolean') fail('needs boolean "enabled"');
+        return;
+      case 'assert': {
+        const condition = action.condition;
+        if (condition?.metric === 'headsAgree') {
+          if (typeof condition.value !== 'boolean') fail('headsAgree needs a boolean "value"');
+        } else if (!METRICS.includes(condition?.metric) || !OPERATORS.includes(condition.op) || !isNumber(condition.value)) {
+          fail(`condition needs "metric" (${[...METRICS, 'headsAgree'].join(', ')}), "op" (${OPERATORS.join(' ')}) and a number "value"`);
+        }
+        return;
+      }
+      default:
+        fail(`unknown action type "${(action as { type?: string } | undefined)?.type}"`);
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { Scenario, ScenarioRunner } from '../scenarioRunner';
+import partitionAndHeal from './partition-and-heal.json';
+import offlineValidator from './offline-validator.json';
+import equivocatingProposer from './equivocating-proposer.json';
+import joinAndRestart from './join-and-restart.json';
+
+/**
+ * Example scenarios offered in the UI (validated on load)
+ */
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  partitionAndHeal,
+  offlineValidator,
+  equivocatingProposer,
+  joinAndRestart
+].map(scenario => ScenarioRunner.parse(scenario));
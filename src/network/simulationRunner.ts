@@ -0,0 +1,176 @@
+import { NetworkManager } from './networkManager';
+import { SimulatorConfig } from '../config/config';
+import { EPM, EPMStorage } from '../core/epm/EPM';
+import { Validator } from '../core/consensus/beaconState';
+import { Account, NodeState } from '../types/types';
+
+/**
+ * Options for a headless simulation run
+ */
+export interface SimulationRunOptions {
+  slots: number;                                        // Number of slots of virtual time to run
+  nodeCount?: number;                                   // Defaults to SimulatorConfig.NODE_COUNT
+  configOverrides?: Partial<typeof SimulatorConfig>;    // Applied for the duration of the run
+  sync?: boolean;                                       // Schedule LMD-GHOST head broadcasts (default true)
+  setup?: (networkManager: NetworkManager) => void;     // Called once the network is built, before it runs
+}
+
+/**
+ * Final state of one node
+ */
+export interface NodeSummary {
+  nodeId: string;
+  address: string;
+  headHash: string | null;
+  headSlot: number | null;
+  height: number;                                       // Canonical chain length including genesis
+  justifiedEpoch: number;
+  finalizedCheckpoint: { epoch: number; root: string | null } | null;
+  reorgCount: number;
+  slashedValidators: number;                            // Validators this node has seen slashed
+  online: boolean;
+}
+
+/**
+ * Outcome of the EPM painting contract (from the first node's world state)
+ */
+export interface EpmSummary {
+  contractAddress: string;
+  complete: boolean;
+  winnerColor: string | null;                           // Final winner, or current leader while painting
+  winnerPixels: number;
+  winnerAddress: string | null;                         // Only set once painting is complete
+  rewardAmount: number | null;
+}
+
+/**
+ * Summary of a finished run
+ */
+export interface SimulationSummary {
+  seed: number;
+  nodeCount: number;
+  slots: number;
+  epochs: number;
+  startTimeMs: number;
+  endTimeMs: number;                                    // Virtual time the run stopped at
+  wallClockMs: number;                                  // Real time the run took
+  config: typeof SimulatorConfig;
+  nodes: NodeSummary[];
+  headsAgree: boolean;                                  // All nodes ended on the same GHOST-HEAD
+  finalizedCheckpoint: { epoch: number; root: string | null } | null;  // Highest finalized checkpoint of any node
+  totalReorgs: number;
+  epm: EpmSummary[];
+}
+
+/**
+ * SimulationRunner - Runs a network without the UI
+ *
+ * Builds a NetworkManager in the configured topology, runs it for a number of slots as fast as the
+ * scheduler allows and summarizes the final state. Used by the command-line runner
+ * (src/cli/simulate.ts) for batch experiments and parameter sweeps.
+ */
+export class SimulationRunner {
+  /**
+   * Run a simulation and summarize it
+   * Config overrides are applied before the network is built and restored afterwards,
+   * so several runs with different parameters can be made in one process
+   */
+  static async run(options: SimulationRunOptions): Promise<SimulationSummary> {
+    const previousConfig = { ...SimulatorConfig };
+    Object.assign(SimulatorConfig, options.configOverrides ?? {});
+
+    const networkManager = new NetworkManager();
+    try {
+      const nodeCount = options.nodeCount ?? SimulatorConfig.NODE_COUNT;
+      networkManager.createNetwork(nodeCount);
+      if (options.sync ?? true) networkManager.startSync();
+      networkManager.startSlotProcessing();
+      options.setup?.(networkManager);
+
+      const startTimeMs = networkManager.getClock().now();
+      const wallStart = Date.now();
+      await networkManager.getScheduler().runFor(options.slots * SimulatorConfig.SECONDS_PER_SLOT * 1000);
+
+      return {
+        seed: networkManager.getRandom().getSeed(),
+        nodeCount,
+        slots: options.slots,
+        epochs: options.slots / SimulatorConfig.SLOTS_PER_EPOCH,
+        startTimeMs,
+        endTimeMs: networkManager.getClock().now(),
+        wallClockMs: Date.now() - wallStart,
+        config: { ...SimulatorConfig },
+        ...SimulationRunner.summarizeNetwork(networkManager)
+      };
+    } finally {
+      networkManager.stopAllNodes();
+      Object.assign(SimulatorConfig, previousConfig);
+    }
+  }
+
+  /**
+   * Summarize the current state of every node in a network
+   */
+  static summarizeNetwork(networkManager: NetworkManager): Pick<SimulationSummary, 'nodes' | 'headsAgree' | 'finalizedCheckpoint' | 'totalReorgs' | 'epm'> {
+    const states = Object.values(networkManager.getNetworkState()) as NodeState[];
+    const nodes = states.map(state => SimulationRunner.summarizeNode(state));
+
+    // Highest finalized checkpoint seen by any node
+    let finalizedCheckpoint: NodeSummary['finalizedCheckpoint'] = null;
+    for (const node of nodes) {
+      if (node.finalizedCheckpoint && (!finalizedCheckpoint || node.finalizedCheckpoint.epoch > finalizedCheckpoint.epoch)) {
+        finalizedCheckpoint = node.finalizedCheckpoint;
+      }
+    }
+
+    return {
+      nodes,
+      headsAgree: nodes.every(node => node.headHash === nodes[0]?.headHash),
+      finalizedCheckpoint,
+      totalReorgs: nodes.reduce((sum, node) => sum + node.reorgCount, 0),
+      epm: states.length > 0 ? SimulationRunner.summarizeEpm(states[0].worldState) : []
+    };
+  }
+
+  /**
+   * Summarize one node's chain and finality
+   */
+  private static summarizeNode(state: NodeState): NodeSummary {
+    const head = state.blockchain[state.blockchain.length - 1];
+    return {
+      nodeId: state.nodeId,
+      address: state.address,
+      headHash: head?.hash ?? null,
+      headSlot: head?.header.slot ?? null,
+      height: state.blockchain.length,
+      justifiedEpoch: state.beaconState?.justifiedCheckpoint.epoch ?? -1,
+      finalizedCheckpoint: state.beaconState?.finalizedCheckpoint ?? null,
+      reorgCount: state.reorgCount ?? 0,
+      slashedValidators: (state.beaconState?.validators ?? []).filter((validator: Validator) => validator.slashed).length,
+      online: state.online ?? true
+    };
+  }
+
+  /**
+   * Summarize every EPM contract in a world state
+   */
+  private static summarizeEpm(worldState: Record<string, Account>): EpmSummary[] {
+    const summaries: EpmSummary[] = [];
+    for (const account of Object.values(worldState)) {
+      const storage = account.storage as EPMStorage | undefined;
+      if (!storage?.colorCounts) continue;
+
+      const leader = EPM.getWinner(storage);
+      const complete = storage.winnerColor !== undefined;
+      summaries.push({
+        contractAddress: account.address,
+        complete,
+        winnerColor: storage.winnerColor ?? leader?.color ?? null,
+        winnerPixels: leader?.count ?? 0,
+        winnerAddress: storage.winnerAddress ?? null,
+        rewardAmount: storage.rewardAmount ?? null
+      });
+    }
+    return summaries;
+  }
+}
@@ -0,0 +1,238 @@
+import { SimulatorConfig } from '../config/config';
+import { SeededRandom } from '../core/simulation/seededRandom';
+
+/**
+ * Shapes of network the simulator can build
+ */
+export type TopologyType = 'mesh' | 'ring' | 'star' | 'line' | 'random-regular' | 'small-world' | 'custom';
+
+export const TOPOLOGY_TYPES: TopologyType[] = ['mesh', 'ring', 'star', 'line', 'random-regular', 'small-world', 'custom'];
+
+/**
+ * Peers of each node (links are two-way: a node is listed as a peer of each of its peers)
+ */
+export type Topology = Map<string, string[]>;
+
+/**
+ * Parameters of the topologies that need more than the node ids
+ */
+export interface TopologyOptions {
+  degree?: number;             // Peers per node (random-regular, small-world)
+  rewireProbability?: number;  // Chance each link is rewired to a random node (small-world)
+  adjacency?: string;          // Custom links, e.g. "Blue: Green, Red; Red: Yellow"
+}
+
+/**
+ * TopologyBuilder - Builds the peer lists for each shape of network
+ *
+ * Random topologies draw from the network's seeded PRNG, so the same seed builds the same graph.
+ */
+export class TopologyBuilder {
+  /**
+   * Build a topology from its type
+   * Options default to TOPOLOGY_DEGREE, TOPOLOGY_REWIRE_PROBABILITY and CUSTOM_TOPOLOGY
+   * @throws Error for unknown types and invalid options
+   */
+  static build(type: string, nodeIds: string[], random: SeededRandom, options: TopologyOptions = {}): Topology {
+    const degree = options.degree ?? SimulatorConfig.TOPOLOGY_DEGREE;
+    switch (type) {
+      case 'mesh': return TopologyBuilder.mesh(nodeIds);
+      case 'ring': return TopologyBuilder.ring(nodeIds);
+      case 'star': return TopologyBuilder.star(nodeIds);
+      case 'line': return TopologyBuilder.line(nodeIds);
+      case 'random-regular': return TopologyBuilder.randomRegular(nodeIds, degree, random);
+      case 'small-world':
+        return TopologyBuilder.smallWorld(nodeIds, degree, options.rewireProbability ?? SimulatorConfig.TOPOLOGY_REWIRE_PROBABILITY, random);
+      case 'custom': return TopologyBuilder.custom(nodeIds, options.adjacency ?? SimulatorConfig.CUSTOM_TOPOLOGY);
+      default:
+        throw new Error(`Unknown topology "${type}" (expected ${TOPOLOGY_TYPES.join(', ')})`);
+    }
+  }
+
+  /**
+   * Every node is a peer of every other node
+   */
+  static mesh(nodeIds: string[]): Topology {
+    return new Map(nodeIds.map(nodeId => [nodeId, nodeIds.filter(id => id !== nodeId)]));
+  }
+
+  /**
+   * Each node is linked to the next, and the last to the first
+   */
+  static ring(nodeIds: string[]): Topology {
+    const links = nodeIds.map((nodeId, i) => [nodeId, nodeIds[(i + 1) % nodeIds.length]] as [string, string]);
+    return TopologyBuilder.fromLinks(nodeIds, links);
+  }
+
+  /**
+   * Every node is linked only to the first node (the hub)
+   */
+  static star(nodeIds: string[]): Topology {
+    return TopologyBuilder.fromLinks(nodeIds, nodeIds.slice(1).map(nodeId => [nodeIds[0], nodeId] as [string, string]));
+  }
+
+  /**
+   * Each node is linked to the next - a ring with one link missing
+   */
+  static line(nodeIds: string[]): Topology {
+    return TopologyBuilder.fromLinks(nodeIds, nodeIds.slice(1).map((nodeId, i) => [nodeIds[i], nodeId] as [string, string]));
+  }
+
+  /**
+   * Random graph where every node has exactly `degree` peers
+   * Pairs up free link ends at random and starts over when it gets stuck
+   * @throws Error if no such graph exists (degree >= node count, or node count x degree is odd)
+   */
+  static randomRegular(nodeIds: string[], degree: number, random: SeededRandom): Topology {
+    const n = nodeIds.length;
+    if (degree < 0 || degree >= n || (n * degree) % 2 !== 0) {
+      throw new Error(`No ${degree}-regular graph exists for ${n} nodes (needs degree < node count and node count x degree even)`);
+    }
+
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const topology = TopologyBuilder.fromLinks(nodeIds, []);
+      const ends = nodeIds.flatMap(nodeId => Array<string>(degree).fill(nodeId));
+
+      let stuck = false;
+      while (ends.length > 0 && !stuck) {
+        stuck = true;
+        for (let tries = 0; tries < 50; tries++) {
+          const i = random.nextInt(0, ends.length - 1);
+          const j = random.nextInt(0, ends.length - 1);
+          const a = ends[i];
+          const b = ends[j];
+          if (a === b || topology.get(a)!.includes(b)) continue;
+
+          topology.get(a)!.push(b);
+          topology.get(b)!.push(a);
+          ends.splice(Math.max(i, j), 1);
+          ends.splice(Math.min(i, j), 1);
+          stuck = false;
+          break;
+        }
+      }
+      if (!stuck) return topology;
+    }
+    throw new Error(`Could not build a random ${degree}-regular graph for ${n} nodes`);
+  }
+
+  /**
+   * Watts-Strogatz small world: a ring where each node is linked to its `degree` nearest
+   * neighbours, then each link is moved to a random node with `rewireProbability`
+   */
+  static smallWorld(nodeIds: string[], degree: number, rewireProbability: number, random: SeededRandom): Topology {
+    const n = nodeIds.length;
+    const half = Math.max(1, Math.floor(Math.min(degree, n - 1) / 2));
+    const topology = TopologyBuilder.fromLinks(nodeIds, []);
+    const link = (a: string, b: string) => {
+      topology.get(a)!.push(b);
+      topology.get(b)!.push(a);
+    };
+    const unlink = (a: string, b: string) => {
+      topology.set(a, topology.get(a)!.filter(id => id !== b));
+      topology.set(b, topology.get(b)!.filter(id => id !== a));
+    };
+
+    // Ring lattice
+    for (let i = 0; i < n; i++) {
+      for (let step = 1; step <= half; step++) {
+        const neighbour = nodeIds[(i + step) % n];
+        if (neighbour !== nodeIds[i] && !topology.get(nodeIds[i])!.includes(neighbour)) {
+          link(nodeIds[i], neighbour);
+        }
+      }
+    }
+
+    // Rewire each lattice link's far end to a random node it isn't linked to yet
+    if (rewireProbability > 0) {
+      for (let i = 0; i < n; i++) {
+        for (let step = 1; step <= half; step++) {
+          const a = nodeIds[i];
+          const b = nodeIds[(i + step) % n];
+          if (!topology.get(a)!.includes(b) || random.next() >= rewireProbability) continue;
+
+          const candidates = nodeIds.filter(id => id !== a && !topology.get(a)!.includes(id));
+          if (candidates.length === 0) continue;
+          unlink(a, b);
+          link(a, random.pick(candidates));
+        }
+      }
+    }
+    return topology;
+  }
+
+  /**
+   * Links listed as "Node: Peer, Peer; Node: Peer" (separated by ";" or new lines)
+   * Links are two-way, so each only needs to be listed once
+   * @throws Error for unknown node ids or malformed entries
+   */
+  static custom(nodeIds: string[], adjacency: string): Topology {
+    const links: [string, string][] = [];
+    const requireNode = (nodeId: string) => {
+      if (!nodeIds.includes(nodeId)) throw new Error(`Custom topology: unknown node "${nodeId}"`);
+    };
+
+    for (const entry of adjacency.split(/[;\n]/).map(text => text.trim()).filter(Boolean)) {
+      const [nodeId, peers, extra] = entry.split(':').map(text => text.trim());
+      if (!nodeId || peers === undefined || extra !== undefined) {
+        throw new Error(`Custom topology: expected "Node: Peer, Peer", got "${entry}"`);
+      }
+      requireNode(nodeId);
+      for (const peerId of peers.split(',').map(text => text.trim()).filter(Boolean)) {
+        requireNode(peerId);
+        if (peerId !== nodeId) links.push([nodeId, peerId]);
+      }
+    }
+    return TopologyBuilder.fromLinks(nodeIds, links);
+  }
+
+  /**
+   * Describe a topology as a custom adjacency list (each link listed once)
+   */
+  static toAdjacencyText(topology: Topology): string {
+    const nodeIds = Array.from(topology.keys());
+    return nodeIds
+      .map(nodeId => {
+        const later = topology.get(nodeId)!.filter(peerId => nodeIds.indexOf(peerId) > nodeIds.indexOf(nodeId));
+        return later.length > 0 ? `${nodeId}: ${later.join(', ')}` : null;
+      })
+      .filter(Boolean)
+      .join('; ');
+  }
+
+  /**
+   * Longest shortest path between two nodes, in hops (Infinity if the graph is disconnected)
+   */
+  static getDiameter(topology: Topology): number {
+    let diameter = 0;
+    for (const start of topology.keys()) {
+      const distance = new Map<string, number>([[start, 0]]);
+      const queue = [start];
+      while (queue.length > 0) {
+        const nodeId = queue.shift()!;
+        for (const peerId of topology.get(nodeId) ?? []) {
+          if (!distance.has(peerId)) {
+            distance.set(peerId, distance.get(nodeId)! + 1);
+            queue.push(peerId);
+          }
+        }
+      }
+      if (distance.size < topology.size) return Infinity;
+      diameter = Math.max(diameter, ...distance.values());
+    }
+    return diameter;
+  }
+
+  /**
+   * Two-way topology from a list of links (duplicate links are ignored)
+   */
+  private static fromLinks(nodeIds: string[], links: [string, string][]): Topology {
+    const topology: Topology = new Map(nodeIds.map(nodeId => [nodeId, [] as string[]]));
+    for (const [a, b] of links) {
+      if (a === b || topology.get(a)!.includes(b)) continue;
+      topology.get(a)!.push(b);
+      topology.get(b)!.push(a);
+    }
+    return topology;
+  }
+}
@@ -19,9 +19,10 @@ export interface TransactionReceipt {
   // Execution result
   status: 0 | 1;                   // 0 = failure/reverted, 1 = success
   
-  // Gas (simplified for now, can expand later for PoS)
-  gasUsed: number;                 // Gas consumed by this transaction
-  cumulativeGasUsed: number;       // Total gas used in block up to this tx
+  // Gas
+  gasUsed: number;                 // Gas consumed by this transaction (the rest of its gas limit is refunded)
+  cumulativeGasUsed: number;       // Total gas used in block up to and including this tx
+  effectiveGasPrice: number;       // Gas price paid in gwei (fee = gasUsed * effectiveGasPrice)
   
   // Contract creation
   contractAddress: string | null;  // Address of created contract (if any)
@@ -10,17 +10,27 @@
  * Ethereum-style transaction with single from/to addresses
  */
 export interface EthereumTransaction {
-  from: string;           // Sender address (sha256 of publicKey)
+  from: string;           // Sender address (must be the address recovered from the signature)
   to: string;             // Recipient address (sha256 of publicKey or contract address)
   value: number;          // Amount to transfer (decimal ETH)
   nonce: number;          // Sender's transaction count (prevents replay attacks)
+  gasLimit: number;       // Most gas the transaction may use (sender must afford all of it up front)
+  maxFeePerGas: number;   // Most the sender pays per unit of gas in gwei (base fee + tip)
+  maxPriorityFeePerGas: number; // Most tip per unit of gas in gwei, paid to the block proposer
   data?: string;          // Contract call data
-  publicKey: string;      // Sender's public key (proves from address)
-  signature: string;      // Signature of transaction data (proves authorization)
+  signature: string;      // Recoverable signature r || s || v of the txid (proves authorization and yields the sender)
   timestamp: number;      // When transaction was created
   txid: string;           // Transaction hash (required)
 }
 
+/**
+ * Fee caps of an EIP-1559 transaction, in gwei per unit of gas
+ */
+export interface TransactionFees {
+  maxFeePerGas: number;
+  maxPriorityFeePerGas: number;
+}
+
 /**
  * Account in the world state
  * Can be either an Externally Owned Account (EOA) or a Contract Account
@@ -42,22 +52,38 @@ export interface Account {
 
 export interface BlockHeader { // note: we dont have a field for headers hash, we compute that runtime upon validation to keep process robust
   transactionHash: string;  // SHA256 hash of all transactions
+  bodyRoot: string;         // SHA256 hash of the consensus body (attestations, slashings, RANDAO reveal)
   timestamp: number;        // Local machine time
   previousHeaderHash: string; // Previous block's header hash
   ceiling?: number;         // Target threshold value (PoW only, not used in PoS)
   nonce?: number;           // Value miners adjust to find valid hash (PoW only, not used in PoS)
   height: number;           // Block height in the chain
   slot: number;             // PoS slot number when block was proposed
+  proposerAddress?: string; // Validator scheduled to propose this slot (absent for genesis)
+  gasUsed: number;          // Gas used by the block's transactions
+  baseFeePerGas: number;    // Base fee in gwei every transaction in the block pays per gas (burned, EIP-1559)
+  proposerSignature?: string; // Proposer's BLS signature over the header without this field
 }
 
 export interface Block {
   header: BlockHeader;
   transactions: EthereumTransaction[];
-  attestations: Attestation[]; // Attestations for the previous block (PoS consensus)
+  attestations: AggregatedAttestation[]; // Attestations for earlier blocks, aggregated per committee and vote (PoS consensus)
   randaoReveal?: string; // BLS signature revealing proposer's RANDAO contribution for this epoch
+  proposerSlashings?: ProposerSlashing[]; // Evidence of proposers that signed two blocks for one slot
+  attesterSlashings?: AttesterSlashing[]; // Evidence of validators that cast conflicting FFG votes
   hash?: string;      // Calculated hash of the block header
 }
 
+/**
+ * Withdrawal of a validator's stake from the consensus layer to an execution layer account
+ */
+export interface Withdrawal {
+  validatorAddress: string; // Validator whose stake is withdrawn
+  address: string;          // Execution layer account credited (validator's withdrawal address)
+  amount: number;           // ETH withdrawn
+}
+
 export interface NodeState {
   nodeId: string;
   blockchain: Block[];
@@ -65,11 +91,17 @@ export interface NodeState {
   beaconState?: any; // Optional beacon state (Consensus Layer)
   worldState: Record<string, Account>;
   receipts?: any; // Optional receipts database
+  reorgCount?: number; // Number of reorgs the node has gone through
   mempool?: EthereumTransaction[]; // Optional mempool for pending transactions
   consensusStatus?: 'idle' | 'validating' | 'proposing'; // PoS consensus activity status
   networkDelayMultiplier?: number; // Network delay multiplier for this node (1.0 = normal)
+  online?: boolean; // False while the node is taken offline
+  partitionGroup?: number | null; // Side of the network partition the node is on (null = no partition)
+  behaviour?: string; // Consensus behaviour: 'honest' or a Byzantine strategy (see consensusStrategy.ts)
+  censoredNodeIds?: string[]; // Nodes a censoring node leaves out of its blocks
   peerIds: string[];
   publicKey: string;
+  blsPublicKey?: string; // Validator (BLS) public key
   address: string;
 }
 
@@ -81,6 +113,43 @@ export interface Attestation {
   validatorAddress: string;  // Address of the validator making the attestation
   blockHash: string;         // Hash of the block being attested to
   timestamp: number;         // When the attestation was created
+  slot?: number;             // Slot of the committee the validator attested in
+  ffgSource?: { epoch: number; root: string }; // Casper FFG source checkpoint
+  ffgTarget?: { epoch: number; root: string }; // Casper FFG target checkpoint
+  signature?: string;        // BLS signature over the attestation data (slot, head, source, target)
+}
+
+/**
+ * Attestations with identical data from one slot's committee, combined for block inclusion
+ * A single aggregated BLS signature replaces the participants' individual signatures
+ */
+export interface AggregatedAttestation {
+  slot: number;               // Committee slot
+  blockHash: string;          // Hash of the block being attested to (LMD-GHOST head vote)
+  ffgSource: { epoch: number; root: string }; // Casper FFG source checkpoint
+  ffgTarget: { epoch: number; root: string }; // Casper FFG target checkpoint
+  aggregationBits: boolean[]; // aggregationBits[i] is true if committee member i participated
+  signature: string;          // Aggregated BLS signature of all participants
+}
+
+/**
+ * Evidence that a proposer produced two different blocks for the same slot
+ * Packaged into a block so the proposer can be slashed by the consensus layer
+ */
+export interface ProposerSlashing {
+  proposerAddress: string;   // Address of the equivocating proposer
+  header1: BlockHeader;      // Header of the first block seen for the slot
+  header2: BlockHeader;      // Header of the conflicting block for the same slot
+}
+
+/**
+ * Evidence that a validator cast two conflicting Casper FFG votes
+ * Either a double vote (same target epoch, different target root)
+ * or a surround vote (one vote's source/target span surrounds the other)
+ */
+export interface AttesterSlashing {
+  attestation1: Attestation;
+  attestation2: Attestation;
 }
 
 /**
@@ -35,7 +35,7 @@ export function hexToBytes(hex: string): Uint8Array {
  * Signature input data for Ethereum transactions
  * 
  * We sign just the txid (transaction ID) because:
- * - txid = hash(from, to, value, nonce, timestamp)
+ * - txid = hash(signing payload: the chain ID and every transaction field)
  * - The txid cryptographically commits to all transaction data
  * - Signing the txid proves authorization of the complete transaction
  * - During validation, we verify both:
@@ -121,22 +121,50 @@ export function generateAddress(publicKey: string): string {
 }
 
 /**
- * Generates a signature for transaction data
+ * Hashes signature input the way it is signed
+ * @param data The data to hash
+ * @returns The message hash as bytes
+ */
+function hashSignatureInput(data: SignatureInput): Uint8Array {
+  return sha256(new TextEncoder().encode(JSON.stringify(data)));
+}
+
+/**
+ * Splits a recoverable signature into its parts
+ * r and s are the ECDSA signature; v (0 or 1) is the recovery id, which picks the one public key
+ * of the two that fit (r, s) and the message - like yParity in Ethereum's typed transactions
+ * @param signature The signature as r || s || v (65 bytes of hex)
+ * @returns r and s as hex strings and v as a number
+ */
+export function splitSignature(signature: string): { r: string; s: string; v: number } {
+  if (!/^[0-9a-f]{128}0[01]$/i.test(signature)) {
+    throw new Error(`Not a recoverable signature: ${signature}`);
+  }
+  return {
+    r: signature.slice(0, 64),
+    s: signature.slice(64, 128),
+    v: parseInt(signature.slice(128), 16)
+  };
+}
+
+/**
+ * Generates a recoverable signature for transaction data
+ * The signer's public key can be recovered from the signature and the data, so transactions
+ * need not carry it (like Ethereum's r, s, v)
  * @param data The data to sign
  * @param privateKey The private key to sign with
- * @returns The signature as a hex string
+ * @returns The signature as r || s || v (65 bytes of hex)
  */
 export async function generateSignature(data: SignatureInput, privateKey: string): Promise<string> {
   try {
     // Create a message hash from the transaction data
-    const messageString = JSON.stringify(data);
-    const messageHash = sha256(new TextEncoder().encode(messageString));
+    const messageHash = hashSignatureInput(data);
     
-    // Sign the message hash with the private key
-    const signatureBytes = await secp.sign(messageHash, privateKey);
+    // Sign with a low s value (as Ethereum requires) and keep the recovery id
+    const [signatureBytes, recovery] = await secp.sign(messageHash, privateKey, { recovered: true, canonical: true, der: false });
     
-    // Convert signature to hex string
-    return bytesToHex(signatureBytes);
+    // Append v to the compact (r, s) signature
+    return bytesToHex(signatureBytes) + recovery.toString(16).padStart(2, '0');
   } catch (error) {
     console.error('Error generating signature:', error);
     // Use a fallback signature in case of error
@@ -163,21 +191,54 @@ export async function verifySignature(
     }
     
     // Create message hash from the transaction data
-    const messageString = JSON.stringify(data);
-    const messageHash = sha256(new TextEncoder().encode(messageString));
+    const messageHash = hashSignatureInput(data);
     
-    // Convert hex signature and public key to bytes
-    const signatureBytes = hexToBytes(signature);
+    // Only (r, s) is needed to verify against a known public key
+    const { r, s } = splitSignature(signature);
     const publicKeyBytes = hexToBytes(publicKey);
     
     // Verify the signature
-    return await secp.verify(signatureBytes, messageHash, publicKeyBytes);
+    return secp.verify(secp.Signature.fromCompact(r + s), messageHash, publicKeyBytes);
   } catch (error) {
     console.error('Error verifying signature:', error);
     return false;
   }
 }
 
+/**
+ * Recovers the public key that produced a signature
+ * Any valid signature recovers to some public key - callers must check it is the one they expect
+ * @param data The data that was signed
+ * @param signature The signature as r || s || v
+ * @returns The compressed public key as a hex string, or null if the signature is malformed
+ */
+export function recoverPublicKey(data: SignatureInput, signature: string): string | null {
+  try {
+    if (signature.startsWith('error-')) {
+      return null;
+    }
+    
+    const messageHash = hashSignatureInput(data);
+    const { r, s, v } = splitSignature(signature);
+    
+    return secp.Point.fromSignature(messageHash, secp.Signature.fromCompact(r + s), v).toHex(true);
+  } catch (error) {
+    console.error('Error recovering public key:', error);
+    return null;
+  }
+}
+
+/**
+ * Recovers the address that produced a signature (the sender of a signed transaction)
+ * @param data The data that was signed
+ * @param signature The signature as r || s || v
+ * @returns The signer's address, or null if the signature is malformed
+ */
+export function recoverAddress(data: SignatureInput, signature: string): string | null {
+  const publicKey = recoverPublicKey(data, signature);
+  return publicKey ? generateAddress(publicKey) : null;
+}
+
 /**
  * Utility function to convert hex string to bytes
  * @param hex The hex string to convert
@@ -231,6 +292,17 @@ export function generateBLSKeyPair(): { privateKey: string; publicKey: string }
   };
 }
 
+/**
+ * Derives the BLS public key for a private key
+ * The simulator reuses each node's private key as its BLS validator key
+ * 
+ * @param privateKeyHex The private key (hex string)
+ * @returns The BLS public key (G1 point) as a hex string
+ */
+export function deriveBLSPublicKey(privateKeyHex: string): string {
+  return PrivateKey.fromHex(privateKeyHex).getG1().toHex();
+}
+
 /**
  * Generates a BLS signature for the given message
  * Uses AugSchemeMPL (Augmented Scheme) - more secure, used by Ethereum
@@ -316,14 +388,9 @@ export function verifyBLSSignature(
       // Aggregated verification: multiple signers on the same message
       const publicKeys = publicKeyHex.map(pk => JacobianPoint.fromHexG1(pk));
       
-      // Aggregate public keys by summing points
-      let aggregatedPublicKey = publicKeys[0];
-      for (let i = 1; i < publicKeys.length; i++) {
-        aggregatedPublicKey = aggregatedPublicKey.add(publicKeys[i]);
-      }
-      
-      // Verify with aggregated public key
-      return AugSchemeMPL.verify(aggregatedPublicKey, messageBytes, signature);
+      // AugSchemeMPL prefixes every message with the signer's public key, so the
+      // signers' messages differ and the public keys cannot simply be summed
+      return AugSchemeMPL.aggregateVerify(publicKeys, publicKeys.map(() => messageBytes), signature);
     } else {
       // Single signature verification
       const publicKey = JacobianPoint.fromHexG1(publicKeyHex);
@@ -335,6 +402,37 @@ export function verifyBLSSignature(
   }
 }
 
+// Results of earlier BLS verifications: message:signature:publicKeys -> valid
+const blsVerificationCache: Map<string, boolean> = new Map();
+const MAX_BLS_VERIFICATION_CACHE_SIZE = 1000;
+
+/**
+ * Verifies a BLS signature, reusing the result of an earlier identical verification
+ * Pairing checks take hundreds of milliseconds in JavaScript, and every simulated node
+ * runs in the same runtime and verifies the same blocks and attestations
+ * 
+ * @param message The message that was signed
+ * @param signatureHex The BLS signature to verify (hex string)
+ * @param publicKeyHex The BLS public key or array of public keys for aggregated signatures
+ * @returns True if the signature is valid, false otherwise
+ */
+export function verifyBLSSignatureCached(
+  message: string,
+  signatureHex: string,
+  publicKeyHex: string | string[]
+): boolean {
+  const key = `${message}:${signatureHex}:${Array.isArray(publicKeyHex) ? publicKeyHex.join(',') : publicKeyHex}`;
+  const cached = blsVerificationCache.get(key);
+  if (cached !== undefined) return cached;
+  
+  const valid = verifyBLSSignature(message, signatureHex, publicKeyHex);
+  if (blsVerificationCache.size >= MAX_BLS_VERIFICATION_CACHE_SIZE) {
+    blsVerificationCache.clear();
+  }
+  blsVerificationCache.set(key, valid);
+  return valid;
+}
+
 /**
  * Aggregates multiple BLS signatures into a single signature
  * This is the key feature of BLS - constant-size aggregated signatures
@@ -26,21 +26,31 @@ export const COLOR_CSS: Record<PaintColorName, string> = {
 };
 
 /**
- * Static map of node IDs to paint colors
+ * Paint color (EPM team) of each node, registered by the NetworkManager as nodes are created
  */
-const NODE_COLOR_MAP: Record<string, PaintColorName> = {
-  'Blue': 'blue',
-  'Green': 'green',
-  'Red': 'red',
-  'Yellow': 'yellow'
-};
+const nodePaintColors: Map<string, PaintColorName> = new Map();
+
+/**
+ * Get the paint color of the team that the nth node created joins
+ * Nodes join the teams in turn, so teams stay the same size as the network grows
+ */
+export function getTeamPaintColor(nodeIndex: number): PaintColorName {
+  return PAINT_COLORS[nodeIndex % PAINT_COLORS.length];
+}
+
+/**
+ * Register the paint color (team) of a node
+ */
+export function setNodePaintColor(nodeId: string, color: PaintColorName): void {
+  nodePaintColors.set(nodeId, color);
+}
 
 /**
- * Get the deterministic paint color for a node based on its ID
+ * Get the paint color of a node's team
  */
 export function getNodePaintColor(nodeId: string): PaintColorName {
-  // Use static map if available, otherwise default to blue
-  return NODE_COLOR_MAP[nodeId] || 'blue';
+  // Nodes created outside a network have no team - default to blue
+  return nodePaintColors.get(nodeId) || 'blue';
 }
 
 /**
@@ -7,25 +7,16 @@ const NODE_NAMES = [
   'Blue', 'Green', 'Red', 'Yellow'
 ];
 
-/**
- * Generates a random node ID using a color name
- */
-export function generateNodeId(): string {
-  // Pick a random color name
-  const randomIndex = Math.floor(Math.random() * NODE_NAMES.length);
-  return NODE_NAMES[randomIndex];
-}
-
 /**
  * Generates an array of unique node IDs
- * @throws Error if count exceeds the number of available node names
+ * The first four are the plain color names; after that the names repeat with a number
+ * (Blue, Green, Red, Yellow, Blue-2, Green-2, ..., Yellow-32 for 128 nodes)
  */
 export function generateUniqueNodeIds(count: number): string[] {
-  if (count > NODE_NAMES.length) {
-    throw new Error(`Cannot generate more than ${NODE_NAMES.length} unique node IDs without duplicates`);
-  }
-  
-  // Simply take the first N color names
-  // This ensures deterministic naming: first node is Blue, second is Green, etc.
-  return NODE_NAMES.slice(0, count);
+  // Deterministic naming: first node is Blue, second is Green, etc.
+  return Array.from({ length: count }, (_, index) => {
+    const name = NODE_NAMES[index % NODE_NAMES.length];
+    const round = Math.floor(index / NODE_NAMES.length);
+    return round === 0 ? name : `${name}-${round + 1}`;
+  });
 }